@@ -0,0 +1,199 @@
+#!/usr/bin/env node
+// Local WebSocket server for trying out live widgets without an API key.
+// Replays the ticks in scripts/fixtures/ticks.json in a loop, in the shape of
+// Finnhub's trade feed, to the symbols each client subscribes to.
+//
+//   npm run mock:stream -- --port 8765 --speed 2 --file scripts/fixtures/ticks.json
+//
+// Widget stream settings:
+//   URL           ws://localhost:8765
+//   Subscribe     {"type":"subscribe","symbol":"{{symbol}}"}
+//   Unsubscribe   {"type":"unsubscribe","symbol":"{{symbol}}"}
+//   Heartbeat     {"type":"ping"}
+//   Ticks at      data
+//
+// Clients that subscribe to nothing receive every tick. Only what the
+// dashboard needs of the protocol is implemented: unfragmented text frames,
+// ping and close.
+
+const http = require('http');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+function readOption(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const port = Number(readOption('port', process.env.PORT || 8765));
+const speed = Number(readOption('speed', 1)) || 1;
+const file = path.resolve(readOption('file', path.join(__dirname, 'fixtures', 'ticks.json')));
+const { ticks } = JSON.parse(fs.readFileSync(file, 'utf8'));
+if (!Array.isArray(ticks) || ticks.length === 0) {
+  console.error(`No ticks in ${file}`);
+  process.exit(1);
+}
+const loopLength = ticks[ticks.length - 1].offset + 1000;
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Splits complete frames off the front of the buffer; the rest waits for more data
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    if (masked) cursor += 4;
+    if (buffer.length < cursor + length) break;
+
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+class Client {
+  constructor(socket, id) {
+    this.socket = socket;
+    this.id = id;
+    this.symbols = new Set();
+    this.buffer = Buffer.alloc(0);
+    this.timer = null;
+    this.position = 0;
+    this.loopStart = Date.now();
+
+    socket.on('data', chunk => this.receive(chunk));
+    socket.on('close', () => this.stop('disconnected'));
+    socket.on('error', () => this.stop('errored'));
+    this.scheduleNext();
+  }
+
+  send(message) {
+    if (!this.socket.destroyed) this.socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  }
+
+  receive(chunk) {
+    const { frames, rest } = decodeFrames(Buffer.concat([this.buffer, chunk]));
+    this.buffer = rest;
+    frames.forEach(({ opcode, payload }) => {
+      if (opcode === 0x8) {
+        this.socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+      } else if (opcode === 0x9) {
+        this.socket.write(encodeFrame(0xa, payload));
+      } else if (opcode === 0x1) {
+        this.handleMessage(payload.toString('utf8'));
+      }
+    });
+  }
+
+  handleMessage(text) {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      this.send({ type: 'error', msg: 'Messages must be JSON' });
+      return;
+    }
+    const symbol = typeof message.symbol === 'string' ? message.symbol.toUpperCase() : null;
+    if (message.type === 'subscribe' && symbol) {
+      this.symbols.add(symbol);
+      console.log(`client ${this.id} subscribed to ${symbol}`);
+    } else if (message.type === 'unsubscribe' && symbol) {
+      this.symbols.delete(symbol);
+      console.log(`client ${this.id} unsubscribed from ${symbol}`);
+    } else if (message.type === 'ping') {
+      this.send({ type: 'pong' });
+    }
+  }
+
+  // Ticks are replayed at their recorded spacing and stamped with the current time
+  scheduleNext() {
+    const tick = ticks[this.position];
+    const due = this.loopStart + tick.offset / speed;
+    this.timer = setTimeout(() => {
+      const { offset, ...trade } = tick;
+      if (this.symbols.size === 0 || this.symbols.has(trade.s)) {
+        this.send({ type: 'trade', data: [{ ...trade, t: Date.now() }] });
+      }
+      this.position++;
+      if (this.position === ticks.length) {
+        this.position = 0;
+        this.loopStart += loopLength / speed;
+      }
+      this.scheduleNext();
+    }, Math.max(0, due - Date.now()));
+  }
+
+  stop(reason) {
+    if (!this.timer) return;
+    clearTimeout(this.timer);
+    this.timer = null;
+    console.log(`client ${this.id} ${reason}`);
+  }
+}
+
+const server = http.createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('This is a WebSocket endpoint\n');
+});
+
+let nextId = 1;
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || (req.headers.upgrade || '').toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '\r\n',
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+  const client = new Client(socket, nextId++);
+  console.log(`client ${client.id} connected`);
+});
+
+server.listen(port, () => {
+  console.log(`Replaying ${ticks.length} ticks from ${path.relative(process.cwd(), file)} on ws://localhost:${port} (speed ${speed}x)`);
+});
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import axios from 'axios';
+import { FORWARDED_RESPONSE_HEADERS, ProxyRequest } from '@/services/apiProxy';
+import { MissingSecretError, SecretHostError } from '@/services/serverSecrets';
+import {
+  BlockedTargetError,
+  findBlockedTarget,
+  guardedAxiosConfig,
+  prepareUpstreamRequest,
+  UpstreamRequest,
+} from '@/services/upstreamRequest';
+
+export const dynamic = 'force-dynamic';
+
+const UPSTREAM_TIMEOUT = 15000; // 15 seconds
+const ALLOWED_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+export async function POST(request: Request) {
+  let payload: ProxyRequest;
+
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ message: 'Invalid proxy request body' }, { status: 400 });
+  }
+
+  const method = (payload.method || 'GET').toUpperCase();
+  if (!payload.url || !ALLOWED_METHODS.includes(method)) {
+    return NextResponse.json({ message: 'A target URL and a supported method are required' }, { status: 400 });
+  }
+
+  let upstreamRequest: UpstreamRequest;
+  try {
+    upstreamRequest = prepareUpstreamRequest({
+      url: payload.url,
+      method,
+      headers: payload.headers,
+      body: method !== 'GET' && typeof payload.body === 'string' ? payload.body : undefined,
+    });
+  } catch (error) {
+    if (error instanceof MissingSecretError || error instanceof SecretHostError) {
+      return NextResponse.json({ message: error.message }, { status: 400 });
+    }
+    if (error instanceof BlockedTargetError) {
+      return NextResponse.json({ message: error.message }, { status: 403 });
+    }
+    return NextResponse.json({ message: 'Invalid target URL' }, { status: 400 });
+  }
+
+  try {
+    const upstream = await axios.request<string>({
+      ...guardedAxiosConfig(upstreamRequest),
+      url: upstreamRequest.url,
+      method,
+      headers: upstreamRequest.headers,
+      data: upstreamRequest.body,
+      timeout: UPSTREAM_TIMEOUT,
+      responseType: 'text',
+      transformResponse: [(data) => data],
+      validateStatus: () => true,
+    });
+
+    const responseHeaders = new Headers();
+    FORWARDED_RESPONSE_HEADERS.forEach(name => {
+      const value = upstream.headers[name];
+      if (value) {
+        responseHeaders.set(name, String(value));
+      }
+    });
+
+    // Mirror the upstream status and body so the client-side error handler
+    // classifies failures exactly as it would for a direct request
+    return new NextResponse(upstream.data, {
+      status: upstream.status,
+      headers: responseHeaders,
+    });
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.code === 'ECONNABORTED') {
+      return NextResponse.json({ message: 'Upstream request timeout' }, { status: 504 });
+    }
+    // A redirect or DNS answer pointing at a private address
+    const blocked = findBlockedTarget(error);
+    if (blocked) {
+      return NextResponse.json({ message: blocked.message }, { status: 403 });
+    }
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Upstream request failed' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { ApiTestRequest, ApiTestResult, testApiRequest } from '@/services/apiTester';
+import { MissingSecretError, SecretHostError } from '@/services/serverSecrets';
+import {
+  BlockedTargetError,
+  findBlockedTarget,
+  guardedAxiosConfig,
+  prepareUpstreamRequest,
+  UpstreamRequest,
+} from '@/services/upstreamRequest';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_TIMEOUT = 15000; // 15 seconds
+const MIN_TIMEOUT = 1000;
+const MAX_TIMEOUT = 30000;
+const ALLOWED_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+interface TestEndpointBody extends ApiTestRequest {
+  timeout?: number;
+}
+
+// Results go back over JSON, so drop the raw axios error (it is circular)
+function toResponse(result: ApiTestResult) {
+  if (!result.apiError) {
+    return NextResponse.json(result);
+  }
+
+  const { originalError, ...apiError } = result.apiError;
+  return NextResponse.json({ ...result, apiError });
+}
+
+function toFailure(message: string): ApiTestResult {
+  return {
+    success: false,
+    error: message,
+    apiError: { type: 'unknown', message, canRetry: false },
+    canRetry: false,
+  };
+}
+
+export async function POST(request: Request) {
+  let payload: TestEndpointBody;
+
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json(toFailure('Invalid request body'), { status: 400 });
+  }
+
+  const method = (payload.method || 'GET').toUpperCase();
+  if (!payload.url || !ALLOWED_METHODS.includes(method)) {
+    return NextResponse.json(toFailure('A URL and a supported method are required'), { status: 400 });
+  }
+
+  let upstreamRequest: UpstreamRequest;
+  try {
+    upstreamRequest = prepareUpstreamRequest({
+      url: payload.url,
+      method,
+      headers: payload.headers,
+      body: method === 'GET' ? undefined : payload.body,
+    });
+  } catch (error) {
+    if (error instanceof BlockedTargetError) {
+      return NextResponse.json(toFailure(error.message), { status: 403 });
+    }
+    const message = error instanceof MissingSecretError || error instanceof SecretHostError ? error.message : 'Invalid URL';
+    return NextResponse.json(toFailure(message), { status: 400 });
+  }
+
+  const requested = Number(payload.timeout) || DEFAULT_TIMEOUT;
+  const timeout = Math.min(Math.max(requested, MIN_TIMEOUT), MAX_TIMEOUT);
+  const result = await testApiRequest(
+    {
+      url: upstreamRequest.url,
+      method,
+      headers: upstreamRequest.headers,
+      body: upstreamRequest.body,
+    },
+    timeout,
+    false,
+    guardedAxiosConfig(upstreamRequest)
+  );
+
+  // A redirect or DNS answer pointing at a private address
+  const blocked = findBlockedTarget(result.apiError?.originalError);
+  if (blocked) {
+    return NextResponse.json(toFailure(blocked.message), { status: 403 });
+  }
+
+  // The test itself succeeded even if the upstream API failed; the outcome is
+  // reported in the result body
+  return toResponse(result);
+}
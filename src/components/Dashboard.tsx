@@ -1,14 +1,16 @@
 'use client';
 
 import { useEffect } from 'react';
-// Removed react-beautiful-dnd import - using HTML5 drag and drop instead
 import { useDashboardStore } from '@/store/dashboardStore';
 import { useAutoRefresh } from '@/hooks/useAutoRefresh';
 import { useResponsive } from '@/hooks/useResponsive';
+import { useUndoRedo } from '@/hooks/useUndoRedo';
+import { useAlertNotifications } from '@/hooks/useAlertNotifications';
+import { useRateLimitNotifications } from '@/hooks/useRateLimitNotifications';
+import { useVaultNotifications } from '@/hooks/useVaultNotifications';
 import Header from './layout/Header';
-import WidgetContainer from './widgets/WidgetContainer';
 import AddWidgetModal from './modals/AddWidgetModal';
-import ErrorBoundary from './layout/ErrorBoundary';
+import DashboardGrid from './layout/DashboardGrid';
 import { Plus } from 'lucide-react';
 
 export default function Dashboard() {
@@ -17,41 +19,20 @@ export default function Dashboard() {
     theme,
     showAddWidget,
     setShowAddWidget,
-    reorderWidgets,
   } = useDashboardStore();
 
-  const { isMobile, getGridColumns } = useResponsive();
+  const { getGridBreakpoint } = useResponsive();
   useAutoRefresh();
+  useUndoRedo();
+  useAlertNotifications();
+  useRateLimitNotifications();
+  useVaultNotifications();
 
   useEffect(() => {
     // Initialize theme on mount
     document.documentElement.classList.toggle('dark', theme === 'dark');
   }, [theme]);
 
-  const handleDragStart = (e: React.DragEvent, widgetId: string, index: number) => {
-    e.dataTransfer.setData('text/plain', JSON.stringify({ widgetId, index }));
-    e.dataTransfer.effectAllowed = 'move';
-  };
-
-  const handleDragOver = (e: React.DragEvent) => {
-    e.preventDefault();
-    e.dataTransfer.dropEffect = 'move';
-  };
-
-  const handleDrop = (e: React.DragEvent, targetIndex: number) => {
-    e.preventDefault();
-    try {
-      const data = JSON.parse(e.dataTransfer.getData('text/plain'));
-      const { index: sourceIndex } = data;
-      
-      if (sourceIndex !== targetIndex) {
-        reorderWidgets(sourceIndex, targetIndex);
-      }
-    } catch (error) {
-      // Silently handle drag and drop errors
-    }
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 dark:from-gray-900 dark:via-blue-900/20 dark:to-purple-900/20 relative overflow-hidden">
       {/* Gradient Orbs */}
@@ -84,30 +65,7 @@ export default function Dashboard() {
             </div>
           </div>
         ) : (
-          <div className="flex flex-wrap gap-4 items-start">
-            {widgets.map((widget, index) => (
-              <div
-                key={widget.id}
-                draggable
-                onDragStart={(e) => handleDragStart(e, widget.id, index)}
-                onDragOver={handleDragOver}
-                onDrop={(e) => handleDrop(e, index)}
-                className="transition-all duration-200 hover:scale-[1.02]"
-              >
-                <ErrorBoundary>
-                  <WidgetContainer
-                    widget={widget}
-                    dragHandleProps={{
-                      onMouseDown: (e: React.MouseEvent) => {
-                        e.currentTarget.closest('[draggable]')?.setAttribute('draggable', 'true');
-                      }
-                    }}
-                    isDragging={false}
-                  />
-                </ErrorBoundary>
-              </div>
-            ))}
-          </div>
+          <DashboardGrid widgets={widgets} breakpoint={getGridBreakpoint()} />
         )}
 
         {/* Floating Add Button */}
@@ -0,0 +1,34 @@
+'use client';
+
+import toast, { Toast } from 'react-hot-toast';
+import { BellRing, X } from 'lucide-react';
+import { AlertEvent } from '@/services/alertEngine';
+
+interface AlertToastProps {
+  t: Toast;
+  alert: AlertEvent;
+}
+
+export default function AlertToast({ t, alert }: AlertToastProps) {
+  return (
+    <div className="flex items-start space-x-3">
+      <BellRing className="w-5 h-5 mt-0.5 flex-shrink-0 text-amber-500" />
+      <div className="min-w-0">
+        <p className="text-sm font-semibold">{alert.widgetTitle}</p>
+        <p className="text-sm">{alert.message}</p>
+      </div>
+      <button
+        onClick={() => toast.dismiss(t.id)}
+        className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+        aria-label="Dismiss alert"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+// Stays up longer than other toasts, since it may arrive while nobody is looking
+export function showAlertToast(alert: AlertEvent) {
+  return toast((t) => <AlertToast t={t} alert={alert} />, { id: alert.id, duration: 10000 });
+}
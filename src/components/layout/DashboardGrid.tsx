@@ -0,0 +1,205 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { GridBreakpoint, GridRect, Widget } from '@/types';
+import { useDashboardStore } from '@/store/dashboardStore';
+import {
+  GRID_COLUMNS,
+  GRID_GAP,
+  GRID_ROW_HEIGHT,
+  GridItem,
+  compactLayout,
+  getLayoutHeight,
+  getMinSize,
+  getWidgetRect,
+  moveItem,
+} from '@/services/gridLayout';
+import ErrorBoundary from './ErrorBoundary';
+import WidgetContainer from '../widgets/WidgetContainer';
+
+interface DashboardGridProps {
+  widgets: Widget[];
+  breakpoint: GridBreakpoint;
+}
+
+interface Interaction {
+  id: string;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  origin: GridRect;
+}
+
+export default function DashboardGrid({ widgets, breakpoint }: DashboardGridProps) {
+  const { setWidgetLayouts } = useDashboardStore();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [containerWidth, setContainerWidth] = useState(0);
+  const [interaction, setInteraction] = useState<Interaction | null>(null);
+  const [pointerOffset, setPointerOffset] = useState({ dx: 0, dy: 0 });
+  const [preview, setPreview] = useState<Record<string, GridRect> | null>(null);
+  // The items as they were when the interaction started and the last layout
+  // it produced, so data refreshes during a drag don't reset either
+  const dragRef = useRef<{ items: GridItem[]; latest: Record<string, GridRect> | null } | null>(null);
+
+  const columns = GRID_COLUMNS[breakpoint];
+  const columnWidth = containerWidth > 0
+    ? (containerWidth - GRID_GAP * (columns - 1)) / columns
+    : 0;
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    setContainerWidth(element.clientWidth);
+    const observer = new ResizeObserver((entries) => {
+      setContainerWidth(entries[0].contentRect.width);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const items: GridItem[] = useMemo(
+    () => widgets.map((widget) => ({
+      id: widget.id,
+      rect: getWidgetRect(widget, breakpoint),
+      ...getMinSize(widget, columnWidth),
+    })),
+    [widgets, breakpoint, columnWidth]
+  );
+
+  const layout = useMemo(
+    () => preview || compactLayout(items, columns),
+    [preview, items, columns]
+  );
+
+  // Track the pointer on the window while dragging or resizing so the
+  // interaction survives the cursor leaving the widget
+  useEffect(() => {
+    if (!interaction) return;
+
+    const cellWidth = columnWidth + GRID_GAP;
+    const cellHeight = GRID_ROW_HEIGHT + GRID_GAP;
+
+    const handleMove = (e: PointerEvent) => {
+      const dx = e.clientX - interaction.startX;
+      const dy = e.clientY - interaction.startY;
+      const { origin } = interaction;
+
+      const rect = interaction.mode === 'move'
+        ? {
+            ...origin,
+            x: origin.x + Math.round(dx / cellWidth),
+            y: origin.y + Math.round(dy / cellHeight),
+          }
+        : {
+            ...origin,
+            w: origin.w + Math.round(dx / cellWidth),
+            h: origin.h + Math.round(dy / cellHeight),
+          };
+
+      const drag = dragRef.current;
+      if (!drag) return;
+      drag.latest = moveItem(drag.items, interaction.id, rect, columns);
+      setPointerOffset({ dx, dy });
+      setPreview(drag.latest);
+    };
+
+    const handleUp = () => {
+      const latest = dragRef.current?.latest;
+      if (latest) {
+        setWidgetLayouts(breakpoint, latest);
+      }
+      dragRef.current = null;
+      setInteraction(null);
+      setPreview(null);
+      setPointerOffset({ dx: 0, dy: 0 });
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [interaction, columns, columnWidth, breakpoint, setWidgetLayouts]);
+
+  const startInteraction = (e: React.PointerEvent, id: string, mode: Interaction['mode']) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    dragRef.current = { items, latest: null };
+    setInteraction({
+      id,
+      mode,
+      startX: e.clientX,
+      startY: e.clientY,
+      origin: layout[id],
+    });
+  };
+
+  const toPixels = (rect: GridRect) => ({
+    left: rect.x * (columnWidth + GRID_GAP),
+    top: rect.y * (GRID_ROW_HEIGHT + GRID_GAP),
+    width: rect.w * columnWidth + (rect.w - 1) * GRID_GAP,
+    height: rect.h * GRID_ROW_HEIGHT + (rect.h - 1) * GRID_GAP,
+  });
+
+  const activeStyle = (id: string) => {
+    if (!interaction || interaction.id !== id) return toPixels(layout[id]);
+
+    // The active widget follows the pointer; the placeholder shows where it will snap
+    const origin = toPixels(interaction.origin);
+    const minWidth = columnWidth;
+    const minHeight = GRID_ROW_HEIGHT;
+    return interaction.mode === 'move'
+      ? { ...origin, left: origin.left + pointerOffset.dx, top: origin.top + pointerOffset.dy }
+      : {
+          ...origin,
+          width: Math.max(minWidth, origin.width + pointerOffset.dx),
+          height: Math.max(minHeight, origin.height + pointerOffset.dy),
+        };
+  };
+
+  const rows = getLayoutHeight(Object.values(layout));
+  const height = rows > 0 ? rows * (GRID_ROW_HEIGHT + GRID_GAP) - GRID_GAP : 0;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative w-full ${interaction ? 'select-none' : ''}`}
+      style={{ height }}
+    >
+      {columnWidth > 0 && (
+        <>
+          {interaction && layout[interaction.id] && (
+            <div className="grid-placeholder" style={toPixels(layout[interaction.id])} />
+          )}
+
+          {widgets.map((widget) => layout[widget.id] && (
+            <div
+              key={widget.id}
+              className={`grid-item ${interaction?.id === widget.id ? 'active' : ''}`}
+              style={activeStyle(widget.id)}
+            >
+              <ErrorBoundary>
+                <WidgetContainer
+                  widget={widget}
+                  dragHandleProps={{
+                    onPointerDown: (e: React.PointerEvent) => startInteraction(e, widget.id, 'move'),
+                    style: { touchAction: 'none' },
+                  }}
+                  isDragging={interaction?.id === widget.id && interaction.mode === 'move'}
+                />
+              </ErrorBoundary>
+              <div
+                className="resize-handle"
+                style={{ touchAction: 'none' }}
+                onPointerDown={(e) => startInteraction(e, widget.id, 'resize')}
+                aria-label="Resize widget"
+              />
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
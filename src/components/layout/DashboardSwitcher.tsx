@@ -0,0 +1,194 @@
+'use client';
+
+import { useState } from 'react';
+import { useDashboardStore } from '@/store/dashboardStore';
+import {
+  Check,
+  ChevronDown,
+  Copy,
+  LayoutDashboard,
+  Pencil,
+  Plus,
+  Trash2
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+export default function DashboardSwitcher() {
+  const {
+    dashboards,
+    activeDashboardId,
+    createDashboard,
+    renameDashboard,
+    cloneDashboard,
+    deleteDashboard,
+    switchDashboard,
+  } = useDashboardStore();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [newName, setNewName] = useState('');
+
+  const activeDashboard = dashboards.find((d) => d.id === activeDashboardId);
+
+  const handleSwitch = (id: string) => {
+    switchDashboard(id);
+    setIsOpen(false);
+  };
+
+  const startRename = (id: string, name: string) => {
+    setEditingId(id);
+    setEditName(name);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId && editName.trim()) {
+      renameDashboard(editingId, editName);
+    }
+    setEditingId(null);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    createDashboard(newName);
+    toast.success(`Dashboard "${newName.trim()}" created`);
+    setNewName('');
+    setIsOpen(false);
+  };
+
+  const handleClone = (id: string) => {
+    if (cloneDashboard(id)) {
+      toast.success('Dashboard cloned');
+      setIsOpen(false);
+    }
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (dashboards.length <= 1) {
+      toast.error('You need at least one dashboard');
+      return;
+    }
+    if (confirm(`Delete dashboard "${name}"? This will remove all of its widgets.`)) {
+      deleteDashboard(id);
+      toast.success('Dashboard deleted');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        aria-label="Switch dashboard"
+      >
+        <LayoutDashboard className="w-4 h-4" />
+        <span className="max-w-[10rem] truncate">{activeDashboard?.name || 'Dashboard'}</span>
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div
+            className="fixed inset-0 z-40"
+            onClick={() => {
+              setIsOpen(false);
+              setEditingId(null);
+            }}
+          />
+          <div className="absolute left-0 mt-2 w-72 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50">
+            <div className="p-2 max-h-72 overflow-y-auto">
+              {dashboards.map((dashboard) => (
+                <div
+                  key={dashboard.id}
+                  className={`group flex items-center space-x-2 px-2 py-1.5 rounded-md ${
+                    dashboard.id === activeDashboardId
+                      ? 'bg-blue-50 dark:bg-blue-900/20'
+                      : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  {editingId === dashboard.id ? (
+                    <form onSubmit={handleRename} className="flex-1 flex items-center space-x-1">
+                      <input
+                        type="text"
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        className="input-field py-1 text-sm"
+                        autoFocus
+                      />
+                      <button
+                        type="submit"
+                        className="p-1 text-green-600 hover:text-green-700"
+                        aria-label="Save name"
+                      >
+                        <Check className="w-4 h-4" />
+                      </button>
+                    </form>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => handleSwitch(dashboard.id)}
+                        className="flex-1 text-left text-sm text-gray-700 dark:text-gray-300 truncate"
+                      >
+                        <span className="font-medium">{dashboard.name}</span>
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                          {dashboard.widgets.length} widget{dashboard.widgets.length !== 1 ? 's' : ''}
+                        </span>
+                      </button>
+                      <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          onClick={() => startRename(dashboard.id, dashboard.name)}
+                          className="p-1 text-gray-500 hover:text-blue-600"
+                          title="Rename dashboard"
+                        >
+                          <Pencil className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => handleClone(dashboard.id)}
+                          className="p-1 text-gray-500 hover:text-blue-600"
+                          title="Clone dashboard"
+                        >
+                          <Copy className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(dashboard.id, dashboard.name)}
+                          disabled={dashboards.length <= 1}
+                          className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-30"
+                          title="Delete dashboard"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <form
+              onSubmit={handleCreate}
+              className="flex items-center space-x-2 p-2 border-t border-gray-200 dark:border-gray-700"
+            >
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="New dashboard name"
+                className="input-field py-1 text-sm flex-1"
+              />
+              <button
+                type="submit"
+                disabled={!newName.trim()}
+                className="btn-secondary px-2 py-1"
+                aria-label="Create dashboard"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </form>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { useDashboardStore } from '@/store/dashboardStore';
+import { recordNotification } from '@/store/notificationStore';
 import { 
   Moon, 
   Sun, 
@@ -10,26 +11,54 @@ import {
   Upload, 
   RefreshCw,
   Plus,
-  BarChart3 
+  BarChart3,
+  Undo2,
+  Redo2,
+  KeyRound,
+  Database
 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import DashboardSwitcher from './DashboardSwitcher';
+import RateBudgetMenu from './RateBudgetMenu';
+import NotificationCenter from './NotificationCenter';
+import { showUndoToast } from './UndoToast';
+import ImportDashboardModal from '../modals/ImportDashboardModal';
+import CredentialVaultModal from '../modals/CredentialVaultModal';
+import { useCredentialVault } from '@/hooks/useCredentialVault';
+import { apiCache } from '@/services/apiCache';
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.round(bytes / 1024)} KB`;
 
 export default function Header() {
   const {
     theme,
     widgets,
+    autoRefresh,
+    refreshInterval,
     setTheme,
+    setAutoRefresh,
+    setRefreshInterval,
     setShowAddWidget,
     exportDashboard,
-    importDashboard,
     resetDashboard,
+    undo,
+    redo,
+    past,
+    future,
   } = useDashboardStore();
 
+  const vault = useCredentialVault();
   const [showSettings, setShowSettings] = useState(false);
+  const [showVault, setShowVault] = useState(false);
+  const [includeVault, setIncludeVault] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; content: string } | null>(null);
 
   const handleExport = () => {
     try {
-      const config = exportDashboard();
+      const config = exportDashboard({ includeVault: includeVault && vault.initialized });
       const blob = new Blob([config], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -40,8 +69,15 @@ export default function Header() {
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
       toast.success('Dashboard exported successfully!');
+      recordNotification({ kind: 'export', title: 'Dashboard exported', message: a.download, success: true });
     } catch (error) {
       toast.error('Failed to export dashboard');
+      recordNotification({
+        kind: 'export',
+        title: 'Export failed',
+        message: error instanceof Error ? error.message : 'Failed to export dashboard',
+        success: false,
+      });
     }
   };
 
@@ -51,26 +87,34 @@ export default function Header() {
 
     const reader = new FileReader();
     reader.onload = (e) => {
-      try {
-        const config = e.target?.result as string;
-        importDashboard(config);
-        toast.success('Dashboard imported successfully!');
-        setShowSettings(false);
-      } catch (error) {
-        toast.error('Failed to import dashboard');
-      }
+      // Validation and the merge/replace choice happen in the import dialog
+      setPendingImport({ fileName: file.name, content: e.target?.result as string });
+      setShowSettings(false);
+    };
+    reader.onerror = () => {
+      toast.error('Failed to read dashboard file');
+      recordNotification({ kind: 'import', title: 'Import failed', message: `Could not read ${file.name}`, success: false });
     };
     reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const handleClearCache = () => {
+    apiCache.clear();
+    toast.success('Response cache cleared');
+    setShowSettings(false);
   };
 
   const handleReset = () => {
     if (confirm('Are you sure you want to reset your dashboard? This will remove all widgets.')) {
       resetDashboard();
-      toast.success('Dashboard reset successfully!');
+      showUndoToast('Dashboard reset successfully!');
       setShowSettings(false);
     }
   };
 
+  const cacheStats = showSettings ? apiCache.getStats() : null;
+
   return (
     <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
       <div className="container mx-auto px-4 py-4">
@@ -88,6 +132,7 @@ export default function Header() {
                 {widgets.length} widget{widgets.length !== 1 ? 's' : ''} active
               </p>
             </div>
+            <DashboardSwitcher />
           </div>
 
           {/* Actions */}
@@ -101,6 +146,32 @@ export default function Header() {
               <span className="hidden sm:inline">Add Widget</span>
             </button>
 
+            {/* Undo / Redo */}
+            <button
+              onClick={undo}
+              disabled={past.length === 0}
+              className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              aria-label="Undo"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+            </button>
+            <button
+              onClick={redo}
+              disabled={future.length === 0}
+              className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              aria-label="Redo"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+            </button>
+
+            {/* Remaining API quota */}
+            <RateBudgetMenu />
+
+            {/* Alert and error history */}
+            <NotificationCenter />
+
             {/* Theme Toggle */}
             <button
               onClick={() => setTheme(theme === 'light' ? 'dark' : 'light')}
@@ -127,6 +198,65 @@ export default function Header() {
               {showSettings && (
                 <div className="absolute right-0 mt-2 w-64 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50">
                   <div className="p-4 space-y-4">
+                    {/* Refresh policy for the active dashboard */}
+                    <div className="space-y-2">
+                      <label className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                        <span>Auto refresh</span>
+                        <input
+                          type="checkbox"
+                          checked={autoRefresh}
+                          onChange={(e) => setAutoRefresh(e.target.checked)}
+                        />
+                      </label>
+                      <select
+                        value={refreshInterval}
+                        onChange={(e) => setRefreshInterval(Number(e.target.value))}
+                        disabled={!autoRefresh}
+                        className="input-field text-sm"
+                      >
+                        <option value={15}>Every 15 seconds</option>
+                        <option value={30}>Every 30 seconds</option>
+                        <option value={60}>Every minute</option>
+                        <option value={300}>Every 5 minutes</option>
+                        <option value={600}>Every 10 minutes</option>
+                      </select>
+                    </div>
+
+                    <hr className="border-gray-200 dark:border-gray-700" />
+
+                    {/* Response cache */}
+                    {cacheStats && (
+                      <div className="flex items-center space-x-2 px-3 text-xs text-gray-600 dark:text-gray-400">
+                        <Database className="w-4 h-4 flex-shrink-0" />
+                        <span className="flex-1">
+                          {cacheStats.size} cached · {Math.round(cacheStats.hitRate * 100)}% hits · {formatBytes(cacheStats.bytes)}
+                        </span>
+                        <button
+                          onClick={handleClearCache}
+                          className="text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          Clear
+                        </button>
+                      </div>
+                    )}
+
+                    <hr className="border-gray-200 dark:border-gray-700" />
+
+                    {/* Credential Vault */}
+                    <button
+                      onClick={() => {
+                        setShowVault(true);
+                        setShowSettings(false);
+                      }}
+                      className="w-full flex items-center space-x-2 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+                    >
+                      <KeyRound className="w-4 h-4" />
+                      <span className="flex-1 text-left">Credential Vault</span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {!vault.initialized ? 'Not set up' : vault.unlocked ? 'Unlocked' : 'Locked'}
+                      </span>
+                    </button>
+
                     <hr className="border-gray-200 dark:border-gray-700" />
 
                     {/* Export/Import */}
@@ -139,6 +269,16 @@ export default function Header() {
                         <span>Export Dashboard</span>
                       </button>
 
+                      <label className="flex items-center space-x-2 px-3 text-xs text-gray-600 dark:text-gray-400">
+                        <input
+                          type="checkbox"
+                          checked={includeVault && vault.initialized}
+                          onChange={(e) => setIncludeVault(e.target.checked)}
+                          disabled={!vault.initialized}
+                        />
+                        <span>Include encrypted vault in export</span>
+                      </label>
+
                       <label className="w-full flex items-center space-x-2 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors cursor-pointer">
                         <Upload className="w-4 h-4" />
                         <span>Import Dashboard</span>
@@ -169,6 +309,16 @@ export default function Header() {
         </div>
       </div>
 
+      {pendingImport && (
+        <ImportDashboardModal
+          fileName={pendingImport.fileName}
+          content={pendingImport.content}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
+
+      {showVault && <CredentialVaultModal onClose={() => setShowVault(false)} />}
+
       {/* Click outside to close settings */}
       {showSettings && (
         <div
@@ -0,0 +1,182 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, Bell, BellRing, CheckCheck, FileDown, FileUp, Gauge, Trash2, X } from 'lucide-react';
+import { AppNotification, NotificationKind } from '@/types';
+import { useNotificationStore } from '@/store/notificationStore';
+
+const KINDS: { id: NotificationKind; label: string }[] = [
+  { id: 'alert', label: 'Alerts' },
+  { id: 'error', label: 'Errors' },
+  { id: 'rate_limit', label: 'Rate limits' },
+  { id: 'import', label: 'Imports' },
+  { id: 'export', label: 'Exports' },
+];
+
+const ICONS: Record<NotificationKind, typeof Bell> = {
+  alert: BellRing,
+  error: AlertTriangle,
+  rate_limit: Gauge,
+  import: FileUp,
+  export: FileDown,
+};
+
+const iconColor = (notification: AppNotification) => {
+  if (notification.kind === 'alert') return 'text-amber-500';
+  if (notification.kind === 'error' || notification.success === false) return 'text-red-500';
+  if (notification.kind === 'rate_limit') return 'text-orange-500';
+  return 'text-green-500';
+};
+
+export default function NotificationCenter() {
+  const { notifications, markRead, removeNotification, clearNotifications } = useNotificationStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [widgetFilter, setWidgetFilter] = useState('');
+  const [kindFilter, setKindFilter] = useState<NotificationKind | ''>('');
+
+  // Widgets that have notifications, including ones removed since
+  const widgets = useMemo(() => {
+    const titles = new Map<string, string>();
+    notifications.forEach(n => {
+      if (n.widgetId && !titles.has(n.widgetId)) titles.set(n.widgetId, n.widgetTitle || n.widgetId);
+    });
+    return Array.from(titles.entries());
+  }, [notifications]);
+
+  const visible = notifications.filter(n =>
+    (!widgetFilter || n.widgetId === widgetFilter) && (!kindFilter || n.kind === kindFilter)
+  );
+  const unread = notifications.filter(n => !n.read).length;
+  const visibleUnread = visible.filter(n => !n.read).map(n => n.id);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        aria-label="Notifications"
+        title="Notifications"
+      >
+        <Bell className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] px-1 text-[10px] leading-4 text-center rounded-full bg-red-500 text-white">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-96 max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50">
+            <div className="p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                  Notifications{unread > 0 && ` (${unread} unread)`}
+                </h3>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => markRead(visibleUnread)}
+                    disabled={visibleUnread.length === 0}
+                    className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 disabled:opacity-40"
+                    title="Mark all as read"
+                  >
+                    <CheckCheck className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => clearNotifications(widgetFilter || kindFilter ? visible.map(n => n.id) : undefined)}
+                    disabled={visible.length === 0}
+                    className="p-1 text-red-500 hover:text-red-700 disabled:opacity-40"
+                    title="Clear"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={widgetFilter}
+                  onChange={(e) => setWidgetFilter(e.target.value)}
+                  className="input-field text-xs py-1"
+                >
+                  <option value="">All widgets</option>
+                  {widgets.map(([id, title]) => (
+                    <option key={id} value={id}>{title}</option>
+                  ))}
+                </select>
+                <select
+                  value={kindFilter}
+                  onChange={(e) => setKindFilter(e.target.value as NotificationKind | '')}
+                  className="input-field text-xs py-1"
+                >
+                  <option value="">All types</option>
+                  {KINDS.map(kind => (
+                    <option key={kind.id} value={kind.id}>{kind.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="max-h-96 overflow-y-auto -mx-4 border-t border-gray-100 dark:border-gray-700">
+                {visible.length === 0 ? (
+                  <p className="px-4 py-6 text-center text-xs text-gray-500 dark:text-gray-400">
+                    {notifications.length === 0
+                      ? 'Fired alerts, widget errors, rate limits and imports will show up here.'
+                      : 'Nothing matches these filters.'}
+                  </p>
+                ) : (
+                  visible.map(notification => {
+                    const Icon = ICONS[notification.kind];
+                    return (
+                      <div
+                        key={notification.id}
+                        onClick={() => !notification.read && markRead([notification.id])}
+                        className={`group flex items-start space-x-2 px-4 py-2 border-b border-gray-100 dark:border-gray-700 last:border-b-0 ${
+                          notification.read ? '' : 'bg-blue-50/60 dark:bg-blue-900/10 cursor-pointer'
+                        }`}
+                      >
+                        <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${iconColor(notification)}`} />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center space-x-2">
+                            <span className={`text-sm truncate text-gray-900 dark:text-gray-100 ${notification.read ? '' : 'font-semibold'}`}>
+                              {notification.title}
+                            </span>
+                            {notification.errorType && (
+                              <span className="text-[10px] px-1.5 rounded bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300">
+                                {notification.errorType.replace('_', ' ')}
+                              </span>
+                            )}
+                            {notification.count && notification.count > 1 && (
+                              <span className="text-[10px] px-1.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                                ×{notification.count}
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-xs text-gray-600 dark:text-gray-400 break-words">{notification.message}</p>
+                          <p className="text-[10px] text-gray-400 dark:text-gray-500" title={format(notification.time, 'PPpp')}>
+                            {formatDistanceToNow(notification.time, { addSuffix: true })}
+                          </p>
+                        </div>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            removeNotification(notification.id);
+                          }}
+                          className="p-0.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100"
+                          aria-label="Remove notification"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useDashboardStore } from '@/store/dashboardStore';
+import { rateLimiter, HostStatus, DEFAULT_RATE_BUDGETS } from '@/services/rateLimiter';
+import { Gauge, Plus, Trash2, RotateCcw } from 'lucide-react';
+
+const STATUS_REFRESH_INTERVAL = 5000; // buckets refill continuously
+
+// Fraction of the tightest remaining budget, used to colour the indicator
+const getUsage = (status: HostStatus): number => {
+  const ratios = [
+    status.perMinute && status.minuteRemaining !== undefined ? status.minuteRemaining / status.perMinute : 1,
+    status.perDay && status.dayRemaining !== undefined ? status.dayRemaining / status.perDay : 1,
+    status.serverLimit && status.serverRemaining !== undefined ? status.serverRemaining / status.serverLimit : 1,
+  ];
+  return Math.min(...ratios);
+};
+
+const formatRemaining = (remaining: number | undefined, limit: number | undefined, unit: string) =>
+  limit !== undefined && remaining !== undefined ? `${Math.max(0, remaining)}/${limit} ${unit}` : null;
+
+export default function RateBudgetMenu() {
+  const { rateBudgets, setRateBudgets } = useDashboardStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [statuses, setStatuses] = useState<HostStatus[]>([]);
+  const [host, setHost] = useState('');
+  const [perMinute, setPerMinute] = useState('');
+  const [perDay, setPerDay] = useState('');
+
+  useEffect(() => {
+    const update = () => setStatuses(rateLimiter.getStatus());
+    update();
+    const interval = setInterval(update, STATUS_REFRESH_INTERVAL);
+    const unsubscribe = rateLimiter.subscribe(update);
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, []);
+
+  const tightest = statuses.reduce<HostStatus | null>(
+    (lowest, status) => (!lowest || getUsage(status) < getUsage(lowest) ? status : lowest),
+    null
+  );
+  const queued = statuses.reduce((sum, status) => sum + status.queued, 0);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = host.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+    if (!name || (!perMinute && !perDay)) return;
+
+    setRateBudgets([
+      ...rateBudgets.filter(b => b.host !== name),
+      {
+        host: name,
+        ...(perMinute && { perMinute: Math.max(1, parseInt(perMinute)) }),
+        ...(perDay && { perDay: Math.max(1, parseInt(perDay)) }),
+      },
+    ]);
+    setHost('');
+    setPerMinute('');
+    setPerDay('');
+  };
+
+  const statusFor = (name: string) => statuses.find(s => s.host === name);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors flex items-center space-x-1"
+        aria-label="API rate budgets"
+        title="API rate budgets"
+      >
+        <Gauge
+          className={`w-5 h-5 ${
+            tightest && getUsage(tightest) <= 0
+              ? 'text-red-500'
+              : tightest && getUsage(tightest) < 0.3
+                ? 'text-amber-500'
+                : 'text-gray-600 dark:text-gray-400'
+          }`}
+        />
+        {tightest && (
+          <span className="hidden md:inline text-xs text-gray-600 dark:text-gray-400">
+            {formatRemaining(tightest.minuteRemaining, tightest.perMinute, '/min')
+              || formatRemaining(tightest.serverRemaining, tightest.serverLimit, 'left')
+              || formatRemaining(tightest.dayRemaining, tightest.perDay, '/day')}
+          </span>
+        )}
+        {queued > 0 && (
+          <span className="text-xs px-1.5 rounded-full bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300">
+            {queued}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50">
+            <div className="p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Rate budgets</h3>
+                <button
+                  onClick={() => setRateBudgets(DEFAULT_RATE_BUDGETS)}
+                  className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                  title="Restore defaults"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                {rateBudgets.map((budget) => {
+                  const status = statusFor(budget.host);
+                  return (
+                    <div key={budget.host} className="flex items-start space-x-2 text-sm">
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium text-gray-900 dark:text-gray-100 truncate">{budget.host}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {[
+                            budget.perMinute && `${status?.minuteRemaining ?? budget.perMinute}/${budget.perMinute} per min`,
+                            budget.perDay && `${status?.dayRemaining ?? budget.perDay}/${budget.perDay} per day`,
+                            status?.queued && `${status.queued} queued`,
+                          ].filter(Boolean).join(' · ')}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => setRateBudgets(rateBudgets.filter(b => b.host !== budget.host))}
+                        className="p-1 text-red-500 hover:text-red-700"
+                        aria-label={`Remove budget for ${budget.host}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+
+                {/* Hosts that only report limits through response headers */}
+                {statuses
+                  .filter(status => !rateBudgets.some(b => b.host === status.host))
+                  .map(status => (
+                    <div key={status.host} className="text-sm">
+                      <div className="font-medium text-gray-900 dark:text-gray-100 truncate">{status.host}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {status.serverRemaining !== undefined && `${Math.max(0, status.serverRemaining)}${status.serverLimit ? `/${status.serverLimit}` : ''} left`}
+                        {status.resetAt && ` · resets ${new Date(status.resetAt).toLocaleTimeString()}`}
+                      </div>
+                    </div>
+                  ))}
+              </div>
+
+              <hr className="border-gray-200 dark:border-gray-700" />
+
+              <form onSubmit={handleAdd} className="space-y-2">
+                <input
+                  type="text"
+                  value={host}
+                  onChange={(e) => setHost(e.target.value)}
+                  placeholder="Host (e.g. api.example.com)"
+                  className="input-field text-sm"
+                />
+                <div className="flex space-x-2">
+                  <input
+                    type="number"
+                    min={1}
+                    value={perMinute}
+                    onChange={(e) => setPerMinute(e.target.value)}
+                    placeholder="Per minute"
+                    className="input-field text-sm flex-1"
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    value={perDay}
+                    onChange={(e) => setPerDay(e.target.value)}
+                    placeholder="Per day"
+                    className="input-field text-sm flex-1"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!host.trim() || (!perMinute && !perDay)}
+                    className="btn-secondary px-3"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import toast, { Toast } from 'react-hot-toast';
+import { useDashboardStore } from '@/store/dashboardStore';
+
+type HistoryEntry = ReturnType<typeof useDashboardStore.getState>['past'][number];
+
+interface UndoToastProps {
+  t: Toast;
+  message: string;
+  entry?: HistoryEntry; // The history entry the change recorded
+}
+
+const isOnTop = (past: HistoryEntry[], entry?: HistoryEntry) =>
+  entry !== undefined && past[past.length - 1] === entry;
+
+export default function UndoToast({ t, message, entry }: UndoToastProps) {
+  // Later changes, or an undo from elsewhere, leave nothing for this toast to undo
+  const canUndo = useDashboardStore((state) => isOnTop(state.past, entry));
+
+  const handleUndo = () => {
+    const { past, undo } = useDashboardStore.getState();
+    if (isOnTop(past, entry)) undo();
+    toast.dismiss(t.id);
+  };
+
+  return (
+    <div className="flex items-center space-x-3">
+      <span>{message}</span>
+      <button
+        onClick={handleUndo}
+        disabled={!canUndo}
+        className="text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed disabled:no-underline"
+      >
+        Undo
+      </button>
+    </div>
+  );
+}
+
+// Toast with an inline Undo action, shown after destructive dashboard changes.
+// Call it right after the change so it is tied to the entry the change recorded.
+export function showUndoToast(message: string) {
+  const { past } = useDashboardStore.getState();
+  const entry = past[past.length - 1];
+  return toast((t) => <UndoToast t={t} message={message} entry={entry} />, { duration: 6000 });
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Widget, ApiField, FieldMapping } from '@/types';
+import { Widget, ApiField, FieldMapping, TransformConfig, AlertRule } from '@/types';
 import { useDashboardStore } from '@/store/dashboardStore';
 import { 
   X, 
@@ -13,6 +13,7 @@ import {
   Table, 
   CreditCard, 
   BarChart3,
+  List,
   CheckCircle,
   Trash2,
   Eye,
@@ -22,10 +23,19 @@ import {
   Wifi
 } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { testApiEndpoint, ApiTestResult } from '@/services/apiTester';
+import { testProviderEndpoint, extractRowFields, ApiTestResult } from '@/services/apiTester';
 import { ApiErrorHandler } from '@/services/apiErrorHandler';
-
-// Using the enhanced testApiEndpoint from services
+import { credentialVault, hasVaultPlaceholder, toVaultPlaceholder } from '@/services/credentialVault';
+import { useCredentialVault } from '@/hooks/useCredentialVault';
+import { buildWidgetRequest, renderUrlTemplate } from '@/services/requestBuilder';
+import RequestEditor, { toRequestEditorValue, fromRequestEditorValue } from './RequestEditor';
+import TransformEditor, { normalizeTransform } from './TransformEditor';
+import ProviderEditor, { toProviderEditorValue, fromProviderEditorValue } from './ProviderEditor';
+import StreamEditor, { toStreamEditorValue, fromStreamEditorValue } from './StreamEditor';
+import AlertRulesEditor, { fromAlertRules } from './AlertRulesEditor';
+import { WATCHLIST_FIELDS, createWatchlist } from '@/services/watchlist';
+import { getWidgetSymbols } from '@/services/providers';
+import { validateTransform } from '@/services/dataTransform';
 
 const extractFieldsFromData = (data: any, prefix = ''): ApiField[] => {
   const fields: ApiField[] = [];
@@ -78,9 +88,17 @@ export default function AddWidgetModal() {
   
   // New API configuration states
   const [apiUrl, setApiUrl] = useState('');
+  const [provider, setProvider] = useState(toProviderEditorValue());
   const [apiHeaders, setApiHeaders] = useState<Record<string, string>>({});
+  const [useProxy, setUseProxy] = useState(false);
+  const [request, setRequest] = useState(toRequestEditorValue());
+  const [stream, setStream] = useState(toStreamEditorValue());
+  const [transform, setTransform] = useState<TransformConfig>({});
+  const [alerts, setAlerts] = useState<AlertRule[]>([]);
   const [refreshInterval, setRefreshInterval] = useState(30);
-  const [displayMode, setDisplayMode] = useState<'card' | 'table' | 'chart'>('table');
+  // Watchlists are their own widget type rather than a display mode
+  const [displayMode, setDisplayMode] = useState<'card' | 'table' | 'chart' | 'watchlist'>('table');
+  const isWatchlist = displayMode === 'watchlist';
   const [availableFields, setAvailableFields] = useState<ApiField[]>([]);
   const [selectedFields, setSelectedFields] = useState<FieldMapping[]>([]);
   const [isTestingApi, setIsTestingApi] = useState(false);
@@ -88,30 +106,64 @@ export default function AddWidgetModal() {
   const [showApiResponse, setShowApiResponse] = useState(false);
   const [headerKey, setHeaderKey] = useState('');
   const [headerValue, setHeaderValue] = useState('');
+  const [storeInVault, setStoreInVault] = useState(true);
+  const vault = useCredentialVault();
   const [searchQuery, setSearchQuery] = useState('');
 
   const [withRetry, setWithRetry] = useState(true);
   const [retryCountdown, setRetryCountdown] = useState(0);
 
+  // Field paths follow the transformed rows, so re-read them when the transform changes
+  useEffect(() => {
+    if (apiTestResult?.success) {
+      setAvailableFields(extractRowFields(apiTestResult.data, normalizeTransform(transform)));
+    }
+  }, [apiTestResult, transform]);
+
   const testApi = async (useRetry = withRetry) => {
-    if (!apiUrl.trim()) return;
+    if (!apiUrl.trim() && !provider.provider) return;
+
+    const { config: requestConfig, error: requestError } = fromRequestEditorValue(request);
+    const { config: providerConfig, error: providerError } = fromProviderEditorValue(provider);
+    if (requestError || providerError) {
+      toast.error(requestError || providerError!);
+      return;
+    }
     
     setIsTestingApi(true);
     setApiTestResult(null);
     
     try {
-      const result = await testApiEndpoint(apiUrl, apiHeaders, useRetry);
+      let result: ApiTestResult;
+      if (provider.provider) {
+        result = await testProviderEndpoint({ ...providerConfig, apiUrl: apiUrl.trim() || undefined, displayMode: isWatchlist ? undefined : displayMode }, useRetry, useProxy);
+      } else {
+        // Custom URLs are tried from the server, like the edit modal does
+        const { method, body } = buildWidgetRequest({ ...requestConfig, ...providerConfig });
+        const response = await fetch('/api/test-endpoint', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            url: credentialVault.resolve(renderUrlTemplate(apiUrl, providerConfig)),
+            method,
+            headers: credentialVault.resolveHeaders(apiHeaders),
+            body: body !== undefined ? credentialVault.resolve(body) : undefined
+          })
+        });
+        result = await response.json();
+      }
       setApiTestResult(result);
       
       if (result.success && result.fields) {
-        setAvailableFields(result.fields);
+        const fields = extractRowFields(result.data, normalizeTransform(transform));
+        setAvailableFields(fields);
         
         // Auto-select fields for chart mode
         if (displayMode === 'chart') {
-          autoSelectChartFields(result.fields);
+          autoSelectChartFields(fields);
         }
         
-        toast.success(`API test successful! Found ${result.fields.length} fields`);
+        toast.success(`API test successful! Found ${fields.length} fields`);
       } else if (result.apiError) {
         // Handle specific API errors
         const errorMessage = ApiErrorHandler.getErrorMessage(result.apiError);
@@ -136,11 +188,20 @@ export default function AddWidgetModal() {
     }
   };
 
-  const addHeader = () => {
+  const addHeader = async () => {
     if (headerKey.trim() && headerValue.trim()) {
+      let value = headerValue.trim();
+      if (storeInVault && vault.unlocked && !hasVaultPlaceholder(value)) {
+        try {
+          value = toVaultPlaceholder(await credentialVault.setSecret(headerKey, value));
+        } catch (error) {
+          toast.error(error instanceof Error ? error.message : 'Failed to store header in vault');
+          return;
+        }
+      }
       setApiHeaders(prev => ({
         ...prev,
-        [headerKey.trim()]: headerValue.trim()
+        [headerKey.trim()]: value
       }));
       setHeaderKey('');
       setHeaderValue('');
@@ -172,25 +233,57 @@ export default function AddWidgetModal() {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!title.trim() || !apiUrl.trim()) {
+    if (!title.trim() || (!apiUrl.trim() && !provider.provider && !stream.enabled)) {
       toast.error('Please fill in all required fields');
       return;
     }
+    if (isWatchlist && !provider.provider) {
+      toast.error('Choose a data provider for the watchlist');
+      return;
+    }
+
+    const { config: requestConfig, error: requestError } = fromRequestEditorValue(request);
+    const { config: providerConfig, error: providerError } = fromProviderEditorValue(provider);
+    const { config: streamConfig, error: streamError } = fromStreamEditorValue(stream);
+    const { config: alertConfig, error: alertError } = fromAlertRules(alerts);
+    if (requestError || providerError || streamError || alertError) {
+      toast.error(requestError || providerError || streamError || alertError!);
+      return;
+    }
+
+    const rowTransform = normalizeTransform(transform);
+    const transformError = rowTransform && validateTransform(rowTransform);
+    if (transformError) {
+      toast.error(transformError);
+      return;
+    }
 
     const config: any = {
       refreshInterval,
-      displayMode,
-      apiUrl,
+      displayMode: isWatchlist ? undefined : displayMode,
+      apiUrl: apiUrl.trim() || undefined,
       apiHeaders,
+      useProxy,
+      ...requestConfig,
+      ...providerConfig,
+      ...streamConfig,
+      ...alertConfig,
+      transform: rowTransform,
       fieldMappings: selectedFields.length > 0 ? selectedFields : [],
       availableFields,
     };
+    // The chosen symbols become the watchlist's first list
+    if (isWatchlist) {
+      config.watchlist = { lists: [createWatchlist('Watchlist', getWidgetSymbols(providerConfig))] };
+      config.symbol = undefined;
+      config.symbols = undefined;
+    }
 
     addWidget({
-      type: 'custom',
+      type: isWatchlist ? 'watchlist' : 'custom',
       title: title.trim(),
       position: { x: 0, y: 0 },
-      size: { width: 400, height: 300 },
+      size: displayMode === 'card' ? { width: 1, height: 4 } : { width: 2, height: 6 },
       config,
     });
 
@@ -202,7 +295,13 @@ export default function AddWidgetModal() {
   const resetForm = () => {
     setTitle('');
     setApiUrl('');
+    setProvider(toProviderEditorValue());
     setApiHeaders({});
+    setUseProxy(false);
+    setRequest(toRequestEditorValue());
+    setStream(toStreamEditorValue());
+    setTransform({});
+    setAlerts([]);
     setRefreshInterval(30);
     setDisplayMode('table');
     setAvailableFields([]);
@@ -278,7 +377,7 @@ export default function AddWidgetModal() {
   };
 
   // Handle display mode change
-  const handleDisplayModeChange = (mode: 'card' | 'table' | 'chart') => {
+  const handleDisplayModeChange = (mode: 'card' | 'table' | 'chart' | 'watchlist') => {
     setDisplayMode(mode);
     
     // Auto-select fields when switching to chart mode
@@ -327,10 +426,13 @@ export default function AddWidgetModal() {
             />
           </div>
 
+          {/* Data provider */}
+          <ProviderEditor value={provider} onChange={setProvider} apiUrl={apiUrl.trim() || undefined} />
+
           {/* API URL */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              API URL *
+              API URL {provider.provider ? '(Optional)' : '*'}
             </label>
             <div className="flex space-x-2">
               <input
@@ -339,12 +441,12 @@ export default function AddWidgetModal() {
                 onChange={(e) => setApiUrl(e.target.value)}
                 placeholder="https://api.example.com/data"
                 className="input-field flex-1"
-                required
+                required={!provider.provider}
               />
               <button
                 type="button"
                 onClick={() => testApi()}
-                disabled={isTestingApi || !apiUrl.trim()}
+                disabled={isTestingApi || (!apiUrl.trim() && !provider.provider)}
                 className="btn-primary flex items-center space-x-2 px-4"
               >
                 {isTestingApi ? (
@@ -392,50 +494,92 @@ export default function AddWidgetModal() {
             )}
           </div>
 
-          {/* API Headers */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              API Headers (Optional)
-            </label>
-            <div className="space-y-2">
-              {Object.entries(apiHeaders).map(([key, value]) => (
-                <div key={key} className="flex items-center space-x-2 p-2 bg-gray-50 dark:bg-gray-800 rounded">
-                  <span className="text-sm font-medium text-gray-600 dark:text-gray-400">{key}:</span>
-                  <span className="text-sm text-gray-900 dark:text-gray-100 flex-1">{value}</span>
-                  <button
-                    type="button"
-                    onClick={() => removeHeader(key)}
-                    className="text-red-500 hover:text-red-700"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+          {/* Providers build their own requests */}
+          {!provider.provider && (
+            <>
+              {/* Method and body */}
+              <RequestEditor value={request} onChange={setRequest} />
+
+              {/* API Headers */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  API Headers (Optional)
+                </label>
+                <div className="space-y-2">
+                  {Object.entries(apiHeaders).map(([key, value]) => (
+                    <div key={key} className="flex items-center space-x-2 p-2 bg-gray-50 dark:bg-gray-800 rounded">
+                      <span className="text-sm font-medium text-gray-600 dark:text-gray-400">{key}:</span>
+                      <span className="text-sm text-gray-900 dark:text-gray-100 flex-1">{value}</span>
+                      <button
+                        type="button"
+                        onClick={() => removeHeader(key)}
+                        className="text-red-500 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <div className="flex space-x-2">
+                    <input
+                      type="text"
+                      value={headerKey}
+                      onChange={(e) => setHeaderKey(e.target.value)}
+                      placeholder="Header name"
+                      className="input-field flex-1"
+                    />
+                    <input
+                      type="text"
+                      value={headerValue}
+                      onChange={(e) => setHeaderValue(e.target.value)}
+                      placeholder="Header value"
+                      className="input-field flex-1"
+                    />
+                    <button
+                      type="button"
+                      onClick={addHeader}
+                      disabled={!headerKey.trim() || !headerValue.trim()}
+                      className="btn-secondary px-3"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {vault.unlocked ? (
+                    <label className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-400">
+                      <input
+                        type="checkbox"
+                        checked={storeInVault}
+                        onChange={(e) => setStoreInVault(e.target.checked)}
+                      />
+                      <span>Store header values encrypted in the credential vault</span>
+                    </label>
+                  ) : (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Header values are saved in plain browser storage. Unlock the credential vault in Settings to store them encrypted, or reference a stored secret as {'{{vault:NAME}}'}.
+                    </p>
+                  )}
                 </div>
-              ))}
-              <div className="flex space-x-2">
-                <input
-                  type="text"
-                  value={headerKey}
-                  onChange={(e) => setHeaderKey(e.target.value)}
-                  placeholder="Header name"
-                  className="input-field flex-1"
-                />
-                <input
-                  type="text"
-                  value={headerValue}
-                  onChange={(e) => setHeaderValue(e.target.value)}
-                  placeholder="Header value"
-                  className="input-field flex-1"
-                />
-                <button
-                  type="button"
-                  onClick={addHeader}
-                  disabled={!headerKey.trim() || !headerValue.trim()}
-                  className="btn-secondary px-3"
-                >
-                  <Plus className="w-4 h-4" />
-                </button>
               </div>
-            </div>
+            </>
+          )}
+
+          {/* Server Proxy */}
+          <div>
+            <label className="flex items-start space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={useProxy}
+                onChange={(e) => setUseProxy(e.target.checked)}
+                className="mt-1"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Route requests through server proxy
+                </span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                  Avoids CORS errors. Use {'{{secret:NAME}}'} in the URL, headers or body to inject the server&apos;s FINBOARD_SECRET_NAME value; FINBOARD_SECRET_NAME_HOSTS lists the hosts it may be sent to.
+                </span>
+              </span>
+            </label>
           </div>
 
           {/* Refresh Interval */}
@@ -456,16 +600,27 @@ export default function AddWidgetModal() {
             </select>
           </div>
 
+          {/* Live ticks */}
+          <StreamEditor value={stream} onChange={setStream} />
+
+          {/* Response transform */}
+          <TransformEditor
+            value={transform}
+            onChange={setTransform}
+            sample={apiTestResult?.success ? apiTestResult.data : undefined}
+          />
+
           {/* Display Mode */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               Display Mode
             </label>
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
               {[
                 { value: 'card', label: 'Card', icon: CreditCard },
                 { value: 'table', label: 'Table', icon: Table },
                 { value: 'chart', label: 'Chart', icon: BarChart3 },
+                { value: 'watchlist', label: 'Watchlist', icon: List },
               ].map((mode) => {
                 const Icon = mode.icon;
                 return (
@@ -485,10 +640,15 @@ export default function AddWidgetModal() {
                 );
               })}
             </div>
+            {isWatchlist && (
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Watchlists read quotes from a data provider. The symbols above become the first list; add, reorder and group symbols on the widget itself.
+              </p>
+            )}
           </div>
 
           {/* Available Fields */}
-          {availableFields.length > 0 && displayMode !== 'chart' && (
+          {availableFields.length > 0 && displayMode !== 'chart' && !isWatchlist && (
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Available Fields
@@ -597,6 +757,9 @@ export default function AddWidgetModal() {
             </div>
           )}
 
+          {/* Alerts */}
+          <AlertRulesEditor value={alerts} onChange={setAlerts} fields={isWatchlist ? WATCHLIST_FIELDS : selectedFields} />
+
           {/* Actions */}
           <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-3 pt-4">
             <button
@@ -608,7 +771,7 @@ export default function AddWidgetModal() {
             </button>
             <button
               type="submit"
-              disabled={!title.trim() || !apiUrl.trim()}
+              disabled={!title.trim() || (!apiUrl.trim() && !provider.provider && !stream.enabled)}
               className="btn-primary flex-1"
             >
               Add Widget
@@ -0,0 +1,143 @@
+'use client';
+
+import { AlertCondition, AlertRule, FieldMapping } from '@/types';
+import { ALERT_CONDITIONS, DEFAULT_ALERT_COOLDOWN } from '@/services/alertEngine';
+import { requestAlertPermission } from '@/hooks/useAlertNotifications';
+import { Bell, Plus, Trash2 } from 'lucide-react';
+
+const generateRuleId = () => `alert_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+
+// Returns an error message instead of the rules when one is incomplete; no
+// rules are stored as undefined
+export function fromAlertRules(rules: AlertRule[]): { config?: { alerts?: AlertRule[] }; error?: string } {
+  for (const rule of rules) {
+    if (!rule.field) return { error: 'Choose a field for every alert' };
+    if (rule.condition === 'stale') {
+      if (!(rule.staleMinutes !== undefined && rule.staleMinutes >= 1)) return { error: 'Stale alerts need at least 1 minute' };
+    } else if (rule.threshold === undefined || !isFinite(rule.threshold)) {
+      return { error: 'Enter a value for every alert' };
+    }
+    if (rule.cooldown !== undefined && !(rule.cooldown >= 0)) return { error: 'Alert cooldowns cannot be negative' };
+  }
+  return { config: { alerts: rules.length > 0 ? rules : undefined } };
+}
+
+const toOptionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+interface AlertRulesEditorProps {
+  value: AlertRule[];
+  onChange: (value: AlertRule[]) => void;
+  fields: FieldMapping[]; // The widget's field mappings, which rules can watch
+}
+
+export default function AlertRulesEditor({ value, onChange, fields }: AlertRulesEditorProps) {
+  const { error } = fromAlertRules(value);
+  const update = (index: number, changes: Partial<AlertRule>) =>
+    onChange(value.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+
+  const addRule = () => {
+    // Adding a rule is the first moment it makes sense to ask
+    requestAlertPermission();
+    onChange([...value, { id: generateRuleId(), field: fields[0]?.apiField || '', condition: 'above' }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        <Bell className="w-4 h-4" />
+        <span>Alerts (Optional)</span>
+      </label>
+
+      {value.map((rule, index) => {
+        const options = fields.some(field => field.apiField === rule.field) || !rule.field
+          ? fields
+          : [{ apiField: rule.field, displayName: rule.field } as FieldMapping, ...fields];
+        return (
+          <div key={rule.id} className="flex flex-wrap items-center gap-2">
+            <input
+              type="checkbox"
+              checked={rule.enabled !== false}
+              onChange={(e) => update(index, { enabled: e.target.checked ? undefined : false })}
+              title="Enabled"
+            />
+            <select
+              value={rule.field}
+              onChange={(e) => update(index, { field: e.target.value })}
+              className="input-field w-40 text-sm"
+            >
+              {!rule.field && <option value="">Field</option>}
+              {options.map(field => (
+                <option key={field.apiField} value={field.apiField}>{field.displayName || field.apiField}</option>
+              ))}
+            </select>
+            <select
+              value={rule.condition}
+              onChange={(e) => update(index, { condition: e.target.value as AlertCondition })}
+              className="input-field w-56 text-sm"
+            >
+              {ALERT_CONDITIONS.map(condition => (
+                <option key={condition.id} value={condition.id}>{condition.label}</option>
+              ))}
+            </select>
+            {rule.condition === 'stale' ? (
+              <input
+                type="number"
+                min={1}
+                value={rule.staleMinutes ?? ''}
+                onChange={(e) => update(index, { staleMinutes: toOptionalNumber(e.target.value) })}
+                placeholder="Minutes"
+                className="input-field w-24 text-sm"
+              />
+            ) : (
+              <input
+                type="number"
+                step="any"
+                value={rule.threshold ?? ''}
+                onChange={(e) => update(index, { threshold: toOptionalNumber(e.target.value) })}
+                placeholder={rule.condition === 'change_percent' ? '%' : 'Value'}
+                className="input-field w-24 text-sm"
+              />
+            )}
+            <input
+              type="number"
+              min={0}
+              value={rule.cooldown ?? ''}
+              onChange={(e) => update(index, { cooldown: toOptionalNumber(e.target.value) })}
+              placeholder={`Every ${DEFAULT_ALERT_COOLDOWN}m`}
+              title="Minutes before the alert can fire again"
+              className="input-field w-28 text-sm"
+            />
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              className="text-red-500 hover:text-red-700"
+              aria-label="Remove alert"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={addRule}
+        disabled={fields.length === 0}
+        className="btn-secondary flex items-center space-x-1 px-3 py-1 text-sm disabled:opacity-50"
+      >
+        <Plus className="w-4 h-4" />
+        <span>Alert</span>
+      </button>
+
+      {error ? (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {fields.length === 0
+            ? 'Select the fields to display first; alerts watch one of them.'
+            : 'Checked each time the widget fetches new data, for every row. An alert shows a notification, then waits out its cooldown before firing again for the same row.'}
+        </p>
+      )}
+    </div>
+  );
+}
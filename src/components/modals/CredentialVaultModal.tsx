@@ -0,0 +1,227 @@
+'use client';
+
+import { useState } from 'react';
+import { credentialVault, toSecretName, toVaultPlaceholder } from '@/services/credentialVault';
+import { useCredentialVault } from '@/hooks/useCredentialVault';
+import { X, Lock, Unlock, KeyRound, Plus, Trash2, Copy } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface CredentialVaultModalProps {
+  onClose: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export default function CredentialVaultModal({ onClose }: CredentialVaultModalProps) {
+  const { initialized, unlocked, secrets, pending } = useCredentialVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [secretName, setSecretName] = useState('');
+  const [secretValue, setSecretValue] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!initialized) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        toast.error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        toast.error('Passphrases do not match');
+        return;
+      }
+    }
+
+    setIsBusy(true);
+    try {
+      await credentialVault.unlock(passphrase);
+      toast.success(initialized ? 'Vault unlocked' : 'Vault created');
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to unlock vault');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAddSecret = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!secretName.trim() || !secretValue) return;
+
+    setIsBusy(true);
+    try {
+      const name = await credentialVault.setSecret(secretName, secretValue);
+      toast.success(`Saved ${toVaultPlaceholder(name)}`);
+      setSecretName('');
+      setSecretValue('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save secret');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    if (!confirm(`Delete secret "${name}"? Widgets that reference it will stop loading.`)) return;
+    await credentialVault.deleteSecret(name);
+  };
+
+  const handleCopy = async (name: string) => {
+    try {
+      await navigator.clipboard.writeText(toVaultPlaceholder(name));
+      toast.success('Placeholder copied');
+    } catch {
+      toast.error('Failed to copy placeholder');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 flex items-center space-x-2">
+            <KeyRound className="w-5 h-5" />
+            <span>Credential Vault</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto max-h-[calc(90vh-140px)]">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Secrets are encrypted with your passphrase and stored in this browser. Reference them
+            in widget URLs or headers as <code className="font-mono">{'{{vault:NAME}}'}</code>; they are
+            only filled in when a request is sent.
+          </p>
+
+          {!unlocked ? (
+            <form onSubmit={handleUnlock} className="space-y-3">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder={initialized ? 'Passphrase' : 'Choose a passphrase'}
+                className="input-field"
+                autoFocus
+              />
+              {!initialized && (
+                <input
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  placeholder="Confirm passphrase"
+                  className="input-field"
+                />
+              )}
+              <button
+                type="submit"
+                disabled={!passphrase || isBusy}
+                className="btn-primary w-full flex items-center justify-center space-x-2"
+              >
+                <Unlock className="w-4 h-4" />
+                <span>{initialized ? 'Unlock Vault' : 'Create Vault'}</span>
+              </button>
+              {pending.length > 0 && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">
+                  {pending.length} widget {pending.length === 1 ? 'credential is' : 'credentials are'} only held in memory.
+                  {initialized ? ' Unlock' : ' Create'} the vault to keep {pending.length === 1 ? 'it' : 'them'} after this tab closes.
+                </p>
+              )}
+              {!initialized && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  The passphrase cannot be recovered. If you forget it, the stored secrets are lost.
+                </p>
+              )}
+            </form>
+          ) : (
+            <>
+              <div className="space-y-2">
+                {secrets.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No secrets stored yet.</p>
+                ) : (
+                  secrets.map((name) => (
+                    <div key={name} className="flex items-center space-x-2 p-2 bg-gray-50 dark:bg-gray-700/50 rounded">
+                      <span className="text-sm font-mono text-gray-900 dark:text-gray-100 flex-1 truncate">
+                        {toVaultPlaceholder(name)}
+                      </span>
+                      <span className="text-sm text-gray-400">••••••••</span>
+                      <button
+                        type="button"
+                        onClick={() => handleCopy(name)}
+                        className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                        aria-label={`Copy placeholder for ${name}`}
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(name)}
+                        className="p-1 text-red-500 hover:text-red-700"
+                        aria-label={`Delete ${name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <form onSubmit={handleAddSecret} className="space-y-2">
+                <div className="flex space-x-2">
+                  <input
+                    type="text"
+                    value={secretName}
+                    onChange={(e) => setSecretName(e.target.value)}
+                    placeholder="Name (e.g. ALPHA_VANTAGE_KEY)"
+                    className="input-field flex-1"
+                  />
+                  <input
+                    type="password"
+                    value={secretValue}
+                    onChange={(e) => setSecretValue(e.target.value)}
+                    placeholder="Value"
+                    className="input-field flex-1"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!secretName.trim() || !secretValue || isBusy}
+                    className="btn-secondary px-3"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </div>
+                {secretName.trim() && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Will be saved as <code className="font-mono">{toVaultPlaceholder(toSecretName(secretName))}</code>
+                  </p>
+                )}
+              </form>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-between p-4 border-t border-gray-200 dark:border-gray-700">
+          {unlocked ? (
+            <button
+              onClick={() => credentialVault.lock()}
+              className="btn-secondary flex items-center space-x-2"
+            >
+              <Lock className="w-4 h-4" />
+              <span>Lock</span>
+            </button>
+          ) : <span />}
+          <button onClick={onClose} className="btn-secondary">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
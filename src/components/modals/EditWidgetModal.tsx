@@ -1,10 +1,21 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Widget, ApiField, FieldMapping } from '@/types';
+import { Widget, ApiField, FieldMapping, TransformConfig, AlertRule } from '@/types';
 import { useDashboardStore } from '@/store/dashboardStore';
-import { X, AlertCircle, RefreshCw, TestTube } from 'lucide-react';
+import { X, AlertCircle, CheckCircle, RefreshCw, TestTube } from 'lucide-react';
 import { toast } from 'react-hot-toast';
+import { ApiTestResult, extractRowFields, testProviderEndpoint } from '@/services/apiTester';
+import { credentialVault, hasVaultPlaceholder, toVaultPlaceholder, VaultError } from '@/services/credentialVault';
+import { useCredentialVault } from '@/hooks/useCredentialVault';
+import { buildWidgetRequest, renderUrlTemplate } from '@/services/requestBuilder';
+import RequestEditor, { toRequestEditorValue, fromRequestEditorValue } from './RequestEditor';
+import TransformEditor, { normalizeTransform } from './TransformEditor';
+import ProviderEditor, { toProviderEditorValue, fromProviderEditorValue } from './ProviderEditor';
+import StreamEditor, { toStreamEditorValue, fromStreamEditorValue } from './StreamEditor';
+import AlertRulesEditor, { fromAlertRules } from './AlertRulesEditor';
+import { WATCHLIST_FIELDS, getActiveWatchlist } from '@/services/watchlist';
+import { validateTransform } from '@/services/dataTransform';
 
 interface EditWidgetModalProps {
   widget: Widget;
@@ -13,52 +24,102 @@ interface EditWidgetModalProps {
 
 export default function EditWidgetModal({ widget, onClose }: EditWidgetModalProps) {
   const { updateWidget } = useDashboardStore();
+  // Watchlists keep their symbols in named lists, edited on the widget
+  const isWatchlist = widget.type === 'watchlist';
   const [formData, setFormData] = useState({
     name: widget.title || '',
     apiUrl: widget.config?.apiUrl || '',
     apiHeaders: widget.config?.apiHeaders || {},
+    useProxy: widget.config?.useProxy || false,
     refreshInterval: widget.config?.refreshInterval || 30,
     displayMode: widget.config?.displayMode || 'card',
     fieldMappings: widget.config?.fieldMappings || []
   });
 
+  const [request, setRequest] = useState(toRequestEditorValue(widget.config));
+  const [provider, setProvider] = useState(toProviderEditorValue(widget.config));
+  const [stream, setStream] = useState(toStreamEditorValue(widget.config));
+  const [transform, setTransform] = useState<TransformConfig>(widget.config?.transform || {});
+  const [alerts, setAlerts] = useState<AlertRule[]>(widget.config?.alerts || []);
   const [availableFields, setAvailableFields] = useState<ApiField[]>([]);
   const [isTestingApi, setIsTestingApi] = useState(false);
-  const [testResult, setTestResult] = useState<any>(null);
+  const [testResult, setTestResult] = useState<ApiTestResult | null>(null);
   const [headerKey, setHeaderKey] = useState('');
   const [headerValue, setHeaderValue] = useState('');
+  const [storeInVault, setStoreInVault] = useState(true);
+  const vault = useCredentialVault();
+
+  // Field paths follow the transformed rows, so re-read them when the transform changes
+  useEffect(() => {
+    if (testResult?.success) {
+      setAvailableFields(extractRowFields(testResult.data, normalizeTransform(transform)));
+    }
+  }, [testResult, transform]);
 
   const testApiEndpoint = async () => {
-    if (!formData.apiUrl) {
+    if (!formData.apiUrl && !provider.provider) {
       toast.error('Please enter an API URL');
       return;
     }
 
+    const { config: requestConfig, error: requestError } = fromRequestEditorValue(request);
+    const { config: providerConfig, error: providerError } = fromProviderEditorValue(provider, !isWatchlist);
+    if (requestError || providerError) {
+      toast.error(requestError || providerError!);
+      return;
+    }
+
     setIsTestingApi(true);
     setTestResult(null);
 
     try {
+      if (provider.provider) {
+        const result = await testProviderEndpoint(
+          isWatchlist
+            ? { ...providerConfig, apiUrl: formData.apiUrl.trim() || undefined, symbols: getActiveWatchlist(widget.config.watchlist)?.symbols }
+            : { ...providerConfig, apiUrl: formData.apiUrl.trim() || undefined, displayMode: formData.displayMode },
+          false,
+          formData.useProxy
+        );
+        setTestResult(result);
+        if (result.success) {
+          const fields = extractRowFields(result.data, normalizeTransform(transform));
+          setAvailableFields(fields);
+          toast.success(`API test successful! Found ${fields.length} fields`);
+        } else {
+          toast.error(result.error || 'API test failed');
+        }
+        return;
+      }
+
+      const { method, body } = buildWidgetRequest({ ...requestConfig, ...providerConfig, interval: widget.config?.interval });
       const response = await fetch('/api/test-endpoint', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          url: formData.apiUrl,
-          headers: formData.apiHeaders
+          url: credentialVault.resolve(renderUrlTemplate(formData.apiUrl, { ...providerConfig, interval: widget.config?.interval })),
+          method,
+          headers: credentialVault.resolveHeaders(formData.apiHeaders),
+          body: body !== undefined ? credentialVault.resolve(body) : undefined
         })
       });
 
-      const result = await response.json();
+      const result: ApiTestResult = await response.json();
       setTestResult(result);
 
-      if (result.success && result.data) {
-        // Extract available fields from the response
-        const fields = extractFieldsFromResponse(result.data);
+      if (result.success && result.fields) {
+        const fields = extractRowFields(result.data, normalizeTransform(transform));
         setAvailableFields(fields);
-        toast.success('API test successful!');
+        toast.success(`API test successful! Found ${fields.length} fields`);
       } else {
         toast.error(result.error || 'API test failed');
       }
     } catch (error) {
+      if (error instanceof VaultError) {
+        toast.error(error.message);
+        setTestResult({ success: false, error: error.message });
+        return;
+      }
       toast.error('Failed to test API endpoint');
       setTestResult({ success: false, error: 'Network error' });
     } finally {
@@ -66,62 +127,22 @@ export default function EditWidgetModal({ widget, onClose }: EditWidgetModalProp
     }
   };
 
-  const extractFieldsFromResponse = (data: any): ApiField[] => {
-    const fields: ApiField[] = [];
-    
-    const extractFromObject = (obj: any, path = '') => {
-      if (obj && typeof obj === 'object' && !Array.isArray(obj)) {
-        Object.keys(obj).forEach(key => {
-          const value = obj[key];
-          const currentPath = path ? `${path}.${key}` : key;
-          
-          if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-            // For nested objects, add a few sample entries
-            if (key === 'rates' || key === 'data' || key === 'prices') {
-              const entries = Object.entries(value).slice(0, 3);
-              entries.forEach(([subKey, subValue]) => {
-                fields.push({
-                  key: `${key}.${subKey}`,
-                  label: `${key.toUpperCase()} ${subKey}`,
-                  type: typeof subValue === 'number' ? 'number' : 'string',
-                  path: `${currentPath}.${subKey}`,
-                  sample: subValue
-                });
-              });
-            } else {
-              extractFromObject(value, currentPath);
-            }
-          } else {
-            fields.push({
-              key: currentPath,
-              label: key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase()),
-              type: typeof value === 'number' ? 'number' : 
-                    typeof value === 'boolean' ? 'boolean' :
-                    value instanceof Date ? 'date' : 'string',
-              path: currentPath,
-              sample: value
-            });
-          }
-        });
-      }
-    };
-
-    if (Array.isArray(data) && data.length > 0) {
-      extractFromObject(data[0]);
-    } else {
-      extractFromObject(data);
-    }
-
-    return fields;
-  };
-
-  const addHeader = () => {
+  const addHeader = async () => {
     if (headerKey && headerValue) {
+      let value = headerValue;
+      if (storeInVault && vault.unlocked && !hasVaultPlaceholder(value)) {
+        try {
+          value = toVaultPlaceholder(await credentialVault.setSecret(headerKey, value));
+        } catch (error) {
+          toast.error(error instanceof Error ? error.message : 'Failed to store header in vault');
+          return;
+        }
+      }
       setFormData(prev => ({
         ...prev,
         apiHeaders: {
           ...prev.apiHeaders,
-          [headerKey]: headerValue
+          [headerKey]: value
         }
       }));
       setHeaderKey('');
@@ -141,7 +162,7 @@ export default function EditWidgetModal({ widget, onClose }: EditWidgetModalProp
   const toggleFieldMapping = (field: ApiField) => {
     setFormData(prev => {
       const existingIndex = prev.fieldMappings.findIndex(
-        mapping => mapping.apiField === field.key
+        mapping => mapping.apiField === field.path
       );
 
       if (existingIndex >= 0) {
@@ -153,7 +174,7 @@ export default function EditWidgetModal({ widget, onClose }: EditWidgetModalProp
       } else {
         // Add field mapping
         const newMapping: FieldMapping = {
-          apiField: field.key,
+          apiField: field.path,
           displayName: field.label,
           type: field.type as any,
           format: field.type === 'number' ? 'number' : undefined
@@ -174,20 +195,47 @@ export default function EditWidgetModal({ widget, onClose }: EditWidgetModalProp
       return;
     }
 
-    if (!formData.apiUrl.trim()) {
+    if (!formData.apiUrl.trim() && !provider.provider && !stream.enabled) {
       toast.error('Please enter an API URL');
       return;
     }
 
+    if (isWatchlist && !provider.provider) {
+      toast.error('Choose a data provider for the watchlist');
+      return;
+    }
+
+    const { config: requestConfig, error: requestError } = fromRequestEditorValue(request);
+    const { config: providerConfig, error: providerError } = fromProviderEditorValue(provider, !isWatchlist);
+    const { config: streamConfig, error: streamError } = fromStreamEditorValue(stream);
+    const { config: alertConfig, error: alertError } = fromAlertRules(alerts);
+    if (requestError || providerError || streamError || alertError) {
+      toast.error(requestError || providerError || streamError || alertError!);
+      return;
+    }
+
+    const rowTransform = normalizeTransform(transform);
+    const transformError = rowTransform && validateTransform(rowTransform);
+    if (transformError) {
+      toast.error(transformError);
+      return;
+    }
+
     // Update the widget
     updateWidget(widget.id, {
       title: formData.name,
       config: {
         ...widget.config,
-        apiUrl: formData.apiUrl,
+        apiUrl: formData.apiUrl.trim() || undefined,
         apiHeaders: formData.apiHeaders,
+        useProxy: formData.useProxy,
+        ...requestConfig,
+        ...providerConfig,
+        ...streamConfig,
+        ...alertConfig,
+        transform: rowTransform,
         refreshInterval: formData.refreshInterval,
-        displayMode: formData.displayMode,
+        displayMode: isWatchlist ? undefined : formData.displayMode,
         fieldMappings: formData.fieldMappings,
         availableFields
       }
@@ -231,10 +279,19 @@ export default function EditWidgetModal({ widget, onClose }: EditWidgetModalProp
               />
             </div>
 
+            {/* Data provider */}
+            <ProviderEditor
+              value={provider}
+              onChange={setProvider}
+              apiUrl={formData.apiUrl.trim() || undefined}
+              multiple={widget.type === 'chart'}
+              withSymbols={!isWatchlist}
+            />
+
             {/* API URL */}
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                API URL
+                API URL{provider.provider && ' (Optional)'}
               </label>
               <div className="flex space-x-2">
                 <input
@@ -243,7 +300,7 @@ export default function EditWidgetModal({ widget, onClose }: EditWidgetModalProp
                   onChange={(e) => setFormData(prev => ({ ...prev, apiUrl: e.target.value }))}
                   className="input-field flex-1"
                   placeholder="https://api.example.com/data"
-                  required
+                  required={!provider.provider}
                 />
                 <button
                   type="button"
@@ -259,79 +316,152 @@ export default function EditWidgetModal({ widget, onClose }: EditWidgetModalProp
                   <span>Test</span>
                 </button>
               </div>
+              {testResult && (
+                <div className={`mt-2 p-2 rounded text-sm flex items-center space-x-2 ${
+                  testResult.success 
+                    ? 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400'
+                    : 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400'
+                }`}>
+                  {testResult.success ? (
+                    <CheckCircle className="w-4 h-4" />
+                  ) : (
+                    <AlertCircle className="w-4 h-4" />
+                  )}
+                  <span>
+                    {testResult.success 
+                      ? `Success! Response time: ${testResult.responseTime}ms`
+                      : testResult.error
+                    }
+                  </span>
+                </div>
+              )}
             </div>
 
-            {/* API Headers */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                API Headers (Optional)
-              </label>
-              <div className="space-y-2">
-                {Object.entries(formData.apiHeaders).map(([key, value]) => (
-                  <div key={key} className="flex items-center space-x-2">
-                    <input
-                      type="text"
-                      value={key}
-                      readOnly
-                      className="input-field flex-1"
-                    />
-                    <input
-                      type="text"
-                      value={value}
-                      readOnly
-                      className="input-field flex-1"
-                    />
-                    <button
-                      type="button"
-                      onClick={() => removeHeader(key)}
-                      className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
-                    >
-                      <X className="w-4 h-4" />
-                    </button>
+            {/* Providers build their own requests */}
+            {!provider.provider && (
+              <>
+                {/* Method and body */}
+                <RequestEditor value={request} onChange={setRequest} />
+
+                {/* API Headers */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    API Headers (Optional)
+                  </label>
+                  <div className="space-y-2">
+                    {Object.entries(formData.apiHeaders).map(([key, value]) => (
+                      <div key={key} className="flex items-center space-x-2">
+                        <input
+                          type="text"
+                          value={key}
+                          readOnly
+                          className="input-field flex-1"
+                        />
+                        <input
+                          type="text"
+                          value={value}
+                          readOnly
+                          className="input-field flex-1"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => removeHeader(key)}
+                          className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={headerKey}
+                        onChange={(e) => setHeaderKey(e.target.value)}
+                        className="input-field flex-1"
+                        placeholder="Header name"
+                      />
+                      <input
+                        type="text"
+                        value={headerValue}
+                        onChange={(e) => setHeaderValue(e.target.value)}
+                        className="input-field flex-1"
+                        placeholder="Header value"
+                      />
+                      <button
+                        type="button"
+                        onClick={addHeader}
+                        className="btn-secondary"
+                      >
+                        Add
+                      </button>
+                    </div>
+                    {vault.unlocked ? (
+                      <label className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-400">
+                        <input
+                          type="checkbox"
+                          checked={storeInVault}
+                          onChange={(e) => setStoreInVault(e.target.checked)}
+                        />
+                        <span>Store header values encrypted in the credential vault</span>
+                      </label>
+                    ) : (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Header values are saved in plain browser storage. Unlock the credential vault in Settings to store them encrypted, or reference a stored secret as {'{{vault:NAME}}'}.
+                      </p>
+                    )}
                   </div>
-                ))}
-                <div className="flex items-center space-x-2">
-                  <input
-                    type="text"
-                    value={headerKey}
-                    onChange={(e) => setHeaderKey(e.target.value)}
-                    className="input-field flex-1"
-                    placeholder="Header name"
-                  />
-                  <input
-                    type="text"
-                    value={headerValue}
-                    onChange={(e) => setHeaderValue(e.target.value)}
-                    className="input-field flex-1"
-                    placeholder="Header value"
-                  />
-                  <button
-                    type="button"
-                    onClick={addHeader}
-                    className="btn-secondary"
-                  >
-                    Add
-                  </button>
                 </div>
-              </div>
+              </>
+            )}
+
+            {/* Server Proxy */}
+            <div>
+              <label className="flex items-start space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.useProxy}
+                  onChange={(e) => setFormData(prev => ({ ...prev, useProxy: e.target.checked }))}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Route requests through server proxy
+                  </span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    Avoids CORS errors. Use {'{{secret:NAME}}'} in the URL, headers or body to inject the server&apos;s FINBOARD_SECRET_NAME value; FINBOARD_SECRET_NAME_HOSTS lists the hosts it may be sent to.
+                  </span>
+                </span>
+              </label>
             </div>
 
+            {/* Live ticks */}
+            <StreamEditor value={stream} onChange={setStream} />
+
+            {/* Response transform */}
+            <TransformEditor
+              value={transform}
+              onChange={setTransform}
+              sample={testResult?.success ? testResult.data : undefined}
+            />
+
             {/* Display Settings */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Display Mode
-                </label>
-                <select
-                  value={formData.displayMode}
-                  onChange={(e) => setFormData(prev => ({ ...prev, displayMode: e.target.value as any }))}
-                  className="input-field"
-                >
-                  <option value="card">Card View</option>
-                  <option value="table">Table View</option>
-                  <option value="chart">Chart View</option>
-                </select>
-              </div>
+              {!isWatchlist && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Display Mode
+                  </label>
+                  <select
+                    value={formData.displayMode}
+                    onChange={(e) => setFormData(prev => ({ ...prev, displayMode: e.target.value as any }))}
+                    className="input-field"
+                  >
+                    <option value="card">Card View</option>
+                    <option value="table">Table View</option>
+                    <option value="chart">Chart View</option>
+                  </select>
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                   Refresh Interval (seconds)
@@ -349,7 +479,7 @@ export default function EditWidgetModal({ widget, onClose }: EditWidgetModalProp
 
 
             {/* Available Fields */}
-            {availableFields.length > 0 && (
+            {availableFields.length > 0 && !isWatchlist && (
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                   Available Fields
@@ -374,7 +504,7 @@ export default function EditWidgetModal({ widget, onClose }: EditWidgetModalProp
                           {field.label}
                         </div>
                         <div className="text-xs text-gray-500 dark:text-gray-400">
-                          {field.key} • {field.type}
+                          {field.path} • {field.type}
                           {field.sample !== undefined && (
                             <span> • Sample: {String(field.sample).substring(0, 30)}</span>
                           )}
@@ -382,7 +512,7 @@ export default function EditWidgetModal({ widget, onClose }: EditWidgetModalProp
                       </div>
                       <input
                         type="checkbox"
-                        checked={formData.fieldMappings.some(mapping => mapping.apiField === field.key)}
+                        checked={formData.fieldMappings.some(mapping => mapping.apiField === field.path)}
                         onChange={() => toggleFieldMapping(field)}
                         className="ml-2"
                       />
@@ -392,6 +522,9 @@ export default function EditWidgetModal({ widget, onClose }: EditWidgetModalProp
               </div>
             )}
 
+            {/* Alerts */}
+            <AlertRulesEditor value={alerts} onChange={setAlerts} fields={isWatchlist ? WATCHLIST_FIELDS : formData.fieldMappings} />
+
             {/* Actions */}
             <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
               <button
@@ -0,0 +1,153 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useDashboardStore } from '@/store/dashboardStore';
+import { recordNotification } from '@/store/notificationStore';
+import { parseDashboardExport, formatValidationError } from '@/services/dashboardSchema';
+import { X, AlertCircle, CheckCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { showUndoToast } from '../layout/UndoToast';
+import { credentialVault } from '@/services/credentialVault';
+import { useCredentialVault } from '@/hooks/useCredentialVault';
+
+interface ImportDashboardModalProps {
+  fileName: string;
+  content: string;
+  onClose: () => void;
+}
+
+const MAX_LISTED_ERRORS = 8;
+
+export default function ImportDashboardModal({ fileName, content, onClose }: ImportDashboardModalProps) {
+  const { importDashboard, widgets } = useDashboardStore();
+  const { initialized: hasLocalVault } = useCredentialVault();
+  const result = useMemo(() => parseDashboardExport(content), [content]);
+  const [importVault, setImportVault] = useState(false);
+
+  const handleImport = (mode: 'replace' | 'merge') => {
+    const outcome = importDashboard(content, mode);
+    if (!outcome.success) {
+      toast.error('Failed to import dashboard');
+      recordNotification({
+        kind: 'import',
+        title: 'Import failed',
+        message: `${fileName}: ${outcome.errors.map(formatValidationError).slice(0, MAX_LISTED_ERRORS).join('; ')}`,
+        success: false,
+      });
+      return;
+    }
+    recordNotification({
+      kind: 'import',
+      title: mode === 'merge' ? 'Dashboard merged' : 'Dashboard imported',
+      message: `${outcome.dashboard.widgets.length} widget${outcome.dashboard.widgets.length !== 1 ? 's' : ''} from ${fileName}${outcome.migrated ? ` (upgraded from version ${outcome.version})` : ''}`,
+      success: true,
+    });
+    // Only on request: a carried vault could hold secrets the file's author controls
+    if (outcome.vault && importVault) {
+      credentialVault.importEncrypted(outcome.vault);
+      toast.success('Credential vault imported. Unlock it with the passphrase it was created with.');
+    }
+    showUndoToast(
+      mode === 'merge'
+        ? `Merged ${outcome.dashboard.widgets.length} widget${outcome.dashboard.widgets.length !== 1 ? 's' : ''} into the dashboard`
+        : 'Dashboard imported successfully!'
+    );
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+            Import Dashboard
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto max-h-[calc(90vh-140px)]">
+          <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
+            File: <span className="font-medium text-gray-900 dark:text-gray-100">{fileName}</span>
+          </p>
+
+          {result.success ? (
+            <>
+              <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm text-green-700 dark:text-green-300 flex items-start space-x-2">
+                <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>
+                  &quot;{result.dashboard.name}&quot; with {result.dashboard.widgets.length} widget{result.dashboard.widgets.length !== 1 ? 's' : ''} is valid.
+                  {result.migrated && ` It was upgraded from export version ${result.version}.`}
+                </span>
+              </div>
+
+              {result.vault && (
+                <label className="flex items-start space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={importVault}
+                    onChange={(e) => setImportVault(e.target.checked)}
+                    className="mt-1"
+                  />
+                  <span>
+                    Also import the encrypted credential vault from this file.
+                    {hasLocalVault && ' This replaces your local vault.'}
+                  </span>
+                </label>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <button
+                  onClick={() => handleImport('merge')}
+                  className="p-4 rounded-lg border-2 border-gray-200 dark:border-gray-700 hover:border-blue-500 text-left transition-colors"
+                >
+                  <div className="font-medium text-sm text-gray-900 dark:text-gray-100">Merge</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    Add the imported widgets to the current dashboard
+                  </div>
+                </button>
+                <button
+                  onClick={() => handleImport('replace')}
+                  className="p-4 rounded-lg border-2 border-gray-200 dark:border-gray-700 hover:border-red-500 text-left transition-colors"
+                >
+                  <div className="font-medium text-sm text-gray-900 dark:text-gray-100">Replace</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    Remove the current {widgets.length} widget{widgets.length !== 1 ? 's' : ''} and use the imported settings
+                  </div>
+                </button>
+              </div>
+            </>
+          ) : (
+            <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+              <div className="flex items-center space-x-2 font-medium mb-2">
+                <AlertCircle className="w-4 h-4" />
+                <span>This file cannot be imported</span>
+              </div>
+              <ul className="space-y-1 text-xs font-mono">
+                {result.errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                  <li key={index}>{formatValidationError(error)}</li>
+                ))}
+              </ul>
+              {result.errors.length > MAX_LISTED_ERRORS && (
+                <p className="mt-2 text-xs">
+                  +{result.errors.length - MAX_LISTED_ERRORS} more error{result.errors.length - MAX_LISTED_ERRORS !== 1 ? 's' : ''}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end p-4 border-t border-gray-200 dark:border-gray-700">
+          <button onClick={onClose} className="btn-secondary">
+            {result.success ? 'Cancel' : 'Close'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { ProviderId, WidgetConfig } from '@/types';
+import { PROVIDERS, USE_FIXTURES, getProvider, getWidgetSymbols } from '@/services/providers';
+import SymbolSearch from './SymbolSearch';
+
+// Form state for the data provider and the symbols it is asked for
+export interface ProviderEditorValue {
+  provider: ProviderId | '';
+  symbols: string[];
+  apiKey: string;
+}
+
+type ProviderConfig = Pick<WidgetConfig, 'provider' | 'symbol' | 'symbols' | 'apiKey'>;
+
+export function toProviderEditorValue(config?: WidgetConfig): ProviderEditorValue {
+  return {
+    provider: config?.provider || '',
+    symbols: getWidgetSymbols(config),
+    apiKey: config?.apiKey || '',
+  };
+}
+
+// Returns an error message instead of a config when a provider is chosen
+// without symbols, unless the widget keeps its symbols elsewhere
+export function fromProviderEditorValue(
+  value: ProviderEditorValue,
+  requireSymbols = true
+): { config?: ProviderConfig; error?: string } {
+  const symbols = value.symbols.map(symbol => symbol.trim()).filter(Boolean);
+  if (value.provider && requireSymbols && symbols.length === 0) {
+    return { error: 'Please choose at least one symbol' };
+  }
+  return {
+    config: {
+      provider: value.provider || undefined,
+      symbol: symbols[0],
+      symbols: symbols.length > 1 ? symbols : undefined,
+      apiKey: (value.provider && value.apiKey.trim()) || undefined,
+    },
+  };
+}
+
+interface ProviderEditorProps {
+  value: ProviderEditorValue;
+  onChange: (value: ProviderEditorValue) => void;
+  apiUrl?: string; // Custom URLs on a provider's host are searched through that provider
+  multiple?: boolean; // Several symbols even without a provider, e.g. for chart comparisons
+  withSymbols?: boolean; // false for watchlists, which edit their lists on the widget
+}
+
+export default function ProviderEditor({ value, onChange, apiUrl, multiple = false, withSymbols = true }: ProviderEditorProps) {
+  const update = (changes: Partial<ProviderEditorValue>) => onChange({ ...value, ...changes });
+  const adapter = getProvider(value.provider || undefined);
+  const searchConfig = { provider: value.provider || undefined, apiUrl, apiKey: value.apiKey || undefined };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Data Source
+      </label>
+      <select
+        value={value.provider}
+        onChange={(e) => update({ provider: e.target.value as ProviderId | '' })}
+        className="input-field"
+      >
+        <option value="">Custom API URL</option>
+        {PROVIDERS.map(provider => (
+          <option key={provider.id} value={provider.id}>{provider.name}</option>
+        ))}
+      </select>
+
+      {adapter && (
+        <input
+          type="password"
+          autoComplete="off"
+          value={value.apiKey}
+          onChange={(e) => update({ apiKey: e.target.value })}
+          placeholder={`${adapter.name} API key${adapter.requiresKey ? '' : ' (optional)'}, e.g. {{vault:NAME}}`}
+          className="input-field font-mono text-sm"
+        />
+      )}
+
+      {withSymbols && (
+        <>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            {adapter ? 'Symbols *' : multiple ? 'Symbols (Optional)' : 'Symbol (Optional)'}
+          </label>
+          <SymbolSearch
+            config={searchConfig}
+            value={value.symbols}
+            onChange={(symbols) => update({ symbols })}
+            multiple={Boolean(adapter) || multiple}
+          />
+        </>
+      )}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {adapter ? (
+          <>
+            Requests are built for {adapter.name} and its responses read into quotes, or candles in chart mode.
+            The API URL is optional; set it to use another host or proxy for the same API.
+            {USE_FIXTURES && ' Recorded responses are being served instead of live data.'}
+          </>
+        ) : (
+          <>
+            The {multiple ? 'first ' : ''}symbol fills {'{{symbol}}'} in the API URL and request body.
+            {multiple && ' Charts request every symbol and plot them against each other.'}
+          </>
+        )}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { WidgetConfig } from '@/types';
+
+export type RequestMode = 'GET' | 'POST' | 'GRAPHQL';
+
+// Form state for the request settings; GraphQL variables stay as text while
+// they are being edited
+export interface RequestEditorValue {
+  mode: RequestMode;
+  bodyTemplate: string;
+  query: string;
+  variables: string;
+}
+
+type RequestConfig = Pick<WidgetConfig, 'method' | 'bodyTemplate' | 'graphql'>;
+
+export function toRequestEditorValue(config?: WidgetConfig): RequestEditorValue {
+  return {
+    mode: config?.graphql ? 'GRAPHQL' : config?.method === 'POST' ? 'POST' : 'GET',
+    bodyTemplate: config?.bodyTemplate || '',
+    query: config?.graphql?.query || '',
+    variables: config?.graphql?.variables ? JSON.stringify(config.graphql.variables, null, 2) : '',
+  };
+}
+
+// Returns an error message instead of a config when the GraphQL query or variables are invalid
+export function fromRequestEditorValue(value: RequestEditorValue): { config?: RequestConfig; error?: string } {
+  if (value.mode === 'GRAPHQL') {
+    if (!value.query.trim()) {
+      return { error: 'Please enter a GraphQL query' };
+    }
+    let variables: Record<string, any> | undefined;
+    if (value.variables.trim()) {
+      try {
+        variables = JSON.parse(value.variables);
+      } catch {
+        return { error: 'GraphQL variables must be valid JSON' };
+      }
+      if (!variables || typeof variables !== 'object' || Array.isArray(variables)) {
+        return { error: 'GraphQL variables must be a JSON object' };
+      }
+    }
+    return {
+      config: {
+        method: 'POST',
+        bodyTemplate: undefined,
+        graphql: { query: value.query, ...(variables && { variables }) },
+      },
+    };
+  }
+
+  if (value.mode === 'POST') {
+    return {
+      config: { method: 'POST', bodyTemplate: value.bodyTemplate || undefined, graphql: undefined },
+    };
+  }
+
+  return { config: { method: 'GET', bodyTemplate: undefined, graphql: undefined } };
+}
+
+interface RequestEditorProps {
+  value: RequestEditorValue;
+  onChange: (value: RequestEditorValue) => void;
+}
+
+const MODES: { id: RequestMode; label: string }[] = [
+  { id: 'GET', label: 'GET' },
+  { id: 'POST', label: 'POST' },
+  { id: 'GRAPHQL', label: 'GraphQL' },
+];
+
+export default function RequestEditor({ value, onChange }: RequestEditorProps) {
+  const update = (changes: Partial<RequestEditorValue>) => onChange({ ...value, ...changes });
+  const { error } = fromRequestEditorValue(value);
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Request
+      </label>
+      <div className="flex space-x-2">
+        {MODES.map(mode => (
+          <button
+            key={mode.id}
+            type="button"
+            onClick={() => update({ mode: mode.id })}
+            className={`px-3 py-1 text-sm rounded-md border transition-colors ${
+              value.mode === mode.id
+                ? 'bg-primary-600 border-primary-600 text-white'
+                : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+
+      {value.mode === 'POST' && (
+        <textarea
+          value={value.bodyTemplate}
+          onChange={(e) => update({ bodyTemplate: e.target.value })}
+          placeholder={'{"jsonrpc": "2.0", "method": "quote", "params": ["AAPL"], "id": 1}'}
+          rows={5}
+          className="input-field font-mono text-xs"
+        />
+      )}
+
+      {value.mode === 'GRAPHQL' && (
+        <>
+          <textarea
+            value={value.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder={'query Quote($symbol: String!) {\n  quote(symbol: $symbol) { price change }\n}'}
+            rows={6}
+            className="input-field font-mono text-xs"
+          />
+          <textarea
+            value={value.variables}
+            onChange={(e) => update({ variables: e.target.value })}
+            placeholder={'Variables (JSON), e.g. {"symbol": "AAPL"}'}
+            rows={3}
+            className="input-field font-mono text-xs"
+          />
+        </>
+      )}
+
+      {value.mode !== 'GET' && (
+        error ? (
+          <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+        ) : (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {'{{today}}'} and {'{{vault:NAME}}'} are filled in when the request is sent. Responses are cached per request body{value.mode === 'GRAPHQL' ? '; mutations are never cached' : ''}.
+          </p>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+'use client';
+
+import { StreamConfig, StreamFields, WidgetConfig } from '@/types';
+
+type StreamType = StreamConfig['type'];
+type MergeMode = NonNullable<StreamConfig['merge']>;
+
+// Form state for a widget's live stream; numbers and lists stay as text while edited
+export interface StreamEditorValue {
+  enabled: boolean;
+  type: StreamType;
+  url: string;
+  subscribeMessage: string;
+  unsubscribeMessage: string;
+  heartbeatMessage: string;
+  heartbeatInterval: string;
+  events: string; // Comma separated
+  cursorPath: string;
+  tickPath: string;
+  merge: MergeMode;
+  keyField: string;
+  fields: Required<StreamFields>;
+}
+
+const TYPES: { id: StreamType; label: string; placeholder: string }[] = [
+  { id: 'websocket', label: 'WebSocket', placeholder: 'wss://ws.finnhub.io?token={{vault:FINNHUB_API_KEY}}' },
+  { id: 'sse', label: 'Server-Sent Events', placeholder: 'https://feeds.example.com/quotes/stream' },
+  { id: 'longpoll', label: 'Long poll', placeholder: 'https://feeds.example.com/quotes/poll?after={{cursor}}' },
+];
+
+const FIELD_LABELS: { key: keyof StreamFields; label: string; placeholder: string }[] = [
+  { key: 'symbol', label: 'Symbol', placeholder: 's' },
+  { key: 'price', label: 'Price', placeholder: 'p' },
+  { key: 'volume', label: 'Volume', placeholder: 'v' },
+  { key: 'time', label: 'Time', placeholder: 't' },
+];
+
+export function toStreamEditorValue(config?: WidgetConfig): StreamEditorValue {
+  const stream = config?.stream;
+  const type = stream?.type || 'websocket';
+  return {
+    enabled: Boolean(stream),
+    type,
+    url: stream?.url || '',
+    subscribeMessage: stream?.subscribeMessage || '',
+    unsubscribeMessage: stream?.unsubscribeMessage || '',
+    heartbeatMessage: stream?.heartbeatMessage || '',
+    heartbeatInterval: stream?.heartbeatInterval ? String(stream.heartbeatInterval) : '',
+    events: stream?.events?.join(', ') || '',
+    cursorPath: stream?.cursorPath || '',
+    tickPath: stream?.tickPath || '',
+    merge: stream?.merge || (type === 'websocket' ? 'ticks' : 'rows'),
+    keyField: stream?.keyField || '',
+    fields: {
+      symbol: stream?.fields?.symbol || '',
+      price: stream?.fields?.price || '',
+      volume: stream?.fields?.volume || '',
+      time: stream?.fields?.time || '',
+    },
+  };
+}
+
+// Returns an error message instead of a config when the stream settings are invalid
+export function fromStreamEditorValue(value: StreamEditorValue): { config?: { stream?: StreamConfig }; error?: string } {
+  if (!value.enabled) return { config: { stream: undefined } };
+
+  const url = value.url.trim();
+  const websocket = value.type === 'websocket';
+  if (websocket && !/^wss?:\/\//i.test(url)) {
+    return { error: 'WebSocket URLs must start with ws:// or wss://' };
+  }
+  if (!websocket && !/^https?:\/\//i.test(url)) {
+    return { error: 'Stream URL must start with http:// or https://' };
+  }
+  const heartbeatInterval = value.heartbeatInterval.trim() ? Number(value.heartbeatInterval) : undefined;
+  if (websocket && heartbeatInterval !== undefined && !(heartbeatInterval >= 1)) {
+    return { error: 'Heartbeat interval must be at least 1 second' };
+  }
+
+  const fields: StreamFields = {};
+  if (value.merge === 'ticks') {
+    FIELD_LABELS.forEach(({ key }) => {
+      if (value.fields[key].trim()) fields[key] = value.fields[key].trim();
+    });
+  }
+  const events = value.events.split(',').map(event => event.trim()).filter(Boolean);
+  const heartbeatMessage = websocket ? value.heartbeatMessage.trim() : '';
+
+  return {
+    config: {
+      stream: {
+        type: value.type,
+        url,
+        ...(websocket && value.subscribeMessage.trim() && { subscribeMessage: value.subscribeMessage.trim() }),
+        ...(websocket && value.unsubscribeMessage.trim() && { unsubscribeMessage: value.unsubscribeMessage.trim() }),
+        ...(heartbeatMessage && { heartbeatMessage }),
+        ...(heartbeatMessage && heartbeatInterval && { heartbeatInterval }),
+        ...(value.type === 'sse' && events.length > 0 && { events }),
+        ...(value.type === 'longpoll' && value.cursorPath.trim() && { cursorPath: value.cursorPath.trim() }),
+        ...(value.tickPath.trim() && { tickPath: value.tickPath.trim() }),
+        merge: value.merge,
+        ...(value.merge === 'rows' && value.keyField.trim() && { keyField: value.keyField.trim() }),
+        ...(Object.keys(fields).length > 0 && { fields }),
+      },
+    },
+  };
+}
+
+interface StreamEditorProps {
+  value: StreamEditorValue;
+  onChange: (value: StreamEditorValue) => void;
+}
+
+export default function StreamEditor({ value, onChange }: StreamEditorProps) {
+  const update = (changes: Partial<StreamEditorValue>) => onChange({ ...value, ...changes });
+  const { error } = fromStreamEditorValue(value);
+  const type = TYPES.find(option => option.id === value.type)!;
+
+  const buttonClass = (active: boolean) => `px-3 py-1 text-sm rounded-md border transition-colors ${
+    active
+      ? 'bg-primary-600 border-primary-600 text-white'
+      : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+  }`;
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-start space-x-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="mt-1 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+        />
+        <span>
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Live updates
+          </span>
+          <span className="block text-xs text-gray-500 dark:text-gray-400">
+            Push updates between refreshes over a WebSocket, Server-Sent Events or a long poll. Widgets with the same stream settings share one connection.
+          </span>
+        </span>
+      </label>
+
+      {value.enabled && (
+        <div className="space-y-2 pl-6">
+          <div className="flex flex-wrap gap-2">
+            {TYPES.map(option => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => update({ type: option.id })}
+                className={buttonClass(value.type === option.id)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <input
+            type="text"
+            value={value.url}
+            onChange={(e) => update({ url: e.target.value })}
+            placeholder={type.placeholder}
+            className="input-field font-mono text-xs"
+          />
+
+          {value.type === 'websocket' && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <textarea
+                  value={value.subscribeMessage}
+                  onChange={(e) => update({ subscribeMessage: e.target.value })}
+                  placeholder={'Subscribe message, e.g. {"type":"subscribe","symbol":"{{symbol}}"}'}
+                  rows={2}
+                  className="input-field font-mono text-xs"
+                />
+                <textarea
+                  value={value.unsubscribeMessage}
+                  onChange={(e) => update({ unsubscribeMessage: e.target.value })}
+                  placeholder={'Unsubscribe message, e.g. {"type":"unsubscribe","symbol":"{{symbol}}"}'}
+                  rows={2}
+                  className="input-field font-mono text-xs"
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <input
+                  type="text"
+                  value={value.heartbeatMessage}
+                  onChange={(e) => update({ heartbeatMessage: e.target.value })}
+                  placeholder={'Heartbeat, e.g. {"type":"ping"}'}
+                  className="input-field font-mono text-xs col-span-2"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  value={value.heartbeatInterval}
+                  onChange={(e) => update({ heartbeatInterval: e.target.value })}
+                  placeholder="Every 30s"
+                  className="input-field text-xs"
+                />
+              </div>
+            </>
+          )}
+
+          {value.type === 'sse' && (
+            <input
+              type="text"
+              value={value.events}
+              onChange={(e) => update({ events: e.target.value })}
+              placeholder="Event names to accept (optional), e.g. quote, trade"
+              className="input-field font-mono text-xs"
+            />
+          )}
+
+          {value.type === 'longpoll' && (
+            <input
+              type="text"
+              value={value.cursorPath}
+              onChange={(e) => update({ cursorPath: e.target.value })}
+              placeholder="Cursor in each response (optional), e.g. next_cursor"
+              className="input-field font-mono text-xs"
+            />
+          )}
+
+          <input
+            type="text"
+            value={value.tickPath}
+            onChange={(e) => update({ tickPath: e.target.value })}
+            placeholder="Updates at (optional), e.g. data"
+            className="input-field font-mono text-xs"
+          />
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-gray-500 dark:text-gray-400">Each update</span>
+            <button type="button" onClick={() => update({ merge: 'ticks' })} className={buttonClass(value.merge === 'ticks')}>
+              Updates prices
+            </button>
+            <button type="button" onClick={() => update({ merge: 'rows' })} className={buttonClass(value.merge === 'rows')}>
+              Adds rows
+            </button>
+            {value.merge === 'rows' && (
+              <input
+                type="text"
+                value={value.keyField}
+                onChange={(e) => update({ keyField: e.target.value })}
+                placeholder="Key field to upsert by (optional), e.g. id"
+                className="input-field font-mono text-xs flex-1 min-w-[12rem]"
+              />
+            )}
+          </div>
+
+          {value.merge === 'ticks' && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {FIELD_LABELS.map(({ key, label, placeholder }) => (
+                <label key={key} className="block">
+                  <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{label} field</span>
+                  <input
+                    type="text"
+                    value={value.fields[key]}
+                    onChange={(e) => update({ fields: { ...value.fields, [key]: e.target.value } })}
+                    placeholder={placeholder}
+                    className="input-field font-mono text-xs"
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+
+          {error ? (
+            <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+          ) : (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {value.merge === 'ticks'
+                ? 'Prices are matched to rows by symbol. Empty fields fall back to common names such as symbol/s, price/p, volume/v and time/t.'
+                : 'Rows with the same key replace each other; without a key every update is appended.'}
+              {' '}{'{{vault:NAME}}'} is filled in when connecting{value.type === 'websocket' ? ' and {{symbol}} once per symbol' : ''}.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { WidgetConfig } from '@/types';
+import { SymbolMatch } from '@/services/providers';
+import { useSymbolSearch } from '@/hooks/useSymbolSearch';
+
+interface SymbolSearchProps {
+  // Which provider to search, and the key and host to search it with
+  config: Pick<WidgetConfig, 'provider' | 'apiUrl' | 'apiKey'>;
+  value: string[];
+  onChange: (symbols: string[]) => void;
+  multiple?: boolean; // Otherwise a pick replaces the current symbol
+  showSelected?: boolean; // false when the chosen symbols are listed elsewhere
+}
+
+export default function SymbolSearch({ config, value, onChange, multiple = false, showSelected = true }: SymbolSearchProps) {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const { results, loading, error, provider } = useSymbolSearch(config, query);
+  const matches = results.filter(match => !value.includes(match.symbol)).slice(0, 10);
+
+  const select = (symbol: string) => {
+    const trimmed = symbol.trim();
+    if (!trimmed) return;
+    onChange(multiple ? Array.from(new Set([...value, trimmed])) : [trimmed]);
+    setQuery('');
+    setHighlighted(0);
+    setOpen(false);
+  };
+
+  const remove = (symbol: string) => onChange(value.filter(s => s !== symbol));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setOpen(true);
+      setHighlighted(prev => Math.min(prev + 1, matches.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter') {
+      // Keep the form from submitting; a typed symbol is used as is when nothing matches
+      e.preventDefault();
+      select(open && matches[highlighted] ? matches[highlighted].symbol : query);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    } else if (e.key === 'Backspace' && !query && value.length > 0 && showSelected) {
+      remove(value[value.length - 1]);
+    }
+  };
+
+  const describe = (match: SymbolMatch) =>
+    [match.exchange || match.region, match.type, match.currency].filter(Boolean).join(' · ');
+
+  return (
+    <div className="relative">
+      <div className="input-field flex flex-wrap items-center gap-1">
+        {showSelected && value.map(symbol => (
+          <span
+            key={symbol}
+            className="flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded bg-primary-100 text-primary-700 dark:bg-blue-900/30 dark:text-blue-300"
+          >
+            {symbol}
+            <button type="button" onClick={() => remove(symbol)} aria-label={`Remove ${symbol}`}>
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <div className="flex items-center flex-1 min-w-[8rem]">
+          <Search className="w-4 h-4 text-gray-400 mr-1" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setHighlighted(0);
+              setOpen(true);
+            }}
+            onFocus={() => setOpen(true)}
+            // Delay so a click on a result lands before the list closes
+            onBlur={() => setTimeout(() => setOpen(false), 150)}
+            onKeyDown={handleKeyDown}
+            placeholder={provider ? `Search ${provider.name}` : 'Type a symbol and press Enter'}
+            className="flex-1 bg-transparent outline-none text-sm"
+          />
+        </div>
+      </div>
+
+      {open && query.trim() && provider && (
+        <div className="absolute left-0 right-0 mt-1 max-h-64 overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50">
+          {loading && matches.length === 0 && (
+            <div className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">Searching…</div>
+          )}
+          {error && (
+            <div className="px-3 py-2 text-sm text-red-600 dark:text-red-400">{error}</div>
+          )}
+          {!loading && !error && matches.length === 0 && (
+            <div className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+              No matches. Press Enter to use &quot;{query.trim()}&quot;
+            </div>
+          )}
+          {matches.map((match, index) => (
+            <button
+              key={match.symbol}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(match.symbol)}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`w-full flex items-center justify-between gap-3 px-3 py-2 text-left text-sm ${
+                index === highlighted ? 'bg-gray-100 dark:bg-gray-700' : ''
+              }`}
+            >
+              <div className="min-w-0">
+                <div className="font-semibold text-gray-900 dark:text-gray-100">{match.symbol}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{match.name}</div>
+              </div>
+              <span className="text-xs text-gray-400 whitespace-nowrap">{describe(match)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
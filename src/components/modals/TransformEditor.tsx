@@ -0,0 +1,194 @@
+'use client';
+
+import { TransformConfig, RowFilter } from '@/types';
+import { applyTransform, validateTransform } from '@/services/dataTransform';
+import { Plus, Trash2 } from 'lucide-react';
+
+const OPERATORS: { id: RowFilter['operator']; label: string }[] = [
+  { id: 'eq', label: '=' },
+  { id: 'neq', label: '≠' },
+  { id: 'gt', label: '>' },
+  { id: 'gte', label: '≥' },
+  { id: 'lt', label: '<' },
+  { id: 'lte', label: '≤' },
+  { id: 'contains', label: 'contains' },
+  { id: 'exists', label: 'exists' },
+];
+
+// Drop blank entries left over from editing; an empty transform is removed
+export function normalizeTransform(transform: TransformConfig): TransformConfig | undefined {
+  const normalized: TransformConfig = {
+    ...(transform.root?.trim() && { root: transform.root.trim() }),
+    ...(transform.explode && { explode: { keyAs: transform.explode.keyAs.trim() || 'key' } }),
+    columns: (transform.columns || []).filter(c => c.name.trim() || c.expression.trim()),
+    filters: (transform.filters || []).filter(f => f.field.trim()),
+  };
+  if (!normalized.columns?.length) delete normalized.columns;
+  if (!normalized.filters?.length) delete normalized.filters;
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+interface TransformEditorProps {
+  value: TransformConfig;
+  onChange: (value: TransformConfig) => void;
+  sample?: any; // Last test response, for the preview
+}
+
+export default function TransformEditor({ value, onChange, sample }: TransformEditorProps) {
+  const columns = value.columns || [];
+  const filters = value.filters || [];
+  const normalized = normalizeTransform(value);
+  const error = normalized ? validateTransform(normalized) : null;
+
+  let preview: { rows: number; first?: any; error?: string } | null = null;
+  if (sample !== undefined && normalized && !error) {
+    try {
+      const rows = applyTransform(sample, normalized);
+      preview = { rows: rows.length, first: rows[0] };
+    } catch (err) {
+      preview = { rows: 0, error: err instanceof Error ? err.message : 'Transform failed' };
+    }
+  }
+
+  const update = (changes: Partial<TransformConfig>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Transform (Optional)
+        </label>
+        <input
+          type="text"
+          value={value.root || ''}
+          onChange={(e) => update({ root: e.target.value })}
+          placeholder="Rows selector, e.g. data.items or $['Time Series (Daily)']"
+          className="input-field font-mono text-sm"
+        />
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={Boolean(value.explode)}
+          onChange={(e) => update({ explode: e.target.checked ? { keyAs: 'date' } : undefined })}
+        />
+        <span>Turn an object keyed by date or symbol into rows, keeping the key as</span>
+        <input
+          type="text"
+          value={value.explode?.keyAs || ''}
+          onChange={(e) => update({ explode: { keyAs: e.target.value } })}
+          disabled={!value.explode}
+          className="input-field w-24 py-1 text-sm"
+        />
+      </label>
+
+      {/* Computed columns */}
+      <div className="space-y-2">
+        {columns.map((column, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={column.name}
+              onChange={(e) => update({ columns: columns.map((c, i) => i === index ? { ...c, name: e.target.value } : c) })}
+              placeholder="Column"
+              className="input-field w-32 text-sm"
+            />
+            <span className="text-gray-500">=</span>
+            <input
+              type="text"
+              value={column.expression}
+              onChange={(e) => update({ columns: columns.map((c, i) => i === index ? { ...c, expression: e.target.value } : c) })}
+              placeholder="({4. close} - {1. open}) / {1. open} * 100"
+              className="input-field flex-1 font-mono text-sm"
+            />
+            <button
+              type="button"
+              onClick={() => update({ columns: columns.filter((_, i) => i !== index) })}
+              className="text-red-500 hover:text-red-700"
+              aria-label="Remove column"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+
+        {filters.map((filter, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <span className="text-xs text-gray-500 dark:text-gray-400 w-10">where</span>
+            <input
+              type="text"
+              value={filter.field}
+              onChange={(e) => update({ filters: filters.map((f, i) => i === index ? { ...f, field: e.target.value } : f) })}
+              placeholder="Field"
+              className="input-field flex-1 text-sm"
+            />
+            <select
+              value={filter.operator}
+              onChange={(e) => update({ filters: filters.map((f, i) => i === index ? { ...f, operator: e.target.value as RowFilter['operator'] } : f) })}
+              className="input-field w-28 text-sm"
+            >
+              {OPERATORS.map(op => (
+                <option key={op.id} value={op.id}>{op.label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={filter.value || ''}
+              onChange={(e) => update({ filters: filters.map((f, i) => i === index ? { ...f, value: e.target.value } : f) })}
+              disabled={filter.operator === 'exists'}
+              placeholder="Value"
+              className="input-field flex-1 text-sm"
+            />
+            <button
+              type="button"
+              onClick={() => update({ filters: filters.filter((_, i) => i !== index) })}
+              className="text-red-500 hover:text-red-700"
+              aria-label="Remove filter"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+
+        <div className="flex space-x-2">
+          <button
+            type="button"
+            onClick={() => update({ columns: [...columns, { name: '', expression: '' }] })}
+            className="btn-secondary flex items-center space-x-1 px-3 py-1 text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Computed column</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => update({ filters: [...filters, { field: '', operator: 'eq', value: '' }] })}
+            className="btn-secondary flex items-center space-x-1 px-3 py-1 text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Filter</span>
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      ) : preview?.error ? (
+        <p className="text-xs text-red-600 dark:text-red-400">{preview.error}</p>
+      ) : preview ? (
+        <div className="text-xs text-gray-600 dark:text-gray-400">
+          <p>{preview.rows} row{preview.rows !== 1 ? 's' : ''} after transform</p>
+          {preview.first && (
+            <pre className="mt-1 p-2 bg-gray-100 dark:bg-gray-800 rounded overflow-auto max-h-32">
+              {JSON.stringify(preview.first, null, 2)}
+            </pre>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Selectors use dots, [&apos;quoted keys&apos;], [0] and [*]. Columns are arithmetic over {'{field}'} references. Test the endpoint to preview the rows.
+        </p>
+      )}
+    </div>
+  );
+}
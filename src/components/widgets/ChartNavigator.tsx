@@ -0,0 +1,60 @@
+'use client';
+
+import { useMemo } from 'react';
+import { LineChart, Line, Brush, ResponsiveContainer } from 'recharts';
+import { lttb, MAX_RENDER_POINTS } from '@/services/chartViewport';
+
+interface ChartNavigatorProps {
+  values: (number | null)[]; // The whole series, oldest first
+  labels: string[]; // Shown at the brush's ends
+  start: number;
+  end: number; // Exclusive
+  onChange: (start: number, end: number) => void;
+  formatLabel?: (label: string) => string;
+}
+
+// Overview of the whole series with a brush over the part in view. The
+// overview is down-sampled, so brush positions are mapped between its points
+// and the series' bars.
+export default function ChartNavigator({ values, labels, start, end, onChange, formatLabel }: ChartNavigatorProps) {
+  const points = useMemo(() => {
+    const indices = lttb(values, MAX_RENDER_POINTS);
+    return indices.map(index => ({ index, value: values[index], label: labels[index] }));
+  }, [values, labels]);
+
+  if (points.length < 2) return null;
+
+  const toPoint = (bar: number) => {
+    const found = points.findIndex(point => point.index >= bar);
+    return found === -1 ? points.length - 1 : found;
+  };
+  const startIndex = toPoint(start);
+  const endIndex = Math.max(startIndex, Math.min(points.length - 1, toPoint(end - 1)));
+
+  return (
+    <div className="h-12">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points} margin={{ top: 0, right: 8, bottom: 0, left: 8 }}>
+          <Brush
+            dataKey="label"
+            height={44}
+            travellerWidth={8}
+            tickFormatter={formatLabel}
+            startIndex={startIndex}
+            endIndex={endIndex}
+            stroke="#0ea5e9"
+            fill="transparent"
+            onChange={({ startIndex: from, endIndex: to }) => {
+              if (from === undefined || to === undefined) return;
+              onChange(points[from].index, points[to].index + 1);
+            }}
+          >
+            <LineChart data={points}>
+              <Line type="monotone" dataKey="value" stroke="#9ca3af" strokeWidth={1} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </Brush>
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
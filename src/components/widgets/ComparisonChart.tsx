@@ -0,0 +1,144 @@
+'use client';
+
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { format } from 'date-fns';
+import { ComparisonRow, CorrelationPair, comparisonColor } from '@/services/comparison';
+
+interface ComparisonChartProps {
+  syncId: string;
+  symbols: string[];
+  rows: ComparisonRow[];
+  scale: 'price' | 'percent';
+  hiddenSymbols: string[];
+  onToggle: (symbol: string) => void;
+  changes: Record<string, number | undefined>; // Percent change over the window
+  correlations: CorrelationPair[];
+  failedSymbols: string[];
+  formatXAxisLabel: (tick: string) => string;
+  plotRef?: (element: HTMLDivElement | null) => void; // Receives wheel zoom and drag panning
+}
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const formatPrice = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+export default function ComparisonChart({
+  syncId,
+  symbols,
+  rows,
+  scale,
+  hiddenSymbols,
+  onToggle,
+  changes,
+  correlations,
+  failedSymbols,
+  formatXAxisLabel,
+  plotRef,
+}: ComparisonChartProps) {
+  const formatValue = scale === 'percent' ? formatPercent : formatPrice;
+
+  return (
+    <div className="space-y-3">
+      {/* Legend; clicking a symbol hides or shows its line */}
+      <div className="flex flex-wrap gap-2">
+        {symbols.map((symbol, index) => {
+          const hidden = hiddenSymbols.includes(symbol);
+          const failed = failedSymbols.includes(symbol);
+          const change = changes[symbol];
+          return (
+            <button
+              key={symbol}
+              onClick={() => onToggle(symbol)}
+              disabled={failed}
+              title={failed ? `Could not load ${symbol}` : hidden ? `Show ${symbol}` : `Hide ${symbol}`}
+              className={`flex items-center gap-2 px-2 py-1 text-xs font-medium rounded-md bg-gray-100 dark:bg-gray-800 transition-opacity ${
+                hidden || failed ? 'opacity-40' : ''
+              }`}
+            >
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: comparisonColor(index) }} />
+              <span className={`text-gray-900 dark:text-gray-100 ${failed ? 'line-through' : ''}`}>{symbol}</span>
+              {change !== undefined && (
+                <span className={change >= 0 ? 'text-green-600' : 'text-red-600'}>{formatPercent(change)}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <div ref={plotRef} className="h-80 cursor-grab active:cursor-grabbing select-none">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={rows} syncId={syncId}>
+            <CartesianGrid
+              strokeDasharray="3 3"
+              className="stroke-gray-200 dark:stroke-gray-700"
+            />
+            <XAxis
+              dataKey="date"
+              tickFormatter={formatXAxisLabel}
+              className="text-gray-600 dark:text-gray-400"
+              fontSize={12}
+            />
+            <YAxis
+              domain={['auto', 'auto']}
+              tickFormatter={(value) => scale === 'percent' ? `${Number(value).toFixed(0)}%` : `$${Number(value).toFixed(2)}`}
+              className="text-gray-600 dark:text-gray-400"
+              fontSize={12}
+            />
+            <Tooltip
+              formatter={(value: any, name: any) => [formatValue(Number(value)), name]}
+              labelFormatter={(label) => {
+                try {
+                  return format(new Date(label), 'PPpp');
+                } catch {
+                  return label;
+                }
+              }}
+              contentStyle={{
+                backgroundColor: 'var(--tooltip-bg)',
+                border: '1px solid var(--tooltip-border)',
+                borderRadius: '8px',
+                color: 'var(--tooltip-color)',
+              }}
+            />
+            {scale === 'percent' && <ReferenceLine y={0} stroke="#9ca3af" strokeDasharray="3 3" />}
+            {symbols.map((symbol, index) => (
+              <Line
+                key={symbol}
+                type="monotone"
+                dataKey={symbol}
+                name={symbol}
+                stroke={comparisonColor(index)}
+                strokeWidth={2}
+                dot={false}
+                hide={hiddenSymbols.includes(symbol)}
+                // Symbols trading on different calendars leave gaps in each other's rows
+                connectNulls
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Correlation of returns between the visible symbols */}
+      {correlations.length > 0 && (
+        <div>
+          <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+            Correlation of returns over the visible bars
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+            {correlations.map(pair => (
+              <div key={`${pair.a}-${pair.b}`} className="text-gray-700 dark:text-gray-300">
+                {pair.a} / {pair.b}:{' '}
+                <span className="font-semibold text-gray-900 dark:text-gray-100">
+                  {pair.value === null ? 'n/a' : pair.value.toFixed(2)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { Widget } from '@/types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { StreamTick, Widget } from '@/types';
 import { 
   RefreshCw, 
   TrendingUp, 
@@ -23,29 +23,69 @@ import {
   Shield,
   Server
 } from 'lucide-react';
-import { useDashboardStore } from '@/store/dashboardStore';
+import { getWidget, useDashboardStore } from '@/store/dashboardStore';
+import { recordWidgetError } from '@/store/notificationStore';
 import LoadingSpinner from '@/components/layout/LoadingSpinner';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { cachedFetch } from '@/services/apiCache';
+import { cachedFetch, isAbortError } from '@/services/apiCache';
+import { buildWidgetRequest, assertGraphqlResponse, renderUrlTemplate, usesInterval } from '@/services/requestBuilder';
+import { toRows, getValue, inferTransform, applyTransform, Row } from '@/services/dataTransform';
+import { ChartInterval, fetchWidgetPayload, getWidgetSymbols, normalizeQuote, parseOhlcPayload } from '@/services/providers';
+import { applyTicksToRows, latestTicks, mergeStreamRows, parseStreamRows, streamMergeMode, MAX_STREAM_ROWS } from '@/services/streamTicks';
+import { streamManager } from '@/services/streamManager';
+import { alertEngine } from '@/services/alertEngine';
 import { ApiErrorHandler, ApiError } from '@/services/apiErrorHandler';
+import { useCredentialVault } from '@/hooks/useCredentialVault';
+import { useScheduledRefresh } from '@/hooks/useRefreshSchedule';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useRequestConfig } from '@/hooks/useRequestConfig';
+import { useStream, useStreamMessages, useStreamState } from '@/hooks/useStream';
 import ErrorDisplay from './ErrorDisplay';
+import TimeSeriesChart, { TimeSeriesPoint } from './TimeSeriesChart';
+
+// Everything a fetch is built from
+const REQUEST_FIELDS = [
+  'apiUrl',
+  'apiHeaders',
+  'useProxy',
+  'method',
+  'bodyTemplate',
+  'graphql',
+  'provider',
+  'apiKey',
+  'symbol',
+  'symbols',
+  'interval',
+  'displayMode',
+  'refreshInterval',
+] as const;
 
 interface CustomWidgetProps {
   widget: Widget;
+  isVisible?: boolean;
 }
 
 interface CustomApiData {
   [key: string]: any;
 }
 
-export default function CustomWidget({ widget }: CustomWidgetProps) {
-  const [data, setData] = useState<CustomApiData[]>([]);
+export default function CustomWidget({ widget, isVisible = true }: CustomWidgetProps) {
+  // The raw response; display modes read the rows derived from it below
+  const [payload, setPayload] = useState<any>(null);
+  // Latest live tick per symbol, or rows from the stream, merged over the
+  // polled rows until the next payload
+  const [ticks, setTicks] = useState<Record<string, StreamTick>>({});
+  const [streamRows, setStreamRows] = useState<Row[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [apiError, setApiError] = useState<ApiError | null>(null);
   const [retryCountdown, setRetryCountdown] = useState<number>(0);
   const [showEditModal, setShowEditModal] = useState(false);
   const { autoRefresh, refreshInterval, updateWidgetData, updateWidget } = useDashboardStore();
+  const { unlocked: vaultUnlocked } = useCredentialVault();
+  const wasVaultUnlocked = useRef(vaultUnlocked);
+  // Read at request time so scrolling doesn't trigger a refetch
+  const isVisibleRef = useRef(isVisible);
+  isVisibleRef.current = isVisible;
   
   // Table view state
   const [currentPage, setCurrentPage] = useState(1);
@@ -55,42 +95,139 @@ export default function CustomWidget({ widget }: CustomWidgetProps) {
   const [filterValue, setFilterValue] = useState('');
   const itemsPerPage = 10;
 
+  // Cancel requests for the previous endpoint when the config changes or the widget unmounts
+  // Re-derived when the transform is edited, without refetching
+  const { data: polledData, transformError } = useMemo((): { data: CustomApiData[]; transformError?: string } => {
+    try {
+      return { data: toRows(payload, widget.config?.transform) };
+    } catch (err) {
+      return { data: [], transformError: err instanceof Error ? err.message : 'Invalid transform' };
+    }
+  }, [payload, widget.config?.transform]);
+  const stream = widget.config?.stream;
+  const data = useMemo(
+    () => mergeStreamRows(applyTicksToRows(polledData, ticks), streamRows, stream?.keyField),
+    [polledData, ticks, streamRows, stream?.keyField]
+  );
+
+  // A new payload is at least as fresh as what the stream sent before it
+  useEffect(() => {
+    setTicks({});
+    setStreamRows([]);
+  }, [payload]);
+
+  const streamMode = stream && streamMergeMode(stream);
+  const widgetSymbols = getWidgetSymbols(widget.config);
+  useStream(streamMode === 'ticks' ? stream : undefined, widgetSymbols, batch => setTicks(current => latestTicks(current, batch)));
+  useStreamMessages(streamMode === 'rows' ? stream : undefined, widgetSymbols, messages => {
+    const incoming = messages.flatMap(message => parseStreamRows(message.data, stream!));
+    setStreamRows(current => mergeStreamRows(current, incoming, stream?.keyField).slice(-MAX_STREAM_ROWS));
+  });
+  const streamState = useStreamState(stream);
+
+  // Stream updates never pass through updateWidgetData, so the alert rules
+  // are checked here against the rows shown before each flushed batch. A new
+  // payload was already checked when it was stored.
+  const shownRef = useRef({ rows: data, polled: polledData });
+  const hasStreamUpdates = Object.keys(ticks).length > 0 || streamRows.length > 0;
+  useEffect(() => {
+    const previous = shownRef.current;
+    shownRef.current = { rows: data, polled: polledData };
+    if (hasStreamUpdates && previous.polled === polledData && previous.rows !== data) {
+      alertEngine.evaluateRows(widget, previous.rows, data);
+    }
+  }, [data, polledData, hasStreamUpdates, widget]);
+
+  const { request: config, requestKey } = useRequestConfig(widget.config, REQUEST_FIELDS);
+  const getSignal = useAbortSignal(requestKey);
+
   const fetchData = useCallback(async (skipCache = false) => {
-    if (!widget.config?.apiUrl) return;
+    // Stream-only widgets build their rows from the stream
+    if (!config?.apiUrl && !config?.provider) return;
     
+    const signal = getSignal();
     setLoading(true);
     setError(null);
     setApiError(null);
     
     try {
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        ...widget.config.apiHeaders,
-      };
-
       // Use cached fetch with custom TTL based on refresh interval
-      const refreshInterval = widget.config?.refreshInterval || 30;
+      const refreshInterval = config.refreshInterval || 30;
       const ttl = refreshInterval * 1000; // Convert to milliseconds
 
-      const result = await cachedFetch(
-        widget.config.apiUrl,
-        {
-          method: 'GET',
-          headers,
+      // A payload cached by an earlier visit is shown straight away and
+      // replaced once the background refresh completes
+      let staleSince: string | undefined;
+      const cacheOptions = {
+        ttl,
+        skipCache,
+        useProxy: config.useProxy,
+        // Widgets on screen jump the queue when a host's rate budget runs out
+        priority: isVisibleRef.current ? 'high' as const : 'low' as const,
+        staleWhileRevalidate: true,
+        onStale: (since: number) => {
+          staleSince = new Date(since).toISOString();
         },
-        {
-          ttl,
-          skipCache,
-          withRetry: true
-        }
-      );
+        onRevalidate: (fresh: any) => {
+          setPayload(fresh);
+          updateWidgetData(widget.id, fresh);
+          updateWidget(widget.id, { staleSince: undefined, lastError: undefined });
+        },
+        onRevalidateError: (revalidateError: ApiError) => {
+          // The cached payload stays on screen, marked stale with the reason.
+          // Read from the store so a rename or new error doesn't rebuild fetchData.
+          const current = getWidget(widget.id);
+          updateWidget(widget.id, {
+            staleSince,
+            lastError: {
+              type: revalidateError.type,
+              message: revalidateError.message,
+              timestamp: Date.now(),
+              retryAfter: revalidateError.retryAfter,
+              retryCount: current?.lastError?.retryCount,
+            },
+          });
+          if (current) recordWidgetError(current, revalidateError);
+        },
+      };
+
+      let result: any;
+      if (config.provider) {
+        // Quotes or candles in the common shape, whatever the provider returns
+        result = await fetchWidgetPayload(config, { ...cacheOptions, signal });
+      } else {
+        const headers: Record<string, string> = {
+          'Content-Type': 'application/json',
+          ...config.apiHeaders,
+        };
+        const request = buildWidgetRequest(config);
+        result = await cachedFetch(
+          renderUrlTemplate(config.apiUrl!, config),
+          {
+            method: request.method,
+            headers,
+            body: request.body,
+            signal,
+          },
+          {
+            ...cacheOptions,
+            cacheable: request.cacheable,
+            parseResponse: config.graphql ? assertGraphqlResponse : undefined,
+            withRetry: true,
+          }
+        );
+      }
 
-      setData(Array.isArray(result) ? result : [result]);
+      setPayload(result);
       updateWidgetData(widget.id, result);
       
       // Clear any previous error state on successful fetch
-      updateWidget(widget.id, { lastError: undefined });
+      updateWidget(widget.id, { lastError: undefined, staleSince });
     } catch (err) {
+      if (isAbortError(err)) {
+        return;
+      }
+
       let apiErr: ApiError;
       
       // Check if it's already an ApiError from our handler
@@ -105,24 +242,28 @@ export default function CustomWidget({ widget }: CustomWidgetProps) {
       setError(ApiErrorHandler.getErrorMessage(apiErr));
       
       // Store error state in widget for smart refresh logic
+      const current = getWidget(widget.id);
       const errorState = {
         type: apiErr.type,
         message: apiErr.message,
         timestamp: Date.now(),
         retryAfter: apiErr.retryAfter,
-        retryCount: (widget.lastError?.retryCount || 0) + 1
+        retryCount: (current?.lastError?.retryCount || 0) + 1
       };
       
       updateWidget(widget.id, { lastError: errorState });
+      if (current) recordWidgetError(current, apiErr);
       
       // Start countdown for rate limit errors
       if (apiErr.type === 'rate_limit' && apiErr.retryAfter) {
         startRetryCountdown(apiErr.retryAfter);
       }
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) {
+        setLoading(false);
+      }
     }
-  }, [widget.config?.apiUrl, widget.config?.apiHeaders, widget.config?.refreshInterval, widget.id, widget.lastError?.retryCount, updateWidgetData, updateWidget]);
+  }, [config, widget.id, updateWidgetData, updateWidget, getSignal]);
 
   const startRetryCountdown = (seconds: number) => {
     setRetryCountdown(seconds);
@@ -147,11 +288,17 @@ export default function CustomWidget({ widget }: CustomWidgetProps) {
     fetchData();
   }, [fetchData]);
 
-  const getNestedValue = (obj: any, path: string): any => {
-    return path.split('.').reduce((current, key) => {
-      return current && current[key] !== undefined ? current[key] : null;
-    }, obj);
-  };
+  // Scheduled refreshes always go to the network; the cache TTL matches the interval
+  useScheduledRefresh(widget.id, () => fetchData(true));
+
+  // A locked vault fails as an auth error, which smart refresh never retries,
+  // so try again as soon as the vault is unlocked
+  useEffect(() => {
+    if (vaultUnlocked && !wasVaultUnlocked.current && widget.lastError?.type === 'auth') {
+      fetchData(true);
+    }
+    wasVaultUnlocked.current = vaultUnlocked;
+  }, [vaultUnlocked, widget.lastError?.type, fetchData]);
 
   const flattenObject = (obj: any, prefix = '', maxDepth = 2, currentDepth = 0): Record<string, any> => {
     const flattened: Record<string, any> = {};
@@ -268,10 +415,7 @@ export default function CustomWidget({ widget }: CustomWidgetProps) {
     return (
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
         {displayData.map((item, index) => {
-          const symbol = getNestedValue(item, 'symbol') || getNestedValue(item, 'name') || `Stock ${index + 1}`;
-          const price = getNestedValue(item, 'price') || getNestedValue(item, 'current_price') || 0;
-          const change = getNestedValue(item, 'change') || getNestedValue(item, 'price_change_24h') || 0;
-          const changePercent = getNestedValue(item, 'change_percent') || getNestedValue(item, 'price_change_percentage_24h') || 0;
+          const { symbol, price, change, changePercent } = normalizeQuote(item, `Stock ${index + 1}`);
           
           return (
             <div key={index} className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700 hover:shadow-md transition-shadow">
@@ -302,11 +446,9 @@ export default function CustomWidget({ widget }: CustomWidgetProps) {
   
   const renderMarketGainersCards = () => {
     // Sort by change percentage and take top gainers
-    const sortedData = [...data].sort((a, b) => {
-      const aChange = getNestedValue(a, 'change_percent') || getNestedValue(a, 'price_change_percentage_24h') || 0;
-      const bChange = getNestedValue(b, 'change_percent') || getNestedValue(b, 'price_change_percentage_24h') || 0;
-      return bChange - aChange;
-    }).slice(0, 5);
+    const sortedData = [...data]
+      .sort((a, b) => normalizeQuote(b).changePercent - normalizeQuote(a).changePercent)
+      .slice(0, 5);
     
     return (
       <div className="space-y-3">
@@ -315,10 +457,7 @@ export default function CustomWidget({ widget }: CustomWidgetProps) {
           <h3 className="font-semibold text-gray-900 dark:text-gray-100">Top Gainers</h3>
         </div>
         {sortedData.map((item, index) => {
-          const symbol = getNestedValue(item, 'symbol') || getNestedValue(item, 'name') || `Stock ${index + 1}`;
-          const price = getNestedValue(item, 'price') || getNestedValue(item, 'current_price') || 0;
-          const change = getNestedValue(item, 'change') || getNestedValue(item, 'price_change_24h') || 0;
-          const changePercent = getNestedValue(item, 'change_percent') || getNestedValue(item, 'price_change_percentage_24h') || 0;
+          const { symbol, price, change, changePercent } = normalizeQuote(item, `Stock ${index + 1}`);
           
           return (
             <div key={index} className="flex items-center justify-between p-3 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-200 dark:border-green-800">
@@ -353,7 +492,7 @@ export default function CustomWidget({ widget }: CustomWidgetProps) {
     return (
       <div className="grid grid-cols-2 gap-4">
         {fieldMappings.slice(0, 4).map((field, index) => {
-          const value = getNestedValue(item, field.apiField);
+          const value = getValue(item, field.apiField);
           const isNumeric = typeof value === 'number';
           const displayValue = formatValue(value, field.type);
           const isPositive = isNumeric && value > 0;
@@ -394,7 +533,7 @@ export default function CustomWidget({ widget }: CustomWidgetProps) {
     return (
       <div className="space-y-4">
         {fieldMappings.map((field, index) => {
-          const value = getNestedValue(item, field.apiField);
+          const value = getValue(item, field.apiField);
           const displayValue = formatValue(value, field.type);
           const isNumeric = typeof value === 'number';
           
@@ -494,7 +633,7 @@ export default function CustomWidget({ widget }: CustomWidgetProps) {
       <div className="widget-content">
         {fieldMappings.map((field, index) => {
           const key = field.apiField;
-          const value = getNestedValue(item, key);
+          const value = getValue(item, key);
           const isNumeric = typeof value === 'number';
           const displayKey = field.displayName || key.replace(/([A-Z])/g, ' $1').replace(/^./, (str: string) => str.toUpperCase());
           const displayValue = formatValue(value, field.type);
@@ -540,8 +679,8 @@ export default function CustomWidget({ widget }: CustomWidgetProps) {
     // Apply sorting
     if (sortField) {
       filteredData.sort((a, b) => {
-        const aValue = getNestedValue(a, sortField);
-        const bValue = getNestedValue(b, sortField);
+        const aValue = getValue(a, sortField);
+        const bValue = getValue(b, sortField);
         
         if (typeof aValue === 'number' && typeof bValue === 'number') {
           return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
@@ -647,7 +786,7 @@ export default function CustomWidget({ widget }: CustomWidgetProps) {
                 <tr key={rowIndex} className="border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800/50">
                   {fieldMappings.length > 0 ? (
                     fieldMappings.map((field, colIndex) => {
-                      const value = getNestedValue(item, field.apiField);
+                      const value = getValue(item, field.apiField);
                       const isNumeric = typeof value === 'number';
                       const displayValue = formatValue(value, field.type);
                       
@@ -725,118 +864,13 @@ export default function CustomWidget({ widget }: CustomWidgetProps) {
   const renderChartView = () => {
     if (!data || data.length === 0) return null;
 
-    const fieldMappings = widget.config?.fieldMappings || [];
-    
-    // Handle different data formats for charts
-    let chartData: any[] = [];
-    
-    // Check if data has time series format (like CoinGecko API)
-    const firstItem = data[0];
-    
-    // Format 1: Alpha Vantage style - { "Time Series (Daily)": { "2025-09-09": { "1. open": "256.12", ... } } }
-    if (firstItem && firstItem['Time Series (Daily)']) {
-      const timeSeriesData = firstItem['Time Series (Daily)'];
-      chartData = Object.entries(timeSeriesData)
-        .sort(([dateA], [dateB]) => new Date(dateA).getTime() - new Date(dateB).getTime())
-        .slice(0, 50)
-        .map(([date, values]: [string, any]) => ({
-          date: new Date(date).toLocaleDateString(),
-          timestamp: new Date(date).getTime(),
-          open: parseFloat(values['1. open']),
-          high: parseFloat(values['2. high']),
-          low: parseFloat(values['3. low']),
-          close: parseFloat(values['4. close']),
-          volume: parseFloat(values['5. volume']),
-          'Open': parseFloat(values['1. open']),
-          'High': parseFloat(values['2. high']),
-          'Low': parseFloat(values['3. low']),
-          'Close': parseFloat(values['4. close']),
-          'Volume': parseFloat(values['5. volume'])
-        }));
-    }
-    // Format 2: CoinGecko style - { prices: [[timestamp, price], ...], market_caps: [...] }
-    else if (firstItem && firstItem.prices && Array.isArray(firstItem.prices)) {
-      chartData = firstItem.prices.slice(0, 50).map(([timestamp, price]: [number, number]) => ({
-        date: new Date(timestamp).toLocaleDateString(),
-        timestamp: timestamp,
-        price: price,
-        'Price (USD)': price
-      }));
-      
-      // Add market cap data if available
-      if (firstItem.market_caps) {
-        firstItem.market_caps.slice(0, 50).forEach(([timestamp, marketCap]: [number, number], index: number) => {
-          if (chartData[index] && chartData[index].timestamp === timestamp) {
-            chartData[index]['Market Cap'] = marketCap;
-          }
-        });
-      }
-      
-      // Add volume data if available
-      if (firstItem.total_volumes) {
-        firstItem.total_volumes.slice(0, 50).forEach(([timestamp, volume]: [number, number], index: number) => {
-          if (chartData[index] && chartData[index].timestamp === timestamp) {
-            chartData[index]['Volume'] = volume;
-          }
-        });
-      }
-    }
-    // Format 2: Array of objects with time/date fields
-    else if (Array.isArray(data) && data.length > 0) {
-      const numericFields = fieldMappings.filter(field => 
-        field.type === 'number' || field.type === 'currency' || field.type === 'percentage'
-      );
-      
-      if (numericFields.length === 0) {
-        return (
-          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
-            No numeric fields available for chart display
-          </div>
-        );
-      }
-
-      chartData = data.slice(0, 50).map((item, index) => {
-        const dataPoint: any = {};
-        
-        // Try to find a date/time field
-        const dateField = Object.keys(item).find(key => 
-          key.toLowerCase().includes('date') || 
-          key.toLowerCase().includes('time') ||
-          key.toLowerCase().includes('timestamp')
-        );
-        
-        if (dateField) {
-          const dateValue = item[dateField];
-          if (typeof dateValue === 'number') {
-            dataPoint.date = new Date(dateValue).toLocaleDateString();
-            dataPoint.timestamp = dateValue;
-          } else if (typeof dateValue === 'string') {
-            dataPoint.date = new Date(dateValue).toLocaleDateString();
-            dataPoint.timestamp = new Date(dateValue).getTime();
-          }
-        } else {
-          dataPoint.date = `Point ${index + 1}`;
-          dataPoint.timestamp = index;
-        }
-        
-        // Add numeric fields
-        numericFields.forEach(field => {
-          const value = getNestedValue(item, field.apiField);
-          if (typeof value === 'number') {
-            dataPoint[field.displayName || field.apiField] = value;
-          } else if (typeof value === 'string') {
-            const numericValue = parseFloat(value);
-            dataPoint[field.displayName || field.apiField] = !isNaN(numericValue) ? numericValue : 0;
-          } else {
-            dataPoint[field.displayName || field.apiField] = 0;
-          }
-        });
-        
-        return dataPoint;
-      });
-    }
-    
-    if (chartData.length === 0) {
+    // Without a transform of its own, a provider's candles are read by its
+    // adapter and a response wrapping its rows in a list is read from the list
+    const single = !widget.config?.transform && data.length === 1 ? data[0] : undefined;
+    const candles = single ? parseOhlcPayload(single) : null;
+    const preset = single && !candles ? inferTransform(single) : undefined;
+    const rows: CustomApiData[] = candles || (preset ? applyTransform(single, preset) : data);
+    if (rows.length === 0) {
       return (
         <div className="text-center py-8 text-gray-500 dark:text-gray-400">
           No chart data available
@@ -844,69 +878,67 @@ export default function CustomWidget({ widget }: CustomWidgetProps) {
       );
     }
 
-    // Get all numeric fields from the processed data
-    const numericKeys = Object.keys(chartData[0]).filter(key => 
-      key !== 'date' && key !== 'timestamp' && typeof chartData[0][key] === 'number'
+    // Mapped numeric fields address the configured rows, not derived ones
+    const fieldMappings = candles || preset ? [] : widget.config?.fieldMappings || [];
+    const dateKey = Object.keys(rows[0]).find(key =>
+      key.toLowerCase().includes('date') ||
+      key.toLowerCase().includes('time') ||
+      key.toLowerCase().includes('timestamp')
     );
+    const mappedSeries = fieldMappings
+      .filter(field => field.type === 'number' || field.type === 'currency' || field.type === 'percentage')
+      .map(field => ({ name: field.displayName || field.apiField, path: field.apiField }));
+    const series = mappedSeries.length > 0
+      ? mappedSeries
+      : Object.keys(rows[0])
+          .filter(key => key !== dateKey && typeof rows[0][key] === 'number')
+          .map(key => ({ name: key, path: key }));
+
+    if (series.length === 0) {
+      return (
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+          No numeric fields available for chart display
+        </div>
+      );
+    }
+
+    const chartData: TimeSeriesPoint[] = rows.map((item, index) => {
+      const dataPoint: TimeSeriesPoint = { date: `Point ${index + 1}`, timestamp: index };
+
+      const dateValue = dateKey ? item[dateKey] : undefined;
+      if (typeof dateValue === 'number' || typeof dateValue === 'string') {
+        dataPoint.date = new Date(dateValue).toLocaleDateString();
+        dataPoint.timestamp = new Date(dateValue).getTime();
+      }
 
-    const colors = ['#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6'];
+      series.forEach(({ name, path }) => {
+        const value = getValue(item, path);
+        const numericValue = typeof value === 'number' ? value : parseFloat(value);
+        dataPoint[name] = !isNaN(numericValue) ? numericValue : 0;
+      });
+
+      return dataPoint;
+    });
+
+    // Dated series run oldest first; the whole series is kept and the chart
+    // down-samples what it draws
+    if (dateKey) {
+      chartData.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    // Presets also change the interval when the request depends on it
+    const onIntervalChange = widget.config?.provider || usesInterval(widget.config || {})
+      ? (interval: ChartInterval) => updateWidget(widget.id, { config: { ...widget.config, interval } })
+      : undefined;
 
     return (
-      <div className="h-80 w-full">
-        <ResponsiveContainer width="100%" height="100%">
-          <LineChart 
-            data={chartData}
-            margin={{ top: 20, right: 30, left: 20, bottom: 80 }}
-          >
-            <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
-            <XAxis 
-              dataKey="date" 
-              className="text-xs"
-              tick={{ fontSize: 10 }}
-              angle={-45}
-              textAnchor="end"
-              height={80}
-              interval={Math.max(0, Math.floor(chartData.length / 8))}
-            />
-            <YAxis 
-              className="text-xs"
-              tick={{ fontSize: 12 }}
-              width={80}
-              tickFormatter={(value) => {
-                if (value >= 1000000) {
-                  return `${(value / 1000000).toFixed(1)}M`;
-                } else if (value >= 1000) {
-                  return `${(value / 1000).toFixed(1)}K`;
-                }
-                return value.toFixed(2);
-              }}
-            />
-            <Tooltip 
-              contentStyle={{
-                backgroundColor: 'var(--tooltip-bg)',
-                border: '1px solid var(--tooltip-border)',
-                borderRadius: '6px',
-              }}
-              formatter={(value: any, name: string) => [
-                typeof value === 'number' ? value.toLocaleString() : value,
-                name
-              ]}
-              labelFormatter={(label) => `Date: ${label}`}
-            />
-            {numericKeys.map((key, index) => (
-              <Line
-                key={key}
-                type="monotone"
-                dataKey={key}
-                stroke={colors[index % colors.length]}
-                strokeWidth={2}
-                dot={{ r: 3 }}
-                connectNulls={false}
-              />
-            ))}
-          </LineChart>
-        </ResponsiveContainer>
-      </div>
+      <TimeSeriesChart
+        data={chartData}
+        keys={series.map(({ name }) => name)}
+        dated={Boolean(dateKey)}
+        interval={widget.config?.interval}
+        onIntervalChange={onIntervalChange}
+      />
     );
   };
 
@@ -930,8 +962,33 @@ export default function CustomWidget({ widget }: CustomWidgetProps) {
     );
   }
 
-  if (!data || data.length === 0) {
+  if (transformError) {
     return (
+      <ErrorDisplay
+        error={`Transform failed: ${transformError}`}
+        onRetry={handleRetry}
+        className="h-32"
+      />
+    );
+  }
+
+  // A live stream that has dropped is shown like a failed request while
+  // there is nothing else to show, and always once it has given up
+  const streamFailure = streamState && (streamState.status === 'error' || streamState.status === 'reconnecting')
+    ? (
+      <ErrorDisplay
+        error={streamState.status === 'error'
+          ? streamState.error?.message || 'The live stream failed'
+          : `${streamState.error?.message || 'Live stream disconnected'}. Reconnecting${streamState.retryIn > 0 ? ` in ${streamState.retryIn}s` : ''} (attempt ${streamState.attempt || 1}).`}
+        apiError={streamState.error}
+        onRetry={() => stream && streamManager.reconnect(stream)}
+        className={data.length === 0 ? 'h-32' : ''}
+      />
+    )
+    : null;
+
+  if (!data || data.length === 0) {
+    return streamFailure || (
       <div className="flex items-center justify-center h-32 text-gray-500 dark:text-gray-400">
         No data available
       </div>
@@ -953,6 +1010,7 @@ export default function CustomWidget({ widget }: CustomWidgetProps) {
 
   return (
     <div className="space-y-4">
+      {streamState?.status === 'error' && streamFailure}
       {renderContent()}
     </div>
   );
@@ -0,0 +1,330 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AnnotationPoint, AnnotationType, ChartAnnotation } from '@/types';
+import { annotationPointCount, createAnnotation, createTimeAxis, fibonacciPrices } from '@/services/annotations';
+
+export type DrawingTool = 'select' | AnnotationType;
+
+interface ChartScale {
+  (value: any): number;
+  invert?: (value: number) => number;
+  bandwidth?: () => number;
+}
+
+interface DrawingLayerProps {
+  // Injected by recharts' Customized
+  xAxisMap?: Record<string, { scale: ChartScale }>;
+  yAxisMap?: Record<string, { scale: ChartScale }>;
+  offset?: { top: number; left: number; width: number; height: number };
+
+  rows: { date: string }[]; // Bars as drawn
+  annotations: ChartAnnotation[];
+  tool: DrawingTool;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (annotations: ChartAnnotation[]) => void;
+  onDrawn: () => void; // A drawing was completed with the current tool
+}
+
+interface Drag {
+  annotation: ChartAnnotation;
+  handle: number | 'all'; // One anchor, or the whole drawing
+  x: number;
+  y: number;
+  box: DOMRect; // The chart's position on the page
+}
+
+const HIT_WIDTH = 10;
+
+const chartBox = (element: SVGElement) => (element.ownerSVGElement || element).getBoundingClientRect();
+
+// Converts a pointer position to the chart's SVG coordinates
+const toChartPosition = (event: { clientX: number; clientY: number }, box: DOMRect) =>
+  ({ x: event.clientX - box.left, y: event.clientY - box.top });
+
+// Draws annotations over a recharts price chart and handles drawing new ones,
+// selecting, dragging and deleting. Rendered through <Customized> so it can
+// use the chart's scales.
+export default function DrawingLayer({
+  xAxisMap,
+  yAxisMap,
+  offset,
+  rows,
+  annotations,
+  tool,
+  selectedId,
+  onSelect,
+  onChange,
+  onDrawn,
+}: DrawingLayerProps) {
+  const [draft, setDraft] = useState<{ points: AnnotationPoint[]; cursor: AnnotationPoint } | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [moved, setMoved] = useState<ChartAnnotation | null>(null);
+  const movedRef = useRef<ChartAnnotation | null>(null);
+
+  const xScale = xAxisMap && Object.values(xAxisMap)[0]?.scale;
+  const yScale = yAxisMap && Object.values(yAxisMap)[0]?.scale;
+  const ready = Boolean(xScale && yScale?.invert && offset && rows.length > 0);
+
+  // Built once per chart render, so a drag keeps its listeners between moves
+  const axis = useMemo(() => {
+    const bandOffset = xScale?.bandwidth ? xScale.bandwidth() / 2 : 0;
+    return createTimeAxis(
+      rows.map(row => row.date),
+      ready ? rows.map(row => xScale!(row.date) + bandOffset) : []
+    );
+  }, [rows, xScale, ready]);
+
+  const toPoint = useCallback((x: number, y: number): AnnotationPoint => ({
+    date: rows[axis.nearestIndex(x)].date,
+    price: yScale!.invert!(y),
+  }), [rows, axis, yScale]);
+
+  // A new tool starts a new drawing
+  useEffect(() => setDraft(null), [tool]);
+
+  // Escape abandons a drawing; Delete removes the selected one
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if (event.key === 'Escape') {
+        setDraft(null);
+        onSelect(null);
+      } else if ((event.key === 'Delete' || event.key === 'Backspace') && selectedId) {
+        event.preventDefault();
+        onChange(annotations.filter(annotation => annotation.id !== selectedId));
+        onSelect(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [annotations, selectedId, onChange, onSelect]);
+
+  // Dragging follows the pointer outside the layer and saves on release
+  useEffect(() => {
+    if (!drag || !ready) return;
+    const handleMove = (event: PointerEvent) => {
+      const { x, y } = toChartPosition(event, drag.box);
+      const dx = x - drag.x;
+      const dy = y - drag.y;
+      movedRef.current = {
+        ...drag.annotation,
+        points: drag.annotation.points.map((point, index) => {
+          if (drag.handle !== 'all' && drag.handle !== index) return point;
+          const pointX = axis.toX(point.date);
+          return toPoint(pointX === null ? x : pointX + dx, yScale!(point.price) + dy);
+        }),
+      };
+      setMoved(movedRef.current);
+    };
+    const handleUp = () => {
+      const current = movedRef.current;
+      if (current) {
+        onChange(annotations.map(annotation => annotation.id === current.id ? current : annotation));
+      }
+      movedRef.current = null;
+      setMoved(null);
+      setDrag(null);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag, ready, annotations, onChange, axis, toPoint, yScale]);
+
+  if (!ready) return null;
+  const { top, left, width, height } = offset!;
+  const right = left + width;
+  const clipId = `drawing-clip-${rows[0].date}-${rows.length}`.replace(/[^\w-]/g, '');
+
+  const handleCanvasDown = (event: React.PointerEvent<SVGRectElement>) => {
+    if (tool === 'select') return;
+    const { x, y } = toChartPosition(event, chartBox(event.currentTarget));
+    const point = toPoint(x, y);
+    const points = draft ? [...draft.points, point] : [point];
+    if (points.length < annotationPointCount(tool)) {
+      setDraft({ points, cursor: point });
+      return;
+    }
+    let text: string | undefined;
+    if (tool === 'text') {
+      text = prompt('Note text')?.trim();
+      if (!text) return;
+    }
+    const annotation = createAnnotation(tool, points, text);
+    onChange([...annotations, annotation]);
+    onSelect(annotation.id);
+    setDraft(null);
+    onDrawn();
+  };
+
+  const handleCanvasMove = (event: React.PointerEvent<SVGRectElement>) => {
+    if (!draft) return;
+    const { x, y } = toChartPosition(event, chartBox(event.currentTarget));
+    setDraft({ ...draft, cursor: toPoint(x, y) });
+  };
+
+  const startDrag = (event: React.PointerEvent<SVGElement>, annotation: ChartAnnotation, handle: number | 'all') => {
+    if (tool !== 'select') return;
+    event.preventDefault();
+    onSelect(annotation.id);
+    const box = chartBox(event.currentTarget);
+    setDrag({ annotation, handle, box, ...toChartPosition(event, box) });
+  };
+
+  const editText = (annotation: ChartAnnotation) => {
+    if (annotation.type !== 'text') return;
+    const text = prompt('Note text', annotation.text || '')?.trim();
+    if (text) {
+      onChange(annotations.map(item => item.id === annotation.id ? { ...item, text } : item));
+    }
+  };
+
+  const renderAnnotation = (annotation: ChartAnnotation, preview = false) => {
+    const color = annotation.color || '#f59e0b';
+    const selected = annotation.id === selectedId;
+    const anchors = annotation.points
+      .map(point => ({ x: axis.toX(point.date), y: yScale!(point.price), point }))
+      .filter((anchor): anchor is { x: number; y: number; point: AnnotationPoint } => anchor.x !== null);
+    if (anchors.length < annotation.points.length) return null;
+    const [a, b] = anchors;
+
+    // Shapes are drawn twice: visibly, and as a wide transparent stroke
+    // that is easier to grab
+    const shape = (element: React.ReactElement) => (
+      <>
+        {element}
+        {!preview && React.cloneElement(element, {
+          stroke: 'transparent',
+          strokeWidth: HIT_WIDTH,
+          fill: element.type === 'rect' ? 'transparent' : 'none',
+          style: { cursor: tool === 'select' ? 'move' : undefined, pointerEvents: tool === 'select' ? 'all' : 'none' },
+          onPointerDown: (event: React.PointerEvent<SVGElement>) => startDrag(event, annotation, 'all'),
+          onDoubleClick: () => editText(annotation),
+          'data-no-pan': true,
+        })}
+      </>
+    );
+    const strokeWidth = selected ? 2 : 1.5;
+
+    let body: React.ReactNode = null;
+    switch (annotation.type) {
+      case 'horizontal':
+        body = (
+          <>
+            {shape(<line x1={left} x2={right} y1={a.y} y2={a.y} stroke={color} strokeWidth={strokeWidth} />)}
+            <text x={right - 4} y={a.y - 4} textAnchor="end" fontSize={10} fill={color}>
+              {a.point.price.toFixed(2)}
+            </text>
+          </>
+        );
+        break;
+      case 'trendline':
+        body = shape(<line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={color} strokeWidth={strokeWidth} />);
+        break;
+      case 'rectangle':
+        body = shape(
+          <rect
+            x={Math.min(a.x, b.x)}
+            y={Math.min(a.y, b.y)}
+            width={Math.abs(b.x - a.x)}
+            height={Math.abs(b.y - a.y)}
+            stroke={color}
+            strokeWidth={strokeWidth}
+            fill={color}
+            fillOpacity={0.1}
+          />
+        );
+        break;
+      case 'fibonacci': {
+        const x1 = Math.min(a.x, b.x);
+        body = (
+          <>
+            {shape(<line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={color} strokeWidth={1} strokeDasharray="4 4" />)}
+            {fibonacciPrices(a.point, b.point).map(({ level, price }) => {
+              const y = yScale!(price);
+              return (
+                <g key={level}>
+                  <line x1={x1} x2={right} y1={y} y2={y} stroke={color} strokeWidth={1} strokeOpacity={0.8} />
+                  <text x={x1 + 4} y={y - 3} fontSize={10} fill={color}>
+                    {(level * 100).toFixed(1)}% ({price.toFixed(2)})
+                  </text>
+                </g>
+              );
+            })}
+          </>
+        );
+        break;
+      }
+      case 'text':
+        body = (
+          <>
+            <circle cx={a.x} cy={a.y} r={3} fill={color} />
+            {shape(
+              <text x={a.x + 6} y={a.y + 4} fontSize={12} fontWeight={selected ? 600 : 400} fill={color} stroke="none">
+                {annotation.text}
+              </text>
+            )}
+          </>
+        );
+        break;
+    }
+
+    return (
+      <g key={annotation.id} opacity={preview ? 0.6 : 1}>
+        {body}
+        {selected && tool === 'select' && anchors.map((anchor, index) => (
+          <circle
+            key={index}
+            cx={anchor.x}
+            cy={anchor.y}
+            r={5}
+            fill="white"
+            stroke={color}
+            strokeWidth={2}
+            style={{ cursor: 'grab' }}
+            data-no-pan
+            onPointerDown={(event) => startDrag(event, annotation, index)}
+          />
+        ))}
+      </g>
+    );
+  };
+
+  const shown = annotations.map(annotation => (moved && moved.id === annotation.id ? moved : annotation));
+
+  return (
+    <g>
+      <defs>
+        <clipPath id={clipId}>
+          <rect x={left} y={top} width={width} height={height} />
+        </clipPath>
+      </defs>
+      {/* Takes the clicks that place points while a drawing tool is active */}
+      {tool !== 'select' && (
+        <rect
+          x={left}
+          y={top}
+          width={width}
+          height={height}
+          fill="transparent"
+          style={{ cursor: 'crosshair' }}
+          data-no-pan
+          onPointerDown={handleCanvasDown}
+          onPointerMove={handleCanvasMove}
+        />
+      )}
+      <g clipPath={`url(#${clipId})`} style={{ pointerEvents: tool === 'select' ? undefined : 'none' }}>
+        {shown.map(annotation => renderAnnotation(annotation))}
+        {draft && tool !== 'select' && renderAnnotation(
+          createAnnotation(tool, [...draft.points, draft.cursor], tool === 'text' ? '' : undefined),
+          true
+        )}
+      </g>
+    </g>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { MousePointer2, Minus, TrendingUp, Percent, Square, Type, Trash2, Eraser } from 'lucide-react';
+import { AnnotationType, ChartAnnotation } from '@/types';
+import { ANNOTATION_COLORS, ANNOTATION_TOOLS } from '@/services/annotations';
+import { DrawingTool } from './DrawingLayer';
+
+const TOOL_ICONS: Record<AnnotationType, typeof Minus> = {
+  horizontal: Minus,
+  trendline: TrendingUp,
+  fibonacci: Percent,
+  rectangle: Square,
+  text: Type,
+};
+
+interface DrawingToolbarProps {
+  tool: DrawingTool;
+  onToolChange: (tool: DrawingTool) => void;
+  annotations: ChartAnnotation[];
+  selectedId: string | null;
+  onChange: (annotations: ChartAnnotation[]) => void;
+  onSelect: (id: string | null) => void;
+}
+
+export default function DrawingToolbar({ tool, onToolChange, annotations, selectedId, onChange, onSelect }: DrawingToolbarProps) {
+  const selected = annotations.find(annotation => annotation.id === selectedId);
+
+  const update = (changes: Partial<ChartAnnotation>) =>
+    onChange(annotations.map(annotation => annotation.id === selectedId ? { ...annotation, ...changes } : annotation));
+
+  const remove = () => {
+    onChange(annotations.filter(annotation => annotation.id !== selectedId));
+    onSelect(null);
+  };
+
+  const clear = () => {
+    if (confirm('Remove all drawings on this chart?')) {
+      onChange([]);
+      onSelect(null);
+    }
+  };
+
+  const editText = () => {
+    const text = prompt('Note text', selected?.text || '')?.trim();
+    if (text) update({ text });
+  };
+
+  const buttonClass = (active: boolean) => `p-1 rounded-md transition-colors ${
+    active
+      ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm'
+      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+  }`;
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex space-x-1 bg-gray-100 dark:bg-gray-800 rounded-lg p-1">
+        <button onClick={() => onToolChange('select')} className={buttonClass(tool === 'select')} title="Select and move">
+          <MousePointer2 className="w-3.5 h-3.5" />
+        </button>
+        {ANNOTATION_TOOLS.map(({ type, label }) => {
+          const Icon = TOOL_ICONS[type];
+          return (
+            <button key={type} onClick={() => onToolChange(type)} className={buttonClass(tool === type)} title={label}>
+              <Icon className="w-3.5 h-3.5" />
+            </button>
+          );
+        })}
+      </div>
+
+      {selected && (
+        <div className="flex items-center gap-1">
+          {ANNOTATION_COLORS.map(color => (
+            <button
+              key={color}
+              onClick={() => update({ color })}
+              className={`w-3.5 h-3.5 rounded-full ${selected.color === color ? 'ring-2 ring-offset-1 ring-gray-400' : ''}`}
+              style={{ backgroundColor: color }}
+              title="Colour"
+            />
+          ))}
+          {selected.type === 'text' && (
+            <button onClick={editText} className="px-1 text-xs text-primary-600 hover:text-primary-700 dark:text-blue-400">
+              Edit
+            </button>
+          )}
+          <button onClick={remove} className="p-1 text-red-500 hover:text-red-700" title="Delete drawing">
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
+      {!selected && annotations.length > 0 && (
+        <button onClick={clear} className="p-1 text-gray-500 hover:text-red-600" title="Remove all drawings">
+          <Eraser className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
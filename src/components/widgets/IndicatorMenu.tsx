@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { Activity, Trash2 } from 'lucide-react';
+import { IndicatorConfig, IndicatorType } from '@/types';
+import { INDICATORS, INDICATOR_TYPES, createIndicator, getIndicatorParams } from '@/services/indicators';
+
+interface IndicatorMenuProps {
+  indicators: IndicatorConfig[];
+  onChange: (indicators: IndicatorConfig[]) => void;
+}
+
+export default function IndicatorMenu({ indicators, onChange }: IndicatorMenuProps) {
+  const [open, setOpen] = useState(false);
+
+  const addIndicator = (type: IndicatorType) => onChange([...indicators, createIndicator(type, indicators)]);
+
+  const updateParam = (id: string, name: string, value: number) => {
+    if (!isFinite(value)) return;
+    onChange(indicators.map(indicator =>
+      indicator.id === id ? { ...indicator, params: { ...indicator.params, [name]: value } } : indicator
+    ));
+  };
+
+  const removeIndicator = (id: string) => onChange(indicators.filter(indicator => indicator.id !== id));
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md transition-colors ${
+          indicators.length > 0
+            ? 'bg-primary-100 text-primary-700 dark:bg-blue-900/30 dark:text-blue-300'
+            : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+        }`}
+      >
+        <Activity className="w-3 h-3" />
+        Indicators{indicators.length > 0 && ` (${indicators.length})`}
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-72 p-3 space-y-3 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50">
+            {indicators.map(indicator => {
+              const definition = INDICATORS[indicator.type];
+              const params = getIndicatorParams(indicator);
+              return (
+                <div key={indicator.id} className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-gray-100">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: indicator.color }} />
+                      {definition.label}
+                    </span>
+                    <button
+                      onClick={() => removeIndicator(indicator.id)}
+                      className="text-red-500 hover:text-red-700"
+                      title="Remove indicator"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {definition.params.length > 0 && (
+                    <div className="flex gap-2">
+                      {definition.params.map(param => (
+                        <label key={param.name} className="flex-1 text-xs text-gray-500 dark:text-gray-400">
+                          {param.label}
+                          <input
+                            type="number"
+                            value={params[param.name]}
+                            min={param.min}
+                            max={param.max}
+                            step={param.step || 1}
+                            onChange={(e) => updateParam(indicator.id, param.name, parseFloat(e.target.value))}
+                            className="input-field text-xs py-1"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            <select
+              value=""
+              onChange={(e) => e.target.value && addIndicator(e.target.value as IndicatorType)}
+              className="input-field text-sm"
+            >
+              <option value="">Add indicator…</option>
+              {INDICATOR_TYPES.map(type => (
+                <option key={type} value={type}>{INDICATORS[type].label}</option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { format } from 'date-fns';
+import { IndicatorRow, IndicatorSeries } from '@/services/indicators';
+
+interface OhlcLegendProps {
+  point: IndicatorRow;
+  previousClose?: number; // Close of the bar before, for the change
+  overlays: IndicatorSeries[];
+  intraday: boolean;
+}
+
+const formatNumber = (value: number) => value.toFixed(2);
+
+const formatVolume = (value: number) =>
+  new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 2 }).format(value);
+
+// Trader-style readout of the bar under the crosshair, or the latest bar
+export default function OhlcLegend({ point, previousClose, overlays, intraday }: OhlcLegendProps) {
+  const change = previousClose !== undefined ? point.close - previousClose : point.close - point.open;
+  const base = previousClose !== undefined ? previousClose : point.open;
+  const changePercent = base ? (change / base) * 100 : 0;
+  const tone = point.close >= point.open ? 'text-green-600' : 'text-red-600';
+
+  let date = point.date;
+  try {
+    date = format(new Date(point.date), intraday ? 'MMM dd HH:mm' : 'MMM dd, yyyy');
+  } catch {
+    // Unparseable dates are shown as received
+  }
+
+  const values: [string, number][] = [['O', point.open], ['H', point.high], ['L', point.low], ['C', point.close]];
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs font-mono">
+      <span className="text-gray-500 dark:text-gray-400">{date}</span>
+      {values.map(([label, value]) => (
+        <span key={label} className="text-gray-500 dark:text-gray-400">
+          {label} <span className={tone}>{formatNumber(value)}</span>
+        </span>
+      ))}
+      <span className={change >= 0 ? 'text-green-600' : 'text-red-600'}>
+        {change >= 0 ? '+' : ''}{formatNumber(change)} ({change >= 0 ? '+' : ''}{changePercent.toFixed(2)}%)
+      </span>
+      {point.volume > 0 && (
+        <span className="text-gray-500 dark:text-gray-400">
+          Vol <span className="text-gray-900 dark:text-gray-100">{formatVolume(point.volume)}</span>
+        </span>
+      )}
+      {overlays.map(series => {
+        const value = point[series.key];
+        return typeof value === 'number' ? (
+          <span key={series.key} style={{ color: series.color }}>
+            {series.label} {formatNumber(value)}
+          </span>
+        ) : null;
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import { RANGE_PRESETS, RangePresetId } from '@/services/chartViewport';
+
+interface RangePresetsProps {
+  selected: RangePresetId | null; // Null once the user zooms or pans
+  onSelect: (id: RangePresetId) => void;
+  isZoomed: boolean;
+  onReset: () => void;
+}
+
+export default function RangePresets({ selected, onSelect, isZoomed, onReset }: RangePresetsProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex space-x-1 bg-gray-100 dark:bg-gray-800 rounded-lg p-1">
+        {RANGE_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => onSelect(preset.id)}
+            className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${
+              selected === preset.id
+                ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm'
+                : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+      {isZoomed && !selected && (
+        <button
+          onClick={onReset}
+          className="text-xs text-primary-600 hover:text-primary-700 dark:text-blue-400"
+        >
+          Reset zoom
+        </button>
+      )}
+    </div>
+  );
+}
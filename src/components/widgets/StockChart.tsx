@@ -1,28 +1,52 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Widget } from '@/types';
-import { cachedFetch } from '@/services/apiCache';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { Widget, WidgetConfig, FieldMapping, ChartDataPoint, IndicatorConfig, ChartAnnotation, StreamTick } from '@/types';
+import { cachedFetch, CachedFetchOptions, isAbortError } from '@/services/apiCache';
+import { ApiError, ApiErrorHandler } from '@/services/apiErrorHandler';
+import { applyTransform, getValue, inferTransform, Row } from '@/services/dataTransform';
+import { ChartInterval, fetchOhlc, getProviderContext, getWidgetSymbols, parseOhlcPayload, resolveProvider } from '@/services/providers';
+import { getWidget, useDashboardStore } from '@/store/dashboardStore';
+import { recordWidgetError } from '@/store/notificationStore';
+import { useScheduledRefresh } from '@/hooks/useRefreshSchedule';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useRequestConfig } from '@/hooks/useRequestConfig';
+import { useStream } from '@/hooks/useStream';
+import { mergeTickIntoCandles } from '@/services/streamTicks';
+import { renderUrlTemplate } from '@/services/requestBuilder';
+import { computeIndicators } from '@/services/indicators';
+import { alignSeries, ComparisonRow, correlationPairs, rebase } from '@/services/comparison';
+import { downsampleRows, getRangePreset, rangeStartIndex, RangePresetId } from '@/services/chartViewport';
+import { useChartViewport } from '@/hooks/useChartViewport';
+import IndicatorMenu from './IndicatorMenu';
+import ComparisonChart from './ComparisonChart';
+import OhlcLegend from './OhlcLegend';
+import ChartNavigator from './ChartNavigator';
+import RangePresets from './RangePresets';
+import DrawingLayer, { DrawingTool } from './DrawingLayer';
+import DrawingToolbar from './DrawingToolbar';
 import { 
   LineChart, 
   Line, 
+  ComposedChart,
+  Bar,
+  Cell,
   XAxis, 
   YAxis, 
   CartesianGrid, 
   Tooltip, 
   ResponsiveContainer,
-  ReferenceLine
+  ReferenceLine,
+  Customized
 } from 'recharts';
 import { format } from 'date-fns';
 
-interface ChartDataPoint {
-  date: string;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume?: number;
-}
+// Latest candles shown until the user zooms or picks a range; earlier ones
+// still feed the indicators
+const DEFAULT_VISIBLE_POINTS = 100;
+
+// Vertical line of the crosshair, snapped to the bar under the cursor
+const CROSSHAIR = { stroke: '#9ca3af', strokeDasharray: '3 3' };
 
 interface CandlestickProps {
   payload: ChartDataPoint;
@@ -64,12 +88,74 @@ const Candlestick = ({ payload, x, y, width, height }: CandlestickProps) => {
   );
 };
 
+// Candles from a custom URL's response, read with the widget's transform and
+// field mappings
+function toChartPoints(data: any, config: Pick<WidgetConfig, 'transform' | 'fieldMappings'>): ChartDataPoint[] {
+  if (!data) return [];
+
+  // A provider's response reached through a custom URL or proxy
+  const candles = config.transform ? null : parseOhlcPayload(data);
+  if (candles) return candles;
+  
+  // Use widget field mappings to extract data
+  const fieldMappings = config.fieldMappings || [];
+  const findField = (name: string) => fieldMappings.find(f => f.displayName.toLowerCase().includes(name) || f.apiField.toLowerCase().includes(name));
+  
+  // Find field mappings for OHLC and date
+  const openField = findField('open');
+  const highField = findField('high');
+  const lowField = findField('low');
+  const closeField = findField('close');
+  const dateField = fieldMappings.find(f => f.type === 'date' || f.displayName.toLowerCase().includes('date') || f.apiField.toLowerCase().includes('date'));
+  const volumeField = findField('volume');
+
+  // Mappings saved before transforms existed address rows as "values[0].open"
+  const legacyRoot = config.transform ? undefined : openField?.apiField.match(/^(.+?)\[0\]\./)?.[1];
+  // Otherwise rows come from the response's list property, or an object is
+  // read as a map of dates to OHLC values
+  const transform = config.transform
+    || (legacyRoot ? { root: legacyRoot } : inferTransform(data))
+    || (Array.isArray(data) ? undefined : { explode: { keyAs: 'date' } });
+  const rows: Row[] = transform ? applyTransform(data, transform) : Array.isArray(data) ? data : [];
+
+  // Mapped fields only apply to rows the widget itself describes; other
+  // rows use the common column names
+  const useMappings = Boolean(config.transform || legacyRoot);
+  const read = (row: Row, field: FieldMapping | undefined, ...names: string[]) => {
+    const mapped = useMappings && field ? getValue(row, field.apiField.replace(/^.+?\[0\]\./, '')) : undefined;
+    return mapped ?? names.map(name => row[name]).find(value => value !== undefined && value !== null);
+  };
+
+  const points = rows.map(row => {
+    const date = read(row, dateField, 'date', 'datetime', 'timestamp', 'time');
+    return {
+      date: typeof date === 'number' ? new Date(date).toISOString() : String(date ?? ''),
+      open: parseFloat(read(row, openField, 'open', 'o') || 0),
+      high: parseFloat(read(row, highField, 'high', 'h') || 0),
+      low: parseFloat(read(row, lowField, 'low', 'l') || 0),
+      close: parseFloat(read(row, closeField, 'close', 'c', 'price') || 0),
+      volume: parseInt(read(row, volumeField, 'volume', 'v') || 0)
+    };
+  });
+
+  // Oldest first
+  const time = (point: ChartDataPoint) => new Date(point.date).getTime();
+  if (points.every(point => !isNaN(time(point)))) {
+    points.sort((a, b) => time(a) - time(b));
+  }
+  return points;
+}
+
+// Everything the candle requests are built from
+const REQUEST_FIELDS = ['apiUrl', 'apiHeaders', 'useProxy', 'provider', 'apiKey', 'symbol', 'symbols', 'transform', 'fieldMappings'] as const;
+
 interface StockChartProps {
   widget: Widget;
   isLoading: boolean;
   error: string | null;
   onError: (error: string | null) => void;
   onLoading: (loading: boolean) => void;
+  isVisible?: boolean;
 }
 
 export default function StockChart({ 
@@ -77,202 +163,280 @@ export default function StockChart({
   isLoading, 
   error, 
   onError, 
-  onLoading 
+  onLoading,
+  isVisible = true
 }: StockChartProps) {
-  const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
-  const [selectedInterval, setSelectedInterval] = useState('daily');
+  const [series, setSeries] = useState<Record<string, ChartDataPoint[]>>({});
+  const [failedSymbols, setFailedSymbols] = useState<string[]>([]);
+  const [hiddenSymbols, setHiddenSymbols] = useState<string[]>([]);
+  const [selectedInterval, setSelectedInterval] = useState<ChartInterval>('daily');
   const [chartType, setChartType] = useState<'line' | 'candlestick'>('line');
+  const [rangePreset, setRangePreset] = useState<RangePresetId | null>(null);
+  const [drawingTool, setDrawingTool] = useState<DrawingTool>('select');
+  const [selectedAnnotation, setSelectedAnnotation] = useState<string | null>(null);
   
   // Extract API configuration from widget
-  const apiUrl = widget.config?.apiUrl;
-  const symbol = widget.config?.symbol || 'AAPL';
+  const { request, requestKey } = useRequestConfig(widget.config, REQUEST_FIELDS);
+  const apiUrl = request.apiUrl;
+  const symbols = useMemo(() => {
+    const configuredSymbols = getWidgetSymbols(request);
+    return configuredSymbols.length > 0 ? configuredSymbols : ['AAPL'];
+  }, [request]);
+  const symbol = symbols[0];
+  const symbolsKey = symbols.join(',');
+  // Several symbols are plotted against each other instead of as candles
+  const comparing = symbols.length > 1;
+  const compareScale = widget.config?.compareScale || 'percent';
+  const chartData = useMemo(() => series[symbol] || [], [series, symbol]);
+
+  const { updateWidget } = useDashboardStore();
+  // Read at request time so scrolling doesn't trigger a reload
+  const isVisibleRef = useRef(isVisible);
+  isVisibleRef.current = isVisible;
 
+  const intraday = selectedInterval.endsWith('min');
+
+  // Indicators are computed over every candle so they have warmed up by the
+  // start of the visible window
+  const indicatorResult = useMemo(
+    () => computeIndicators(chartData, widget.config?.indicators),
+    [chartData, widget.config?.indicators]
+  );
+  const aligned = useMemo(
+    () => (comparing ? alignSeries(series, symbols, intraday) : []),
+    [comparing, series, symbols, intraday]
+  );
+  // The full series; zooming, panning and presets pick the window drawn
+  const allRows: { date: string }[] = comparing ? aligned : indicatorResult.rows;
+
+  const viewport = useChartViewport(allRows.length, {
+    defaultSpan: DEFAULT_VISIBLE_POINTS,
+    resetKey: `${symbolsKey}|${selectedInterval}`,
+    onInteract: () => setRangePreset(null),
+  });
+
+  // A preset picks its window once the candles for its interval arrive
+  const { setWindow } = viewport;
   useEffect(() => {
-    loadChartData();
-  }, [widget.lastUpdated, symbol, selectedInterval]);
+    if (!rangePreset) return;
+    const times = allRows.map(row => new Date(row.date).getTime());
+    setWindow(rangeStartIndex(times, getRangePreset(rangePreset)), allRows.length);
+  }, [rangePreset, allRows, setWindow]);
+
+  const { rows: displayData, visibleRows, overlays, panes } = useMemo(() => {
+    const visible = indicatorResult.rows.slice(viewport.start, viewport.end);
+    return { ...indicatorResult, rows: downsampleRows(visible, [row => row.close]), visibleRows: visible };
+  }, [indicatorResult, viewport.start, viewport.end]);
+
+  // Bar under the crosshair in any of the synchronised panes; the legend
+  // falls back to the latest bar
+  const [cursorIndex, setCursorIndex] = useState<number | null>(null);
+  const trackCursor = (state: { isTooltipActive?: boolean; activeTooltipIndex?: number }) =>
+    setCursorIndex(state?.isTooltipActive && state.activeTooltipIndex !== undefined ? state.activeTooltipIndex : null);
+  const clearCursor = () => setCursorIndex(null);
+  const activeIndex = cursorIndex !== null && cursorIndex < displayData.length ? cursorIndex : displayData.length - 1;
+  const activePoint = displayData[activeIndex];
+  // Drawn bars may be down-sampled, so the change is taken from the bar
+  // before in the full series
+  const activePreviousClose = activePoint
+    ? indicatorResult.rows[indicatorResult.rows.indexOf(activePoint) - 1]?.close
+    : undefined;
+  const hasVolume = displayData.some(point => point.volume > 0);
+  // Horizontal line of the crosshair, at the close of the hovered bar
+  const priceCrosshair = cursorIndex !== null && activePoint
+    ? <ReferenceLine y={activePoint.close} stroke="#9ca3af" strokeDasharray="3 3" />
+    : null;
+
+  // Percent changes are rebased to the first visible bar, and correlations
+  // cover the same window
+  const comparison = useMemo(() => {
+    if (!comparing) return null;
+    const visible = aligned.slice(viewport.start, viewport.end);
+    const rebased = rebase(visible, symbols);
+    const shown = symbols.filter(s => !hiddenSymbols.includes(s));
+    // Change over the window, from each symbol's last bar in it
+    const changes: Record<string, number | undefined> = {};
+    symbols.forEach(s => {
+      const last = [...rebased].reverse().find(row => typeof row[s] === 'number');
+      changes[s] = last ? last[s] as number : undefined;
+    });
+    const rows = compareScale === 'percent' ? rebased : visible;
+    return {
+      rows: downsampleRows(rows, symbols.map(s => (row: ComparisonRow) => row[s] as number | null)),
+      changes,
+      correlations: correlationPairs(visible, shown),
+    };
+  }, [comparing, aligned, symbols, viewport.start, viewport.end, compareScale, hiddenSymbols]);
+
+  // The navigator follows the first symbol that loaded
+  const navigatorSymbol = symbols.find(s => series[s]?.length) || symbol;
+  const navigatorValues = useMemo(
+    () => (comparing ? aligned.map(row => row[navigatorSymbol] as number | null) : chartData.map(point => point.close)),
+    [comparing, aligned, chartData, navigatorSymbol]
+  );
+  const navigatorLabels = useMemo(() => allRows.map(row => row.date), [allRows]);
+
+  const selectRange = (id: RangePresetId) => {
+    setRangePreset(id);
+    setSelectedInterval(getRangePreset(id).interval);
+  };
+
+  const setIndicators = (indicators: IndicatorConfig[]) =>
+    updateWidget(widget.id, { config: { ...widget.config, indicators } });
+  // Drawings are kept per symbol, so switching symbols keeps each one's levels
+  const annotations = widget.config?.annotations?.[symbol] || [];
+  const setAnnotations = (list: ChartAnnotation[]) =>
+    updateWidget(widget.id, {
+      config: { ...widget.config, annotations: { ...widget.config?.annotations, [symbol]: list } },
+    });
+  const setCompareScale = (scale: 'price' | 'percent') =>
+    updateWidget(widget.id, { config: { ...widget.config, compareScale: scale } });
+  const toggleSymbol = (target: string) =>
+    setHiddenSymbols(prev => prev.includes(target) ? prev.filter(s => s !== target) : [...prev, target]);
+  const provider = resolveProvider(request);
+  const getSignal = useAbortSignal(`${requestKey}|${selectedInterval}`);
+
+  // Live ticks move the last candle, or open the next one, between refreshes
+  useStream(widget.config?.stream, symbols, (ticks: StreamTick[]) => setSeries(prev => {
+    const next = { ...prev };
+    ticks.forEach(tick => {
+      const target = symbols.find(s => s.toUpperCase() === tick.symbol);
+      if (target && next[target]) next[target] = mergeTickIntoCandles(next[target], tick, selectedInterval);
+    });
+    return next;
+  }));
 
-  const loadChartData = async () => {
-    if (!apiUrl) {
+  // Candles for one symbol, through its provider's adapter or the custom URL
+  const loadSymbol = useCallback(async (
+    target: string,
+    signal: AbortSignal | undefined,
+    cacheOptions: CachedFetchOptions,
+    onFresh: (candles: ChartDataPoint[]) => void
+  ): Promise<ChartDataPoint[]> => {
+    // Provider APIs go through their adapter, which builds the request
+    // for the interval and returns candles ready to plot
+    if (provider) {
+      return fetchOhlc(provider, target, selectedInterval, getProviderContext(request), {
+        ...cacheOptions,
+        signal,
+        onRevalidate: onFresh,
+      });
+    }
+
+    const url = new URL(renderUrlTemplate(apiUrl!, { symbol: target, interval: selectedInterval }));
+    url.searchParams.set('symbol', target);
+    url.searchParams.set('interval', selectedInterval);
+
+    const response = await cachedFetch(
+      url.toString(),
+      {
+        method: 'GET',
+        headers: request.apiHeaders || {},
+        signal
+      },
+      {
+        ...cacheOptions,
+        onRevalidate: (fresh) => onFresh(toChartPoints(fresh, request)),
+      }
+    );
+    
+    // Transform response data to chart format
+    return toChartPoints(response, request);
+  }, [provider, apiUrl, selectedInterval, request]);
+
+  const loadChartData = useCallback(async (skipCache = false) => {
+    if (!apiUrl && !provider) {
       onError('No API URL configured for chart data');
       return;
     }
 
+    const signal = getSignal();
     onLoading(true);
     onError(null);
 
     try {
-      // Build API URL with interval parameter
-      const url = new URL(apiUrl);
-      url.searchParams.set('symbol', symbol);
-      url.searchParams.set('interval', selectedInterval);
-      
-      // Add common stock API parameters
-      if (selectedInterval === 'daily') {
-        url.searchParams.set('function', 'TIME_SERIES_DAILY');
-      } else if (selectedInterval === 'weekly') {
-        url.searchParams.set('function', 'TIME_SERIES_WEEKLY');
-      } else if (selectedInterval === 'monthly') {
-        url.searchParams.set('function', 'TIME_SERIES_MONTHLY');
-      } else {
-        url.searchParams.set('function', 'TIME_SERIES_INTRADAY');
-      }
-      
-      const response = await cachedFetch(
-        url.toString(),
-        {
-          method: 'GET',
-          headers: widget.config?.apiHeaders || {}
+      let staleSince: string | undefined;
+      const cacheOptions: CachedFetchOptions = {
+        ttl: 60000, // 1 minute cache
+        skipCache,
+        useProxy: request.useProxy,
+        priority: isVisibleRef.current ? 'high' : 'low',
+        staleWhileRevalidate: true,
+        onStale: (since: number) => {
+          staleSince = new Date(since).toISOString();
         },
-        { ttl: 60000 } // 1 minute cache
-      );
-      
-      // Transform response data to chart format
-      const transformedData = transformApiDataToChart(response);
-      setChartData(transformedData);
+        onRevalidateError: (revalidateError: ApiError) => {
+          // The cached payload stays on screen, marked stale with the reason
+          const current = getWidget(widget.id);
+          updateWidget(widget.id, {
+            staleSince,
+            lastError: {
+              type: revalidateError.type,
+              message: revalidateError.message,
+              timestamp: Date.now(),
+              retryAfter: revalidateError.retryAfter,
+              retryCount: current?.lastError?.retryCount,
+            },
+          });
+          if (current) recordWidgetError(current, revalidateError);
+        },
+      };
+
+      // Symbols load in parallel; a comparison still plots the ones that
+      // loaded when others fail
+      const results = await Promise.allSettled(symbols.map(target =>
+        loadSymbol(target, signal, cacheOptions, (fresh) => {
+          setSeries(prev => ({ ...prev, [target]: fresh }));
+          updateWidget(widget.id, { lastUpdated: new Date().toISOString(), staleSince: undefined, lastError: undefined });
+        })
+      ));
+      const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failures.length === results.length || failures.some(failure => isAbortError(failure.reason))) {
+        throw failures[0].reason;
+      }
+
+      const loaded: Record<string, ChartDataPoint[]> = {};
+      results.forEach((result, i) => {
+        if (result.status === 'fulfilled') loaded[symbols[i]] = result.value;
+      });
+      setSeries(loaded);
+      setFailedSymbols(symbols.filter(target => !loaded[target]));
+      updateWidget(widget.id, { lastUpdated: new Date().toISOString(), staleSince });
       
     } catch (err) {
-      onError(err instanceof Error ? err.message : 'Failed to load chart data');
-    } finally {
-      onLoading(false);
-    }
-  };
-  
-  const transformApiDataToChart = (data: any): ChartDataPoint[] => {
-    if (!data) return [];
-    
-    // Use widget field mappings to extract data
-    const fieldMappings = widget.config?.fieldMappings || [];
-    
-    // Helper function to get nested value from path
-    const getNestedValue = (obj: any, path: string): any => {
-      if (path.includes('[0]')) {
-        // Handle array notation like "values[0].open"
-        const parts = path.split('[0].');
-        if (parts.length === 2) {
-          const arrayPath = parts[0];
-          const fieldPath = parts[1];
-          const arrayData = obj[arrayPath];
-          if (Array.isArray(arrayData) && arrayData.length > 0) {
-            return arrayData.map((item: any) => ({
-              item,
-              value: fieldPath.split('.').reduce((curr, key) => curr?.[key], item)
-            }));
-          }
-        }
+      if (isAbortError(err)) {
+        return;
       }
-      return path.split('.').reduce((curr, key) => curr?.[key], obj);
-    };
-    
-    // Find field mappings for OHLC and date
-    const openField = fieldMappings.find(f => f.displayName.toLowerCase().includes('open') || f.apiField.toLowerCase().includes('open'));
-    const highField = fieldMappings.find(f => f.displayName.toLowerCase().includes('high') || f.apiField.toLowerCase().includes('high'));
-    const lowField = fieldMappings.find(f => f.displayName.toLowerCase().includes('low') || f.apiField.toLowerCase().includes('low'));
-    const closeField = fieldMappings.find(f => f.displayName.toLowerCase().includes('close') || f.apiField.toLowerCase().includes('close'));
-    const dateField = fieldMappings.find(f => f.type === 'date' || f.displayName.toLowerCase().includes('date') || f.apiField.toLowerCase().includes('date'));
-    const volumeField = fieldMappings.find(f => f.displayName.toLowerCase().includes('volume') || f.apiField.toLowerCase().includes('volume'));
-    
-    // Handle array-based data (like Twelve Data API)
-    if (data.values && Array.isArray(data.values)) {
-      return data.values.slice(0, 100).map((item: any) => ({
-        date: item.datetime || item.date || item.timestamp || item.time,
-        open: parseFloat(item.open || 0),
-        high: parseFloat(item.high || 0),
-        low: parseFloat(item.low || 0),
-        close: parseFloat(item.close || 0),
-        volume: parseInt(item.volume || 0)
-      })).reverse(); // Most recent first
-    }
-    
-    // Handle field mapping based extraction for array data
-    if (openField && openField.apiField.includes('[0]')) {
-      const openData = getNestedValue(data, openField.apiField);
-      if (Array.isArray(openData)) {
-        return openData.slice(0, 100).map((entry: any) => {
-          const item = entry.item;
-          return {
-            date: dateField ? getNestedValue({[dateField.apiField.split('[0].')[0]]: [item]}, dateField.apiField) || item.datetime || item.date : item.datetime || item.date,
-            open: parseFloat(item.open || 0),
-            high: parseFloat(item.high || 0),
-            low: parseFloat(item.low || 0),
-            close: parseFloat(item.close || 0),
-            volume: parseInt(item.volume || 0)
-          };
-        }).reverse();
+      // Adapters report problems as ApiError objects rather than Errors
+      const message = err instanceof Error || (err && typeof err === 'object' && 'type' in err)
+        ? (err as { message: string }).message
+        : undefined;
+      onError(message || 'Failed to load chart data');
+      const current = getWidget(widget.id);
+      if (current) {
+        recordWidgetError(current, err && typeof err === 'object' && 'type' in err ? err as ApiError : ApiErrorHandler.parseError(err));
+      }
+    } finally {
+      if (!signal?.aborted) {
+        onLoading(false);
       }
     }
-    
-    // Handle Alpha Vantage format
-    let timeSeries: any = {};
-    if (data['Time Series (Daily)']) {
-      timeSeries = data['Time Series (Daily)'];
-    } else if (data['Weekly Time Series']) {
-      timeSeries = data['Weekly Time Series'];
-    } else if (data['Monthly Time Series']) {
-      timeSeries = data['Monthly Time Series'];
-    } else if (data['Time Series (5min)']) {
-      timeSeries = data['Time Series (5min)'];
-    } else if (data['Time Series (15min)']) {
-      timeSeries = data['Time Series (15min)'];
-    } else if (data['Time Series (30min)']) {
-      timeSeries = data['Time Series (30min)'];
-    } else if (data['Time Series (60min)']) {
-      timeSeries = data['Time Series (60min)'];
-    }
-    // Generic format - direct array
-    else if (Array.isArray(data)) {
-      return data.slice(0, 100).map((item: any) => ({
-        date: item.date || item.datetime || item.timestamp || item.time,
-        open: parseFloat(item.open || item.o || 0),
-        high: parseFloat(item.high || item.h || 0),
-        low: parseFloat(item.low || item.l || 0),
-        close: parseFloat(item.close || item.c || 0),
-        volume: parseInt(item.volume || item.v || 0)
-      }));
-    }
-    // Generic object format
-    else if (typeof data === 'object') {
-      timeSeries = data;
-    }
-    
-    // Transform Alpha Vantage time series data
-    if (Object.keys(timeSeries).length > 0) {
-      return Object.entries(timeSeries)
-        .slice(0, 100)
-        .map(([date, values]: [string, any]) => ({
-          date,
-          open: parseFloat(values['1. open'] || values.open || values.o || 0),
-          high: parseFloat(values['2. high'] || values.high || values.h || 0),
-          low: parseFloat(values['3. low'] || values.low || values.l || 0),
-          close: parseFloat(values['4. close'] || values.close || values.c || 0),
-          volume: parseInt(values['5. volume'] || values.volume || values.v || 0)
-        }))
-        .reverse(); // Most recent first
-    }
-    
-    return [];
-  };
+  }, [apiUrl, provider, request, symbols, widget.id, loadSymbol, getSignal, onError, onLoading, updateWidget]);
 
-  const formatTooltipValue = (value: number, name: string) => {
-    if (name === 'volume') {
-      return [value.toLocaleString(), 'Volume'];
-    }
-    return [
-      new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: 'USD',
-      }).format(value),
-      name.charAt(0).toUpperCase() + name.slice(1)
-    ];
-  };
+  useEffect(() => {
+    loadChartData();
+  }, [loadChartData]);
 
+  useScheduledRefresh(widget.id, () => loadChartData(true));
+  
   const formatXAxisLabel = (tickItem: string) => {
     try {
       const date = new Date(tickItem);
-      if (selectedInterval === 'daily') {
-        return format(date, 'MMM dd');
-      } else {
+      if (intraday) {
         return format(date, 'HH:mm');
       }
+      // Weekly and monthly bars span years at the Max range
+      return format(date, selectedInterval === 'daily' ? 'MMM dd' : 'MMM yy');
     } catch {
       return tickItem;
     }
@@ -287,7 +451,7 @@ export default function StockChart({
     );
   }
 
-  if (chartData.length === 0) {
+  if (comparison ? comparison.rows.length === 0 : chartData.length === 0) {
     return (
       <div className="text-center text-gray-500 dark:text-gray-400 py-8">
         No chart data available
@@ -295,7 +459,31 @@ export default function StockChart({
     );
   }
 
-  const intervals = [
+  const drawingLayer = (
+    <DrawingLayer
+      rows={displayData}
+      annotations={annotations}
+      tool={drawingTool}
+      selectedId={selectedAnnotation}
+      onSelect={setSelectedAnnotation}
+      onChange={setAnnotations}
+      onDrawn={() => setDrawingTool('select')}
+    />
+  );
+
+  const navigator = (
+    <ChartNavigator
+      key={viewport.navigatorKey}
+      values={navigatorValues}
+      labels={navigatorLabels}
+      start={viewport.start}
+      end={viewport.end}
+      onChange={viewport.setFromNavigator}
+      formatLabel={formatXAxisLabel}
+    />
+  );
+
+  const intervals: { value: ChartInterval; label: string }[] = [
     { value: '5min', label: '5m' },
     { value: '15min', label: '15m' },
     { value: '30min', label: '30m' },
@@ -310,37 +498,68 @@ export default function StockChart({
     { value: 'candlestick', label: 'Candlestick' },
   ];
 
+  const compareScales: { value: 'price' | 'percent'; label: string }[] = [
+    { value: 'percent', label: '% Change' },
+    { value: 'price', label: 'Price' },
+  ];
+
   return (
     <div className="space-y-4">
       {/* Header with Controls */}
       <div className="flex items-center justify-between flex-wrap gap-2">
         <h4 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-          {symbol} Price Chart
+          {comparing ? symbols.join(' vs ') : `${symbol} Price Chart`}
         </h4>
         <div className="flex items-center space-x-2">
-          {/* Chart Type Selector */}
-          <div className="flex space-x-1 bg-gray-100 dark:bg-gray-800 rounded-lg p-1">
-            {chartTypes.map((type) => (
-              <button
-                key={type.value}
-                onClick={() => setChartType(type.value as 'line' | 'candlestick')}
-                className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${
-                  chartType === type.value
-                    ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm'
-                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
-                }`}
-              >
-                {type.label}
-              </button>
-            ))}
-          </div>
+          {comparing ? (
+            /* Scale Selector */
+            <div className="flex space-x-1 bg-gray-100 dark:bg-gray-800 rounded-lg p-1">
+              {compareScales.map((scale) => (
+                <button
+                  key={scale.value}
+                  onClick={() => setCompareScale(scale.value)}
+                  className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${
+                    compareScale === scale.value
+                      ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm'
+                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+                  }`}
+                >
+                  {scale.label}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <>
+              <IndicatorMenu indicators={widget.config?.indicators || []} onChange={setIndicators} />
+
+              {/* Chart Type Selector */}
+              <div className="flex space-x-1 bg-gray-100 dark:bg-gray-800 rounded-lg p-1">
+                {chartTypes.map((type) => (
+                  <button
+                    key={type.value}
+                    onClick={() => setChartType(type.value as 'line' | 'candlestick')}
+                    className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${
+                      chartType === type.value
+                        ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm'
+                        : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+                    }`}
+                  >
+                    {type.label}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
           
           {/* Interval Selector */}
           <div className="flex space-x-1 bg-gray-100 dark:bg-gray-800 rounded-lg p-1">
             {intervals.map((interval) => (
               <button
                 key={interval.value}
-                onClick={() => setSelectedInterval(interval.value)}
+                onClick={() => {
+                  setSelectedInterval(interval.value);
+                  setRangePreset(null);
+                }}
                 className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${
                   selectedInterval === interval.value
                     ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm'
@@ -354,156 +573,268 @@ export default function StockChart({
         </div>
       </div>
 
-      {/* Chart */}
-      <div className="h-80">
-        <ResponsiveContainer width="100%" height="100%">
-          {chartType === 'line' ? (
-            <LineChart data={chartData}>
-              <CartesianGrid 
-                strokeDasharray="3 3" 
-                className="stroke-gray-200 dark:stroke-gray-700" 
-              />
-              <XAxis 
-                dataKey="date"
-                tickFormatter={formatXAxisLabel}
-                className="text-gray-600 dark:text-gray-400"
-                fontSize={12}
-              />
-              <YAxis 
-                domain={['dataMin - 1', 'dataMax + 1']}
-                tickFormatter={(value) => `$${value.toFixed(2)}`}
-                className="text-gray-600 dark:text-gray-400"
-                fontSize={12}
-              />
-              <Tooltip
-                formatter={formatTooltipValue}
-                labelFormatter={(label) => {
-                  try {
-                    return format(new Date(label), 'PPpp');
-                  } catch {
-                    return label;
-                  }
-                }}
-                contentStyle={{
-                  backgroundColor: 'var(--tooltip-bg)',
-                  border: '1px solid var(--tooltip-border)',
-                  borderRadius: '8px',
-                  color: 'var(--tooltip-color)',
-                }}
-              />
-              <Line
-                type="monotone"
-                dataKey="close"
-                stroke="#0ea5e9"
-                strokeWidth={2}
-                dot={false}
-                activeDot={{ r: 4, fill: '#0ea5e9' }}
-              />
-            </LineChart>
-          ) : (
-            <LineChart data={chartData}>
-              <CartesianGrid 
-                strokeDasharray="3 3" 
-                className="stroke-gray-200 dark:stroke-gray-700" 
-              />
-              <XAxis 
-                dataKey="date"
-                tickFormatter={formatXAxisLabel}
-                className="text-gray-600 dark:text-gray-400"
-                fontSize={12}
-              />
-              <YAxis 
-                domain={['dataMin - 1', 'dataMax + 1']}
-                tickFormatter={(value) => `$${value.toFixed(2)}`}
-                className="text-gray-600 dark:text-gray-400"
-                fontSize={12}
-              />
-              <Tooltip
-                formatter={(value: any, name: any, props: any) => {
-                  const data = props.payload;
-                  if (String(name) === 'close') {
-                    return [
-                      <div key="candlestick-tooltip" className="space-y-1">
-                        <div>Open: ${data.open?.toFixed(2)}</div>
-                        <div>High: ${data.high?.toFixed(2)}</div>
-                        <div>Low: ${data.low?.toFixed(2)}</div>
-                        <div>Close: ${data.close?.toFixed(2)}</div>
-                        {data.volume && <div>Volume: {data.volume.toLocaleString()}</div>}
-                      </div>,
-                      'OHLC'
-                    ];
-                  }
-                  return formatTooltipValue(value as number, String(name));
-                }}
-                labelFormatter={(label) => {
-                  try {
-                    return format(new Date(label), 'PPpp');
-                  } catch {
-                    return label;
-                  }
-                }}
-                contentStyle={{
-                  backgroundColor: 'var(--tooltip-bg)',
-                  border: '1px solid var(--tooltip-border)',
-                  borderRadius: '8px',
-                  color: 'var(--tooltip-color)',
-                }}
-              />
-              {/* Render candlesticks manually */}
-              {chartData.map((point, index) => {
-                const isPositive = point.close >= point.open;
-                const color = isPositive ? '#10b981' : '#ef4444';
-                return (
-                  <ReferenceLine
-                    key={index}
-                    x={point.date}
-                    stroke={color}
+      <RangePresets
+        selected={rangePreset}
+        onSelect={selectRange}
+        isZoomed={viewport.isZoomed}
+        onReset={viewport.reset}
+      />
+
+      {comparison ? (
+        <>
+          <ComparisonChart
+            syncId={widget.id}
+            symbols={symbols}
+            rows={comparison.rows}
+            scale={compareScale}
+            hiddenSymbols={hiddenSymbols}
+            onToggle={toggleSymbol}
+            changes={comparison.changes}
+            correlations={comparison.correlations}
+            failedSymbols={failedSymbols}
+            formatXAxisLabel={formatXAxisLabel}
+            plotRef={viewport.containerRef}
+          />
+          {navigator}
+        </>
+      ) : (
+        <>
+          <div className="flex items-center justify-between flex-wrap gap-2">
+            <OhlcLegend
+              point={activePoint}
+              previousClose={activePreviousClose}
+              overlays={overlays}
+              intraday={intraday}
+            />
+            <DrawingToolbar
+              tool={drawingTool}
+              onToolChange={setDrawingTool}
+              annotations={annotations}
+              selectedId={selectedAnnotation}
+              onChange={setAnnotations}
+              onSelect={setSelectedAnnotation}
+            />
+          </div>
+
+          {/* Chart; the wheel zooms, dragging pans and clicking off a drawing deselects it */}
+          <div
+            ref={viewport.containerRef}
+            onPointerDown={(e) => {
+              if (!(e.target as Element).closest('[data-no-pan]')) setSelectedAnnotation(null);
+            }}
+            className="h-80 cursor-grab active:cursor-grabbing select-none"
+          >
+            <ResponsiveContainer width="100%" height="100%">
+              {chartType === 'line' ? (
+                <LineChart data={displayData} syncId={widget.id} onMouseMove={trackCursor} onMouseLeave={clearCursor}>
+                  <CartesianGrid 
+                    strokeDasharray="3 3" 
+                    className="stroke-gray-200 dark:stroke-gray-700" 
+                  />
+                  <XAxis 
+                    dataKey="date"
+                    tickFormatter={formatXAxisLabel}
+                    className="text-gray-600 dark:text-gray-400"
+                    fontSize={12}
+                  />
+                  <YAxis 
+                    domain={['dataMin - 1', 'dataMax + 1']}
+                    tickFormatter={(value) => `$${value.toFixed(2)}`}
+                    className="text-gray-600 dark:text-gray-400"
+                    fontSize={12}
+                  />
+                  <Tooltip content={() => null} cursor={CROSSHAIR} />
+                  {priceCrosshair}
+                  <Line
+                    type="monotone"
+                    dataKey="close"
+                    stroke="#0ea5e9"
                     strokeWidth={2}
+                    dot={false}
+                    activeDot={{ r: 4, fill: '#0ea5e9' }}
                   />
-                );
-              })}
-              <Line
-                type="monotone"
-                dataKey="close"
-                stroke="transparent"
-                dot={false}
-              />
-            </LineChart>
-          )}
-        </ResponsiveContainer>
-      </div>
+                  {overlays.map(series => (
+                    <Line
+                      key={series.key}
+                      type="monotone"
+                      dataKey={series.key}
+                      name={series.label}
+                      stroke={series.color}
+                      strokeWidth={1.5}
+                      strokeDasharray={series.dashed ? '4 4' : undefined}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                  <Customized component={drawingLayer} />
+                </LineChart>
+              ) : (
+                <LineChart data={displayData} syncId={widget.id} onMouseMove={trackCursor} onMouseLeave={clearCursor}>
+                  <CartesianGrid 
+                    strokeDasharray="3 3" 
+                    className="stroke-gray-200 dark:stroke-gray-700" 
+                  />
+                  <XAxis 
+                    dataKey="date"
+                    tickFormatter={formatXAxisLabel}
+                    className="text-gray-600 dark:text-gray-400"
+                    fontSize={12}
+                  />
+                  <YAxis 
+                    domain={['dataMin - 1', 'dataMax + 1']}
+                    tickFormatter={(value) => `$${value.toFixed(2)}`}
+                    className="text-gray-600 dark:text-gray-400"
+                    fontSize={12}
+                  />
+                  <Tooltip content={() => null} cursor={CROSSHAIR} />
+                  {/* Render candlesticks manually */}
+                  {displayData.map((point, index) => {
+                    const isPositive = point.close >= point.open;
+                    const color = isPositive ? '#10b981' : '#ef4444';
+                    return (
+                      <ReferenceLine
+                        key={index}
+                        x={point.date}
+                        stroke={color}
+                        strokeWidth={2}
+                      />
+                    );
+                  })}
+                  {priceCrosshair}
+                  <Line
+                    type="monotone"
+                    dataKey="close"
+                    stroke="transparent"
+                    dot={false}
+                  />
+                  {overlays.map(series => (
+                    <Line
+                      key={series.key}
+                      type="monotone"
+                      dataKey={series.key}
+                      name={series.label}
+                      stroke={series.color}
+                      strokeWidth={1.5}
+                      strokeDasharray={series.dashed ? '4 4' : undefined}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                  <Customized component={drawingLayer} />
+                </LineChart>
+              )}
+            </ResponsiveContainer>
+          </div>
 
-      {/* Chart Stats */}
-      <div className="grid grid-cols-4 gap-4 text-center">
-        {chartData.length > 0 && (
-          <>
-            <div>
-              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Open</div>
-              <div className="font-semibold text-gray-900 dark:text-gray-100">
-                ${chartData[0]?.open.toFixed(2)}
-              </div>
-            </div>
-            <div>
-              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">High</div>
-              <div className="font-semibold text-green-600">
-                ${Math.max(...chartData.map(d => d.high)).toFixed(2)}
-              </div>
-            </div>
-            <div>
-              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Low</div>
-              <div className="font-semibold text-red-600">
-                ${Math.min(...chartData.map(d => d.low)).toFixed(2)}
-              </div>
+          {/* Volume, coloured by the direction of each bar */}
+          {hasVolume && (
+            <div className="h-20">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={displayData} syncId={widget.id} onMouseMove={trackCursor} onMouseLeave={clearCursor}>
+                  <XAxis dataKey="date" hide />
+                  <YAxis
+                    tickFormatter={(value) => new Intl.NumberFormat('en-US', { notation: 'compact' }).format(value)}
+                    className="text-gray-600 dark:text-gray-400"
+                    fontSize={10}
+                  />
+                  <Tooltip content={() => null} cursor={{ fill: 'rgba(156, 163, 175, 0.15)' }} />
+                  <Bar dataKey="volume" name="Volume" isAnimationActive={false}>
+                    {displayData.map((point, index) => (
+                      <Cell key={index} fill={point.close >= point.open ? '#10b981' : '#ef4444'} fillOpacity={0.6} />
+                    ))}
+                  </Bar>
+                </ComposedChart>
+              </ResponsiveContainer>
             </div>
-            <div>
-              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Close</div>
-              <div className="font-semibold text-gray-900 dark:text-gray-100">
-                ${chartData[chartData.length - 1]?.close.toFixed(2)}
+          )}
+
+          {/* Oscillators, one pane each, sharing the price chart's tooltip position */}
+          {panes.map(pane => (
+            <div key={pane.id}>
+              <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{pane.label}</div>
+              <div className="h-24">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={displayData} syncId={widget.id} onMouseMove={trackCursor} onMouseLeave={clearCursor}>
+                    <CartesianGrid 
+                      strokeDasharray="3 3" 
+                      className="stroke-gray-200 dark:stroke-gray-700" 
+                    />
+                    <XAxis dataKey="date" hide />
+                    <YAxis
+                      domain={pane.domain || ['auto', 'auto']}
+                      ticks={pane.domain ? pane.guides : undefined}
+                      tickFormatter={(value) => Number(value).toFixed(pane.domain ? 0 : 2)}
+                      className="text-gray-600 dark:text-gray-400"
+                      fontSize={10}
+                    />
+                    <Tooltip
+                      formatter={(value: any, name: any) => [Number(value).toFixed(2), name]}
+                      labelFormatter={() => pane.label}
+                      contentStyle={{
+                        backgroundColor: 'var(--tooltip-bg)',
+                        border: '1px solid var(--tooltip-border)',
+                        borderRadius: '8px',
+                        color: 'var(--tooltip-color)',
+                      }}
+                    />
+                    {pane.guides.map(level => (
+                      <ReferenceLine key={level} y={level} stroke="#9ca3af" strokeDasharray="3 3" />
+                    ))}
+                    {pane.series.map(series => series.kind === 'bar' ? (
+                      <Bar key={series.key} dataKey={series.key} name={series.label} fill={series.color} isAnimationActive={false} />
+                    ) : (
+                      <Line
+                        key={series.key}
+                        type="monotone"
+                        dataKey={series.key}
+                        name={series.label}
+                        stroke={series.color}
+                        strokeWidth={1.5}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </ComposedChart>
+                </ResponsiveContainer>
               </div>
             </div>
-          </>
-        )}
-      </div>
+          ))}
+
+          {navigator}
+
+          {/* Chart Stats, over the visible range */}
+          <div className="grid grid-cols-4 gap-4 text-center">
+            {visibleRows.length > 0 && (
+              <>
+                <div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Open</div>
+                  <div className="font-semibold text-gray-900 dark:text-gray-100">
+                    ${visibleRows[0]?.open.toFixed(2)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">High</div>
+                  <div className="font-semibold text-green-600">
+                    ${Math.max(...visibleRows.map(d => d.high)).toFixed(2)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Low</div>
+                  <div className="font-semibold text-red-600">
+                    ${Math.min(...visibleRows.map(d => d.low)).toFixed(2)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Close</div>
+                  <div className="font-semibold text-gray-900 dark:text-gray-100">
+                    ${visibleRows[visibleRows.length - 1]?.close.toFixed(2)}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </>
+      )}
     </div>
   );
 }
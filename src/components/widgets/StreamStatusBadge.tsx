@@ -0,0 +1,38 @@
+'use client';
+
+import { Wifi, WifiOff } from 'lucide-react';
+import { StreamConfig } from '@/types';
+import { StreamStatus } from '@/services/streamManager';
+import { useStreamState } from '@/hooks/useStream';
+
+const LABELS: Record<StreamStatus, string> = {
+  connecting: 'Connecting',
+  open: 'Live',
+  reconnecting: 'Reconnecting',
+  error: 'Offline',
+};
+
+const COLORS: Record<StreamStatus, string> = {
+  connecting: 'text-amber-600 dark:text-amber-400',
+  open: 'text-green-600 dark:text-green-400',
+  reconnecting: 'text-amber-600 dark:text-amber-400',
+  error: 'text-red-600 dark:text-red-400',
+};
+
+// Connection state of a widget's live stream
+export default function StreamStatusBadge({ stream }: { stream?: StreamConfig }) {
+  const state = useStreamState(stream);
+  if (!state) return null;
+
+  const Icon = state.status === 'open' ? Wifi : WifiOff;
+  return (
+    <span
+      className={`flex items-center gap-1 text-xs font-medium ${COLORS[state.status]}`}
+      title={state.status === 'open' ? 'Live stream connected' : state.error?.message}
+    >
+      <Icon className={`w-3.5 h-3.5 ${state.status === 'connecting' || state.status === 'reconnecting' ? 'animate-pulse' : ''}`} />
+      {LABELS[state.status]}
+      {state.status === 'reconnecting' && state.retryIn > 0 && ` in ${state.retryIn}s`}
+    </span>
+  );
+}
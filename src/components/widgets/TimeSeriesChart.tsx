@@ -0,0 +1,131 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { ChartInterval } from '@/services/providers';
+import { downsampleRows, getRangePreset, rangeStartIndex, RangePresetId } from '@/services/chartViewport';
+import { useChartViewport } from '@/hooks/useChartViewport';
+import ChartNavigator from './ChartNavigator';
+import RangePresets from './RangePresets';
+
+export type TimeSeriesPoint = { date: string; timestamp: number } & Record<string, any>;
+
+interface TimeSeriesChartProps {
+  data: TimeSeriesPoint[]; // Oldest first; timestamps are row numbers when the rows are undated
+  keys: string[]; // Numeric fields plotted as lines
+  dated: boolean;
+  interval?: ChartInterval;
+  onIntervalChange?: (interval: ChartInterval) => void; // Set when the request depends on the interval
+}
+
+const COLORS = ['#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6'];
+
+// Line chart over a whole series with wheel zoom, drag panning, a navigator
+// and, for dated rows, range presets
+export default function TimeSeriesChart({ data, keys, dated, interval, onIntervalChange }: TimeSeriesChartProps) {
+  const [rangePreset, setRangePreset] = useState<RangePresetId | null>(null);
+  const viewport = useChartViewport(data.length, {
+    resetKey: interval,
+    onInteract: () => setRangePreset(null),
+  });
+
+  // A preset picks its window once rows for its interval arrive
+  const { setWindow } = viewport;
+  useEffect(() => {
+    if (!rangePreset) return;
+    setWindow(rangeStartIndex(data.map(point => point.timestamp), getRangePreset(rangePreset)), data.length);
+  }, [rangePreset, data, setWindow]);
+
+  const chartData = useMemo(
+    () => downsampleRows(data.slice(viewport.start, viewport.end), keys.map(key => (point: TimeSeriesPoint) => point[key])),
+    [data, keys, viewport.start, viewport.end]
+  );
+  const navigatorValues = useMemo(() => data.map(point => point[keys[0]] ?? null), [data, keys]);
+  const navigatorLabels = useMemo(() => data.map(point => point.date), [data]);
+
+  const selectRange = (id: RangePresetId) => {
+    setRangePreset(id);
+    const presetInterval = getRangePreset(id).interval;
+    if (onIntervalChange && presetInterval !== interval) onIntervalChange(presetInterval);
+  };
+
+  return (
+    <div className="space-y-2">
+      {dated && (
+        <RangePresets
+          selected={rangePreset}
+          onSelect={selectRange}
+          isZoomed={viewport.isZoomed}
+          onReset={viewport.reset}
+        />
+      )}
+
+      <div ref={viewport.containerRef} className="h-80 w-full cursor-grab active:cursor-grabbing select-none">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={chartData}
+            margin={{ top: 20, right: 30, left: 20, bottom: 80 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+            <XAxis
+              dataKey="date"
+              className="text-xs"
+              tick={{ fontSize: 10 }}
+              angle={-45}
+              textAnchor="end"
+              height={80}
+              interval={Math.max(0, Math.floor(chartData.length / 8))}
+            />
+            <YAxis
+              className="text-xs"
+              tick={{ fontSize: 12 }}
+              width={80}
+              tickFormatter={(value) => {
+                if (value >= 1000000) {
+                  return `${(value / 1000000).toFixed(1)}M`;
+                } else if (value >= 1000) {
+                  return `${(value / 1000).toFixed(1)}K`;
+                }
+                return value.toFixed(2);
+              }}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'var(--tooltip-bg)',
+                border: '1px solid var(--tooltip-border)',
+                borderRadius: '6px',
+              }}
+              formatter={(value: any, name: string) => [
+                typeof value === 'number' ? value.toLocaleString() : value,
+                name
+              ]}
+              labelFormatter={(label) => `Date: ${label}`}
+            />
+            {keys.map((key, index) => (
+              <Line
+                key={key}
+                type="monotone"
+                dataKey={key}
+                stroke={COLORS[index % COLORS.length]}
+                strokeWidth={2}
+                // Dots only while they can be told apart
+                dot={chartData.length <= 60 ? { r: 3 } : false}
+                connectNulls={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <ChartNavigator
+        key={viewport.navigatorKey}
+        values={navigatorValues}
+        labels={navigatorLabels}
+        start={viewport.start}
+        end={viewport.end}
+        onChange={viewport.setFromNavigator}
+      />
+    </div>
+  );
+}
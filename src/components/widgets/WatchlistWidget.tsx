@@ -0,0 +1,493 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { StockData, Watchlist, WatchlistConfig, Widget } from '@/types';
+import { getWidget, useDashboardStore } from '@/store/dashboardStore';
+import { recordWidgetError } from '@/store/notificationStore';
+import { isAbortError } from '@/services/apiCache';
+import { ApiError, ApiErrorHandler } from '@/services/apiErrorHandler';
+import { fetchQuote, getProviderContext, getWidgetSymbols, resolveProvider } from '@/services/providers';
+import {
+  WATCHLIST_COLUMNS,
+  WatchlistColumn,
+  WatchlistSort,
+  addSymbol,
+  createWatchlist,
+  getActiveWatchlist,
+  hasColumnData,
+  moveSymbol,
+  removeSymbol,
+  sortSymbols,
+} from '@/services/watchlist';
+import { useScheduledRefresh } from '@/hooks/useRefreshSchedule';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useRequestConfig } from '@/hooks/useRequestConfig';
+import SymbolSearch from '../modals/SymbolSearch';
+import ErrorDisplay from './ErrorDisplay';
+import { ArrowDown, ArrowUp, GripVertical, ListPlus, Maximize2, Minimize2, X } from 'lucide-react';
+
+// Everything the quote requests are built from, besides the list's symbols
+const REQUEST_FIELDS = ['provider', 'apiUrl', 'apiKey', 'useProxy', 'refreshInterval'] as const;
+
+interface WatchlistWidgetProps {
+  widget: Widget;
+  isVisible?: boolean;
+}
+
+const formatPrice = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: Math.abs(value) < 1 ? 6 : 2 });
+
+const formatCompact = (value: number) =>
+  new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 2 }).format(value);
+
+const formatSigned = (value: number, suffix = '') => `${value >= 0 ? '+' : ''}${value.toFixed(2)}${suffix}`;
+
+// Headers cycle ascending, descending, then back to the list's own order
+const nextSort = (sort: WatchlistSort | null, column: WatchlistColumn): WatchlistSort | null => {
+  if (sort?.column !== column) return { column, direction: 'asc' };
+  return sort.direction === 'asc' ? { column, direction: 'desc' } : null;
+};
+
+export default function WatchlistWidget({ widget, isVisible = true }: WatchlistWidgetProps) {
+  const { updateWidget, updateWidgetData } = useDashboardStore();
+  // Quotes by the symbol they were requested for
+  const [quotes, setQuotes] = useState<Record<string, StockData>>({});
+  const [failedSymbols, setFailedSymbols] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [apiError, setApiError] = useState<ApiError | null>(null);
+  const [sort, setSort] = useState<WatchlistSort | null>(null);
+  const [editingList, setEditingList] = useState<string | null>(null);
+  const [listName, setListName] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const quotesRef = useRef(quotes);
+  quotesRef.current = quotes;
+  const isVisibleRef = useRef(isVisible);
+  isVisibleRef.current = isVisible;
+
+  // Widgets saved without lists start with one holding their symbols
+  const watchlist: WatchlistConfig = widget.config.watchlist?.lists.length ? widget.config.watchlist : {
+    ...widget.config.watchlist,
+    lists: [{ id: 'default', name: 'Watchlist', symbols: getWidgetSymbols(widget.config) }],
+  };
+  const activeList = getActiveWatchlist(watchlist)!;
+  // Quotes reload when the list's symbols change, not when it's saved unchanged
+  const symbolsKey = JSON.stringify(activeList.symbols);
+  const symbols: string[] = useMemo(() => JSON.parse(symbolsKey), [symbolsKey]);
+  const compact = watchlist.density === 'compact';
+
+  const saveWatchlist = (next: WatchlistConfig) =>
+    updateWidget(widget.id, { config: { ...widget.config, watchlist: next } });
+  const saveList = (list: Watchlist) =>
+    saveWatchlist({ ...watchlist, lists: watchlist.lists.map(l => (l.id === list.id ? list : l)) });
+
+  const { request, requestKey } = useRequestConfig(widget.config, REQUEST_FIELDS);
+  const provider = resolveProvider(request);
+  const getSignal = useAbortSignal(`${requestKey}|${symbolsKey}`);
+
+  const loadQuotes = useCallback(async (skipCache = false) => {
+    if (!provider) {
+      setError('Choose a data provider for this watchlist');
+      return;
+    }
+    if (symbols.length === 0) {
+      setError(null);
+      setApiError(null);
+      setFailedSymbols([]);
+      return;
+    }
+
+    const signal = getSignal();
+    setLoading(true);
+    setError(null);
+    setApiError(null);
+
+    // The quotes in list order, as stored on the widget for alerts and exports
+    const listQuotes = (bySymbol: Record<string, StockData>) =>
+      symbols.map(symbol => bySymbol[symbol]).filter(Boolean);
+
+    try {
+      let staleSince: string | undefined;
+      const context = getProviderContext(request);
+      const cacheOptions = {
+        ttl: (request.refreshInterval || 30) * 1000,
+        skipCache,
+        useProxy: request.useProxy,
+        priority: isVisibleRef.current ? 'high' as const : 'low' as const,
+        staleWhileRevalidate: true,
+        onStale: (since: number) => {
+          staleSince = new Date(since).toISOString();
+        },
+        onRevalidateError: (revalidateError: ApiError) => {
+          // The cached payload stays on screen, marked stale with the reason
+          const current = getWidget(widget.id);
+          updateWidget(widget.id, {
+            staleSince,
+            lastError: {
+              type: revalidateError.type,
+              message: revalidateError.message,
+              timestamp: Date.now(),
+              retryAfter: revalidateError.retryAfter,
+              retryCount: current?.lastError?.retryCount,
+            },
+          });
+          if (current) recordWidgetError(current, revalidateError);
+        },
+      };
+
+      // A symbol that fails leaves its row empty; the rest still load
+      const results = await Promise.allSettled(symbols.map(symbol =>
+        fetchQuote(provider, symbol, context, {
+          ...cacheOptions,
+          signal,
+          onRevalidate: fresh => {
+            const next = { ...quotesRef.current, [symbol]: fresh };
+            setQuotes(next);
+            updateWidgetData(widget.id, listQuotes(next));
+            updateWidget(widget.id, { staleSince: undefined, lastError: undefined });
+          },
+        })
+      ));
+      const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failures.length === results.length || failures.some(failure => isAbortError(failure.reason))) {
+        throw failures[0].reason;
+      }
+
+      const next = { ...quotesRef.current };
+      results.forEach((result, i) => {
+        if (result.status === 'fulfilled') next[symbols[i]] = result.value;
+      });
+      setQuotes(next);
+      setFailedSymbols(symbols.filter((_, i) => results[i].status === 'rejected'));
+      updateWidgetData(widget.id, listQuotes(next));
+      updateWidget(widget.id, { lastError: undefined, staleSince });
+    } catch (err) {
+      if (isAbortError(err)) {
+        return;
+      }
+      // Adapters report problems as ApiError objects rather than Errors
+      const apiErr = err && typeof err === 'object' && 'type' in err
+        ? err as ApiError
+        : ApiErrorHandler.parseError(err);
+      setApiError(apiErr);
+      setError(ApiErrorHandler.getErrorMessage(apiErr));
+      const current = getWidget(widget.id);
+      updateWidget(widget.id, {
+        lastError: {
+          type: apiErr.type,
+          message: apiErr.message,
+          timestamp: Date.now(),
+          retryAfter: apiErr.retryAfter,
+          retryCount: (current?.lastError?.retryCount || 0) + 1,
+        },
+      });
+      if (current) recordWidgetError(current, apiErr);
+    } finally {
+      if (!signal?.aborted) {
+        setLoading(false);
+      }
+    }
+  }, [provider, request, symbols, widget.id, getSignal, updateWidget, updateWidgetData]);
+
+  useEffect(() => {
+    loadQuotes();
+  }, [loadQuotes]);
+
+  useScheduledRefresh(widget.id, () => loadQuotes(true));
+
+  const rows = useMemo(() => sortSymbols(symbols, quotes, sort), [symbols, quotes, sort]);
+  // Columns no quote in the list has a value for are left out
+  const loadedQuotes = symbols.map(symbol => quotes[symbol]).filter(Boolean);
+  const columns = WATCHLIST_COLUMNS.filter(column =>
+    column.id === 'symbol' || column.id === 'price' || column.id === 'change' || hasColumnData(loadedQuotes, column.id)
+  );
+
+  const selectList = (id: string) => {
+    if (id === activeList.id) return;
+    setSort(null);
+    saveWatchlist({ ...watchlist, activeList: id });
+  };
+
+  const startRename = (list: Watchlist) => {
+    setEditingList(list.id);
+    setListName(list.name);
+  };
+
+  const finishRename = () => {
+    const list = watchlist.lists.find(l => l.id === editingList);
+    const name = listName.trim();
+    if (list && name && name !== list.name) saveList({ ...list, name });
+    setEditingList(null);
+  };
+
+  const addList = () => {
+    const list = createWatchlist(`List ${watchlist.lists.length + 1}`);
+    setSort(null);
+    saveWatchlist({ ...watchlist, lists: [...watchlist.lists, list], activeList: list.id });
+    startRename(list);
+  };
+
+  const deleteList = (list: Watchlist) => {
+    if (watchlist.lists.length <= 1) return;
+    if (list.symbols.length > 0 && !confirm(`Delete the list "${list.name}" and its ${list.symbols.length} symbols?`)) return;
+    const lists = watchlist.lists.filter(l => l.id !== list.id);
+    saveWatchlist({ ...watchlist, lists, activeList: list.id === activeList.id ? lists[0].id : watchlist.activeList });
+  };
+
+  const addSymbols = (picked: string[]) =>
+    saveList(picked.reduce((list, symbol) => addSymbol(list, symbol), activeList));
+
+  // Rows are dragged within the list's own order, so not while sorted
+  const dropRow = (to: number) => {
+    if (dragIndex !== null) saveList(moveSymbol(activeList, dragIndex, to));
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const toggleDensity = () => saveWatchlist({ ...watchlist, density: compact ? 'expanded' : 'compact' });
+
+  const cellPadding = compact ? 'px-2 py-1' : 'px-3 py-2';
+
+  const renderCell = (column: WatchlistColumn, symbol: string, quote: StockData | undefined) => {
+    if (column === 'symbol') {
+      return (
+        <div className="min-w-0">
+          <div className="font-semibold text-gray-900 dark:text-gray-100">{symbol}</div>
+          {!compact && (
+            <div className="text-xs text-gray-500 dark:text-gray-400 truncate max-w-[10rem]">
+              {quote && quote.name !== symbol ? quote.name : failedSymbols.includes(symbol) ? 'No quote' : ''}
+            </div>
+          )}
+        </div>
+      );
+    }
+    if (!quote) {
+      return <span className="text-gray-400">—</span>;
+    }
+
+    const tone = quote.change >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+    switch (column) {
+      case 'price':
+        return <span className="font-medium text-gray-900 dark:text-gray-100">{formatPrice(quote.price)}</span>;
+      case 'change':
+        return compact ? (
+          <span className={tone}>{formatSigned(quote.changePercent, '%')}</span>
+        ) : (
+          <div className={tone}>
+            <div>{formatSigned(quote.change)}</div>
+            <div className="text-xs">{formatSigned(quote.changePercent, '%')}</div>
+          </div>
+        );
+      case 'volume':
+        return quote.volume !== undefined ? formatCompact(quote.volume) : <span className="text-gray-400">—</span>;
+      case 'marketCap':
+        return quote.marketCap !== undefined ? formatCompact(quote.marketCap) : <span className="text-gray-400">—</span>;
+      case 'range': {
+        if (quote.low === undefined || quote.high === undefined) return <span className="text-gray-400">—</span>;
+        const range = `${formatPrice(quote.low)} – ${formatPrice(quote.high)}`;
+        if (compact || quote.high <= quote.low) return <span className="whitespace-nowrap">{range}</span>;
+        // Where the price sits between the day's low and high
+        const position = Math.min(Math.max((quote.price - quote.low) / (quote.high - quote.low), 0), 1);
+        return (
+          <div className="min-w-[7rem]" title={range}>
+            <div className="relative h-1.5 rounded-full bg-gray-200 dark:bg-gray-700">
+              <div
+                className="absolute top-1/2 w-2 h-2 -mt-1 -ml-1 rounded-full bg-blue-500"
+                style={{ left: `${position * 100}%` }}
+              />
+            </div>
+            <div className="flex justify-between mt-1 text-[10px] text-gray-500 dark:text-gray-400">
+              <span>{formatPrice(quote.low)}</span>
+              <span>{formatPrice(quote.high)}</span>
+            </div>
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {/* Lists */}
+      <div className="flex items-center gap-1 overflow-x-auto">
+        {watchlist.lists.map(list => {
+          const active = list.id === activeList.id;
+          return editingList === list.id ? (
+            <input
+              key={list.id}
+              autoFocus
+              value={listName}
+              onChange={(e) => setListName(e.target.value)}
+              onBlur={finishRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') finishRename();
+                if (e.key === 'Escape') setEditingList(null);
+              }}
+              className="input-field w-28 py-0.5 text-xs"
+              aria-label="List name"
+            />
+          ) : (
+            <div
+              key={list.id}
+              className={`group/tab flex items-center rounded-md text-xs whitespace-nowrap ${
+                active
+                  ? 'bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                  : 'text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700'
+              }`}
+            >
+              <button
+                onClick={() => selectList(list.id)}
+                onDoubleClick={() => startRename(list)}
+                className="px-2 py-1 font-medium"
+                title="Double-click to rename"
+              >
+                {list.name} <span className="text-gray-400">{list.symbols.length}</span>
+              </button>
+              {active && watchlist.lists.length > 1 && (
+                <button
+                  onClick={() => deleteList(list)}
+                  className="pr-1.5 text-gray-400 hover:text-red-500 opacity-0 group-hover/tab:opacity-100"
+                  aria-label={`Delete list ${list.name}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+        <button
+          onClick={addList}
+          className="p-1 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+          title="New list"
+        >
+          <ListPlus className="w-4 h-4" />
+        </button>
+        <button
+          onClick={toggleDensity}
+          className="ml-auto p-1 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+          title={compact ? 'Expanded rows' : 'Compact rows'}
+        >
+          {compact ? <Maximize2 className="w-4 h-4" /> : <Minimize2 className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {/* Add symbols */}
+      <SymbolSearch
+        config={{ provider: widget.config.provider, apiUrl: widget.config.apiUrl, apiKey: widget.config.apiKey }}
+        value={symbols}
+        onChange={addSymbols}
+        multiple
+        showSelected={false}
+      />
+
+      {error && (
+        <ErrorDisplay
+          error={error}
+          apiError={apiError}
+          onRetry={() => loadQuotes(true)}
+          className={loadedQuotes.length === 0 ? 'h-32' : ''}
+        />
+      )}
+
+      {symbols.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+          Search for a symbol above to add it to {activeList.name}.
+        </p>
+      ) : loading && loadedQuotes.length === 0 ? (
+        <div className="space-y-2 animate-pulse">
+          {symbols.slice(0, 5).map(symbol => (
+            <div key={symbol} className="h-8 bg-gray-200 dark:bg-gray-700 rounded" />
+          ))}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className={`w-full ${compact ? 'text-xs' : 'text-sm'}`}>
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                <th className="w-5" />
+                {columns.map(column => (
+                  <th
+                    key={column.id}
+                    onClick={() => setSort(nextSort(sort, column.id))}
+                    className={`${cellPadding} font-medium text-gray-500 dark:text-gray-400 cursor-pointer select-none whitespace-nowrap ${
+                      column.id === 'symbol' ? 'text-left' : 'text-right'
+                    }`}
+                  >
+                    {column.label}
+                    {sort?.column === column.id && (
+                      sort.direction === 'asc'
+                        ? <ArrowUp className="inline w-3 h-3 ml-0.5" />
+                        : <ArrowDown className="inline w-3 h-3 ml-0.5" />
+                    )}
+                  </th>
+                ))}
+                <th className="w-6" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(symbol => {
+                const index = symbols.indexOf(symbol);
+                const quote = quotes[symbol];
+                return (
+                  <tr
+                    key={symbol}
+                    draggable={!sort}
+                    onDragStart={() => setDragIndex(index)}
+                    onDragOver={(e) => {
+                      if (dragIndex === null) return;
+                      e.preventDefault();
+                      setDropIndex(index);
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      dropRow(index);
+                    }}
+                    onDragEnd={() => {
+                      setDragIndex(null);
+                      setDropIndex(null);
+                    }}
+                    className={`group/row border-b border-gray-100 dark:border-gray-700 last:border-b-0 hover:bg-gray-50 dark:hover:bg-gray-700/50 ${
+                      dragIndex === index ? 'opacity-50' : ''
+                    } ${dropIndex === index && dragIndex !== index ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                  >
+                    <td className="pl-1">
+                      {!sort && (
+                        <GripVertical
+                          className="w-3.5 h-3.5 text-gray-300 dark:text-gray-600 cursor-grab"
+                          aria-label={`Drag to reorder ${symbol}`}
+                        />
+                      )}
+                    </td>
+                    {columns.map(column => (
+                      <td
+                        key={column.id}
+                        className={`${cellPadding} ${column.id === 'symbol' ? 'text-left' : 'text-right'} text-gray-700 dark:text-gray-300`}
+                      >
+                        {renderCell(column.id, symbol, quote)}
+                      </td>
+                    ))}
+                    <td className="pr-1 text-right">
+                      <button
+                        onClick={() => saveList(removeSymbol(activeList, symbol))}
+                        className="p-0.5 text-gray-400 hover:text-red-500 opacity-0 group-hover/row:opacity-100"
+                        aria-label={`Remove ${symbol}`}
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {sort && (
+            <p className="mt-1 text-[10px] text-gray-400 dark:text-gray-500">
+              Sorted by {WATCHLIST_COLUMNS.find(column => column.id === sort.column)?.label.toLowerCase()}; clear the sort to drag rows into order.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { Widget } from '@/types';
 import { useDashboardStore } from '@/store/dashboardStore';
@@ -14,7 +14,16 @@ import {
 import LoadingSpinner from '../layout/LoadingSpinner';
 import StockChart from './StockChart';
 import CustomWidget from './CustomWidget';
+import WatchlistWidget from './WatchlistWidget';
+import StreamStatusBadge from './StreamStatusBadge';
 import EditWidgetModal from '../modals/EditWidgetModal';
+import { showUndoToast } from '../layout/UndoToast';
+import { refreshScheduler } from '@/services/refreshScheduler';
+import { useNextRefresh } from '@/hooks/useRefreshSchedule';
+import { useElementVisibility } from '@/hooks/useElementVisibility';
+
+const formatCountdown = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}` : `${seconds}s`;
 
 interface WidgetContainerProps {
   widget: Widget;
@@ -27,20 +36,26 @@ export default function WidgetContainer({
   dragHandleProps, 
   isDragging 
 }: WidgetContainerProps) {
-  const { removeWidget, updateWidget, setSelectedWidget } = useDashboardStore();
+  const { removeWidget, setSelectedWidget } = useDashboardStore();
+  const nextRefresh = useNextRefresh(widget.id);
+  const cardRef = useRef<HTMLDivElement>(null);
+  const isVisible = useElementVisibility(cardRef);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
 
+  const handleRemove = () => {
+    removeWidget(widget.id);
+    showUndoToast(`Removed "${widget.title}"`);
+  };
+
   const refreshWidget = async () => {
     setIsLoading(true);
     setError(null);
     
     try {
-      // Trigger widget refresh by updating lastUpdated
-      updateWidget(widget.id, { 
-        lastUpdated: new Date().toISOString() 
-      });
+      // Reload now and restart the widget's refresh interval
+      refreshScheduler.runNow(widget.id);
     } catch (err) {
       setError('Failed to refresh widget');
     } finally {
@@ -55,33 +70,26 @@ export default function WidgetContainer({
       error,
       onError: setError,
       onLoading: setIsLoading,
+      isVisible,
     };
 
     switch (widget.type) {
       case 'chart':
         return <StockChart {...commonProps} />;
+      case 'watchlist':
+        return <WatchlistWidget widget={widget} isVisible={isVisible} />;
       case 'table':
       case 'card':
       case 'custom':
       default:
-        return <CustomWidget widget={widget} />;
+        return <CustomWidget widget={widget} isVisible={isVisible} />;
     }
   };
 
-  const widgetStyle = {
-    width: widget.config?.displayMode === 'table' ? 'fit-content' : 
-           widget.config?.displayMode === 'chart' ? 'fit-content' : 'fit-content',
-    minWidth: widget.config?.displayMode === 'table' ? '600px' : 
-              widget.config?.displayMode === 'chart' ? '800px' : '320px',
-    maxWidth: widget.config?.displayMode === 'table' ? 'none' : 
-              widget.config?.displayMode === 'chart' ? 'none' : '500px',
-    height: 'auto'
-  };
-
   return (
     <div 
-      className={`widget-card group ${isDragging ? 'shadow-2xl scale-105' : ''}`} 
-      style={widgetStyle}
+      ref={cardRef}
+      className={`widget-card group ${isDragging ? 'shadow-2xl scale-105' : ''}`}
     >
       <div className="flex items-center justify-between mb-3 pb-2 border-b border-gray-200 dark:border-gray-700">
         <div {...dragHandleProps} className="cursor-grab active:cursor-grabbing p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
@@ -91,6 +99,7 @@ export default function WidgetContainer({
           {widget.title}
         </h3>
         <div className="flex items-center space-x-1">
+          <StreamStatusBadge stream={widget.config.stream} />
           {isLoading && <LoadingSpinner />}
           {error && (
             <div title={error}>
@@ -113,7 +122,7 @@ export default function WidgetContainer({
               <Settings className="w-4 h-4 text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400" />
             </button>
             <button
-              onClick={() => removeWidget(widget.id)}
+              onClick={handleRemove}
               className="p-2 rounded-md bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 hover:bg-red-50 dark:hover:bg-red-900/20 hover:border-red-300 dark:hover:border-red-600 transition-all duration-200 shadow-sm"
               title="Remove widget"
             >
@@ -123,7 +132,7 @@ export default function WidgetContainer({
         </div>
       </div>
 
-      <div className="widget-content">
+      <div className="widget-content flex-1 min-h-0 overflow-auto">
         {error ? (
           <div className="flex flex-col items-center justify-center h-48 text-center">
             <AlertCircle className="w-12 h-12 text-red-500 mb-2" />
@@ -146,11 +155,22 @@ export default function WidgetContainer({
       </div>
 
       {/* Last Updated */}
-      {widget.lastUpdated && !isLoading && (
-        <div className="mt-4 pt-2 border-t border-gray-200 dark:border-gray-700">
-          <p className="text-xs text-gray-500 dark:text-gray-400">
-            Last updated: {new Date(widget.lastUpdated).toLocaleTimeString()}
-          </p>
+      {(widget.lastUpdated || nextRefresh !== null) && !isLoading && (
+        <div className="mt-4 pt-2 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          {widget.staleSince ? (
+            <p className="text-xs text-amber-600 dark:text-amber-400" title="Showing cached data while it refreshes">
+              Stale since {new Date(widget.staleSince).toLocaleString()}
+            </p>
+          ) : (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {widget.lastUpdated && `Last updated: ${new Date(widget.lastUpdated).toLocaleTimeString()}`}
+            </p>
+          )}
+          {nextRefresh !== null && (
+            <p className="text-xs text-gray-400 dark:text-gray-500" title="Next automatic refresh">
+              Next in {formatCountdown(nextRefresh)}
+            </p>
+          )}
         </div>
       )}
 
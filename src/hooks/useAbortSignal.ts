@@ -0,0 +1,16 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// Returns a getter for an AbortSignal that is aborted when the component
+// unmounts or `requestKey` changes, so requests made for an old config are
+// cancelled. Declare it before the effects that start those requests.
+export function useAbortSignal(requestKey: string): () => AbortSignal | undefined {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return () => controller.abort();
+  }, [requestKey]);
+
+  return useCallback(() => controllerRef.current?.signal, []);
+}
@@ -0,0 +1,48 @@
+import { useEffect } from 'react';
+import { alertEngine } from '@/services/alertEngine';
+import { recordNotification } from '@/store/notificationStore';
+import { useDashboardStore } from '@/store/dashboardStore';
+import { showAlertToast } from '@/components/layout/AlertToast';
+
+const STALE_CHECK_INTERVAL = 30 * 1000;
+
+const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+// Asks once for permission to show browser notifications. Call it from a
+// click, since browsers ignore requests made without one.
+export function requestAlertPermission() {
+  if (notificationsSupported() && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => {});
+  }
+}
+
+// Shows fired alerts as toasts, and as browser notifications when allowed,
+// and keeps them in the notification center
+export function useAlertNotifications() {
+  useEffect(() => {
+    return alertEngine.subscribe(alert => {
+      recordNotification({
+        kind: 'alert',
+        title: alert.widgetTitle,
+        message: alert.message,
+        widgetId: alert.widgetId,
+        widgetTitle: alert.widgetTitle,
+      });
+      showAlertToast(alert);
+      if (notificationsSupported() && Notification.permission === 'granted') {
+        try {
+          new Notification(alert.widgetTitle, { body: alert.message, tag: `${alert.widgetId}:${alert.ruleId}:${alert.row ?? ''}` });
+        } catch {
+          // Some mobile browsers only notify through a service worker
+        }
+      }
+    });
+  }, []);
+
+  // Widgets that stopped updating never re-run their rules, so stale rules
+  // are checked on a timer as well
+  useEffect(() => {
+    const timer = setInterval(() => alertEngine.checkStale(useDashboardStore.getState().widgets), STALE_CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+}
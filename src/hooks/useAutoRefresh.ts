@@ -1,37 +1,60 @@
-import { useEffect, useRef } from 'react';
-import { useDashboardStore } from '@/store/dashboardStore';
-import { ApiErrorHandler } from '@/services/apiErrorHandler';
+import { useEffect } from 'react';
+import { Widget } from '@/types';
+import { getWidget, useDashboardStore } from '@/store/dashboardStore';
+import { refreshScheduler } from '@/services/refreshScheduler';
+
+// How long a due refresh should wait because of the widget's last error
+// (milliseconds), or 0 if it may run now
+function getRefreshDelay(widget: Widget, interval: number): number {
+  const lastError = widget.lastError;
+  if (!lastError) return 0;
+
+  const timeSinceError = Date.now() - (lastError.timestamp || 0);
+
+  // Skip refresh for rate-limited widgets
+  if (lastError.type === 'rate_limit') {
+    const retryAfterMs = (lastError.retryAfter || 60) * 1000;
+    return Math.max(0, retryAfterMs - timeSinceError);
+  }
+
+  // Skip refresh for auth errors (no point in retrying); check again next interval
+  if (lastError.type === 'auth') {
+    return interval;
+  }
+
+  // For other errors, use exponential backoff
+  const backoffDelay = Math.min(30000, 1000 * Math.pow(2, lastError.retryCount || 0)); // Max 30s
+  return Math.max(0, backoffDelay - timeSinceError);
+}
 
 export function useAutoRefresh() {
-  const { 
-    widgets, 
-    autoRefresh, 
-    refreshInterval, 
-    updateWidget 
+  const {
+    widgets,
+    autoRefresh,
+    refreshInterval,
   } = useDashboardStore();
-  
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+
+  // The dashboard interval is the fallback for widgets without their own
+  const scheduleKey = JSON.stringify(widgets.map(widget => ({
+    id: widget.id,
+    interval: (widget.config?.refreshInterval || refreshInterval) * 1000,
+  })));
 
   useEffect(() => {
-    if (!autoRefresh || widgets.length === 0) {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
+    if (!autoRefresh) {
+      refreshScheduler.stop();
       return;
     }
 
-    // Set up auto-refresh interval with smart error handling
-    intervalRef.current = setInterval(() => {
-      smartRefresh();
-    }, refreshInterval * 1000);
+    // Read the latest error state when a refresh comes due rather than
+    // rescheduling on every widget update
+    refreshScheduler.sync(JSON.parse(scheduleKey), (id, interval) => {
+      const widget = getWidget(id);
+      return widget ? getRefreshDelay(widget, interval) : 0;
+    });
+  }, [autoRefresh, scheduleKey]);
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, [autoRefresh, refreshInterval, widgets.length, updateWidget]);
+  useEffect(() => () => refreshScheduler.stop(), []);
 
   // Manual refresh function with error handling
   const refreshAll = () => {
@@ -41,53 +64,24 @@ export function useAutoRefresh() {
       if (lastError && lastError.type === 'rate_limit' && lastError.retryAfter) {
         const timeSinceError = Date.now() - (lastError.timestamp || 0);
         const retryAfterMs = lastError.retryAfter * 1000;
-        
+
         if (timeSinceError < retryAfterMs) {
           console.log(`Skipping refresh for widget ${widget.id} due to rate limit. Retry in ${Math.ceil((retryAfterMs - timeSinceError) / 1000)}s`);
           return;
         }
       }
-      
-      updateWidget(widget.id, {
-        lastUpdated: new Date().toISOString()
-      });
+
+      refreshScheduler.runNow(widget.id);
     });
   };
 
-  // Smart refresh that respects rate limits
+  // Smart refresh that respects rate limits, auth errors and backoff
   const smartRefresh = () => {
     widgets.forEach(widget => {
-      // Check if widget has recent errors
-      const lastError = widget.lastError;
-      
-      // Skip refresh for rate-limited widgets
-      if (lastError?.type === 'rate_limit') {
-        const timeSinceError = Date.now() - (lastError.timestamp || 0);
-        const retryAfterMs = (lastError.retryAfter || 60) * 1000;
-        
-        if (timeSinceError < retryAfterMs) {
-          return; // Skip this widget
-        }
-      }
-      
-      // Skip refresh for auth errors (no point in retrying)
-      if (lastError?.type === 'auth') {
-        return;
-      }
-      
-      // For other errors, use exponential backoff
-      if (lastError && lastError.type !== 'rate_limit') {
-        const timeSinceError = Date.now() - (lastError.timestamp || 0);
-        const backoffDelay = Math.min(30000, 1000 * Math.pow(2, lastError.retryCount || 0)); // Max 30s
-        
-        if (timeSinceError < backoffDelay) {
-          return; // Skip this widget
-        }
+      const interval = (widget.config?.refreshInterval || refreshInterval) * 1000;
+      if (getRefreshDelay(widget, interval) === 0) {
+        refreshScheduler.runNow(widget.id);
       }
-      
-      updateWidget(widget.id, {
-        lastUpdated: new Date().toISOString()
-      });
     });
   };
 
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface ViewWindow {
+  start: number;
+  end: number; // Exclusive
+}
+
+const MIN_BARS = 10;
+const ZOOM_STEP = 1.25;
+
+function clampWindow(start: number, end: number, length: number): ViewWindow {
+  const span = Math.min(length, Math.max(Math.min(MIN_BARS, length), Math.round(end - start)));
+  const first = Math.max(0, Math.min(length - span, Math.round(start)));
+  return { start: first, end: first + span };
+}
+
+interface ChartViewportOptions {
+  defaultSpan?: number; // Latest bars shown before the user zooms; all of them when unset
+  resetKey?: string; // A new key starts a new series at the default window
+  onInteract?: () => void; // Called when the user zooms, pans or brushes
+}
+
+// Visible window over a series of `length` bars. Attach `containerRef` to the
+// plot: the mouse wheel zooms around the cursor and dragging pans. A window
+// that shows the latest bar keeps following it as new bars arrive.
+export function useChartViewport(length: number, { defaultSpan, resetKey, onInteract }: ChartViewportOptions = {}) {
+  const [custom, setCustom] = useState<ViewWindow | null>(null);
+  // Bumped when the window moves other than through the navigator, which
+  // only reads its position when it mounts
+  const [navigatorKey, setNavigatorKey] = useState(0);
+  const [element, setElement] = useState<HTMLDivElement | null>(null);
+  const lengthRef = useRef(length);
+  const onInteractRef = useRef(onInteract);
+  onInteractRef.current = onInteract;
+
+  const view = custom
+    ? clampWindow(custom.start, custom.end, length)
+    : clampWindow(length - (defaultSpan ?? length), length, length);
+  const viewRef = useRef(view);
+  viewRef.current = view;
+
+  useEffect(() => {
+    setCustom(null);
+    setNavigatorKey(key => key + 1);
+  }, [resetKey]);
+
+  useEffect(() => {
+    const previous = lengthRef.current;
+    lengthRef.current = length;
+    if (length > previous) {
+      setCustom(current => current && current.end >= previous
+        ? { start: current.start + length - previous, end: length }
+        : current);
+    }
+  }, [length]);
+
+  const setWindow = useCallback((start: number, end: number, syncNavigator = true) => {
+    setCustom(clampWindow(start, end, lengthRef.current));
+    if (syncNavigator) setNavigatorKey(key => key + 1);
+  }, []);
+
+  const reset = useCallback(() => {
+    setCustom(null);
+    setNavigatorKey(key => key + 1);
+  }, []);
+
+  useEffect(() => {
+    if (!element) return;
+    let drag: { x: number; start: number; end: number; moved: boolean } | null = null;
+
+    const handleWheel = (event: WheelEvent) => {
+      if (event.deltaY === 0) return;
+      event.preventDefault();
+      const { start, end } = viewRef.current;
+      const rect = element.getBoundingClientRect();
+      const anchor = rect.width > 0 ? Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)) : 1;
+      const span = end - start;
+      const nextSpan = event.deltaY < 0 ? span / ZOOM_STEP : span * ZOOM_STEP;
+      // Keep the bar under the cursor where it is
+      const focus = start + span * anchor;
+      setWindow(focus - nextSpan * anchor, focus + nextSpan * (1 - anchor));
+      onInteractRef.current?.();
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      // Elements that handle their own dragging opt out with data-no-pan
+      if (event.button !== 0 || (event.target as Element).closest?.('[data-no-pan]')) return;
+      drag = { x: event.clientX, ...viewRef.current, moved: false };
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!drag || event.buttons === 0) {
+        drag = null;
+        return;
+      }
+      const barsPerPixel = (drag.end - drag.start) / (element.clientWidth || 1);
+      const shift = (drag.x - event.clientX) * barsPerPixel;
+      if (Math.abs(shift) < 1 && viewRef.current.start === drag.start) return;
+      // The navigator catches up once the drag ends
+      drag.moved = true;
+      setWindow(drag.start + shift, drag.end + shift, false);
+      onInteractRef.current?.();
+    };
+
+    const handlePointerUp = () => {
+      if (drag?.moved) setNavigatorKey(key => key + 1);
+      drag = null;
+    };
+
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    element.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      element.removeEventListener('wheel', handleWheel);
+      element.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [element, setWindow]);
+
+  // Moves from the navigator's brush, which already shows the new position
+  const setFromNavigator = useCallback((start: number, end: number) => {
+    setWindow(start, end, false);
+    onInteractRef.current?.();
+  }, [setWindow]);
+
+  return {
+    start: view.start,
+    end: view.end,
+    isZoomed: custom !== null,
+    containerRef: setElement,
+    navigatorKey,
+    setWindow,
+    setFromNavigator,
+    reset,
+  };
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { credentialVault } from '@/services/credentialVault';
+
+const readStatus = () => ({
+  initialized: credentialVault.isInitialized(),
+  unlocked: credentialVault.isUnlocked(),
+  secrets: credentialVault.listSecrets(),
+  pending: credentialVault.listPending(),
+});
+
+export function useCredentialVault() {
+  const [status, setStatus] = useState(() => ({ initialized: false, unlocked: false, secrets: [] as string[], pending: [] as string[] }));
+
+  useEffect(() => {
+    // Read after mount so the server render and first client render match
+    setStatus(readStatus());
+    return credentialVault.subscribe(() => setStatus(readStatus()));
+  }, []);
+
+  return status;
+}
@@ -0,0 +1,19 @@
+import { RefObject, useEffect, useState } from 'react';
+
+// Whether the element is currently inside the viewport
+export function useElementVisibility(ref: RefObject<Element>): boolean {
+  const [isVisible, setIsVisible] = useState(true);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      setIsVisible(entry.isIntersecting);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return isVisible;
+}
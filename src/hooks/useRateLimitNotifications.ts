@@ -0,0 +1,21 @@
+import { useEffect } from 'react';
+import { format } from 'date-fns';
+import { rateLimiter } from '@/services/rateLimiter';
+import { recordNotification } from '@/store/notificationStore';
+
+// Keeps hosts that ran out of budget or answered 429 in the notification
+// center, since the limiter knows nothing about widgets
+export function useRateLimitNotifications() {
+  useEffect(() => {
+    return rateLimiter.onLimit(event => {
+      const until = format(event.resumeAt, 'HH:mm:ss');
+      recordNotification({
+        kind: 'rate_limit',
+        title: event.host,
+        message: event.reason === 'server'
+          ? `The server rejected requests for being too frequent; they resume at ${until}`
+          : `The request budget ran out; requests wait until ${until}`,
+      });
+    });
+  }, []);
+}
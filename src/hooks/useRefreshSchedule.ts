@@ -0,0 +1,36 @@
+import { useEffect, useRef, useState } from 'react';
+import { refreshScheduler } from '@/services/refreshScheduler';
+
+// Let the scheduler reload this widget's data when its refresh comes due
+export function useScheduledRefresh(widgetId: string, task: () => void) {
+  const taskRef = useRef(task);
+  taskRef.current = task;
+
+  useEffect(
+    () => refreshScheduler.register(widgetId, () => taskRef.current()),
+    [widgetId]
+  );
+}
+
+// Seconds until the widget's next scheduled refresh, or null when auto
+// refresh is off, paused or postponed indefinitely
+export function useNextRefresh(widgetId: string): number | null {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+
+  useEffect(() => {
+    const update = () => {
+      const nextRun = refreshScheduler.getNextRun(widgetId);
+      setSecondsLeft(nextRun === null ? null : Math.max(0, Math.ceil((nextRun - Date.now()) / 1000)));
+    };
+
+    update();
+    const interval = setInterval(update, 1000);
+    const unsubscribe = refreshScheduler.subscribe(update);
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, [widgetId]);
+
+  return secondsLeft;
+}
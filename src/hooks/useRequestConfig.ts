@@ -0,0 +1,15 @@
+import { useMemo } from 'react';
+import { WidgetConfig } from '@/types';
+
+// The config fields a widget's requests are built from, as a value that keeps
+// its identity until one of them changes, and the key that names them.
+// Fetches follow these rather than the whole config, so renaming a widget or
+// changing how it displays doesn't go back to the network.
+export function useRequestConfig<K extends keyof WidgetConfig>(
+  config: WidgetConfig | undefined,
+  fields: readonly K[]
+): { request: Pick<WidgetConfig, K>; requestKey: string } {
+  const requestKey = JSON.stringify(Object.fromEntries(fields.map(field => [field, config?.[field]])));
+  const request = useMemo(() => JSON.parse(requestKey) as Pick<WidgetConfig, K>, [requestKey]);
+  return { request, requestKey };
+}
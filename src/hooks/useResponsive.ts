@@ -1,4 +1,6 @@
 import { useState, useEffect } from 'react';
+import { GridBreakpoint } from '@/types';
+import { GRID_COLUMNS } from '@/services/gridLayout';
 
 type Breakpoint = 'sm' | 'md' | 'lg' | 'xl' | '2xl';
 
@@ -44,12 +46,14 @@ export function useResponsive() {
     return windowSize.width >= breakpoints[breakpoint];
   };
 
-  const getGridColumns = () => {
-    if (isMobile) return 1;
-    if (isTablet) return 2;
-    return 3;
+  const getGridBreakpoint = (): GridBreakpoint => {
+    if (isMobile) return 'sm';
+    if (isTablet) return 'md';
+    return 'lg';
   };
 
+  const getGridColumns = () => GRID_COLUMNS[getGridBreakpoint()];
+
   return {
     windowSize,
     isMobile,
@@ -57,5 +61,6 @@ export function useResponsive() {
     isDesktop,
     isBreakpoint,
     getGridColumns,
+    getGridBreakpoint,
   };
 }
@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from 'react';
+import { StreamConfig, StreamTick } from '@/types';
+import { streamManager, StreamMessage, StreamState } from '@/services/streamManager';
+import { parseTicks } from '@/services/streamTicks';
+
+// Messages are handed over in batches so a busy stream re-renders a widget a
+// few times a second rather than on every message
+const FLUSH_INTERVAL = 250; // milliseconds
+
+// Follow a widget's live stream, subscribing the given symbols. onMessages
+// receives batches of the stream's messages.
+export function useStreamMessages(
+  stream: StreamConfig | undefined,
+  symbols: string[],
+  onMessages: (messages: StreamMessage[]) => void
+) {
+  const onMessagesRef = useRef(onMessages);
+  onMessagesRef.current = onMessages;
+  // Subscriptions follow the config and symbols, not the objects holding them
+  const streamKey = stream?.url ? JSON.stringify(stream) : '';
+  const symbolsKey = JSON.stringify(symbols);
+
+  useEffect(() => {
+    if (!streamKey) return;
+
+    let buffer: StreamMessage[] = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const flush = () => {
+      timer = null;
+      const batch = buffer;
+      buffer = [];
+      onMessagesRef.current(batch);
+    };
+
+    const unsubscribe = streamManager.subscribe(JSON.parse(streamKey), JSON.parse(symbolsKey), message => {
+      buffer.push(message);
+      if (!timer) timer = setTimeout(flush, FLUSH_INTERVAL);
+    });
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, [streamKey, symbolsKey]);
+}
+
+// Price ticks from a widget's live stream for the given symbols, or for every
+// symbol when none are given
+export function useStream(
+  stream: StreamConfig | undefined,
+  symbols: string[],
+  onTicks: (ticks: StreamTick[]) => void
+) {
+  useStreamMessages(stream, symbols, messages => {
+    const wanted = symbols.map(symbol => symbol.toUpperCase());
+    const ticks = messages
+      .flatMap(message => parseTicks(message.data, stream!))
+      .filter(tick => wanted.length === 0 || wanted.includes(tick.symbol));
+    if (ticks.length > 0) onTicks(ticks);
+  });
+}
+
+// Connection state of a widget's stream, or null when it has none. retryIn
+// counts down the seconds to the next reconnect.
+export function useStreamState(stream: StreamConfig | undefined): (StreamState & { retryIn: number }) | null {
+  const [state, setState] = useState<StreamState | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const streamKey = stream?.url ? JSON.stringify(stream) : '';
+
+  useEffect(() => {
+    if (!streamKey) {
+      setState(null);
+      return;
+    }
+    const config: StreamConfig = JSON.parse(streamKey);
+    const update = () => setState(streamManager.getState(config));
+    update();
+    return streamManager.onChange(update);
+  }, [streamKey]);
+
+  const nextAttemptAt = state?.nextAttemptAt;
+  useEffect(() => {
+    if (!nextAttemptAt) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [nextAttemptAt]);
+
+  if (!state) return null;
+  return { ...state, retryIn: nextAttemptAt ? Math.max(0, Math.ceil((nextAttemptAt - now) / 1000)) : 0 };
+}
@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { WidgetConfig } from '@/types';
+import { isAbortError } from '@/services/apiCache';
+import { ApiErrorHandler, ApiError } from '@/services/apiErrorHandler';
+import { SymbolMatch, getProviderContext, resolveProvider, searchSymbols } from '@/services/providers';
+
+const DEBOUNCE_MS = 350;
+// Listings rarely change, and searches spend from the same rate budget as quotes
+const SEARCH_TTL = 24 * 60 * 60 * 1000;
+
+interface SymbolSearchState {
+  results: SymbolMatch[];
+  loading: boolean;
+  error: string | null;
+}
+
+const IDLE: SymbolSearchState = { results: [], loading: false, error: null };
+
+// Debounced symbol search against the widget's provider, or the provider its
+// API URL belongs to. Results are cached like any other response, and a
+// search still running when the query changes is cancelled.
+export function useSymbolSearch(config: Pick<WidgetConfig, 'provider' | 'apiUrl' | 'apiKey'>, query: string) {
+  const [state, setState] = useState<SymbolSearchState>(IDLE);
+  const { provider, apiUrl, apiKey } = config;
+  const adapter = resolveProvider({ provider, apiUrl });
+  const term = query.trim();
+
+  useEffect(() => {
+    if (!adapter || !term) {
+      setState(IDLE);
+      return;
+    }
+
+    setState(prev => ({ ...prev, loading: true, error: null }));
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchSymbols(adapter, term, getProviderContext({ apiUrl, apiKey }), {
+          ttl: SEARCH_TTL,
+          priority: 'high',
+          signal: controller.signal,
+        });
+        setState({ results, loading: false, error: null });
+      } catch (error) {
+        if (isAbortError(error)) return;
+        const apiError = error && typeof error === 'object' && 'type' in error
+          ? error as ApiError
+          : ApiErrorHandler.parseError(error);
+        setState({ results: [], loading: false, error: ApiErrorHandler.getErrorMessage(apiError) });
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [adapter, apiUrl, apiKey, term]);
+
+  return { ...state, provider: adapter };
+}
@@ -0,0 +1,17 @@
+import { useEffect } from 'react';
+import { credentialVault } from '@/services/credentialVault';
+import { recordNotification } from '@/store/notificationStore';
+
+// Widget credentials the vault failed to store stay in the widget; say so
+// rather than leaving the user to assume they were sealed
+export function useVaultNotifications() {
+  useEffect(() => {
+    return credentialVault.onSaveError((name, error) => {
+      recordNotification({
+        kind: 'error',
+        title: 'Credential vault',
+        message: `${name} could not be saved to the vault (${error instanceof Error ? error.message : String(error)}); it is kept in the widget until the next unlock`,
+      });
+    });
+  }, []);
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { alertEngine } from '../alertEngine';
+import { AlertRule, Widget } from '@/types';
+
+const MINUTE = 60 * 1000;
+
+let widgetCount = 0;
+const widgetWith = (rule: Omit<AlertRule, 'id'>): Widget => ({
+  id: `widget_${++widgetCount}`,
+  type: 'custom',
+  title: 'Quotes',
+  position: { x: 0, y: 0 },
+  size: { width: 1, height: 3 },
+  config: { alerts: [{ id: 'rule_1', ...rule }] },
+});
+
+const messages = (widget: Widget, previous: unknown, data: unknown, now?: number) =>
+  alertEngine.evaluate(widget, previous, data, now).map(alert => alert.message);
+
+describe('alertEngine', () => {
+  it('fires threshold rules per row, labelled by symbol', () => {
+    const widget = widgetWith({ field: 'price', condition: 'above', threshold: 100 });
+    expect(messages(widget, undefined, [{ symbol: 'AAPL', price: 150 }, { symbol: 'MSFT', price: 50 }])).toEqual([
+      'AAPL price is above 100 at 150',
+    ]);
+  });
+
+  it('fires crossing rules only on the crossing', () => {
+    const widget = widgetWith({ field: 'price', condition: 'crosses_below', threshold: 100, cooldown: 0 });
+    expect(messages(widget, [{ symbol: 'A', price: 101 }], [{ symbol: 'A', price: 99 }])).toEqual(['A price crossed below 100 to 99']);
+    expect(messages(widget, [{ symbol: 'A', price: 99 }], [{ symbol: 'A', price: 98 }])).toEqual([]);
+  });
+
+  it('measures percent moves since the previous data', () => {
+    const widget = widgetWith({ field: 'price', condition: 'change_percent', threshold: 5 });
+    expect(messages(widget, { price: 100 }, { price: 94 })).toEqual(['price moved -6.00% since the last fetch to 94']);
+  });
+
+  it('fires stale rules once a value has not changed for long enough', () => {
+    const widget = widgetWith({ field: 'price', condition: 'stale', staleMinutes: 10 });
+    expect(messages(widget, undefined, { price: 1 }, 0)).toEqual([]);
+    expect(messages(widget, undefined, { price: 1 }, 5 * MINUTE)).toEqual([]);
+    expect(messages(widget, undefined, { price: 1 }, 10 * MINUTE)).toEqual(["price hasn't changed for 10 minutes"]);
+  });
+
+  it('checks stale rules without new data', () => {
+    const widget = widgetWith({ field: 'price', condition: 'stale', staleMinutes: 10, cooldown: 0 });
+    expect(messages(widget, undefined, [{ symbol: 'A', price: 1 }, { symbol: 'B', price: 2 }], 0)).toEqual([]);
+    expect(alertEngine.checkStale([widget], 9 * MINUTE)).toEqual([]);
+    expect(alertEngine.checkStale([widget], 12 * MINUTE).map(alert => alert.message)).toEqual([
+      "A price hasn't changed for 12 minutes",
+      "B price hasn't changed for 12 minutes",
+    ]);
+    expect(alertEngine.checkStale([{ ...widget, config: { alerts: [] } }], 20 * MINUTE)).toEqual([]);
+  });
+
+  it('waits for the cooldown before firing again', () => {
+    const widget = widgetWith({ field: 'price', condition: 'above', threshold: 0, cooldown: 15 });
+    expect(messages(widget, undefined, { price: 1 }, 0)).toHaveLength(1);
+    expect(messages(widget, undefined, { price: 1 }, 14 * MINUTE)).toHaveLength(0);
+    expect(messages(widget, undefined, { price: 1 }, 15 * MINUTE)).toHaveLength(1);
+  });
+
+  it('skips disabled rules', () => {
+    const widget = widgetWith({ field: 'price', condition: 'above', threshold: 0, enabled: false });
+    expect(messages(widget, undefined, { price: 1 })).toEqual([]);
+  });
+
+  it('checks rows that are already transformed', () => {
+    const widget = widgetWith({ field: 'price', condition: 'crosses_above', threshold: 10 });
+    const fired = alertEngine.evaluateRows(widget, [{ symbol: 'A', price: 9 }], [{ symbol: 'A', price: 11 }]);
+    expect(fired.map(alert => alert.row)).toEqual(['A']);
+  });
+
+  it('forgets cooldowns of rules that were removed', () => {
+    const widget = widgetWith({ field: 'price', condition: 'above', threshold: 0 });
+    expect(messages(widget, undefined, { price: 1 }, 0)).toHaveLength(1);
+    alertEngine.prune([widget]);
+    expect(messages(widget, undefined, { price: 1 }, MINUTE)).toHaveLength(0);
+    alertEngine.prune([{ ...widget, config: {} }]);
+    expect(messages(widget, undefined, { price: 1 }, 2 * MINUTE)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { downsampleRows, lttb } from '../chartViewport';
+
+describe('lttb', () => {
+  it('returns every point when there are no more than the threshold', () => {
+    expect(lttb([1, 2, 3], 5)).toEqual([0, 1, 2]);
+  });
+
+  it('skips nulls', () => {
+    expect(lttb([1, null, 3, NaN, 5], 10)).toEqual([0, 2, 4]);
+  });
+
+  it('keeps the first and last points and the requested count', () => {
+    const values = Array.from({ length: 100 }, (_, i) => Math.sin(i / 5));
+    const indices = lttb(values, 10);
+    expect(indices).toHaveLength(10);
+    expect(indices[0]).toBe(0);
+    expect(indices[9]).toBe(99);
+    expect([...indices].sort((a, b) => a - b)).toEqual(indices);
+  });
+
+  it('keeps a spike', () => {
+    const values = new Array(50).fill(1);
+    values[23] = 100;
+    expect(lttb(values, 5)).toContain(23);
+  });
+});
+
+describe('downsampleRows', () => {
+  it('keeps the points every series needs', () => {
+    const rows = Array.from({ length: 60 }, (_, i) => ({ a: i === 10 ? 50 : 0, b: i === 40 ? -50 : 0 }));
+    const sampled = downsampleRows(rows, [row => row.a, row => row.b], 8);
+    expect(sampled).toContain(rows[10]);
+    expect(sampled).toContain(rows[40]);
+    expect(sampled.length).toBeLessThan(rows.length);
+  });
+
+  it('returns short series untouched', () => {
+    const rows = [{ a: 1 }, { a: 2 }];
+    expect(downsampleRows(rows, [row => row.a], 8)).toBe(rows);
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    failWrites: false,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem(key: string, value: string) {
+      if (this.failWrites) throw new Error('Quota exceeded');
+      items.set(key, value);
+    },
+  };
+};
+
+let storage: ReturnType<typeof createStorage>;
+
+// Each test gets a vault instance of its own
+const loadVault = () => import('../credentialVault');
+
+beforeEach(() => {
+  vi.resetModules();
+  storage = createStorage();
+  vi.stubGlobal('window', { localStorage: storage, crypto: globalThis.crypto });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('credentialVault', () => {
+  it('keeps header credentials literal until the vault has saved them', async () => {
+    const { credentialVault, sealHeaders } = await loadVault();
+    const headers = { Authorization: 'Bearer abc', Accept: 'application/json' };
+
+    expect(sealHeaders(headers, 'w1')).toEqual(headers);
+    expect(credentialVault.listPending()).toEqual(['AUTHORIZATION_W1']);
+
+    await credentialVault.unlock('correct horse');
+    expect(credentialVault.listPending()).toEqual([]);
+    expect(sealHeaders(headers, 'w1')).toEqual({ Authorization: '{{vault:AUTHORIZATION_W1}}', Accept: 'application/json' });
+
+    credentialVault.lock();
+    expect(sealHeaders(headers, 'w1').Authorization).toBe('{{vault:AUTHORIZATION_W1}}');
+    expect(() => credentialVault.resolve('{{vault:AUTHORIZATION_W1}}')).toThrow('Unlock the credential vault');
+  });
+
+  it('reseals a header whose value changed only after the new value is saved', async () => {
+    const { credentialVault, sealHeaders } = await loadVault();
+    await credentialVault.unlock('correct horse');
+
+    sealHeaders({ 'X-Api-Key': 'first' }, 'w1');
+    await vi.waitFor(() => expect(credentialVault.isSaved('X_API_KEY_W1', 'first')).toBe(true));
+
+    expect(sealHeaders({ 'X-Api-Key': 'second' }, 'w1')).toEqual({ 'X-Api-Key': 'second' });
+    await vi.waitFor(() => expect(credentialVault.isSaved('X_API_KEY_W1', 'second')).toBe(true));
+    expect(credentialVault.resolve('{{vault:X_API_KEY_W1}}')).toBe('second');
+  });
+
+  it('seals provider keys the same way as headers', async () => {
+    const { credentialVault, sealValue } = await loadVault();
+
+    expect(sealValue('abc', 'FINNHUB_API_KEY_W1')).toBe('abc');
+    expect(sealValue('{{vault:SHARED}}', 'FINNHUB_API_KEY_W1')).toBe('{{vault:SHARED}}');
+    await credentialVault.unlock('correct horse');
+    expect(sealValue('abc', 'FINNHUB_API_KEY_W1')).toBe('{{vault:FINNHUB_API_KEY_W1}}');
+  });
+
+  it('reports a failed save once and leaves the header literal', async () => {
+    const { credentialVault, sealHeaders } = await loadVault();
+    await credentialVault.unlock('correct horse');
+    const failures: string[] = [];
+    credentialVault.onSaveError(name => failures.push(name));
+
+    storage.failWrites = true;
+    sealHeaders({ Authorization: 'Bearer abc' }, 'w1');
+    await vi.waitFor(() => expect(failures).toEqual(['AUTHORIZATION_W1']));
+
+    expect(sealHeaders({ Authorization: 'Bearer abc' }, 'w1')).toEqual({ Authorization: 'Bearer abc' });
+    expect(credentialVault.listSecrets()).toEqual([]);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(failures).toEqual(['AUTHORIZATION_W1']);
+  });
+
+  it('stores secrets encrypted and rejects the wrong passphrase', async () => {
+    const { credentialVault, VaultError } = await loadVault();
+    await credentialVault.unlock('correct horse');
+    await credentialVault.setSecret('finnhub key', 'secret-token');
+
+    expect(storage.getItem('finboard-vault')).not.toContain('secret-token');
+    credentialVault.lock();
+    await expect(credentialVault.unlock('wrong')).rejects.toBeInstanceOf(VaultError);
+
+    await credentialVault.unlock('correct horse');
+    expect(credentialVault.resolve('https://api.test/?token={{vault:FINNHUB_KEY}}')).toBe('https://api.test/?token=secret-token');
+  });
+});
+
+describe('redaction', () => {
+  it('replaces credentials in exported widget configs with placeholders', async () => {
+    const { redactWidgetConfig } = await loadVault();
+    const redacted = redactWidgetConfig({
+      apiUrl: 'https://api.test/quote?symbol=IBM&apikey=abc',
+      apiHeaders: { Authorization: 'Bearer abc', Accept: 'application/json' },
+      bodyTemplate: '{"token": "abc", "symbol": "IBM"}',
+      provider: 'finnhub',
+      apiKey: 'abc',
+    });
+
+    expect(JSON.stringify(redacted)).not.toMatch(/abc/);
+    expect(redacted.apiUrl).toBe('https://api.test/quote?symbol=IBM&apikey={{vault:APIKEY}}');
+    expect(redacted.apiHeaders).toEqual({ Authorization: '{{vault:AUTHORIZATION}}', Accept: 'application/json' });
+    expect(redacted.apiKey).toBe('{{vault:FINNHUB_API_KEY}}');
+  });
+});
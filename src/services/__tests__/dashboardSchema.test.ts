@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CURRENT_EXPORT_VERSION,
+  createDashboardExport,
+  parseDashboardExport,
+  validateDashboardLayout,
+} from '../dashboardSchema';
+import { GRID_COLUMNS } from '../gridLayout';
+import { DashboardLayout, Widget } from '@/types';
+
+const widget = (overrides: Partial<Widget> = {}): Widget => ({
+  id: 'widget_1',
+  type: 'card',
+  title: 'Quotes',
+  position: { x: 0, y: 0 },
+  size: { width: 4, height: 3 },
+  config: {},
+  ...overrides,
+});
+
+const layout = (widgets: Widget[] = [widget()]): DashboardLayout => ({
+  id: 'dashboard_1',
+  name: 'Main',
+  widgets,
+  autoRefresh: true,
+  refreshInterval: 30,
+});
+
+const envelope = (dashboard: unknown, extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ format: 'finboard-dashboard', version: 2, exportedAt: '2024-01-01T00:00:00.000Z', dashboard, ...extra });
+
+const paths = (dashboard: unknown) => validateDashboardLayout(dashboard).map(error => error.path);
+
+describe('validateDashboardLayout', () => {
+  it('accepts a well-formed layout', () => {
+    expect(validateDashboardLayout(layout())).toEqual([]);
+  });
+
+  it('reports the path and type of wrong fields', () => {
+    const errors = validateDashboardLayout({ ...layout(), refreshInterval: '30' });
+    expect(errors).toEqual([{ path: 'dashboard.refreshInterval', message: 'expected number, got string' }]);
+  });
+
+  it('rejects unknown enum values', () => {
+    expect(paths(layout([widget({ type: 'gauge' as Widget['type'] })]))).toEqual(['dashboard.widgets[0].type']);
+  });
+
+  it('rejects zero or negative sizes and negative positions', () => {
+    const bad = widget({ position: { x: -1, y: 0 }, size: { width: 0, height: -2 } });
+    expect(paths(layout([bad]))).toEqual([
+      'dashboard.widgets[0].position.x',
+      'dashboard.widgets[0].size.width',
+      'dashboard.widgets[0].size.height',
+    ]);
+  });
+
+  it('checks per-breakpoint layouts', () => {
+    const bad = widget({ layouts: { md: { x: 0, y: 0, w: 0, h: 2 } } });
+    expect(paths(layout([bad]))).toEqual(['dashboard.widgets[0].layouts.md.w']);
+  });
+
+  it('rejects duplicate widget ids', () => {
+    const errors = validateDashboardLayout(layout([widget(), widget({ title: 'Copy' })]));
+    expect(errors).toEqual([{ path: 'dashboard.widgets[1].id', message: 'duplicate widget id "widget_1"' }]);
+  });
+
+  it('validates nested config', () => {
+    const bad = widget({ config: { apiHeaders: { 'X-Key': 1 as unknown as string }, alerts: [{ id: 'a', field: 'price', condition: 'near' as 'above' }] } });
+    expect(paths(layout([bad]))).toEqual([
+      'dashboard.widgets[0].config.apiHeaders.X-Key',
+      'dashboard.widgets[0].config.alerts[0].condition',
+    ]);
+  });
+});
+
+describe('parseDashboardExport', () => {
+  it('reads the current version', () => {
+    const result = parseDashboardExport(envelope(layout()));
+    expect(result).toMatchObject({ success: true, version: CURRENT_EXPORT_VERSION, migrated: false });
+  });
+
+  it('round-trips an export without literal credentials', () => {
+    const secret = widget({ config: { apiUrl: 'https://api.example.com/q?apikey=abc123', apiHeaders: { 'X-Api-Key': 'abc123' } } });
+    const text = createDashboardExport(layout([secret]));
+    expect(text).not.toContain('abc123');
+
+    const result = parseDashboardExport(text);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.dashboard.widgets[0].config.apiHeaders).toEqual({ 'X-Api-Key': '{{vault:X_API_KEY}}' });
+    }
+  });
+
+  it('upgrades a version 1 file with pixel sizes to grid cells', () => {
+    const legacy = { id: 'old', name: 'Old', widgets: [widget({ size: { width: 400, height: 300 } })] };
+    const result = parseDashboardExport(JSON.stringify(legacy));
+    expect(result).toMatchObject({ success: true, version: 1, migrated: true });
+    if (result.success) {
+      const { size } = result.dashboard.widgets[0];
+      expect(size.width).toBeGreaterThan(0);
+      expect(size.width).toBeLessThanOrEqual(GRID_COLUMNS.lg);
+      expect(result.dashboard.autoRefresh).toBe(true);
+    }
+  });
+
+  it('fills in defaults missing from a version 1 file', () => {
+    const result = parseDashboardExport(JSON.stringify({ widgets: [] }));
+    expect(result).toMatchObject({
+      success: true,
+      dashboard: { id: 'imported', name: 'Imported Dashboard', refreshInterval: 30, widgets: [] },
+    });
+  });
+
+  it('rejects invalid JSON', () => {
+    const result = parseDashboardExport('{ nope');
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.errors[0].message).toMatch(/^Invalid JSON/);
+  });
+
+  it('rejects files from a newer version', () => {
+    const result = parseDashboardExport(JSON.stringify({ format: 'finboard-dashboard', version: CURRENT_EXPORT_VERSION + 1 }));
+    expect(result).toMatchObject({ success: false, errors: [{ path: 'version' }] });
+  });
+
+  it('validates a bundled vault', () => {
+    const result = parseDashboardExport(envelope(layout(), { vault: { version: 2 } }));
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map(error => error.path)).toEqual(['vault.version', 'vault.salt', 'vault.iv', 'vault.ciphertext', 'vault.iterations']);
+    }
+  });
+});
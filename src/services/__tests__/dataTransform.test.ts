@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { applyTransform, getValue, inferTransform, select, toRows, validateTransform } from '../dataTransform';
+
+const alphaVantage = {
+  'Meta Data': { '2. Symbol': 'IBM' },
+  'Time Series (Daily)': {
+    '2024-01-02': { '1. open': '160.0', '4. close': '162.5' },
+    '2024-01-01': { '1. open': '158.0', '4. close': '157.0' },
+  },
+};
+
+describe('select', () => {
+  it('follows bracketed keys and indices', () => {
+    expect(select(alphaVantage, "$['Meta Data']['2. Symbol']")).toBe('IBM');
+    expect(select({ items: [1, 2, 3] }, '$.items[-1]')).toBe(3);
+  });
+
+  it('projects over wildcards', () => {
+    expect(select({ rows: [{ p: 1 }, { p: 2 }, {}] }, '$.rows[*].p')).toEqual([1, 2]);
+  });
+
+  it('returns undefined for a missing path', () => {
+    expect(select({ a: {} }, '$.a.b.c')).toBeUndefined();
+  });
+});
+
+describe('getValue', () => {
+  it('prefers an exact key over a path', () => {
+    expect(getValue({ '1. open': 5 }, '1. open')).toBe(5);
+    expect(getValue({ quote: { price: 7 } }, 'quote.price')).toBe(7);
+  });
+});
+
+describe('applyTransform', () => {
+  it('explodes a keyed map, computes columns and filters rows', () => {
+    const rows = applyTransform(alphaVantage, {
+      root: "$['Time Series (Daily)']",
+      explode: { keyAs: 'date' },
+      columns: [
+        { name: 'change', expression: '{4. close} - {1. open}' },
+        { name: 'doubled', expression: '{change} * 2' },
+      ],
+      filters: [{ field: 'change', operator: 'gt', value: '0' }],
+    });
+    expect(rows).toEqual([
+      { date: '2024-01-02', '1. open': '160.0', '4. close': '162.5', change: 2.5, doubled: 5 },
+    ]);
+  });
+
+  it('names tuple columns and keeps only those', () => {
+    const rows = applyTransform({ prices: [[1700000000000, 42]] }, {
+      root: '$.prices',
+      columns: [{ name: 'time', expression: '{0}' }, { name: 'price', expression: '{1}' }],
+    });
+    expect(rows).toEqual([{ time: 1700000000000, price: 42 }]);
+  });
+
+  it('compares filter values as text when they are not numbers', () => {
+    const rows = [{ s: 'AAPL' }, { s: 'MSFT' }];
+    expect(applyTransform(rows, { filters: [{ field: 's', operator: 'eq', value: 'MSFT' }] })).toEqual([{ s: 'MSFT' }]);
+    expect(applyTransform(rows, { filters: [{ field: 's', operator: 'contains', value: 'aa' }] })).toEqual([{ s: 'AAPL' }]);
+  });
+});
+
+describe('validateTransform', () => {
+  it('reports an unnamed column', () => {
+    expect(validateTransform({ columns: [{ name: ' ', expression: '{a}' }] })).toBe('Every computed column needs a name');
+    expect(validateTransform({ columns: [{ name: 'a', expression: '{b} + 1' }] })).toBeNull();
+  });
+});
+
+describe('toRows', () => {
+  it('wraps a single object and passes lists through', () => {
+    expect(toRows({ a: 1 })).toEqual([{ a: 1 }]);
+    expect(toRows([{ a: 1 }])).toEqual([{ a: 1 }]);
+    expect(toRows(null)).toEqual([]);
+  });
+
+  it('infers the list property of a wrapped response', () => {
+    expect(inferTransform({ meta: {}, values: [{ close: 1 }] })).toEqual({ root: "$['values']" });
+    expect(inferTransform([{ close: 1 }])).toBeUndefined();
+  });
+});
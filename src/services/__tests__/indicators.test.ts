@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { bollinger, computeIndicators, ema, macd, rsi, sma, stochastic, vwap } from '../indicators';
+import { ChartDataPoint } from '@/types';
+
+const candle = (date: string, close: number, volume = 100, spread = 1): ChartDataPoint => ({
+  date,
+  open: close,
+  high: close + spread,
+  low: close - spread,
+  close,
+  volume,
+});
+
+describe('sma', () => {
+  it('averages a sliding window and is null until it fills', () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+
+  it('restarts the window after a gap', () => {
+    expect(sma([1, 2, null, 3, 4, 5], 2)).toEqual([null, 1.5, null, null, 3.5, 4.5]);
+  });
+});
+
+describe('ema', () => {
+  it('is seeded with the simple average', () => {
+    const result = ema([2, 4, 6, 8], 3);
+    expect(result.slice(0, 3)).toEqual([null, null, 4]);
+    // k = 2 / (3 + 1)
+    expect(result[3]).toBeCloseTo(8 * 0.5 + 4 * 0.5);
+  });
+});
+
+describe('bollinger', () => {
+  it('puts the bands the given deviations around the average', () => {
+    const { upper, middle, lower } = bollinger([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+    expect(middle[7]).toBe(5);
+    // Population standard deviation of the window is 2
+    expect(upper[7]).toBe(9);
+    expect(lower[7]).toBe(1);
+    expect(upper[6]).toBeNull();
+  });
+});
+
+describe('rsi', () => {
+  it('is 100 when prices only rise', () => {
+    expect(rsi([1, 2, 3, 4, 5], 3)).toEqual([null, null, null, 100, 100]);
+  });
+
+  it('is 50 when gains and losses balance', () => {
+    expect(rsi([10, 11, 10, 11, 10], 4)[4]).toBeCloseTo(50);
+  });
+});
+
+describe('macd', () => {
+  it('is flat for a constant series', () => {
+    const { line, signal, histogram } = macd(new Array(40).fill(10), 12, 26, 9);
+    expect(line[24]).toBeNull();
+    expect(line[25]).toBe(0);
+    expect(signal[33]).toBe(0);
+    expect(histogram[39]).toBe(0);
+  });
+});
+
+describe('stochastic', () => {
+  it('is 100 when the close is the highest high of the window', () => {
+    const points = [1, 2, 3, 4, 5].map((close, i) => ({ ...candle(`2024-01-0${i + 1}`, close, 100, 0) }));
+    const { k, d } = stochastic(points, 3, 1, 1);
+    expect(k).toEqual([null, null, 100, 100, 100]);
+    expect(d).toEqual(k);
+  });
+});
+
+describe('vwap', () => {
+  it('weights the typical price by volume', () => {
+    const result = vwap([candle('2024-01-01', 10, 100), candle('2024-01-02', 20, 300)]);
+    expect(result[0]).toBe(10);
+    expect(result[1]).toBe((10 * 100 + 20 * 300) / 400);
+  });
+
+  it('starts a new average each session for intraday candles', () => {
+    const result = vwap([
+      candle('2024-01-01T10:00', 10),
+      candle('2024-01-01T11:00', 20),
+      candle('2024-01-02T10:00', 30),
+    ]);
+    expect(result).toEqual([10, 15, 30]);
+  });
+});
+
+describe('computeIndicators', () => {
+  it('adds one column per series to every row', () => {
+    const points = [1, 2, 3, 4].map((close, i) => candle(`2024-01-0${i + 1}`, close));
+    const result = computeIndicators(points, [{ id: 'sma_1', type: 'sma', params: { period: 2 } }]);
+    expect(result.overlays.map(series => series.key)).toEqual(['sma_1_value']);
+    expect(result.rows.map(row => row.sma_1_value)).toEqual([null, 1.5, 2.5, 3.5]);
+    expect(result.panes).toEqual([]);
+  });
+});
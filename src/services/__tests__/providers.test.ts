@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { detectProvider, getProvider, parseOhlcPayload, PROVIDERS } from '../providers';
+
+describe.each(PROVIDERS.map(adapter => [adapter.name, adapter] as const))('%s adapter', (_, adapter) => {
+  const { fixtures } = adapter;
+
+  it('parses the recorded quote', () => {
+    const quote = adapter.parseQuote(fixtures.quote, fixtures.symbol);
+    expect(quote.symbol.toLowerCase()).toBe(fixtures.symbol.toLowerCase());
+    expect(quote.price).toBeGreaterThan(0);
+    expect(Number.isFinite(quote.change)).toBe(true);
+    expect(Number.isFinite(quote.changePercent)).toBe(true);
+  });
+
+  it('parses the recorded candles oldest first', () => {
+    const candles = adapter.parseOhlc(fixtures.ohlc);
+    expect(candles.length).toBeGreaterThan(1);
+    const times = candles.map(candle => new Date(candle.date).getTime());
+    expect(times.every(time => !isNaN(time))).toBe(true);
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+    candles.forEach(candle => {
+      expect(candle.high).toBeGreaterThanOrEqual(candle.low);
+      expect(candle.close).toBeGreaterThan(0);
+    });
+  });
+
+  it('recognises only its own candle responses', () => {
+    PROVIDERS.forEach(other => {
+      expect(adapter.isOhlcPayload(other.fixtures.ohlc)).toBe(other === adapter);
+    });
+    expect(parseOhlcPayload(fixtures.ohlc)).toEqual(adapter.parseOhlc(fixtures.ohlc));
+  });
+
+  it('parses the recorded search', () => {
+    const matches = adapter.parseSearch(fixtures.search);
+    expect(matches.length).toBeGreaterThan(0);
+    expect(matches.some(match => match.symbol.toLowerCase() === fixtures.symbol.toLowerCase())).toBe(true);
+    matches.forEach(match => expect(match.name).toBeTruthy());
+  });
+
+  it('sends requests to its own hosts', () => {
+    const requests = [
+      adapter.quoteRequest(fixtures.symbol, { apiKey: 'KEY' }),
+      adapter.ohlcRequest(fixtures.symbol, 'daily', { apiKey: 'KEY' }),
+      adapter.searchRequest('app', { apiKey: 'KEY' }),
+    ];
+    requests.forEach(request => {
+      expect(detectProvider(request.url)).toBe(adapter);
+    });
+  });
+
+  it('keeps a widget URL\'s host and query parameters', () => {
+    const request = adapter.quoteRequest(fixtures.symbol, { baseUrl: 'https://proxy.example.com/any?team=7' });
+    const url = new URL(request.url);
+    expect(url.host).toBe('proxy.example.com');
+    expect(url.searchParams.get('team')).toBe('7');
+  });
+});
+
+describe('adapter keys', () => {
+  it('keeps vault placeholders readable in the URL', () => {
+    const request = getProvider('alphavantage')!.quoteRequest('IBM', { apiKey: '{{vault:AV_KEY}}' });
+    expect(request.url).toContain('apikey={{vault:AV_KEY}}');
+  });
+
+  it('sends Finnhub keys in a header rather than the URL', () => {
+    const request = getProvider('finnhub')!.quoteRequest('AAPL', { apiKey: 'secret-token' });
+    expect(request.url).not.toContain('secret-token');
+    expect(request.headers).toEqual({ 'X-Finnhub-Token': 'secret-token' });
+  });
+});
+
+describe('provider errors', () => {
+  it('reports Alpha Vantage quota notices as rate limits', () => {
+    const notice = { Note: 'Thank you for using Alpha Vantage! Our standard API call frequency is 5 calls per minute.' };
+    expect(() => getProvider('alphavantage')!.parseQuote(notice, 'IBM'))
+      .toThrow(expect.objectContaining({ type: 'rate_limit' }));
+  });
+
+  it('reports Finnhub key errors as auth failures', () => {
+    expect(() => getProvider('finnhub')!.parseQuote({ error: 'Invalid API key' }, 'AAPL'))
+      .toThrow(expect.objectContaining({ type: 'auth' }));
+  });
+
+  it('rejects unknown symbols', () => {
+    expect(() => getProvider('finnhub')!.parseQuote({ c: 0, d: null, dp: null, t: 0 }, 'NOPE')).toThrow();
+  });
+});
+
+describe('detectProvider', () => {
+  it('matches subdomains but not look-alike hosts', () => {
+    expect(detectProvider('https://query1.finance.yahoo.com/v7/finance/quote')?.id).toBe('yahoo');
+    expect(detectProvider('https://notfinnhub.io/api')).toBeUndefined();
+    expect(detectProvider('not a url')).toBeUndefined();
+  });
+});
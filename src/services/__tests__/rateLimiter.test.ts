@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { rateLimiter, RateLimitEvent } from '../rateLimiter';
+
+const START = Date.UTC(2024, 0, 31, 23, 0, 0);
+
+// Settles the promise against fake time and reports whether it resolved
+const isResolved = async (promise: Promise<void>) => {
+  let resolved = false;
+  promise.then(() => { resolved = true; }, () => {});
+  await vi.advanceTimersByTimeAsync(0);
+  return resolved;
+};
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+  };
+};
+
+let storage: ReturnType<typeof createStorage>;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(START);
+  storage = createStorage();
+  vi.stubGlobal('window', { localStorage: storage });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('rateLimiter', () => {
+  it('lets requests through until the minute budget is spent, then refills', async () => {
+    rateLimiter.configure([{ host: 'minute.test', perMinute: 2 }]);
+    expect(await isResolved(rateLimiter.acquire('https://minute.test/a'))).toBe(true);
+    expect(await isResolved(rateLimiter.acquire('https://api.minute.test/b'))).toBe(true);
+
+    const third = rateLimiter.acquire('https://minute.test/c');
+    expect(await isResolved(third)).toBe(false);
+    // Two tokens a minute is one every 30 seconds
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    expect(await isResolved(third)).toBe(true);
+  });
+
+  it('serves queued requests highest priority first', async () => {
+    rateLimiter.configure([{ host: 'priority.test', perMinute: 1 }]);
+    await rateLimiter.acquire('https://priority.test/');
+
+    const order: string[] = [];
+    const low = rateLimiter.acquire('https://priority.test/low', { priority: 'low' }).then(() => order.push('low'));
+    const high = rateLimiter.acquire('https://priority.test/high', { priority: 'high' }).then(() => order.push('high'));
+    await vi.advanceTimersByTimeAsync(120 * 1000);
+    await Promise.all([low, high]);
+    expect(order).toEqual(['high', 'low']);
+  });
+
+  it('drops a queued request when its signal aborts', async () => {
+    rateLimiter.configure([{ host: 'abort.test', perMinute: 1 }]);
+    await rateLimiter.acquire('https://abort.test/');
+
+    const controller = new AbortController();
+    const waiting = rateLimiter.acquire('https://abort.test/', { signal: controller.signal });
+    controller.abort();
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+    expect(rateLimiter.getStatus().find(status => status.host === 'abort.test')?.queued).toBe(0);
+  });
+
+  it('holds requests after a 429 until Retry-After has passed and reports it once', async () => {
+    rateLimiter.configure([]);
+    const events: RateLimitEvent[] = [];
+    const unsubscribe = rateLimiter.onLimit(event => events.push(event));
+
+    rateLimiter.observe('https://server.test/', { 'Retry-After': '10' }, 429);
+    const first = rateLimiter.acquire('https://server.test/');
+    const second = rateLimiter.acquire('https://server.test/');
+    expect(await isResolved(first)).toBe(false);
+    await vi.advanceTimersByTimeAsync(10 * 1000);
+    expect(await isResolved(first)).toBe(true);
+    expect(await isResolved(second)).toBe(true);
+
+    expect(events).toEqual([{ host: 'server.test', reason: 'server', resumeAt: START + 10 * 1000 }]);
+    unsubscribe();
+  });
+
+  it('counts the day budget in localStorage per host and UTC day', async () => {
+    rateLimiter.configure([{ host: 'daily.test', perDay: 2 }]);
+    await rateLimiter.acquire('https://daily.test/');
+    await rateLimiter.acquire('https://daily.test/');
+    expect(JSON.parse(storage.getItem('finboard-rate-usage')!)).toEqual({ '2024-01-31': { 'daily.test': 2 } });
+    expect(rateLimiter.getStatus().find(status => status.host === 'daily.test')?.dayRemaining).toBe(0);
+
+    // Waits for midnight UTC rather than a rolling 24 hours
+    const next = rateLimiter.acquire('https://daily.test/');
+    await vi.advanceTimersByTimeAsync(59 * 60 * 1000);
+    expect(await isResolved(next)).toBe(false);
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(await isResolved(next)).toBe(true);
+    expect(JSON.parse(storage.getItem('finboard-rate-usage')!)).toEqual({ '2024-02-01': { 'daily.test': 1 } });
+  });
+
+  it('picks up what an earlier session spent today', async () => {
+    storage.setItem('finboard-rate-usage', JSON.stringify({ '2024-01-31': { 'restored.test': 5 } }));
+    rateLimiter.configure([{ host: 'restored.test', perDay: 5 }]);
+    expect(await isResolved(rateLimiter.acquire('https://restored.test/'))).toBe(false);
+  });
+
+  it('learns limits from X-RateLimit headers without a budget', async () => {
+    rateLimiter.configure([]);
+    rateLimiter.observe('https://headers.test/', { 'X-RateLimit-Limit': '100', 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '5' });
+    expect(rateLimiter.getStatus().find(status => status.host === 'headers.test')).toMatchObject({
+      serverLimit: 100,
+      serverRemaining: 0,
+      resetAt: START + 5 * 1000,
+    });
+    const waiting = rateLimiter.acquire('https://headers.test/');
+    expect(await isResolved(waiting)).toBe(false);
+    await vi.advanceTimersByTimeAsync(5 * 1000);
+    expect(await isResolved(waiting)).toBe(true);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { buildWidgetRequest, renderBodyTemplate, renderUrlTemplate } from '../requestBuilder';
+
+describe('renderBodyTemplate', () => {
+  it('escapes values placed inside JSON strings', () => {
+    const body = renderBodyTemplate('{"symbol": "{{symbol}}", "limit": 5}', { symbol: 'BRK"B\\A' });
+    expect(JSON.parse(body)).toEqual({ symbol: 'BRK"B\\A', limit: 5 });
+  });
+
+  it('leaves form bodies as they are', () => {
+    expect(renderBodyTemplate('symbol={{symbol}}&interval={{ interval }}', { symbol: 'IBM', interval: 'daily' }))
+      .toBe('symbol=IBM&interval=daily');
+  });
+});
+
+describe('renderUrlTemplate', () => {
+  it('encodes values for the URL', () => {
+    expect(renderUrlTemplate('https://api.test/q/{{symbol}}', { symbol: 'BRK B' })).toBe('https://api.test/q/BRK%20B');
+  });
+});
+
+describe('buildWidgetRequest', () => {
+  it('posts GraphQL queries with their variables', () => {
+    const request = buildWidgetRequest({ graphql: { query: 'query Q($s: String) { quote(s: $s) }', variables: { s: '{{symbol}}' } }, symbol: 'X"Y' });
+    expect(request).toMatchObject({ method: 'POST', cacheable: true });
+    expect(JSON.parse(request.body!).variables).toEqual({ s: 'X"Y' });
+  });
+
+  it('never caches mutations', () => {
+    expect(buildWidgetRequest({ graphql: { query: '# note\nmutation { reset }' } }).cacheable).toBe(false);
+  });
+
+  it('defaults to GET', () => {
+    expect(buildWidgetRequest({})).toEqual({ method: 'GET', cacheable: true });
+  });
+});
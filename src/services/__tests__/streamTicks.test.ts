@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { applyTicksToRows, latestTicks, mergeStreamRows, mergeTickIntoCandles, parseTicks } from '../streamTicks';
+import { ChartDataPoint } from '@/types';
+
+const tick = (symbol: string, price: number, time: number, volume?: number) => ({ symbol, price, time, ...(volume !== undefined && { volume }) });
+
+describe('parseTicks', () => {
+  it('reads ticks at the tick path with the default field names', () => {
+    const message = { type: 'trade', data: [{ s: 'aapl', p: 190.5, v: 10, t: 1700000000000 }, { type: 'ping' }] };
+    expect(parseTicks(message, { tickPath: 'data' })).toEqual([tick('AAPL', 190.5, 1700000000000, 10)]);
+  });
+
+  it('uses configured fields and converts epoch seconds', () => {
+    expect(parseTicks({ sym: 'BTC', last: '42000', ts: 1700000000 }, { fields: { symbol: 'sym', price: 'last', time: 'ts' } }))
+      .toEqual([tick('BTC', 42000, 1700000000000)]);
+  });
+});
+
+describe('latestTicks', () => {
+  it('keeps the newest tick per symbol', () => {
+    const current = { AAPL: tick('AAPL', 1, 200) };
+    expect(latestTicks(current, [tick('AAPL', 2, 100), tick('MSFT', 3, 100)])).toEqual({
+      AAPL: tick('AAPL', 1, 200),
+      MSFT: tick('MSFT', 3, 100),
+    });
+  });
+});
+
+describe('applyTicksToRows', () => {
+  it('updates the price and recomputes the change from the previous close', () => {
+    const rows = [{ symbol: 'AAPL', price: 100, previousClose: 100, change: 0, changePercent: 0 }];
+    expect(applyTicksToRows(rows, { AAPL: tick('AAPL', 110, 1) })).toEqual([
+      { symbol: 'AAPL', price: 110, previousClose: 100, change: 10, changePercent: 10 },
+    ]);
+  });
+
+  it('adds symbols the rows do not list yet', () => {
+    const result = applyTicksToRows([{ symbol: 'AAPL', price: 1 }], { MSFT: tick('MSFT', 2, 0) });
+    expect(result).toEqual([{ symbol: 'AAPL', price: 1 }, { symbol: 'MSFT', price: 2, time: new Date(0).toISOString() }]);
+  });
+
+  it('leaves rows without a symbol column alone', () => {
+    const rows = [{ date: '2024-01-01', close: 1 }];
+    expect(applyTicksToRows(rows, { AAPL: tick('AAPL', 2, 0) })).toEqual(rows);
+  });
+});
+
+describe('mergeStreamRows', () => {
+  it('upserts by key field, keeping fields the update leaves out', () => {
+    const rows = [{ id: 1, a: 1, b: 1 }];
+    expect(mergeStreamRows(rows, [{ id: 1, a: 2 }, { id: 2, a: 3 }], 'id')).toEqual([
+      { id: 1, a: 2, b: 1 },
+      { id: 2, a: 3 },
+    ]);
+  });
+
+  it('appends without a key field', () => {
+    expect(mergeStreamRows([{ a: 1 }], [{ a: 1 }])).toEqual([{ a: 1 }, { a: 1 }]);
+  });
+});
+
+describe('mergeTickIntoCandles', () => {
+  const candles: ChartDataPoint[] = [{ date: '2024-01-01T10:00:00.000Z', open: 10, high: 11, low: 9, close: 10, volume: 100 }];
+  const at = (iso: string) => new Date(iso).getTime();
+
+  it('folds a tick into the current bar', () => {
+    expect(mergeTickIntoCandles(candles, tick('X', 12, at('2024-01-01T10:03:00Z'), 5), '5min')).toEqual([
+      { ...candles[0], close: 12, high: 12, volume: 105 },
+    ]);
+  });
+
+  it('opens a new bar once the tick is past the current one', () => {
+    const result = mergeTickIntoCandles(candles, tick('X', 8, at('2024-01-01T10:07:30Z')), '5min');
+    expect(result[1]).toEqual({ date: '2024-01-01T10:05:00.000Z', open: 8, high: 8, low: 8, close: 8, volume: 0 });
+  });
+
+  it('drops ticks older than the last bar', () => {
+    expect(mergeTickIntoCandles(candles, tick('X', 1, at('2024-01-01T09:00:00Z')), '5min')).toBe(candles);
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  assertAllowedHostname,
+  BlockedTargetError,
+  findBlockedTarget,
+  guardedAxiosConfig,
+  isPrivateAddress,
+  prepareUpstreamRequest,
+} from '../upstreamRequest';
+import { SecretHostError } from '../serverSecrets';
+
+beforeEach(() => {
+  vi.stubEnv('FINBOARD_SECRET_API_TOKEN', 's3cret');
+  vi.stubEnv('FINBOARD_SECRET_API_TOKEN_HOSTS', 'api.example.com');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+// Runs the redirect hook the way follow-redirects does, with the options it
+// would use for the next hop
+const redirect = (config: ReturnType<typeof guardedAxiosConfig>, options: Record<string, any>, statusCode: number) =>
+  (config.beforeRedirect as (options: Record<string, any>, details: { statusCode: number }) => void)(options, { statusCode });
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+    '::1', '::', 'fd00:ec2::254', 'fe80::1', '::ffff:127.0.0.1', '::ffff:7f00:1', '64:ff9b::a9fe:a9fe',
+  ])('blocks %s', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '172.32.0.1', '2606:4700:4700::1111', '::ffff:8.8.8.8'])('allows %s', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe('assertAllowedHostname', () => {
+  it('rejects local names and private literals', () => {
+    ['localhost', 'app.localhost', 'metadata.google.internal', 'LOCALHOST.', '[::1]', '10.0.0.1'].forEach(host => {
+      expect(() => assertAllowedHostname(host)).toThrow(BlockedTargetError);
+    });
+    expect(() => assertAllowedHostname('api.example.com')).not.toThrow();
+  });
+});
+
+describe('prepareUpstreamRequest', () => {
+  it('fills secrets only for the hosts they are allowed on', () => {
+    const request = prepareUpstreamRequest({
+      url: 'https://api.example.com/quote?token={{secret:API_TOKEN}}',
+      method: 'POST',
+      headers: { Authorization: 'Bearer {{secret:API_TOKEN}}', Accept: 'application/json' },
+      body: '{"token":"{{secret:API_TOKEN}}"}',
+    });
+    expect(request.url).toBe('https://api.example.com/quote?token=s3cret');
+    expect(request.headers.Authorization).toBe('Bearer s3cret');
+    expect(request.body).toBe('{"token":"s3cret"}');
+    expect(request.secretHeaders).toEqual(['Authorization']);
+    expect(request.secretBody).toBe(true);
+
+    expect(() => prepareUpstreamRequest({ url: 'https://evil.test/?t={{secret:API_TOKEN}}', method: 'GET' }))
+      .toThrow(SecretHostError);
+  });
+
+  it('refuses non-http and private targets before resolving anything', () => {
+    expect(() => prepareUpstreamRequest({ url: 'file:///etc/passwd', method: 'GET' })).toThrow(BlockedTargetError);
+    expect(() => prepareUpstreamRequest({ url: 'http://169.254.169.254/latest', method: 'GET' })).toThrow(BlockedTargetError);
+  });
+});
+
+describe('guardedAxiosConfig redirects', () => {
+  const secretPost = () => prepareUpstreamRequest({
+    url: 'https://api.example.com/orders',
+    method: 'POST',
+    headers: { Authorization: 'Bearer {{secret:API_TOKEN}}' },
+    body: '{"token":"{{secret:API_TOKEN}}"}',
+  });
+
+  it('drops secret headers on redirects to another host', () => {
+    const options = { hostname: 'cdn.test', method: 'GET', headers: { Authorization: 'Bearer s3cret', Accept: '*/*' } };
+    redirect(guardedAxiosConfig(secretPost()), options, 303);
+    expect(options.headers).toEqual({ Accept: '*/*' });
+  });
+
+  it.each([307, 308])('refuses a %i to another host that would resend a secret body', statusCode => {
+    const config = guardedAxiosConfig(secretPost());
+    expect(() => redirect(config, { hostname: 'evil.test', method: 'POST', headers: {} }, statusCode))
+      .toThrow(BlockedTargetError);
+    expect(() => redirect(config, { hostname: 'api.example.com', method: 'POST', headers: {} }, statusCode))
+      .not.toThrow();
+  });
+
+  it('follows redirects that resend a body without secrets', () => {
+    const config = guardedAxiosConfig(prepareUpstreamRequest({ url: 'https://api.example.com/orders', method: 'POST', body: '{}' }));
+    expect(() => redirect(config, { hostname: 'other.test', method: 'POST', headers: {} }, 307)).not.toThrow();
+  });
+
+  it('refuses redirects to private hosts', () => {
+    const config = guardedAxiosConfig(prepareUpstreamRequest({ url: 'https://api.example.com/', method: 'GET' }));
+    expect(() => redirect(config, { hostname: '127.0.0.1', method: 'GET', headers: {} }, 302)).toThrow(BlockedTargetError);
+  });
+});
+
+describe('findBlockedTarget', () => {
+  it('finds the guard error behind wrapping errors', () => {
+    const blocked = new BlockedTargetError('blocked');
+    const wrapped = Object.assign(new Error('redirect failed'), { cause: Object.assign(new Error('wrapped'), { cause: blocked }) });
+    expect(findBlockedTarget(wrapped)).toBe(blocked);
+    expect(findBlockedTarget(new Error('network'))).toBeUndefined();
+  });
+});
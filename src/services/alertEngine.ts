@@ -0,0 +1,201 @@
+import { AlertCondition, AlertRule, Widget } from '@/types';
+import { getValue, Row, toRows } from './dataTransform';
+
+// Checks a widget's alert rules each time it stores new data or a stream
+// updates its rows. Rules are evaluated for every row, so a table of quotes
+// alerts per symbol; the previous value of a row comes from the rows the
+// widget showed before. Stale rules are also checked on a timer, since a
+// widget that stopped updating brings no new data to check them with.
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  widgetId: string;
+  widgetTitle: string;
+  field: string; // Display name of the field
+  row?: string; // Symbol of the row, when the rows have one
+  value: any;
+  message: string;
+  time: number;
+}
+
+type AlertListener = (alert: AlertEvent) => void;
+
+export const ALERT_CONDITIONS: { id: AlertCondition; label: string }[] = [
+  { id: 'above', label: 'is above' },
+  { id: 'below', label: 'is below' },
+  { id: 'crosses_above', label: 'crosses above' },
+  { id: 'crosses_below', label: 'crosses below' },
+  { id: 'change_percent', label: 'moves by % since last fetch' },
+  { id: 'stale', label: 'is unchanged for minutes' },
+];
+
+export const DEFAULT_ALERT_COOLDOWN = 15; // minutes
+
+const ROW_KEYS = ['symbol', 'ticker', 's', 'id', 'name'];
+
+const toNumber = (value: any): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+const format = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+// A transform that fails on this payload leaves nothing to check
+function rowsOf(widget: Widget, data: any): Row[] {
+  try {
+    return toRows(data, widget.config?.transform);
+  } catch {
+    return [];
+  }
+}
+
+const activeRules = (widget: Widget) => (widget.config?.alerts || []).filter(rule => rule.enabled !== false);
+
+// Rows are matched to their previous version by symbol, else by position
+function rowLabel(row: Row): string | undefined {
+  const key = ROW_KEYS.find(k => typeof row[k] === 'string' && row[k] !== '');
+  return key ? row[key] : undefined;
+}
+
+// The message for a rule that holds for this value, or null
+function check(rule: AlertRule, value: any, previous: any, unchangedFor: number): string | null {
+  const current = toNumber(value);
+  const before = toNumber(previous);
+  const threshold = rule.threshold ?? NaN;
+
+  switch (rule.condition) {
+    case 'above':
+      return current > threshold ? `is above ${format(threshold)} at ${format(current)}` : null;
+    case 'below':
+      return current < threshold ? `is below ${format(threshold)} at ${format(current)}` : null;
+    case 'crosses_above':
+      return before <= threshold && current > threshold ? `crossed above ${format(threshold)} to ${format(current)}` : null;
+    case 'crosses_below':
+      return before >= threshold && current < threshold ? `crossed below ${format(threshold)} to ${format(current)}` : null;
+    case 'change_percent': {
+      if (!isFinite(before) || before === 0 || !isFinite(current)) return null;
+      const change = ((current - before) / Math.abs(before)) * 100;
+      return Math.abs(change) >= Math.abs(threshold)
+        ? `moved ${change > 0 ? '+' : ''}${change.toFixed(2)}% since the last fetch to ${format(current)}`
+        : null;
+    }
+    case 'stale': {
+      const minutes = rule.staleMinutes ?? NaN;
+      return unchangedFor >= minutes * 60 * 1000 ? `hasn't changed for ${Math.floor(unchangedFor / 60000)} minutes` : null;
+    }
+  }
+}
+
+class AlertEngine {
+  // Keyed by widget, rule and row
+  private lastFired: Map<string, number> = new Map();
+  private unchanged: Map<string, { value: string; since: number; row?: string; current: any }> = new Map();
+  private listeners: Set<AlertListener> = new Set();
+
+  // The alert for a rule that holds, unless it is still cooling down
+  private fire(widget: Widget, rule: AlertRule, key: string, label: string | undefined, value: any, message: string, now: number): AlertEvent | null {
+    const cooldown = (rule.cooldown ?? DEFAULT_ALERT_COOLDOWN) * 60 * 1000;
+    const last = this.lastFired.get(key);
+    if (last !== undefined && now - last < cooldown) return null;
+    this.lastFired.set(key, now);
+
+    const mapping = widget.config?.fieldMappings?.find(field => field.apiField === rule.field);
+    const field = mapping?.displayName || rule.field;
+    return {
+      id: `alert_${now}_${Math.random().toString(36).substr(2, 6)}`,
+      ruleId: rule.id,
+      widgetId: widget.id,
+      widgetTitle: widget.title,
+      field,
+      ...(label && { row: label }),
+      value,
+      message: `${label ? `${label} ` : ''}${field} ${message}`,
+      time: now,
+    };
+  }
+
+  private deliver(fired: AlertEvent[]): AlertEvent[] {
+    fired.forEach(alert => this.listeners.forEach(listener => listener(alert)));
+    return fired;
+  }
+
+  // Checks the widget's rules against newly stored data and delivers the
+  // alerts that fire. previousData is what the widget held before.
+  evaluate(widget: Widget, previousData: any, data: any, now = Date.now()): AlertEvent[] {
+    if (!activeRules(widget).length) return [];
+    return this.evaluateRows(widget, previousData === undefined ? [] : rowsOf(widget, previousData), rowsOf(widget, data), now);
+  }
+
+  // The same check for rows that have already been through the transform,
+  // such as a polled payload with stream updates merged in
+  evaluateRows(widget: Widget, previousRows: Row[], rows: Row[], now = Date.now()): AlertEvent[] {
+    const rules = activeRules(widget);
+    if (rules.length === 0) return [];
+
+    const previousByKey = new Map<string, Row>();
+    previousRows.forEach((row, index) => previousByKey.set(rowLabel(row) ?? String(index), row));
+
+    const fired: AlertEvent[] = [];
+    rules.forEach(rule => {
+      rows.forEach((row, index) => {
+        const label = rowLabel(row);
+        const key = `${widget.id}:${rule.id}:${label ?? index}`;
+        const value = getValue(row, rule.field);
+        if (value === undefined) return;
+
+        const serialized = JSON.stringify(value);
+        const tracked = this.unchanged.get(key);
+        const since = tracked && tracked.value === serialized ? tracked.since : now;
+        this.unchanged.set(key, { value: serialized, since, row: label, current: value });
+
+        const message = check(rule, value, getValue(previousByKey.get(label ?? String(index)), rule.field), now - since);
+        const alert = message ? this.fire(widget, rule, key, label, value, message, now) : null;
+        if (alert) fired.push(alert);
+      });
+    });
+
+    return this.deliver(fired);
+  }
+
+  // Checks stale rules against the last value each row showed, whether or
+  // not new data has arrived since
+  checkStale(widgets: Widget[], now = Date.now()): AlertEvent[] {
+    const fired: AlertEvent[] = [];
+    widgets.forEach(widget => {
+      activeRules(widget).filter(rule => rule.condition === 'stale').forEach(rule => {
+        const prefix = `${widget.id}:${rule.id}:`;
+        this.unchanged.forEach((tracked, key) => {
+          if (!key.startsWith(prefix)) return;
+          const message = check(rule, tracked.current, undefined, now - tracked.since);
+          const alert = message ? this.fire(widget, rule, key, tracked.row, tracked.current, message, now) : null;
+          if (alert) fired.push(alert);
+        });
+      });
+    });
+    return this.deliver(fired);
+  }
+
+  // Forgets cooldowns and unchanged-since times of widgets and rules that
+  // no longer exist, so an edited dashboard doesn't leave them behind
+  prune(widgets: Widget[]): void {
+    const current = new Set(widgets.flatMap(widget => (widget.config?.alerts || []).map(rule => `${widget.id}:${rule.id}`)));
+    const isCurrent = (key: string) => current.has(key.slice(0, key.indexOf(':', key.indexOf(':') + 1)));
+    [this.lastFired, this.unchanged].forEach((map: Map<string, unknown>) => {
+      Array.from(map.keys()).forEach(key => {
+        if (!isCurrent(key)) map.delete(key);
+      });
+    });
+  }
+
+  subscribe(listener: AlertListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const alertEngine = new AlertEngine();
+export default alertEngine;
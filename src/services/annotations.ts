@@ -0,0 +1,80 @@
+import { AnnotationPoint, AnnotationType, ChartAnnotation } from '@/types';
+
+// Drawings on price charts. Points are anchored to a bar's date and a price,
+// so drawings stay put as the chart zooms, pans or gains bars.
+
+export const ANNOTATION_TOOLS: { type: AnnotationType; label: string }[] = [
+  { type: 'horizontal', label: 'Horizontal line' },
+  { type: 'trendline', label: 'Trendline' },
+  { type: 'fibonacci', label: 'Fibonacci retracement' },
+  { type: 'rectangle', label: 'Rectangle' },
+  { type: 'text', label: 'Note' },
+];
+
+export const annotationPointCount = (type: AnnotationType) => (type === 'horizontal' || type === 'text' ? 1 : 2);
+
+export const ANNOTATION_COLORS = ['#f59e0b', '#ef4444', '#10b981', '#3b82f6', '#8b5cf6', '#6b7280'];
+
+export function createAnnotation(type: AnnotationType, points: AnnotationPoint[], text?: string): ChartAnnotation {
+  return {
+    id: `${type}_${Math.random().toString(36).substr(2, 6)}`,
+    type,
+    points: points.slice(0, annotationPointCount(type)),
+    ...(text !== undefined && { text }),
+    color: ANNOTATION_COLORS[0],
+  };
+}
+
+export const FIBONACCI_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+// Retracement of the move from `from` to `to`: level 0 sits at the end of the
+// move and level 1 back at its start
+export const fibonacciPrices = (from: AnnotationPoint, to: AnnotationPoint) =>
+  FIBONACCI_LEVELS.map(level => ({ level, price: to.price - (to.price - from.price) * level }));
+
+export interface TimeAxis {
+  toX(date: string): number | null;
+  nearestIndex(x: number): number; // Drawn bar closest to an x position
+}
+
+// Maps dates onto the x positions of the drawn bars. Dates between bars are
+// interpolated and dates outside the window extrapolated, so an anchor still
+// lands in the right place when its bar is scrolled out of view or dropped by
+// down-sampling.
+export function createTimeAxis(dates: string[], xs: number[]): TimeAxis {
+  const times = dates.map(date => new Date(date).getTime());
+  const n = times.length;
+  const dated = n > 1 && times.every(time => !isNaN(time)) && times[n - 1] > times[0];
+
+  const toX = (date: string): number | null => {
+    if (n === 0) return null;
+    const time = new Date(date).getTime();
+    if (!dated || isNaN(time)) {
+      const index = dates.indexOf(date);
+      return index === -1 ? null : xs[index];
+    }
+    const pixelsPerMs = (xs[n - 1] - xs[0]) / (times[n - 1] - times[0]);
+    if (time <= times[0]) return xs[0] - (times[0] - time) * pixelsPerMs;
+    if (time >= times[n - 1]) return xs[n - 1] + (time - times[n - 1]) * pixelsPerMs;
+
+    let low = 0;
+    let high = n - 1;
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (times[mid] <= time) low = mid;
+      else high = mid;
+    }
+    const ratio = (time - times[low]) / (times[high] - times[low]);
+    return xs[low] + (xs[high] - xs[low]) * ratio;
+  };
+
+  const nearestIndex = (x: number): number => {
+    let best = 0;
+    xs.forEach((position, i) => {
+      if (Math.abs(position - x) < Math.abs(xs[best] - x)) best = i;
+    });
+    return best;
+  };
+
+  return { toX, nearestIndex };
+}
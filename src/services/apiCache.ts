@@ -1,36 +1,106 @@
 import { ApiErrorHandler, ApiError } from './apiErrorHandler';
+import { PROXY_ENDPOINT, buildProxyRequest } from './apiProxy';
+import { credentialVault, VaultError, toVaultApiError } from './credentialVault';
+import { persistentCache } from './persistentCache';
+import { rateLimiter, RequestPriority } from './rateLimiter';
+
+// FNV-1a, enough to tell request bodies apart in a cache key
+function hashBody(body: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < body.length; i++) {
+    hash ^= body.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
 
 interface CacheEntry {
   data: any;
   timestamp: number;
   expiresAt: number;
+  size: number; // bytes of the serialized payload
+}
+
+export interface CacheStats {
+  size: number;
+  maxSize: number;
+  hits: number;
+  misses: number;
+  staleHits: number;
+  hitRate: number; // 0-1, stale hits count as hits
+  bytes: number;
+}
+
+interface InFlightRequest {
+  promise: Promise<any>;
+  controller: AbortController;
+  callers: number;
 }
 
 interface CacheConfig {
   defaultTTL: number; // Time to live in milliseconds
   maxSize: number; // Maximum number of entries
   cleanupInterval: number; // Cleanup interval in milliseconds
+  maxStaleAge: number; // How long expired entries are kept for stale-while-revalidate, in milliseconds
+  persist: boolean; // Mirror entries to IndexedDB
 }
 
 class ApiCache {
   private cache: Map<string, CacheEntry> = new Map();
+  private inFlight: Map<string, InFlightRequest> = new Map();
   private config: CacheConfig;
   private cleanupTimer: NodeJS.Timeout | null = null;
+  private hits = 0;
+  private misses = 0;
+  private staleHits = 0;
+
+  // Resolves once entries persisted by a previous session have been loaded
+  readonly ready: Promise<void>;
 
   constructor(config: Partial<CacheConfig> = {}) {
     this.config = {
       defaultTTL: 5 * 60 * 1000, // 5 minutes default
       maxSize: 100,
       cleanupInterval: 60 * 1000, // 1 minute
+      maxStaleAge: 24 * 60 * 60 * 1000, // 1 day
+      persist: true,
       ...config,
     };
 
+    this.ready = this.config.persist ? this.hydrate() : Promise.resolve();
     this.startCleanup();
   }
 
-  private generateKey(url: string, headers?: Record<string, string>): string {
+  private async hydrate(): Promise<void> {
+    const entries = await persistentCache.getAll();
+    entries.forEach(({ key, ...entry }) => {
+      if (!this.cache.has(key)) {
+        this.cache.set(key, entry);
+      }
+    });
+    this.cleanup();
+  }
+
+  private measure(data: any): number {
+    try {
+      return new TextEncoder().encode(JSON.stringify(data)).length;
+    } catch {
+      return 0;
+    }
+  }
+
+  private remove(key: string): void {
+    this.cache.delete(key);
+    if (this.config.persist) {
+      persistentCache.delete(key);
+    }
+  }
+
+  // Requests with a body (POST queries) are keyed on its hash as well
+  private generateKey(url: string, headers?: Record<string, string>, body?: string): string {
     const headersStr = headers ? JSON.stringify(headers) : '';
-    return `${url}:${headersStr}`;
+    const key = `${url}:${headersStr}`;
+    return body ? `${key}:${hashBody(body)}` : key;
   }
 
   private startCleanup(): void {
@@ -47,13 +117,14 @@ class ApiCache {
     const now = Date.now();
     const keysToDelete: string[] = [];
 
+    // Expired entries are kept a while longer to serve as stale data
     this.cache.forEach((entry, key) => {
-      if (entry.expiresAt <= now) {
+      if (entry.expiresAt + this.config.maxStaleAge <= now) {
         keysToDelete.push(key);
       }
     });
 
-    keysToDelete.forEach(key => this.cache.delete(key));
+    keysToDelete.forEach(key => this.remove(key));
 
     // If cache is still too large, remove oldest entries
     if (this.cache.size > this.config.maxSize) {
@@ -61,28 +132,37 @@ class ApiCache {
       entries.sort((a, b) => a[1].timestamp - b[1].timestamp);
       
       const toRemove = entries.slice(0, this.cache.size - this.config.maxSize);
-      toRemove.forEach(([key]) => this.cache.delete(key));
+      toRemove.forEach(([key]) => this.remove(key));
     }
   }
 
-  get(url: string, headers?: Record<string, string>): any | null {
-    const key = this.generateKey(url, headers);
+  get(url: string, headers?: Record<string, string>, body?: string): any | null {
+    const key = this.generateKey(url, headers, body);
     const entry = this.cache.get(key);
 
-    if (!entry) {
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.misses++;
       return null;
     }
 
-    if (entry.expiresAt <= Date.now()) {
-      this.cache.delete(key);
+    this.hits++;
+    return entry.data;
+  }
+
+  // The last known payload even if it has expired, for stale-while-revalidate
+  getStale(url: string, headers?: Record<string, string>, body?: string): { data: any; timestamp: number } | null {
+    const entry = this.cache.get(this.generateKey(url, headers, body));
+
+    if (!entry || entry.expiresAt + this.config.maxStaleAge <= Date.now()) {
       return null;
     }
 
-    return entry.data;
+    this.staleHits++;
+    return { data: entry.data, timestamp: entry.timestamp };
   }
 
-  set(url: string, data: any, headers?: Record<string, string>, ttl?: number): void {
-    const key = this.generateKey(url, headers);
+  set(url: string, data: any, headers?: Record<string, string>, ttl?: number, body?: string): void {
+    const key = this.generateKey(url, headers, body);
     const now = Date.now();
     const expiresAt = now + (ttl || this.config.defaultTTL);
 
@@ -90,9 +170,13 @@ class ApiCache {
       data,
       timestamp: now,
       expiresAt,
+      size: this.measure(data),
     };
 
     this.cache.set(key, entry);
+    if (this.config.persist) {
+      persistentCache.put({ key, ...entry });
+    }
 
     // Trigger cleanup if cache is getting too large
     if (this.cache.size > this.config.maxSize * 1.2) {
@@ -100,44 +184,124 @@ class ApiCache {
     }
   }
 
-  has(url: string, headers?: Record<string, string>): boolean {
-    const key = this.generateKey(url, headers);
+  has(url: string, headers?: Record<string, string>, body?: string): boolean {
+    const key = this.generateKey(url, headers, body);
     const entry = this.cache.get(key);
 
     if (!entry) {
       return false;
     }
 
-    if (entry.expiresAt <= Date.now()) {
-      this.cache.delete(key);
-      return false;
-    }
-
-    return true;
+    return entry.expiresAt > Date.now();
   }
 
-  delete(url: string, headers?: Record<string, string>): boolean {
-    const key = this.generateKey(url, headers);
-    return this.cache.delete(key);
+  delete(url: string, headers?: Record<string, string>, body?: string): boolean {
+    const key = this.generateKey(url, headers, body);
+    const existed = this.cache.has(key);
+    this.remove(key);
+    return existed;
   }
 
   clear(): void {
     this.cache.clear();
+    this.hits = 0;
+    this.misses = 0;
+    this.staleHits = 0;
+    if (this.config.persist) {
+      persistentCache.clear();
+    }
+  }
+
+  // Share one network request between every caller asking for the same URL,
+  // headers and body while it is running. The request is only aborted once all
+  // callers that passed a signal have cancelled; callers without a signal
+  // keep it alive.
+  dedupe<T>(
+    url: string,
+    headers: Record<string, string> | undefined,
+    request: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+    body?: string
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    const key = this.generateKey(url, headers, body);
+    let entry = this.inFlight.get(key);
+
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InFlightRequest = {
+        promise: request(controller.signal).finally(() => {
+          if (this.inFlight.get(key) === created) {
+            this.inFlight.delete(key);
+          }
+        }),
+        controller,
+        callers: 0,
+      };
+      this.inFlight.set(key, created);
+      entry = created;
+    }
+
+    const shared = entry;
+    shared.callers++;
+
+    if (!signal) {
+      return shared.promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        shared.callers--;
+        if (shared.callers <= 0) {
+          shared.controller.abort();
+          if (this.inFlight.get(key) === shared) {
+            this.inFlight.delete(key);
+          }
+        }
+        reject(createAbortError());
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      shared.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
   }
 
-  getStats(): { size: number; maxSize: number; hitRate?: number } {
+  getInFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    let bytes = 0;
+    this.cache.forEach(entry => {
+      bytes += entry.size || 0;
+    });
+
     return {
       size: this.cache.size,
       maxSize: this.config.maxSize,
+      hits: this.hits,
+      misses: this.misses,
+      staleHits: this.staleHits,
+      hitRate: lookups > 0 ? (this.hits + this.staleHits) / lookups : 0,
+      bytes,
     };
   }
 
   destroy(): void {
+    this.inFlight.forEach(entry => entry.controller.abort());
+    this.inFlight.clear();
     if (this.cleanupTimer) {
       clearInterval(this.cleanupTimer);
       this.cleanupTimer = null;
     }
-    this.clear();
+    // Leaves the persisted tier alone so the next session can still use it
+    this.cache.clear();
   }
 }
 
@@ -148,40 +312,144 @@ export const apiCache = new ApiCache({
   cleanupInterval: 2 * 60 * 1000, // 2 minutes
 });
 
-// Enhanced fetch function with caching and error handling
+const createAbortError = () => new DOMException('The request was cancelled', 'AbortError');
+
+// True for cancellations, whether raised directly or wrapped by ApiErrorHandler
+export function isAbortError(error: any): boolean {
+  return error?.name === 'AbortError' || error?.originalError?.name === 'AbortError';
+}
+
+export interface CachedFetchOptions {
+  ttl?: number;
+  skipCache?: boolean;
+  withRetry?: boolean;
+  useProxy?: boolean;
+  priority?: RequestPriority; // Queue position when the host's rate budget is used up
+  // Return an expired payload immediately and refresh it in the background
+  staleWhileRevalidate?: boolean;
+  onStale?: (since: number) => void; // called with the stale payload's fetch time
+  onRevalidate?: (data: any) => void; // called with the fresh payload
+  onRevalidateError?: (error: ApiError) => void; // called when the background refresh fails
+  // Cache and share non-GET requests too, keyed on the body; for idempotent
+  // POST queries such as GraphQL or search APIs. Defaults to GET only.
+  cacheable?: boolean;
+  // Checks or reshapes the payload before it is cached; throw to reject it
+  parseResponse?: (data: any) => any;
+}
+
+// Enhanced fetch function with caching and error handling. Pass `signal` in
+// the options to cancel; cacheable requests for the same URL, headers and
+// body that are already running are shared instead of sent twice.
 export async function cachedFetch(
   url: string,
   options: RequestInit = {},
-  cacheOptions: { ttl?: number; skipCache?: boolean; withRetry?: boolean } = {}
+  cacheOptions: CachedFetchOptions = {}
 ): Promise<any> {
-  const { ttl, skipCache = false, withRetry = true } = cacheOptions;
+  const {
+    ttl,
+    skipCache = false,
+    withRetry = true,
+    useProxy = false,
+    priority = 'normal',
+    staleWhileRevalidate = false,
+    onStale,
+    onRevalidate,
+    onRevalidateError,
+    parseResponse = (data: any) => data,
+  } = cacheOptions;
+  const { signal, ...requestOptions } = options;
   const headers = options.headers as Record<string, string> || {};
 
-  // Only cache GET requests
   const method = options.method?.toUpperCase() || 'GET';
-  if (method !== 'GET' || skipCache) {
-    return await fetchWithErrorHandling(url, options, withRetry);
+  const { cacheable = method === 'GET' } = cacheOptions;
+  if (!cacheable) {
+    return parseResponse(await fetchWithErrorHandling(url, options, withRetry, useProxy, priority));
   }
 
+  // Bodies are hashed unresolved, so vault secrets never reach the key
+  const body = method !== 'GET' && typeof options.body === 'string' ? options.body : undefined;
+  // Proxied requests may resolve server secrets and see different responses,
+  // so they never share an entry or an in-flight request with direct ones
+  const cacheKey = useProxy ? `proxy:${url}` : url;
+
   // Check cache first
-  const cachedData = apiCache.get(url, headers);
-  if (cachedData) {
-    return cachedData;
+  await apiCache.ready;
+  if (!skipCache) {
+    const cachedData = apiCache.get(cacheKey, headers, body);
+    if (cachedData) {
+      return cachedData;
+    }
   }
 
-  // Fetch with error handling and cache
-  const data = await fetchWithErrorHandling(url, options, withRetry);
-  apiCache.set(url, data, headers, ttl);
-  return data;
+  // Fetch with error handling and cache, joining a matching request in flight
+  const revalidate = () => apiCache.dedupe(
+    cacheKey,
+    headers,
+    async (sharedSignal) => {
+      const data = parseResponse(
+        await fetchWithErrorHandling(url, { ...requestOptions, signal: sharedSignal }, withRetry, useProxy, priority)
+      );
+      apiCache.set(cacheKey, data, headers, ttl, body);
+      return data;
+    },
+    signal || undefined,
+    body
+  );
+
+  const stale = staleWhileRevalidate && !skipCache ? apiCache.getStale(cacheKey, headers, body) : null;
+  if (stale) {
+    onStale?.(stale.timestamp);
+    revalidate()
+      .then(data => onRevalidate?.(data))
+      .catch(error => {
+        // The stale payload stays in place; the next refresh will try again
+        if (!isAbortError(error)) {
+          onRevalidateError?.(error && typeof error === 'object' && 'type' in error
+            ? error as ApiError
+            : ApiErrorHandler.parseError(error));
+        }
+      });
+    return stale.data;
+  }
+
+  return await revalidate();
 }
 
 async function fetchWithErrorHandling(
   url: string, 
   options: RequestInit, 
-  withRetry: boolean
+  withRetry: boolean,
+  useProxy: boolean = false,
+  priority: RequestPriority = 'normal'
 ): Promise<any> {
+  // Vault placeholders are substituted only here, so cache keys and the
+  // persisted widget config never contain the secret values
+  let requestUrl: string;
+  let requestOptions: RequestInit;
+  try {
+    requestUrl = credentialVault.resolve(url);
+    requestOptions = {
+      ...options,
+      headers: credentialVault.resolveHeaders(options.headers as Record<string, string>),
+      ...(typeof options.body === 'string' && { body: credentialVault.resolve(options.body) }),
+    };
+  } catch (error) {
+    if (error instanceof VaultError) {
+      throw toVaultApiError(error);
+    }
+    throw error;
+  }
+
   const apiCall = async () => {
-    const response = await fetch(url, options);
+    // Every attempt, retries included, spends from the host's budget
+    await rateLimiter.acquire(requestUrl, { priority, signal: requestOptions.signal || undefined });
+
+    // Proxied requests are forwarded server-side; the proxy mirrors the
+    // upstream status and body so the handling below stays the same
+    const response = useProxy
+      ? await fetch(PROXY_ENDPOINT, buildProxyRequest(requestUrl, requestOptions))
+      : await fetch(requestUrl, requestOptions);
+    rateLimiter.observe(requestUrl, response.headers, response.status);
     
     if (!response.ok) {
       // Create a mock error object that matches axios structure for our error handler
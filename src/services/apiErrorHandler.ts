@@ -42,6 +42,18 @@ export class ApiErrorHandler {
           };
         }
         
+        // Alpha Vantage daily quota message
+        if (typeof data.Information === 'string' && data.Information.includes('rate limit')) {
+          return {
+            type: 'rate_limit',
+            message: 'API rate limit exceeded. Please wait before making another request.',
+            retryAfter: 60,
+            canRetry: true,
+            statusCode: status,
+            originalError: error
+          };
+        }
+        
         // Alpha Vantage premium feature error
         if (data.Note && data.Note.includes('premium')) {
           return {
@@ -193,7 +205,8 @@ export class ApiErrorHandler {
         return `Rate limit exceeded. ${error.retryAfter ? `Please wait ${error.retryAfter} seconds before retrying.` : 'Please wait before making another request.'}`;
       
       case 'auth':
-        return 'Authentication failed. Please check your API key and permissions.';
+        // Failures raised before any request was sent (e.g. a locked credential vault) explain themselves
+        return error.statusCode ? 'Authentication failed. Please check your API key and permissions.' : error.message;
       
       case 'network':
         return 'Network connection failed. Please check your internet connection and try again.';
@@ -0,0 +1,39 @@
+export const PROXY_ENDPOINT = '/api/proxy';
+
+// Headers from the upstream response that the proxy passes back to the client
+// so ApiErrorHandler can still read rate-limit hints.
+export const FORWARDED_RESPONSE_HEADERS = [
+  'content-type',
+  'retry-after',
+  'x-ratelimit-limit',
+  'x-ratelimit-remaining',
+  'x-ratelimit-reset',
+];
+
+export interface ProxyRequest {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+// Wrap a widget request so it is sent to the proxy route instead of the
+// upstream API. The upstream status and body are mirrored back unchanged.
+export function buildProxyRequest(url: string, options: RequestInit = {}): RequestInit {
+  const payload: ProxyRequest = {
+    url,
+    method: options.method?.toUpperCase() || 'GET',
+    headers: (options.headers as Record<string, string>) || {},
+  };
+
+  if (typeof options.body === 'string') {
+    payload.body = options.body;
+  }
+
+  return {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+    signal: options.signal,
+  };
+}
@@ -1,6 +1,10 @@
-import axios from 'axios';
-import { ApiField, ApiResponse } from '@/types';
+import axios, { AxiosRequestConfig } from 'axios';
+import { ApiField, ApiResponse, TransformConfig, WidgetConfig } from '@/types';
 import { ApiErrorHandler, ApiError } from './apiErrorHandler';
+import { PROXY_ENDPOINT, ProxyRequest } from './apiProxy';
+import { credentialVault, VaultError } from './credentialVault';
+import { applyTransform } from './dataTransform';
+import { USE_FIXTURES, getProviderContext, getWidgetSymbols, resolveProvider } from './providers';
 
 export interface ApiTestResult {
   success: boolean;
@@ -13,23 +17,133 @@ export interface ApiTestResult {
   retryAfter?: number;
 }
 
+export interface ApiTestRequest {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: any;
+}
+
 export async function testApiEndpoint(
   url: string, 
   headers: Record<string, string> = {},
-  withRetry: boolean = false
+  withRetry: boolean = false,
+  useProxy: boolean = false,
+  request: { method?: string; body?: string } = {}
 ): Promise<ApiTestResult> {
-  const startTime = Date.now();
+  const method = request.method?.toUpperCase() || 'GET';
+  let requestUrl: string;
+  let requestHeaders: Record<string, string>;
+  let requestBody: string | undefined;
+  try {
+    requestUrl = credentialVault.resolve(url);
+    requestHeaders = {
+      'Content-Type': 'application/json',
+      ...credentialVault.resolveHeaders(headers),
+    };
+    requestBody = request.body !== undefined ? credentialVault.resolve(request.body) : undefined;
+  } catch (error) {
+    if (error instanceof VaultError) {
+      return { success: false, error: error.message };
+    }
+    throw error;
+  }
   
   const apiCall = async () => {
-    return await axios.get(url, {
+    if (useProxy) {
+      const payload: ProxyRequest = { url: requestUrl, method, headers: requestHeaders, body: requestBody };
+      return await axios.post(PROXY_ENDPOINT, payload, { timeout: 20000 });
+    }
+
+    return await axios.request({
+      url: requestUrl,
+      method,
+      headers: requestHeaders,
+      data: requestBody,
+      timeout: 15000, // Increased timeout for better reliability
+    });
+  };
+
+  return runApiTest(apiCall, withRetry);
+}
+
+// Execute an arbitrary request directly (used server-side by /api/test-endpoint)
+export async function testApiRequest(
+  request: ApiTestRequest,
+  timeout: number = 15000,
+  withRetry: boolean = false,
+  config: AxiosRequestConfig = {} // e.g. the server routes' address guard
+): Promise<ApiTestResult> {
+  const apiCall = async () => {
+    return await axios.request({
+      ...config,
+      url: request.url,
+      method: request.method || 'GET',
       headers: {
         'Content-Type': 'application/json',
-        ...headers,
+        ...request.headers,
       },
-      timeout: 15000, // Increased timeout for better reliability
+      data: request.body,
+      timeout,
     });
   };
 
+  return runApiTest(apiCall, withRetry);
+}
+
+// Test a provider-backed widget with its first symbol. The data is what the
+// widget will display: candles in chart mode, otherwise a list of quotes.
+export async function testProviderEndpoint(
+  config: WidgetConfig,
+  withRetry: boolean = false,
+  useProxy: boolean = false
+): Promise<ApiTestResult> {
+  const adapter = resolveProvider(config);
+  if (!adapter) {
+    return { success: false, error: 'Choose a data provider' };
+  }
+  const symbol = USE_FIXTURES ? adapter.fixtures.symbol : getWidgetSymbols(config)[0];
+  if (!symbol) {
+    return { success: false, error: 'Add a symbol to test with' };
+  }
+
+  const chart = config.displayMode === 'chart';
+  let result: ApiTestResult;
+  if (USE_FIXTURES) {
+    result = { success: true, data: chart ? adapter.fixtures.ohlc : adapter.fixtures.quote, responseTime: 0 };
+  } else {
+    const context = getProviderContext(config);
+    const request = chart
+      ? adapter.ohlcRequest(symbol, config.interval || 'daily', context)
+      : adapter.quoteRequest(symbol, context);
+    result = await testApiEndpoint(request.url, request.headers, withRetry, useProxy);
+  }
+  if (!result.success) {
+    return result;
+  }
+
+  try {
+    const data = chart ? adapter.parseOhlc(result.data) : [adapter.parseQuote(result.data, symbol)];
+    return { ...result, data, fields: extractFieldsFromResponse(data) };
+  } catch (error) {
+    const apiError = error as ApiError;
+    return {
+      success: false,
+      error: ApiErrorHandler.getErrorMessage(apiError),
+      apiError,
+      responseTime: result.responseTime,
+      canRetry: apiError.canRetry,
+      retryAfter: apiError.retryAfter,
+    };
+  }
+}
+
+async function runApiTest(
+  apiCall: () => Promise<{ data: any }>,
+  withRetry: boolean
+): Promise<ApiTestResult> {
+  const startTime = Date.now();
+
   try {
     let response;
     
@@ -81,6 +195,17 @@ export async function testApiEndpoint(
   }
 }
 
+// Fields of the rows a transform produces, so field mappings address row
+// paths rather than the raw response
+export function extractRowFields(data: any, transform?: TransformConfig): ApiField[] {
+  if (!transform) return extractFieldsFromResponse(data);
+  try {
+    return extractFieldsFromResponse(applyTransform(data, transform));
+  } catch {
+    return [];
+  }
+}
+
 function extractFieldsFromResponse(data: any, path = '', maxDepth = 3): ApiField[] {
   const fields: ApiField[] = [];
   
@@ -0,0 +1,116 @@
+import { ChartInterval } from '@/services/providers';
+
+// Range presets and down-sampling for charts that keep a full series but
+// only draw the part in view
+
+export type RangePresetId = '1D' | '5D' | '1M' | '6M' | 'YTD' | '1Y' | 'MAX';
+
+export interface RangePreset {
+  id: RangePresetId;
+  label: string;
+  interval: ChartInterval; // Bar size that gives a readable number of bars for the range
+  sessions?: number; // Trading days, counted back from the latest bar
+  days?: number; // Calendar days, counted back from the latest bar
+}
+
+export const RANGE_PRESETS: RangePreset[] = [
+  { id: '1D', label: '1D', interval: '5min', sessions: 1 },
+  { id: '5D', label: '5D', interval: '30min', sessions: 5 },
+  { id: '1M', label: '1M', interval: '60min', days: 30 },
+  { id: '6M', label: '6M', interval: 'daily', days: 182 },
+  { id: 'YTD', label: 'YTD', interval: 'daily' },
+  { id: '1Y', label: '1Y', interval: 'daily', days: 365 },
+  { id: 'MAX', label: 'Max', interval: 'weekly' },
+];
+
+export const getRangePreset = (id: RangePresetId) => RANGE_PRESETS.find(preset => preset.id === id)!;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const dayOf = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Index of the first bar inside the preset's range. Bars must be oldest
+// first; undated bars (NaN times) show the whole series.
+export function rangeStartIndex(times: number[], preset: RangePreset): number {
+  const last = times[times.length - 1];
+  if (times.length === 0 || isNaN(last) || preset.id === 'MAX') return 0;
+
+  let inRange: (time: number) => boolean;
+  if (preset.sessions) {
+    const days = new Set<string>();
+    for (let i = times.length - 1; i >= 0 && days.size <= preset.sessions; i--) {
+      if (!isNaN(times[i])) days.add(dayOf(times[i]));
+    }
+    const sessions = Array.from(days).slice(0, preset.sessions);
+    inRange = time => sessions.includes(dayOf(time));
+  } else if (preset.days) {
+    inRange = time => time >= last - preset.days! * DAY_MS;
+  } else {
+    const startOfYear = Date.UTC(new Date(last).getUTCFullYear(), 0, 1);
+    inRange = time => time >= startOfYear;
+  }
+
+  const index = times.findIndex(time => !isNaN(time) && inRange(time));
+  return index === -1 ? 0 : index;
+}
+
+// Most points a chart draws; longer ranges are down-sampled
+export const MAX_RENDER_POINTS = 400;
+
+// Largest-Triangle-Three-Buckets: keeps the points that shape the line most,
+// so peaks and troughs survive. Returns indices into `values`; nulls are
+// skipped.
+export function lttb(values: (number | null)[], threshold: number): number[] {
+  const indices = values.map((value, i) => (value === null || !isFinite(value) ? -1 : i)).filter(i => i !== -1);
+  if (threshold < 3 || indices.length <= threshold) return indices;
+
+  const y = (index: number) => values[index] as number;
+  const sampled = [indices[0]];
+  const bucketSize = (indices.length - 2) / (threshold - 2);
+  let previous = indices[0];
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+
+    // Average of the next bucket is the third corner of the triangle
+    const nextStart = end;
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, indices.length);
+    let avgX = 0;
+    let avgY = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      avgX += indices[i];
+      avgY += y(indices[i]);
+    }
+    const nextCount = nextEnd - nextStart || 1;
+    avgX /= nextCount;
+    avgY /= nextCount;
+
+    let maxArea = -1;
+    let chosen = indices[start];
+    for (let i = start; i < end; i++) {
+      const index = indices[i];
+      const area = Math.abs((previous - avgX) * (y(index) - y(previous)) - (previous - index) * (avgY - y(previous)));
+      if (area > maxArea) {
+        maxArea = area;
+        chosen = index;
+      }
+    }
+    sampled.push(chosen);
+    previous = chosen;
+  }
+
+  sampled.push(indices[indices.length - 1]);
+  return sampled;
+}
+
+// Down-samples rows holding several series, keeping every point any of the
+// series needs
+export function downsampleRows<T>(rows: T[], series: ((row: T) => number | null | undefined)[], threshold = MAX_RENDER_POINTS): T[] {
+  if (rows.length <= threshold || series.length === 0) return rows;
+  const perSeries = Math.max(3, Math.floor(threshold / series.length));
+  const keep = new Set<number>();
+  series.forEach(read => {
+    lttb(rows.map(row => read(row) ?? null), perSeries).forEach(index => keep.add(index));
+  });
+  return Array.from(keep).sort((a, b) => a - b).map(index => rows[index]);
+}
@@ -0,0 +1,112 @@
+import { ChartDataPoint } from '@/types';
+
+// Lines several symbols' candles up on one date axis so they can be plotted
+// and correlated together. Each row holds one close per symbol, keyed by the
+// symbol, or null where that symbol has no bar.
+
+export type ComparisonRow = { date: string } & Record<string, number | string | null>;
+
+export interface CorrelationPair {
+  a: string;
+  b: string;
+  value: number | null; // Null when too few bars overlap
+}
+
+export const COMPARISON_COLORS = ['#0ea5e9', '#f59e0b', '#8b5cf6', '#10b981', '#ec4899', '#f97316', '#6366f1', '#84cc16'];
+
+export const comparisonColor = (index: number) => COMPARISON_COLORS[index % COMPARISON_COLORS.length];
+
+// Sources rarely stamp the same bar identically (midnight UTC, market open,
+// exchange time), so daily and longer bars are matched by calendar day and
+// intraday bars by minute
+function dateKey(date: string, intraday: boolean): string {
+  const time = new Date(date).getTime();
+  if (isNaN(time)) return date;
+  return new Date(time).toISOString().slice(0, intraday ? 16 : 10);
+}
+
+export function alignSeries(series: Record<string, ChartDataPoint[]>, symbols: string[], intraday: boolean): ComparisonRow[] {
+  const rows = new Map<string, ComparisonRow>();
+  symbols.forEach(symbol => {
+    (series[symbol] || []).forEach(point => {
+      const key = dateKey(point.date, intraday);
+      let row = rows.get(key);
+      if (!row) {
+        row = { date: point.date };
+        symbols.forEach(s => { row![s] = null; });
+        rows.set(key, row);
+      }
+      row[symbol] = isFinite(point.close) ? point.close : null;
+    });
+  });
+  return Array.from(rows.entries())
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([, row]) => row);
+}
+
+// Percent change from each symbol's first value in the rows, so a sliced
+// window starts every line at zero
+export function rebase(rows: ComparisonRow[], symbols: string[]): ComparisonRow[] {
+  const bases: Record<string, number | undefined> = {};
+  symbols.forEach(symbol => {
+    const first = rows.find(row => typeof row[symbol] === 'number');
+    bases[symbol] = first ? first[symbol] as number : undefined;
+  });
+  return rows.map(row => {
+    const rebased: ComparisonRow = { date: row.date };
+    symbols.forEach(symbol => {
+      const value = row[symbol];
+      const base = bases[symbol];
+      rebased[symbol] = typeof value === 'number' && base ? (value / base - 1) * 100 : null;
+    });
+    return rebased;
+  });
+}
+
+export function pearson(xs: number[], ys: number[]): number | null {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 3) return null;
+  const meanX = xs.slice(0, n).reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.slice(0, n).reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+  const denominator = Math.sqrt(varianceX * varianceY);
+  return denominator === 0 ? null : covariance / denominator;
+}
+
+// Correlation of bar-to-bar returns rather than prices, which would make any
+// two trending series look related. Only bars where both symbols traded count.
+export function returnsCorrelation(rows: ComparisonRow[], a: string, b: string): number | null {
+  const returnsA: number[] = [];
+  const returnsB: number[] = [];
+  let previous: [number, number] | null = null;
+  rows.forEach(row => {
+    const x = row[a];
+    const y = row[b];
+    if (typeof x !== 'number' || typeof y !== 'number') return;
+    if (previous && previous[0] !== 0 && previous[1] !== 0) {
+      returnsA.push(x / previous[0] - 1);
+      returnsB.push(y / previous[1] - 1);
+    }
+    previous = [x, y];
+  });
+  return pearson(returnsA, returnsB);
+}
+
+export function correlationPairs(rows: ComparisonRow[], symbols: string[]): CorrelationPair[] {
+  const pairs: CorrelationPair[] = [];
+  symbols.forEach((a, i) => {
+    symbols.slice(i + 1).forEach(b => {
+      pairs.push({ a, b, value: returnsCorrelation(rows, a, b) });
+    });
+  });
+  return pairs;
+}
@@ -0,0 +1,467 @@
+import { WidgetConfig } from '@/types';
+import { ApiError } from './apiErrorHandler';
+
+// Secrets are referenced from widget URLs and headers as `{{vault:NAME}}` and
+// only substituted right before a request is sent. The vault itself lives in
+// localStorage encrypted with AES-GCM under a key derived from the user's
+// passphrase; decrypted values are only ever held in memory.
+
+export interface EncryptedVault {
+  version: 1;
+  salt: string; // base64
+  iv: string; // base64
+  ciphertext: string; // base64
+  iterations: number;
+}
+
+const STORAGE_KEY = 'finboard-vault';
+// Also matches the percent-encoded form left behind when a URL containing a
+// placeholder has been passed through `new URL()`
+const PLACEHOLDER_PATTERN = /(?:\{\{|%7B%7B)\s*vault:([A-Za-z0-9_]+)\s*(?:\}\}|%7D%7D)/gi;
+const SAFE_HEADERS = ['accept', 'accept-language', 'cache-control', 'content-type', 'user-agent'];
+const SENSITIVE_PARAM = /key|token|secret|password|passwd|auth|signature|sig$/i;
+const PBKDF2_ITERATIONS = 250000;
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): ArrayBuffer => {
+  const binary = atob(value);
+  const buffer = new ArrayBuffer(binary.length);
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return buffer;
+};
+
+const randomBytes = (length: number): ArrayBuffer => {
+  const buffer = new ArrayBuffer(length);
+  window.crypto.getRandomValues(new Uint8Array(buffer));
+  return buffer;
+};
+
+// Cheap fingerprint (cyrb53) of a stored value. It outlives `lock()` so a
+// widget's literal credential can be recognised as saved without keeping the
+// value itself around
+const fingerprint = (value: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const fingerprints = (secrets: Record<string, string>): Record<string, string> =>
+  Object.fromEntries(Object.entries(secrets).map(([name, value]) => [name, fingerprint(value)]));
+
+export const toVaultPlaceholder = (name: string) => `{{vault:${name}}}`;
+
+export const toSecretName = (value: string) =>
+  value.trim().replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '').toUpperCase() || 'SECRET';
+
+export function hasVaultPlaceholder(value: string): boolean {
+  PLACEHOLDER_PATTERN.lastIndex = 0;
+  return PLACEHOLDER_PATTERN.test(value);
+}
+
+class CredentialVault {
+  private key: CryptoKey | null = null;
+  private salt: ArrayBuffer | null = null;
+  private secrets: Record<string, string> = {};
+  // Widget credentials waiting for the vault to be unlocked; memory only
+  private pending: Record<string, string> = {};
+  // Fingerprints of the values in the stored vault, kept while locked
+  private saved: Record<string, string> = {};
+  // Adopted credentials being written, and ones whose write failed; a failed
+  // value isn't tried again until the next unlock
+  private saving: Record<string, string> = {};
+  private failed: Record<string, string> = {};
+  private listeners: Set<() => void> = new Set();
+  private saveErrorListeners: Set<(name: string, error: unknown) => void> = new Set();
+
+  private get crypto(): SubtleCrypto {
+    if (typeof window === 'undefined' || !window.crypto?.subtle) {
+      throw new VaultError('WebCrypto is not available in this browser');
+    }
+    return window.crypto.subtle;
+  }
+
+  private readStored(): EncryptedVault | null {
+    if (typeof window === 'undefined') return null;
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      return raw ? JSON.parse(raw) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private async deriveKey(passphrase: string, salt: ArrayBuffer, iterations: number): Promise<CryptoKey> {
+    const material = await this.crypto.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+    return this.crypto.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.key || !this.salt) {
+      throw new VaultError('Vault is locked');
+    }
+    const iv = randomBytes(12);
+    const ciphertext = await this.crypto.encrypt(
+      { name: 'AES-GCM', iv },
+      this.key,
+      new TextEncoder().encode(JSON.stringify(this.secrets))
+    );
+    const stored: EncryptedVault = {
+      version: 1,
+      salt: toBase64(this.salt),
+      iv: toBase64(iv),
+      ciphertext: toBase64(ciphertext),
+      iterations: PBKDF2_ITERATIONS,
+    };
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  }
+
+  private reportSaveError(name: string, error: unknown): void {
+    this.saveErrorListeners.forEach(listener => listener(name, error));
+  }
+
+  // Writes `secrets` and only keeps them in memory once they are stored
+  private async commit(secrets: Record<string, string>): Promise<void> {
+    const previous = this.secrets;
+    this.secrets = secrets;
+    try {
+      await this.persist();
+    } catch (error) {
+      this.secrets = previous;
+      throw error;
+    }
+    this.saved = fingerprints(secrets);
+  }
+
+  private async savePending(): Promise<void> {
+    await this.commit({ ...this.secrets, ...this.pending });
+    this.pending = {};
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Adopted credentials that could not be written stay in their widgets
+  onSaveError(listener: (name: string, error: unknown) => void): () => void {
+    this.saveErrorListeners.add(listener);
+    return () => {
+      this.saveErrorListeners.delete(listener);
+    };
+  }
+
+  isInitialized(): boolean {
+    return this.readStored() !== null;
+  }
+
+  isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  // Creates the vault on first use, otherwise decrypts the stored one
+  async unlock(passphrase: string): Promise<void> {
+    const stored = this.readStored();
+
+    if (!stored) {
+      this.salt = randomBytes(16);
+      this.key = await this.deriveKey(passphrase, this.salt, PBKDF2_ITERATIONS);
+      this.secrets = {};
+      this.failed = {};
+      try {
+        await this.savePending();
+      } catch (error) {
+        this.key = null;
+        this.salt = null;
+        throw error;
+      }
+      this.notify();
+      return;
+    }
+
+    const salt = fromBase64(stored.salt);
+    const key = await this.deriveKey(passphrase, salt, stored.iterations || PBKDF2_ITERATIONS);
+    try {
+      const plaintext = await this.crypto.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(stored.iv) },
+        key,
+        fromBase64(stored.ciphertext)
+      );
+      this.secrets = JSON.parse(new TextDecoder().decode(plaintext));
+    } catch {
+      throw new VaultError('Incorrect passphrase');
+    }
+    this.key = key;
+    this.salt = salt;
+    this.saved = fingerprints(this.secrets);
+    this.failed = {};
+    if (Object.keys(this.pending).length > 0) {
+      await this.savePending().catch(error => {
+        Object.keys(this.pending).forEach(name => this.reportSaveError(name, error));
+      });
+    }
+    this.notify();
+  }
+
+  lock(): void {
+    this.key = null;
+    this.salt = null;
+    this.secrets = {};
+    this.notify();
+  }
+
+  listSecrets(): string[] {
+    return Object.keys(this.secrets).sort();
+  }
+
+  listPending(): string[] {
+    return Object.keys(this.pending).sort();
+  }
+
+  // Whether the stored vault holds `value` under `name`, even while locked
+  isSaved(name: string, value: string): boolean {
+    return this.saved[name] === fingerprint(value);
+  }
+
+  // Takes a credential found in a widget. It is saved right away when the
+  // vault is unlocked, otherwise kept in memory until the next unlock. A
+  // failed save is reported to `onSaveError` listeners.
+  adopt(name: string, value: string): void {
+    if (this.isSaved(name, value) || [this.pending, this.saving, this.failed].some(values => values[name] === value)) {
+      return;
+    }
+    if (!this.isUnlocked()) {
+      this.pending = { ...this.pending, [name]: value };
+      this.notify();
+      return;
+    }
+    this.saving = { ...this.saving, [name]: value };
+    this.setSecret(name, value)
+      .catch(error => {
+        this.failed = { ...this.failed, [name]: value };
+        this.reportSaveError(name, error);
+      })
+      .finally(() => {
+        const { [name]: _, ...rest } = this.saving;
+        this.saving = rest;
+      });
+  }
+
+  async setSecret(name: string, value: string): Promise<string> {
+    const secretName = toSecretName(name);
+    await this.commit({ ...this.secrets, [secretName]: value });
+    this.notify();
+    return secretName;
+  }
+
+  async deleteSecret(name: string): Promise<void> {
+    const { [name]: _, ...rest } = this.secrets;
+    await this.commit(rest);
+    this.notify();
+  }
+
+  exportEncrypted(): EncryptedVault | null {
+    return this.readStored();
+  }
+
+  // Replaces the local vault with an encrypted copy (e.g. from an export file)
+  importEncrypted(vault: EncryptedVault): void {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(vault));
+    this.saved = {};
+    this.lock();
+  }
+
+  resolve(value: string): string {
+    PLACEHOLDER_PATTERN.lastIndex = 0;
+    if (!PLACEHOLDER_PATTERN.test(value)) {
+      return value;
+    }
+    return value.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+      const secret = this.secrets[name.toUpperCase()] ?? this.pending[name.toUpperCase()];
+      if (secret === undefined) {
+        throw new VaultError(this.isUnlocked()
+          ? `Secret "${name}" is not in the credential vault`
+          : 'Unlock the credential vault to use this widget');
+      }
+      return secret;
+    });
+  }
+
+  resolveHeaders(headers: Record<string, string> = {}): Record<string, string> {
+    const resolved: Record<string, string> = {};
+    Object.entries(headers).forEach(([key, value]) => {
+      resolved[key] = this.resolve(String(value));
+    });
+    return resolved;
+  }
+}
+
+export const credentialVault = new CredentialVault();
+
+// Surface vault problems the same way as other non-retryable auth failures
+export function toVaultApiError(error: VaultError): ApiError {
+  return {
+    type: 'auth',
+    message: error.message,
+    canRetry: false,
+    originalError: error,
+  };
+}
+
+const containsPlaceholder = (value: string) =>
+  hasVaultPlaceholder(value) || /\{\{\s*secret:/i.test(value);
+
+// Replace credentials in query parameters with vault placeholders named after
+// the parameter, e.g. `?apikey=abc` -> `?apikey={{vault:APIKEY}}`
+export function redactUrl(url: string): string {
+  const queryStart = url.indexOf('?');
+  if (queryStart === -1) return url;
+
+  const hashStart = url.indexOf('#', queryStart);
+  const query = url.slice(queryStart + 1, hashStart === -1 ? undefined : hashStart);
+  const redacted = query
+    .split('&')
+    .map(pair => {
+      const [name, ...rest] = pair.split('=');
+      const value = rest.join('=');
+      if (!value || !SENSITIVE_PARAM.test(name) || containsPlaceholder(value)) {
+        return pair;
+      }
+      return `${name}=${toVaultPlaceholder(toSecretName(name))}`;
+    })
+    .join('&');
+
+  return url.slice(0, queryStart + 1) + redacted + (hashStart === -1 ? '' : url.slice(hashStart));
+}
+
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  Object.entries(headers).forEach(([key, value]) => {
+    redacted[key] = SAFE_HEADERS.includes(key.toLowerCase()) || containsPlaceholder(value)
+      ? value
+      : toVaultPlaceholder(toSecretName(key));
+  });
+  return redacted;
+}
+
+// Move a literal credential into the vault under `name`. The placeholder is
+// only returned once the vault has stored the value; until then the literal is
+// kept so it isn't lost when the vault is locked, missing or fails to save.
+export function sealValue(value: string, name: string): string {
+  if (!value || containsPlaceholder(value)) return value;
+  if (credentialVault.isSaved(name, value)) return toVaultPlaceholder(name);
+  credentialVault.adopt(name, value);
+  return value;
+}
+
+// Seal credentials in a widget's headers, with placeholders named after the
+// header and widget so widgets never share one
+export function sealHeaders(headers: Record<string, string>, scope: string): Record<string, string> {
+  const sealed: Record<string, string> = {};
+  Object.entries(headers).forEach(([key, value]) => {
+    sealed[key] = SAFE_HEADERS.includes(key.toLowerCase())
+      ? value
+      : sealValue(value, toSecretName(`${key}_${scope}`));
+  });
+  return sealed;
+}
+
+const redactValue = (name: string, value: string) =>
+  !value || !SENSITIVE_PARAM.test(name) || containsPlaceholder(value) ? value : toVaultPlaceholder(toSecretName(name));
+
+// Replace credentials in request bodies and stream messages: quoted values of
+// sensitive keys in JSON or GraphQL (`"apikey": "abc"`, `token: "abc"`) and
+// form-encoded pairs (`apikey=abc`)
+export function redactText(text: string): string {
+  return text
+    .replace(
+      /((["']?)([A-Za-z0-9_-]+)\2\s*[:=]\s*)"((?:[^"\\]|\\.)*)"/g,
+      (match, prefix: string, _quote: string, name: string, value: string) => `${prefix}"${redactValue(name, value)}"`
+    )
+    .replace(
+      /(^|[?&\s])([A-Za-z0-9_.-]+)=([^&\s"']+)/g,
+      (match, start: string, name: string, value: string) => `${start}${name}=${redactValue(name, value)}`
+    );
+}
+
+// Replace string values of sensitive keys anywhere in a JSON value
+export function redactValues(value: unknown, name = ''): unknown {
+  if (typeof value === 'string') return redactValue(name, value);
+  if (Array.isArray(value)) return value.map(item => redactValues(item, name));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValues(item, key)]));
+  }
+  return value;
+}
+
+// Strip literal credentials from a widget config before it leaves the browser
+export function redactWidgetConfig(config: WidgetConfig): WidgetConfig {
+  const stream = config.stream;
+  return {
+    ...config,
+    ...(config.apiUrl && { apiUrl: redactUrl(config.apiUrl) }),
+    ...(config.apiHeaders && { apiHeaders: redactHeaders(config.apiHeaders) }),
+    ...(config.bodyTemplate && { bodyTemplate: redactText(config.bodyTemplate) }),
+    ...(config.graphql && {
+      graphql: {
+        ...config.graphql,
+        query: redactText(config.graphql.query),
+        ...(config.graphql.variables && { variables: redactValues(config.graphql.variables) as Record<string, any> }),
+      },
+    }),
+    ...(stream && {
+      stream: {
+        ...stream,
+        url: redactUrl(stream.url),
+        ...(stream.subscribeMessage && { subscribeMessage: redactText(stream.subscribeMessage) }),
+        ...(stream.unsubscribeMessage && { unsubscribeMessage: redactText(stream.unsubscribeMessage) }),
+        ...(stream.heartbeatMessage && { heartbeatMessage: redactText(stream.heartbeatMessage) }),
+      },
+    }),
+    ...(config.apiKey && !containsPlaceholder(config.apiKey) && {
+      apiKey: toVaultPlaceholder(toSecretName(`${config.provider || 'provider'}_api_key`)),
+    }),
+  };
+}
+
+export default credentialVault;
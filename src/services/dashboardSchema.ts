@@ -0,0 +1,548 @@
+import { DashboardLayout, Widget } from '@/types';
+import { GRID_COLUMNS, toGridWidgets } from './gridLayout';
+import { EncryptedVault, redactWidgetConfig } from './credentialVault';
+
+export const EXPORT_FORMAT = 'finboard-dashboard';
+export const CURRENT_EXPORT_VERSION = 2;
+
+// Version history of the export file:
+//   1 - bare DashboardLayout JSON with no envelope (sizes in pixels or grid cells)
+//   2 - versioned envelope, widget sizes in grid cells, optional encrypted vault
+export interface DashboardExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  dashboard: DashboardLayout;
+  vault?: EncryptedVault;
+}
+
+export interface ValidationError {
+  path: string;
+  message: string;
+}
+
+export type DashboardImportResult =
+  | { success: true; dashboard: DashboardLayout; version: number; migrated: boolean; vault?: EncryptedVault }
+  | { success: false; errors: ValidationError[] };
+
+const WIDGET_TYPES: Widget['type'][] = ['table', 'card', 'chart', 'watchlist', 'gainers', 'performance', 'custom'];
+const DISPLAY_MODES = ['card', 'table', 'chart'];
+const CARD_TYPES = ['default', 'watchlist', 'market-gainers', 'performance', 'financial'];
+const CHART_TYPES = ['line', 'candlestick'];
+const COMPARE_SCALES = ['price', 'percent'];
+const ANNOTATION_TYPES = ['horizontal', 'trendline', 'fibonacci', 'rectangle', 'text'];
+const INTERVALS = ['1min', '5min', '15min', '30min', '60min', 'daily', 'weekly', 'monthly'];
+const FIELD_TYPES = ['string', 'number', 'boolean', 'date', 'currency', 'percentage'];
+const REQUEST_METHODS = ['GET', 'POST'];
+const FILTER_OPERATORS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'exists'];
+const PROVIDER_IDS = ['alphavantage', 'finnhub', 'coingecko', 'yahoo'];
+const STREAM_TYPES = ['websocket', 'sse', 'longpoll'];
+const STREAM_MERGE_MODES = ['ticks', 'rows'];
+const WATCHLIST_DENSITIES = ['compact', 'expanded'];
+const ALERT_CONDITIONS = ['above', 'below', 'crosses_above', 'crosses_below', 'change_percent', 'stale'];
+const INDICATOR_TYPES = ['sma', 'ema', 'bollinger', 'vwap', 'rsi', 'macd', 'stochastic'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const typeName = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+class Validator {
+  errors: ValidationError[] = [];
+
+  fail(path: string, message: string) {
+    this.errors.push({ path, message });
+  }
+
+  required(value: unknown, path: string, type: 'string' | 'number' | 'boolean'): boolean {
+    if (typeof value !== type || (typeof value === 'number' && !isFinite(value))) {
+      this.fail(path, `expected ${type}, got ${typeName(value)}`);
+      return false;
+    }
+    return true;
+  }
+
+  optional(value: unknown, path: string, type: 'string' | 'number' | 'boolean') {
+    if (value !== undefined) {
+      this.required(value, path, type);
+    }
+  }
+
+  oneOf(value: unknown, path: string, allowed: string[], optional = true) {
+    if (value === undefined && optional) return;
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      this.fail(path, `expected one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  // A number of at least `min`, or above it when `exclusive`
+  atLeast(value: unknown, path: string, min: number, exclusive = false) {
+    if (!this.required(value, path, 'number') || typeof value !== 'number') return;
+    if (exclusive ? value <= min : value < min) {
+      this.fail(path, `expected a number ${exclusive ? 'above' : 'of at least'} ${min}, got ${value}`);
+    }
+  }
+
+  stringRecord(value: unknown, path: string) {
+    if (value === undefined) return;
+    if (!isObject(value)) {
+      this.fail(path, `expected object, got ${typeName(value)}`);
+      return;
+    }
+    Object.entries(value).forEach(([key, v]) => this.required(v, `${path}.${key}`, 'string'));
+  }
+}
+
+function validateFieldMappings(v: Validator, value: unknown, path: string) {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    v.fail(path, `expected array, got ${typeName(value)}`);
+    return;
+  }
+  value.forEach((mapping: unknown, index) => {
+    const itemPath = `${path}[${index}]`;
+    if (!isObject(mapping)) {
+      v.fail(itemPath, `expected object, got ${typeName(mapping)}`);
+      return;
+    }
+    v.required(mapping.apiField, `${itemPath}.apiField`, 'string');
+    v.required(mapping.displayName, `${itemPath}.displayName`, 'string');
+    v.oneOf(mapping.type, `${itemPath}.type`, FIELD_TYPES, false);
+    v.optional(mapping.format, `${itemPath}.format`, 'string');
+  });
+}
+
+function validateTransform(v: Validator, value: unknown, path: string) {
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    v.fail(path, `expected object, got ${typeName(value)}`);
+    return;
+  }
+
+  v.optional(value.root, `${path}.root`, 'string');
+  if (value.explode !== undefined) {
+    if (!isObject(value.explode)) {
+      v.fail(`${path}.explode`, `expected object, got ${typeName(value.explode)}`);
+    } else {
+      v.required(value.explode.keyAs, `${path}.explode.keyAs`, 'string');
+    }
+  }
+
+  const validateList = (list: unknown, listPath: string, validateItem: (item: Record<string, unknown>, itemPath: string) => void) => {
+    if (list === undefined) return;
+    if (!Array.isArray(list)) {
+      v.fail(listPath, `expected array, got ${typeName(list)}`);
+      return;
+    }
+    list.forEach((item: unknown, index) => {
+      const itemPath = `${listPath}[${index}]`;
+      if (!isObject(item)) {
+        v.fail(itemPath, `expected object, got ${typeName(item)}`);
+        return;
+      }
+      validateItem(item, itemPath);
+    });
+  };
+
+  validateList(value.columns, `${path}.columns`, (column, itemPath) => {
+    v.required(column.name, `${itemPath}.name`, 'string');
+    v.required(column.expression, `${itemPath}.expression`, 'string');
+  });
+  validateList(value.filters, `${path}.filters`, (filter, itemPath) => {
+    v.required(filter.field, `${itemPath}.field`, 'string');
+    v.oneOf(filter.operator, `${itemPath}.operator`, FILTER_OPERATORS, false);
+    v.optional(filter.value, `${itemPath}.value`, 'string');
+  });
+}
+
+function validateIndicators(v: Validator, value: unknown, path: string) {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    v.fail(path, `expected array, got ${typeName(value)}`);
+    return;
+  }
+  value.forEach((indicator: unknown, index) => {
+    const itemPath = `${path}[${index}]`;
+    if (!isObject(indicator)) {
+      v.fail(itemPath, `expected object, got ${typeName(indicator)}`);
+      return;
+    }
+    v.required(indicator.id, `${itemPath}.id`, 'string');
+    v.oneOf(indicator.type, `${itemPath}.type`, INDICATOR_TYPES, false);
+    v.optional(indicator.color, `${itemPath}.color`, 'string');
+    if (!isObject(indicator.params)) {
+      v.fail(`${itemPath}.params`, `expected object, got ${typeName(indicator.params)}`);
+    } else {
+      Object.entries(indicator.params).forEach(([name, param]) => v.required(param, `${itemPath}.params.${name}`, 'number'));
+    }
+  });
+}
+
+function validateAnnotations(v: Validator, value: unknown, path: string) {
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    v.fail(path, `expected object, got ${typeName(value)}`);
+    return;
+  }
+  Object.entries(value).forEach(([symbol, annotations]) => {
+    const listPath = `${path}.${symbol}`;
+    if (!Array.isArray(annotations)) {
+      v.fail(listPath, `expected array, got ${typeName(annotations)}`);
+      return;
+    }
+    annotations.forEach((annotation: unknown, index) => {
+      const itemPath = `${listPath}[${index}]`;
+      if (!isObject(annotation)) {
+        v.fail(itemPath, `expected object, got ${typeName(annotation)}`);
+        return;
+      }
+      v.required(annotation.id, `${itemPath}.id`, 'string');
+      v.oneOf(annotation.type, `${itemPath}.type`, ANNOTATION_TYPES, false);
+      v.optional(annotation.text, `${itemPath}.text`, 'string');
+      v.optional(annotation.color, `${itemPath}.color`, 'string');
+      if (!Array.isArray(annotation.points)) {
+        v.fail(`${itemPath}.points`, `expected array, got ${typeName(annotation.points)}`);
+        return;
+      }
+      annotation.points.forEach((point: unknown, i: number) => {
+        const pointPath = `${itemPath}.points[${i}]`;
+        if (!isObject(point)) {
+          v.fail(pointPath, `expected object, got ${typeName(point)}`);
+          return;
+        }
+        v.required(point.date, `${pointPath}.date`, 'string');
+        v.required(point.price, `${pointPath}.price`, 'number');
+      });
+    });
+  });
+}
+
+function validateAlerts(v: Validator, value: unknown, path: string) {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    v.fail(path, `expected array, got ${typeName(value)}`);
+    return;
+  }
+  value.forEach((rule: unknown, index) => {
+    const itemPath = `${path}[${index}]`;
+    if (!isObject(rule)) {
+      v.fail(itemPath, `expected object, got ${typeName(rule)}`);
+      return;
+    }
+    v.required(rule.id, `${itemPath}.id`, 'string');
+    v.required(rule.field, `${itemPath}.field`, 'string');
+    v.oneOf(rule.condition, `${itemPath}.condition`, ALERT_CONDITIONS, false);
+    v.optional(rule.threshold, `${itemPath}.threshold`, 'number');
+    v.optional(rule.staleMinutes, `${itemPath}.staleMinutes`, 'number');
+    v.optional(rule.cooldown, `${itemPath}.cooldown`, 'number');
+    v.optional(rule.enabled, `${itemPath}.enabled`, 'boolean');
+  });
+}
+
+function validateWatchlist(v: Validator, value: unknown, path: string) {
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    v.fail(path, `expected object, got ${typeName(value)}`);
+    return;
+  }
+  if (!Array.isArray(value.lists)) {
+    v.fail(`${path}.lists`, `expected array, got ${typeName(value.lists)}`);
+  } else if (value.lists.length === 0) {
+    v.fail(`${path}.lists`, 'expected at least one list');
+  } else {
+    value.lists.forEach((list: unknown, index: number) => {
+      const itemPath = `${path}.lists[${index}]`;
+      if (!isObject(list)) {
+        v.fail(itemPath, `expected object, got ${typeName(list)}`);
+        return;
+      }
+      v.required(list.id, `${itemPath}.id`, 'string');
+      v.required(list.name, `${itemPath}.name`, 'string');
+      if (!Array.isArray(list.symbols)) {
+        v.fail(`${itemPath}.symbols`, `expected array, got ${typeName(list.symbols)}`);
+      } else {
+        list.symbols.forEach((s: unknown, i: number) => v.required(s, `${itemPath}.symbols[${i}]`, 'string'));
+      }
+    });
+  }
+  v.optional(value.activeList, `${path}.activeList`, 'string');
+  v.oneOf(value.density, `${path}.density`, WATCHLIST_DENSITIES);
+}
+
+function validateStream(v: Validator, value: unknown, path: string) {
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    v.fail(path, `expected object, got ${typeName(value)}`);
+    return;
+  }
+  v.oneOf(value.type, `${path}.type`, STREAM_TYPES, false);
+  v.required(value.url, `${path}.url`, 'string');
+  v.optional(value.subscribeMessage, `${path}.subscribeMessage`, 'string');
+  v.optional(value.unsubscribeMessage, `${path}.unsubscribeMessage`, 'string');
+  v.optional(value.heartbeatMessage, `${path}.heartbeatMessage`, 'string');
+  v.optional(value.heartbeatInterval, `${path}.heartbeatInterval`, 'number');
+  if (value.events !== undefined) {
+    if (!Array.isArray(value.events)) {
+      v.fail(`${path}.events`, `expected array, got ${typeName(value.events)}`);
+    } else {
+      value.events.forEach((event: unknown, i: number) => v.required(event, `${path}.events[${i}]`, 'string'));
+    }
+  }
+  v.optional(value.cursorPath, `${path}.cursorPath`, 'string');
+  v.optional(value.tickPath, `${path}.tickPath`, 'string');
+  v.oneOf(value.merge, `${path}.merge`, STREAM_MERGE_MODES);
+  v.optional(value.keyField, `${path}.keyField`, 'string');
+  v.stringRecord(value.fields, `${path}.fields`);
+}
+
+function validateWidgetConfig(v: Validator, config: unknown, path: string) {
+  if (!isObject(config)) {
+    v.fail(path, `expected object, got ${typeName(config)}`);
+    return;
+  }
+
+  v.optional(config.symbol, `${path}.symbol`, 'string');
+  if (config.symbols !== undefined) {
+    if (!Array.isArray(config.symbols)) {
+      v.fail(`${path}.symbols`, `expected array, got ${typeName(config.symbols)}`);
+    } else {
+      config.symbols.forEach((s: unknown, i: number) => v.required(s, `${path}.symbols[${i}]`, 'string'));
+    }
+  }
+  v.oneOf(config.interval, `${path}.interval`, INTERVALS);
+  v.oneOf(config.chartType, `${path}.chartType`, CHART_TYPES);
+  v.oneOf(config.compareScale, `${path}.compareScale`, COMPARE_SCALES);
+  v.oneOf(config.cardType, `${path}.cardType`, CARD_TYPES);
+  v.oneOf(config.displayMode, `${path}.displayMode`, DISPLAY_MODES);
+  v.optional(config.refreshInterval, `${path}.refreshInterval`, 'number');
+  v.optional(config.pageSize, `${path}.pageSize`, 'number');
+  v.optional(config.apiUrl, `${path}.apiUrl`, 'string');
+  v.oneOf(config.provider, `${path}.provider`, PROVIDER_IDS);
+  v.optional(config.apiKey, `${path}.apiKey`, 'string');
+  v.stringRecord(config.apiHeaders, `${path}.apiHeaders`);
+  v.optional(config.useProxy, `${path}.useProxy`, 'boolean');
+  v.oneOf(config.method, `${path}.method`, REQUEST_METHODS);
+  v.optional(config.bodyTemplate, `${path}.bodyTemplate`, 'string');
+  if (config.graphql !== undefined) {
+    if (!isObject(config.graphql)) {
+      v.fail(`${path}.graphql`, `expected object, got ${typeName(config.graphql)}`);
+    } else {
+      v.required(config.graphql.query, `${path}.graphql.query`, 'string');
+      if (config.graphql.variables !== undefined && !isObject(config.graphql.variables)) {
+        v.fail(`${path}.graphql.variables`, `expected object, got ${typeName(config.graphql.variables)}`);
+      }
+    }
+  }
+  v.optional(config.width, `${path}.width`, 'number');
+  v.optional(config.height, `${path}.height`, 'number');
+  v.optional(config.minWidth, `${path}.minWidth`, 'number');
+  v.optional(config.minHeight, `${path}.minHeight`, 'number');
+  validateTransform(v, config.transform, `${path}.transform`);
+  validateStream(v, config.stream, `${path}.stream`);
+  validateIndicators(v, config.indicators, `${path}.indicators`);
+  validateAnnotations(v, config.annotations, `${path}.annotations`);
+  validateAlerts(v, config.alerts, `${path}.alerts`);
+  validateWatchlist(v, config.watchlist, `${path}.watchlist`);
+  validateFieldMappings(v, config.fieldMappings, `${path}.fieldMappings`);
+  validateFieldMappings(v, config.selectedFields, `${path}.selectedFields`);
+}
+
+function validateWidget(v: Validator, widget: unknown, path: string) {
+  if (!isObject(widget)) {
+    v.fail(path, `expected object, got ${typeName(widget)}`);
+    return;
+  }
+
+  v.required(widget.id, `${path}.id`, 'string');
+  v.oneOf(widget.type, `${path}.type`, WIDGET_TYPES, false);
+  v.required(widget.title, `${path}.title`, 'string');
+
+  if (!isObject(widget.position)) {
+    v.fail(`${path}.position`, `expected object, got ${typeName(widget.position)}`);
+  } else {
+    v.atLeast(widget.position.x, `${path}.position.x`, 0);
+    v.atLeast(widget.position.y, `${path}.position.y`, 0);
+  }
+
+  if (!isObject(widget.size)) {
+    v.fail(`${path}.size`, `expected object, got ${typeName(widget.size)}`);
+  } else {
+    v.atLeast(widget.size.width, `${path}.size.width`, 0, true);
+    v.atLeast(widget.size.height, `${path}.size.height`, 0, true);
+  }
+
+  // Per-breakpoint placements, saved once the widget is moved on a narrower screen
+  if (widget.layouts !== undefined) {
+    if (!isObject(widget.layouts)) {
+      v.fail(`${path}.layouts`, `expected object, got ${typeName(widget.layouts)}`);
+    } else {
+      Object.entries(widget.layouts).forEach(([breakpoint, rect]) => {
+        const rectPath = `${path}.layouts.${breakpoint}`;
+        if (breakpoint !== 'sm' && breakpoint !== 'md') {
+          v.oneOf(breakpoint, rectPath, ['sm', 'md'], false);
+          return;
+        }
+        if (!isObject(rect)) {
+          v.fail(rectPath, `expected object, got ${typeName(rect)}`);
+          return;
+        }
+        v.atLeast(rect.x, `${rectPath}.x`, 0);
+        v.atLeast(rect.y, `${rectPath}.y`, 0);
+        v.atLeast(rect.w, `${rectPath}.w`, 0, true);
+        v.atLeast(rect.h, `${rectPath}.h`, 0, true);
+      });
+    }
+  }
+
+  validateWidgetConfig(v, widget.config, `${path}.config`);
+}
+
+export function validateDashboardLayout(layout: unknown, path = 'dashboard'): ValidationError[] {
+  const v = new Validator();
+
+  if (!isObject(layout)) {
+    v.fail(path, `expected object, got ${typeName(layout)}`);
+    return v.errors;
+  }
+
+  v.required(layout.id, `${path}.id`, 'string');
+  v.required(layout.name, `${path}.name`, 'string');
+  v.required(layout.autoRefresh, `${path}.autoRefresh`, 'boolean');
+  v.required(layout.refreshInterval, `${path}.refreshInterval`, 'number');
+  v.oneOf(layout.theme, `${path}.theme`, ['light', 'dark']);
+
+  if (!Array.isArray(layout.widgets)) {
+    v.fail(`${path}.widgets`, `expected array, got ${typeName(layout.widgets)}`);
+  } else {
+    const ids = new Set<unknown>();
+    layout.widgets.forEach((widget: unknown, index: number) => {
+      validateWidget(v, widget, `${path}.widgets[${index}]`);
+      // Widgets are looked up by id, so a repeated one would shadow the other
+      if (isObject(widget) && typeof widget.id === 'string') {
+        if (ids.has(widget.id)) {
+          v.fail(`${path}.widgets[${index}].id`, `duplicate widget id ${JSON.stringify(widget.id)}`);
+        }
+        ids.add(widget.id);
+      }
+    });
+  }
+
+  return v.errors;
+}
+
+function validateVault(value: unknown, path = 'vault'): ValidationError[] {
+  const v = new Validator();
+
+  if (!isObject(value)) {
+    v.fail(path, `expected object, got ${typeName(value)}`);
+    return v.errors;
+  }
+
+  if (value.version !== 1) {
+    v.fail(`${path}.version`, `unsupported vault version ${JSON.stringify(value.version)}`);
+  }
+  v.required(value.salt, `${path}.salt`, 'string');
+  v.required(value.iv, `${path}.iv`, 'string');
+  v.required(value.ciphertext, `${path}.ciphertext`, 'string');
+  v.required(value.iterations, `${path}.iterations`, 'number');
+  return v.errors;
+}
+
+// Each migration upgrades an export from version N to N + 1
+const migrations: Record<number, (data: unknown) => unknown> = {
+  1: (data) => {
+    const layout = isObject(data) ? data : {};
+    const widgets = (Array.isArray(layout.widgets) ? layout.widgets : []) as Widget[];
+    const usesPixels = widgets.some(w => (w?.size?.width || 0) > GRID_COLUMNS.lg);
+
+    return {
+      format: EXPORT_FORMAT,
+      version: 2,
+      exportedAt: new Date().toISOString(),
+      dashboard: {
+        ...layout,
+        id: layout.id || 'imported',
+        name: layout.name || 'Imported Dashboard',
+        autoRefresh: layout.autoRefresh ?? true,
+        refreshInterval: layout.refreshInterval || 30,
+        widgets: usesPixels ? toGridWidgets(widgets) : widgets,
+      },
+    };
+  },
+};
+
+function detectVersion(data: unknown): number {
+  if (isObject(data) && data.format === EXPORT_FORMAT) {
+    return typeof data.version === 'number' ? data.version : NaN;
+  }
+  return 1;
+}
+
+// Exports never carry literal credentials; they are replaced with vault
+// placeholders and the encrypted vault can optionally travel alongside
+export function createDashboardExport(dashboard: DashboardLayout, vault?: EncryptedVault | null): string {
+  const envelope: DashboardExport = {
+    format: EXPORT_FORMAT,
+    version: CURRENT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    dashboard: {
+      ...dashboard,
+      widgets: dashboard.widgets.map((widget) => ({
+        ...widget,
+        config: redactWidgetConfig(widget.config),
+      })),
+    },
+    ...(vault && { vault }),
+  };
+  return JSON.stringify(envelope, null, 2);
+}
+
+export function parseDashboardExport(text: string): DashboardImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return {
+      success: false,
+      errors: [{ path: '', message: `Invalid JSON: ${error instanceof Error ? error.message : 'could not parse file'}` }],
+    };
+  }
+
+  const version = detectVersion(data);
+  if (!Number.isInteger(version) || version < 1) {
+    return { success: false, errors: [{ path: 'version', message: 'missing or invalid export version' }] };
+  }
+  if (version > CURRENT_EXPORT_VERSION) {
+    return {
+      success: false,
+      errors: [{ path: 'version', message: `file version ${version} is newer than supported version ${CURRENT_EXPORT_VERSION}` }],
+    };
+  }
+
+  let migrated = data;
+  for (let v = version; v < CURRENT_EXPORT_VERSION; v++) {
+    migrated = migrations[v](migrated);
+  }
+
+  const envelope = isObject(migrated) ? migrated : {};
+  const errors = [
+    ...validateDashboardLayout(envelope.dashboard),
+    ...(envelope.vault !== undefined ? validateVault(envelope.vault) : []),
+  ];
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  return {
+    success: true,
+    dashboard: envelope.dashboard as DashboardLayout,
+    version,
+    migrated: version < CURRENT_EXPORT_VERSION,
+    vault: envelope.vault as EncryptedVault | undefined,
+  };
+}
+
+export function formatValidationError(error: ValidationError): string {
+  return error.path ? `${error.path}: ${error.message}` : error.message;
+}
@@ -0,0 +1,368 @@
+import { TransformConfig, ComputedColumn, RowFilter } from '@/types';
+
+// Declarative response transforms: pick the part of a payload that holds the
+// rows, turn keyed maps into rows, add computed columns and filter. Every
+// widget display mode works on the resulting rows.
+//
+// Selectors are a JSONPath/JMESPath subset:
+//   $                      the whole payload (optional prefix)
+//   a.b / Time Series (5min)   object keys; anything but "." and "[" is a name
+//   ['1. open'] / ["x.y"]  quoted keys for names containing dots or brackets
+//   [0] / [-1]             array index
+//   [*] / .*               every array item or object value (a projection)
+
+export type Row = Record<string, any>;
+
+export class TransformError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransformError';
+  }
+}
+
+type Segment =
+  | { kind: 'key'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' };
+
+const selectorCache: Map<string, Segment[]> = new Map();
+
+function parseSelector(selector: string): Segment[] {
+  const cached = selectorCache.get(selector);
+  if (cached) return cached;
+
+  const segments: Segment[] = [];
+  let i = selector.startsWith('$') ? 1 : 0;
+
+  const readName = () => {
+    const start = i;
+    while (i < selector.length && selector[i] !== '.' && selector[i] !== '[') i++;
+    return selector.slice(start, i).trim();
+  };
+
+  while (i < selector.length) {
+    const char = selector[i];
+
+    if (char === '.') {
+      i++;
+      const name = readName();
+      if (!name) throw new TransformError(`Empty key in selector "${selector}"`);
+      segments.push(name === '*' ? { kind: 'wildcard' } : { kind: 'key', name });
+    } else if (char === '[') {
+      const quote = selector[i + 1];
+      if (quote === "'" || quote === '"') {
+        let name = '';
+        i += 2;
+        while (i < selector.length && selector[i] !== quote) {
+          if (selector[i] === '\\' && i + 1 < selector.length) i++;
+          name += selector[i++];
+        }
+        if (selector[i + 1] !== ']') throw new TransformError(`Unclosed quoted key in selector "${selector}"`);
+        i += 2;
+        segments.push({ kind: 'key', name });
+      } else {
+        const end = selector.indexOf(']', i);
+        if (end === -1) throw new TransformError(`Unclosed "[" in selector "${selector}"`);
+        const inner = selector.slice(i + 1, end).trim();
+        i = end + 1;
+        if (inner === '*') {
+          segments.push({ kind: 'wildcard' });
+        } else if (/^-?\d+$/.test(inner)) {
+          segments.push({ kind: 'index', index: parseInt(inner, 10) });
+        } else {
+          throw new TransformError(`Unsupported "[${inner}]" in selector "${selector}"`);
+        }
+      }
+    } else {
+      // A leading bare name, as in "data.items"
+      const name = readName();
+      segments.push(name === '*' ? { kind: 'wildcard' } : { kind: 'key', name });
+    }
+  }
+
+  selectorCache.set(selector, segments);
+  return segments;
+}
+
+const isObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+function step(value: any, segment: Segment): any {
+  if (segment.kind === 'key') {
+    return value !== null && typeof value === 'object' ? value[segment.name] : undefined;
+  }
+  if (segment.kind === 'index') {
+    if (!Array.isArray(value)) return undefined;
+    return value[segment.index < 0 ? value.length + segment.index : segment.index];
+  }
+  return undefined;
+}
+
+// Evaluate a selector. Returns an array when it contains a projection,
+// otherwise the single value found (undefined if the path is missing).
+export function select(data: any, selector: string): any {
+  const segments = parseSelector(selector.trim());
+  let values: any[] = [data];
+  let projected = false;
+
+  for (const segment of segments) {
+    if (segment.kind === 'wildcard') {
+      projected = true;
+      values = values.flatMap(value =>
+        Array.isArray(value) ? value : isObject(value) ? Object.values(value) : []
+      );
+    } else {
+      values = values.map(value => step(value, segment));
+      if (projected) values = values.filter(value => value !== undefined);
+    }
+  }
+
+  return projected ? values : values[0];
+}
+
+// Read a field from a row. Exact keys win so provider names such as
+// "1. open" work without quoting.
+export function getValue(row: any, path: string): any {
+  if (!path) return undefined;
+  if (row !== null && typeof row === 'object' && Object.prototype.hasOwnProperty.call(row, path)) {
+    return row[path];
+  }
+  try {
+    return select(row, path);
+  } catch {
+    return undefined;
+  }
+}
+
+const toNumber = (value: any): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value.replace(/[,$%\s]/g, ''));
+  return NaN;
+};
+
+// Computed column expressions: arithmetic (+ - * / %, parentheses, unary
+// minus) over numbers and {field} references, e.g. "({4. close} - {1. open}) / {1. open} * 100".
+// An expression that is a single reference copies the value, turning
+// numeric text into a number.
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'field'; path: string }
+  | { type: 'op'; value: string };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const char = expression[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '{') {
+      const end = expression.indexOf('}', i);
+      if (end === -1) throw new TransformError(`Unclosed "{" in "${expression}"`);
+      tokens.push({ type: 'field', path: expression.slice(i + 1, end).trim() });
+      i = end + 1;
+    } else if (/[\d.]/.test(char)) {
+      const match = expression.slice(i).match(/^\d*\.?\d+(e[+-]?\d+)?/i);
+      if (!match) throw new TransformError(`Invalid number in "${expression}"`);
+      tokens.push({ type: 'number', value: parseFloat(match[0]) });
+      i += match[0].length;
+    } else if ('+-*/%()'.includes(char)) {
+      tokens.push({ type: 'op', value: char });
+      i++;
+    } else {
+      throw new TransformError(`Unexpected "${char}" in "${expression}"`);
+    }
+  }
+  return tokens;
+}
+
+type Evaluator = (row: Row) => any;
+
+function compileExpression(expression: string): Evaluator {
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) throw new TransformError('Expression is empty');
+
+  if (tokens.length === 1 && tokens[0].type === 'field') {
+    const path = tokens[0].path;
+    return row => {
+      const value = getValue(row, path);
+      const number = toNumber(value);
+      return typeof value === 'string' && !isNaN(number) ? number : value;
+    };
+  }
+
+  let position = 0;
+  const peek = () => tokens[position];
+  const isOp = (value: string) => peek()?.type === 'op' && (peek() as { value: string }).value === value;
+
+  const parsePrimary = (): Evaluator => {
+    const token = tokens[position++];
+    if (!token) throw new TransformError(`Unexpected end of "${expression}"`);
+    if (token.type === 'number') {
+      const value = token.value;
+      return () => value;
+    }
+    if (token.type === 'field') {
+      const path = token.path;
+      return row => toNumber(getValue(row, path));
+    }
+    if (token.value === '(') {
+      const inner = parseSum();
+      if (!isOp(')')) throw new TransformError(`Missing ")" in "${expression}"`);
+      position++;
+      return inner;
+    }
+    if (token.value === '-') {
+      const operand = parsePrimary();
+      return row => -operand(row);
+    }
+    throw new TransformError(`Unexpected "${token.value}" in "${expression}"`);
+  };
+
+  const parseProduct = (): Evaluator => {
+    let left = parsePrimary();
+    while (isOp('*') || isOp('/') || isOp('%')) {
+      const op = (tokens[position++] as { value: string }).value;
+      const l = left;
+      const r = parsePrimary();
+      left = op === '*' ? row => l(row) * r(row) : op === '/' ? row => l(row) / r(row) : row => l(row) % r(row);
+    }
+    return left;
+  };
+
+  const parseSum = (): Evaluator => {
+    let left = parseProduct();
+    while (isOp('+') || isOp('-')) {
+      const op = (tokens[position++] as { value: string }).value;
+      const l = left;
+      const r = parseProduct();
+      left = op === '+' ? row => l(row) + r(row) : row => l(row) - r(row);
+    }
+    return left;
+  };
+
+  const evaluate = parseSum();
+  const extra = tokens[position];
+  if (extra) {
+    const text = extra.type === 'field' ? `{${extra.path}}` : String(extra.value);
+    throw new TransformError(`Unexpected "${text}" in "${expression}"`);
+  }
+
+  return row => {
+    const value = evaluate(row);
+    return isFinite(value) ? value : null;
+  };
+}
+
+function compileFilter(filter: RowFilter): (row: Row) => boolean {
+  return row => {
+    const value = getValue(row, filter.field);
+    if (filter.operator === 'exists') {
+      return value !== undefined && value !== null && value !== '';
+    }
+
+    const expected = filter.value ?? '';
+    if (filter.operator === 'contains') {
+      return String(value ?? '').toLowerCase().includes(String(expected).toLowerCase());
+    }
+
+    // Compare numerically when both sides are numbers, as text otherwise
+    const a = toNumber(value);
+    const b = toNumber(expected);
+    const numeric = !isNaN(a) && !isNaN(b);
+    const comparison = numeric ? a - b : String(value ?? '').localeCompare(String(expected));
+
+    switch (filter.operator) {
+      case 'eq': return numeric ? comparison === 0 : String(value ?? '') === String(expected);
+      case 'neq': return numeric ? comparison !== 0 : String(value ?? '') !== String(expected);
+      case 'gt': return comparison > 0;
+      case 'gte': return comparison >= 0;
+      case 'lt': return comparison < 0;
+      case 'lte': return comparison <= 0;
+      default: return true;
+    }
+  };
+}
+
+function toRow(value: any): Row {
+  return isObject(value) || Array.isArray(value) ? value : { value };
+}
+
+// Run the whole pipeline: root selector, explode, computed columns, filters
+export function applyTransform(payload: any, transform: TransformConfig): Row[] {
+  let selected = transform.root?.trim() ? select(payload, transform.root) : payload;
+
+  let rows: Row[];
+  if (transform.explode && isObject(selected)) {
+    const keyAs = transform.explode.keyAs || 'key';
+    rows = Object.entries(selected).map(([key, value]) =>
+      isObject(value) ? { [keyAs]: key, ...value } : { [keyAs]: key, value }
+    );
+  } else if (Array.isArray(selected)) {
+    rows = selected.map(toRow);
+  } else if (selected === undefined || selected === null) {
+    rows = [];
+  } else {
+    rows = [toRow(selected)];
+  }
+
+  const columns = (transform.columns || []).map(column => ({
+    name: column.name,
+    evaluate: compileExpression(column.expression),
+  }));
+  if (columns.length > 0) {
+    rows = rows.map(row => {
+      // Tuple rows such as [timestamp, price] keep only their named columns
+      const isTuple = Array.isArray(row);
+      const computed: Row = isTuple ? {} : { ...row };
+      // Later columns may refer to earlier ones
+      columns.forEach(column => {
+        computed[column.name] = column.evaluate(isTuple ? Object.assign([...row], computed) : computed);
+      });
+      return computed;
+    });
+  }
+
+  const filters = (transform.filters || []).map(compileFilter);
+  if (filters.length > 0) {
+    rows = rows.filter(row => filters.every(filter => filter(row)));
+  }
+
+  return rows;
+}
+
+// First problem with a transform, for the editors; null when it is valid
+export function validateTransform(transform: TransformConfig): string | null {
+  try {
+    if (transform.root?.trim()) parseSelector(transform.root.trim());
+    (transform.columns || []).forEach((column: ComputedColumn) => {
+      if (!column.name.trim()) throw new TransformError('Every computed column needs a name');
+      compileExpression(column.expression);
+    });
+    (transform.filters || []).forEach((filter: RowFilter) => {
+      if (!filter.field.trim()) throw new TransformError('Every filter needs a field');
+    });
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid transform';
+  }
+}
+
+// When a widget has no transform of its own, a response that wraps its rows
+// in a list property ({ values: [{ datetime, open, ... }] }) is read from that
+// list. Returns undefined when the payload is already a list of rows.
+export function inferTransform(payload: any): TransformConfig | undefined {
+  if (!isObject(payload)) return undefined;
+  const listKey = Object.keys(payload).find(key =>
+    Array.isArray(payload[key]) && payload[key].length > 0 && payload[key].every(isObject)
+  );
+  return listKey ? { root: `$['${listKey.replace(/'/g, "\\'")}']` } : undefined;
+}
+
+// Rows for a payload: the configured transform, else the payload itself as a
+// list (a single object becomes one row)
+export function toRows(payload: any, transform?: TransformConfig): Row[] {
+  if (transform) return applyTransform(payload, transform);
+  if (payload === undefined || payload === null) return [];
+  return Array.isArray(payload) ? payload : [payload];
+}
@@ -0,0 +1,154 @@
+import { Widget, GridBreakpoint, GridRect } from '@/types';
+
+export const GRID_COLUMNS: Record<GridBreakpoint, number> = {
+  sm: 1,
+  md: 2,
+  lg: 3,
+};
+
+export const GRID_ROW_HEIGHT = 80; // pixels
+export const GRID_GAP = 16; // pixels
+
+const DEFAULT_MIN_ROWS = 3;
+
+export interface GridItem {
+  id: string;
+  rect: GridRect;
+  minW: number;
+  minH: number;
+}
+
+// The widest breakpoint is stored in Widget.position/size, smaller ones in
+// Widget.layouts. Missing layouts fall back to the widest one and get reflowed.
+export function getWidgetRect(widget: Widget, breakpoint: GridBreakpoint): GridRect {
+  const stored = breakpoint === 'lg' ? undefined : widget.layouts?.[breakpoint];
+  if (stored) return stored;
+
+  return {
+    x: widget.position?.x || 0,
+    y: widget.position?.y || 0,
+    w: widget.size?.width || 1,
+    h: widget.size?.height || DEFAULT_MIN_ROWS,
+  };
+}
+
+// Convert the pixel minimums from WidgetConfig into grid units for the
+// current column width
+export function getMinSize(widget: Widget, columnWidth: number): { minW: number; minH: number } {
+  const minWidth = widget.config?.minWidth;
+  const minHeight = widget.config?.minHeight;
+
+  return {
+    minW: minWidth && columnWidth > 0
+      ? Math.ceil((minWidth + GRID_GAP) / (columnWidth + GRID_GAP))
+      : 1,
+    minH: minHeight
+      ? Math.ceil((minHeight + GRID_GAP) / (GRID_ROW_HEIGHT + GRID_GAP))
+      : DEFAULT_MIN_ROWS,
+  };
+}
+
+export function collides(a: GridRect, b: GridRect): boolean {
+  return a.x < b.x + b.w && a.x + a.w > b.x && a.y < b.y + b.h && a.y + a.h > b.y;
+}
+
+export function clampRect(rect: GridRect, columns: number, minW = 1, minH = 1): GridRect {
+  const w = Math.min(columns, Math.max(minW, Math.min(rect.w, columns)));
+  const h = Math.max(minH, rect.h);
+  return {
+    x: Math.min(Math.max(0, rect.x), columns - w),
+    y: Math.max(0, rect.y),
+    w,
+    h,
+  };
+}
+
+function placeItem(rect: GridRect, placed: GridRect[]): GridRect {
+  const next = { ...rect };
+
+  // Float up as far as possible
+  while (next.y > 0 && !placed.some(p => collides({ ...next, y: next.y - 1 }, p))) {
+    next.y -= 1;
+  }
+
+  // Then push down below anything still in the way
+  let blocker = placed.find(p => collides(next, p));
+  while (blocker) {
+    next.y = blocker.y + blocker.h;
+    blocker = placed.find(p => collides(next, p));
+  }
+
+  return next;
+}
+
+// Vertically compact items so nothing overlaps. Items listed in `fixed` are
+// placed first exactly where they are and everything else flows around them.
+export function compactLayout(items: GridItem[], columns: number, fixed: string[] = []): Record<string, GridRect> {
+  const result: Record<string, GridRect> = {};
+  const placed: GridRect[] = [];
+
+  items
+    .filter(item => fixed.includes(item.id))
+    .forEach(item => {
+      const rect = clampRect(item.rect, columns, item.minW, item.minH);
+      result[item.id] = rect;
+      placed.push(rect);
+    });
+
+  items
+    .filter(item => !fixed.includes(item.id))
+    .sort((a, b) => a.rect.y - b.rect.y || a.rect.x - b.rect.x)
+    .forEach(item => {
+      const rect = placeItem(clampRect(item.rect, columns, item.minW, item.minH), placed);
+      result[item.id] = rect;
+      placed.push(rect);
+    });
+
+  return result;
+}
+
+// Preview layout for dragging or resizing one item to a new rect
+export function moveItem(items: GridItem[], id: string, rect: GridRect, columns: number): Record<string, GridRect> {
+  const target = items.find(item => item.id === id);
+  if (!target) return compactLayout(items, columns);
+
+  const moved = clampRect(rect, columns, target.minW, target.minH);
+  const updated = items.map(item => (item.id === id ? { ...item, rect: moved } : item));
+  const withTargetFixed = compactLayout(updated, columns, [id]);
+
+  // Let the moved item float up into any gap it left behind
+  return compactLayout(
+    updated.map(item => ({ ...item, rect: withTargetFixed[item.id] })),
+    columns
+  );
+}
+
+// First free slot (scanning rows top to bottom) for a new item
+export function findFreeSlot(rects: GridRect[], w: number, h: number, columns: number): { x: number; y: number } {
+  const width = Math.min(w, columns);
+  for (let y = 0; ; y++) {
+    for (let x = 0; x + width <= columns; x++) {
+      const candidate = { x, y, w: width, h };
+      if (!rects.some(r => collides(candidate, r))) {
+        return { x, y };
+      }
+    }
+  }
+}
+
+export function getLayoutHeight(rects: GridRect[]): number {
+  return rects.reduce((max, r) => Math.max(max, r.y + r.h), 0);
+}
+
+// Lay out widgets saved before the grid existed (sizes in pixels) in their
+// original order
+export function toGridWidgets(widgets: Widget[]): Widget[] {
+  const rects: GridRect[] = [];
+  return widgets.map(widget => {
+    const width = Math.min(GRID_COLUMNS.lg, Math.max(1, Math.round((widget.size?.width || 400) / 400)));
+    const height = Math.max(DEFAULT_MIN_ROWS, Math.round((widget.size?.height || 300) / (GRID_ROW_HEIGHT + GRID_GAP)));
+    const position = findFreeSlot(rects, width, height, GRID_COLUMNS.lg);
+    rects.push({ ...position, w: width, h: height });
+    return { ...widget, position, size: { width, height } };
+  });
+}
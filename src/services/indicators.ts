@@ -0,0 +1,344 @@
+import { ChartDataPoint, IndicatorConfig, IndicatorType } from '@/types';
+
+// Technical indicators computed from OHLCV candles. Every series has one
+// value per candle, null until the indicator has enough history.
+
+export type Series = (number | null)[];
+
+export function sma(values: Series, period: number): Series {
+  const out: Series = new Array(values.length).fill(null);
+  let sum = 0;
+  let count = 0;
+  values.forEach((value, i) => {
+    // A gap restarts the window
+    if (value === null) {
+      sum = 0;
+      count = 0;
+      return;
+    }
+    sum += value;
+    count++;
+    if (count > period) {
+      sum -= values[i - period] as number;
+      count = period;
+    }
+    if (count === period) out[i] = sum / period;
+  });
+  return out;
+}
+
+// Seeded with the simple average of the first `period` values
+export function ema(values: Series, period: number): Series {
+  const out: Series = new Array(values.length).fill(null);
+  const k = 2 / (period + 1);
+  let prev: number | null = null;
+  let seed = 0;
+  let count = 0;
+  values.forEach((value, i) => {
+    if (value === null) {
+      prev = null;
+      seed = 0;
+      count = 0;
+      return;
+    }
+    if (prev === null) {
+      seed += value;
+      count++;
+      if (count === period) {
+        prev = seed / period;
+        out[i] = prev;
+      }
+      return;
+    }
+    prev = value * k + prev * (1 - k);
+    out[i] = prev;
+  });
+  return out;
+}
+
+export function bollinger(values: Series, period: number, deviations: number) {
+  const middle = sma(values, period);
+  const upper: Series = new Array(values.length).fill(null);
+  const lower: Series = new Array(values.length).fill(null);
+  middle.forEach((mean, i) => {
+    if (mean === null) return;
+    const window = values.slice(i - period + 1, i + 1) as number[];
+    const variance = window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period;
+    const spread = Math.sqrt(variance) * deviations;
+    upper[i] = mean + spread;
+    lower[i] = mean - spread;
+  });
+  return { upper, middle, lower };
+}
+
+const dayOf = (date: string) => date.slice(0, 10);
+
+// Volume-weighted average of the typical price. Intraday candles start a new
+// average each session; daily and longer candles accumulate over the range.
+export function vwap(points: ChartDataPoint[]): Series {
+  const intraday = points.some((point, i) => i > 0 && dayOf(point.date) === dayOf(points[i - 1].date));
+  let priceVolume = 0;
+  let volume = 0;
+  return points.map((point, i) => {
+    if (intraday && i > 0 && dayOf(point.date) !== dayOf(points[i - 1].date)) {
+      priceVolume = 0;
+      volume = 0;
+    }
+    priceVolume += ((point.high + point.low + point.close) / 3) * point.volume;
+    volume += point.volume;
+    return volume > 0 ? priceVolume / volume : null;
+  });
+}
+
+// Wilder's relative strength index
+export function rsi(values: number[], period: number): Series {
+  const out: Series = new Array(values.length).fill(null);
+  let avgGain = 0;
+  let avgLoss = 0;
+  const strength = () => (avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss));
+  for (let i = 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    if (i <= period) {
+      avgGain += gain / period;
+      avgLoss += loss / period;
+      if (i === period) out[i] = strength();
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+      out[i] = strength();
+    }
+  }
+  return out;
+}
+
+export function macd(values: number[], fast: number, slow: number, signalPeriod: number) {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line: Series = values.map((_, i) =>
+    fastEma[i] !== null && slowEma[i] !== null ? (fastEma[i] as number) - (slowEma[i] as number) : null
+  );
+  const signal = ema(line, signalPeriod);
+  const histogram: Series = line.map((value, i) =>
+    value !== null && signal[i] !== null ? value - (signal[i] as number) : null
+  );
+  return { line, signal, histogram };
+}
+
+// Slow stochastic: %K smoothed over `smoothing` candles, %D averaged from %K
+export function stochastic(points: ChartDataPoint[], period: number, smoothing: number, signalPeriod: number) {
+  const raw: Series = points.map((point, i) => {
+    if (i < period - 1) return null;
+    const window = points.slice(i - period + 1, i + 1);
+    const highest = Math.max(...window.map(p => p.high));
+    const lowest = Math.min(...window.map(p => p.low));
+    return highest === lowest ? 50 : ((point.close - lowest) / (highest - lowest)) * 100;
+  });
+  const k = sma(raw, smoothing);
+  return { k, d: sma(k, signalPeriod) };
+}
+
+export interface IndicatorParam {
+  name: string;
+  label: string;
+  defaultValue: number;
+  min: number;
+  max: number;
+  step?: number;
+}
+
+interface IndicatorDefinition {
+  label: string;
+  shortLabel: string;
+  pane: 'price' | 'oscillator'; // Overlaid on the prices, or drawn in a pane of its own
+  params: IndicatorParam[];
+  lines: { suffix: string; label: string; kind?: 'bar'; dashed?: boolean; muted?: boolean }[];
+  domain?: [number, number];
+  guides?: number[]; // Horizontal reference levels, e.g. overbought and oversold
+  compute(points: ChartDataPoint[], params: Record<string, number>): Record<string, Series>;
+}
+
+const closes = (points: ChartDataPoint[]) => points.map(point => point.close);
+
+export const INDICATORS: Record<IndicatorType, IndicatorDefinition> = {
+  sma: {
+    label: 'Simple Moving Average',
+    shortLabel: 'SMA',
+    pane: 'price',
+    params: [{ name: 'period', label: 'Period', defaultValue: 20, min: 2, max: 200 }],
+    lines: [{ suffix: 'value', label: 'SMA' }],
+    compute: (points, { period }) => ({ value: sma(closes(points), period) }),
+  },
+  ema: {
+    label: 'Exponential Moving Average',
+    shortLabel: 'EMA',
+    pane: 'price',
+    params: [{ name: 'period', label: 'Period', defaultValue: 20, min: 2, max: 200 }],
+    lines: [{ suffix: 'value', label: 'EMA' }],
+    compute: (points, { period }) => ({ value: ema(closes(points), period) }),
+  },
+  bollinger: {
+    label: 'Bollinger Bands',
+    shortLabel: 'BB',
+    pane: 'price',
+    params: [
+      { name: 'period', label: 'Period', defaultValue: 20, min: 2, max: 200 },
+      { name: 'deviations', label: 'Std dev', defaultValue: 2, min: 0.5, max: 5, step: 0.5 },
+    ],
+    lines: [
+      { suffix: 'upper', label: 'Upper' },
+      { suffix: 'middle', label: 'Middle', dashed: true },
+      { suffix: 'lower', label: 'Lower' },
+    ],
+    compute: (points, { period, deviations }) => bollinger(closes(points), period, deviations),
+  },
+  vwap: {
+    label: 'Volume Weighted Average Price',
+    shortLabel: 'VWAP',
+    pane: 'price',
+    params: [],
+    lines: [{ suffix: 'value', label: 'VWAP' }],
+    compute: (points) => ({ value: vwap(points) }),
+  },
+  rsi: {
+    label: 'Relative Strength Index',
+    shortLabel: 'RSI',
+    pane: 'oscillator',
+    params: [{ name: 'period', label: 'Period', defaultValue: 14, min: 2, max: 100 }],
+    lines: [{ suffix: 'value', label: 'RSI' }],
+    domain: [0, 100],
+    guides: [30, 70],
+    compute: (points, { period }) => ({ value: rsi(closes(points), period) }),
+  },
+  macd: {
+    label: 'MACD',
+    shortLabel: 'MACD',
+    pane: 'oscillator',
+    params: [
+      { name: 'fast', label: 'Fast', defaultValue: 12, min: 2, max: 100 },
+      { name: 'slow', label: 'Slow', defaultValue: 26, min: 2, max: 200 },
+      { name: 'signal', label: 'Signal', defaultValue: 9, min: 2, max: 100 },
+    ],
+    lines: [
+      { suffix: 'histogram', label: 'Histogram', kind: 'bar', muted: true },
+      { suffix: 'line', label: 'MACD' },
+      { suffix: 'signal', label: 'Signal', muted: true },
+    ],
+    guides: [0],
+    compute: (points, { fast, slow, signal }) => macd(closes(points), fast, slow, signal),
+  },
+  stochastic: {
+    label: 'Stochastic Oscillator',
+    shortLabel: 'Stoch',
+    pane: 'oscillator',
+    params: [
+      { name: 'period', label: '%K period', defaultValue: 14, min: 2, max: 100 },
+      { name: 'smoothing', label: '%K smoothing', defaultValue: 3, min: 1, max: 20 },
+      { name: 'signal', label: '%D period', defaultValue: 3, min: 1, max: 20 },
+    ],
+    lines: [
+      { suffix: 'k', label: '%K' },
+      { suffix: 'd', label: '%D', muted: true },
+    ],
+    domain: [0, 100],
+    guides: [20, 80],
+    compute: (points, { period, smoothing, signal }) => stochastic(points, period, smoothing, signal),
+  },
+};
+
+export const INDICATOR_TYPES = Object.keys(INDICATORS) as IndicatorType[];
+
+const COLORS = ['#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316', '#6366f1', '#84cc16'];
+
+// Stored parameters over the defaults, so indicators saved before a parameter
+// was added keep working
+export function getIndicatorParams(config: IndicatorConfig): Record<string, number> {
+  const params: Record<string, number> = {};
+  INDICATORS[config.type].params.forEach(param => {
+    const value = config.params?.[param.name];
+    params[param.name] = typeof value === 'number' && isFinite(value)
+      ? Math.min(param.max, Math.max(param.min, value))
+      : param.defaultValue;
+  });
+  return params;
+}
+
+export const describeIndicator = (config: IndicatorConfig): string => {
+  const values = Object.values(getIndicatorParams(config));
+  const { shortLabel } = INDICATORS[config.type];
+  return values.length > 0 ? `${shortLabel}(${values.join(', ')})` : shortLabel;
+};
+
+export function createIndicator(type: IndicatorType, existing: IndicatorConfig[] = []): IndicatorConfig {
+  const used = new Set(existing.map(indicator => indicator.color));
+  return {
+    id: `${type}_${Math.random().toString(36).substr(2, 6)}`,
+    type,
+    params: getIndicatorParams({ id: '', type, params: {} }),
+    color: COLORS.find(color => !used.has(color)) || COLORS[existing.length % COLORS.length],
+  };
+}
+
+export interface IndicatorSeries {
+  key: string; // Field of the chart rows holding the values
+  label: string;
+  color: string;
+  kind: 'line' | 'bar';
+  dashed?: boolean;
+}
+
+export interface IndicatorPane {
+  id: string;
+  label: string;
+  series: IndicatorSeries[];
+  domain?: [number, number];
+  guides: number[];
+}
+
+export type IndicatorRow = ChartDataPoint & Record<string, number | string | null>;
+
+export interface IndicatorResult {
+  rows: IndicatorRow[];
+  overlays: IndicatorSeries[]; // Drawn over the price series
+  panes: IndicatorPane[]; // One sub-pane per oscillator
+}
+
+const SECONDARY_COLOR = '#94a3b8';
+
+export function computeIndicators(points: ChartDataPoint[], indicators: IndicatorConfig[] = []): IndicatorResult {
+  const rows: IndicatorRow[] = points.map(point => ({ ...point }));
+  const overlays: IndicatorSeries[] = [];
+  const panes: IndicatorPane[] = [];
+
+  indicators.forEach(indicator => {
+    const definition = INDICATORS[indicator.type];
+    if (!definition) return;
+    const values = definition.compute(points, getIndicatorParams(indicator));
+    const color = indicator.color || COLORS[0];
+    const label = describeIndicator(indicator);
+
+    const series = definition.lines.map((line): IndicatorSeries => {
+      const key = `${indicator.id}_${line.suffix}`;
+      values[line.suffix].forEach((value, i) => {
+        rows[i][key] = value;
+      });
+      return {
+        key,
+        label: definition.lines.length > 1 ? `${label} ${line.label}` : label,
+        // Signal lines and histograms are muted so the main line stands out
+        color: line.muted ? SECONDARY_COLOR : color,
+        kind: line.kind || 'line',
+        dashed: line.dashed,
+      };
+    });
+
+    if (definition.pane === 'price') {
+      overlays.push(...series);
+    } else {
+      panes.push({ id: indicator.id, label, series, domain: definition.domain, guides: definition.guides || [] });
+    }
+  });
+
+  return { rows, overlays, panes };
+}
@@ -0,0 +1,80 @@
+// IndexedDB backing store for ApiCache so cached responses survive a reload.
+// Every operation is best-effort: if IndexedDB is unavailable (server render,
+// private browsing, quota errors) the cache simply stays in memory.
+
+export interface PersistedEntry {
+  key: string;
+  data: any;
+  timestamp: number;
+  expiresAt: number;
+  size: number; // bytes
+}
+
+const DB_NAME = 'finboard-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class PersistentCache {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    if (typeof indexedDB === 'undefined') {
+      this.dbPromise = Promise.resolve(null);
+      return this.dbPromise;
+    }
+
+    this.dbPromise = new Promise((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    });
+    return this.dbPromise;
+  }
+
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T | undefined> {
+    try {
+      const db = await this.open();
+      if (!db) return undefined;
+      return await promisify(operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async getAll(): Promise<PersistedEntry[]> {
+    return (await this.withStore('readonly', store => store.getAll())) || [];
+  }
+
+  async put(entry: PersistedEntry): Promise<void> {
+    await this.withStore('readwrite', store => store.put(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.withStore('readwrite', store => store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    await this.withStore('readwrite', store => store.clear());
+  }
+}
+
+export const persistentCache = new PersistentCache();
+
+export default persistentCache;
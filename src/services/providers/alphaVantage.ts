@@ -0,0 +1,106 @@
+import { ChartDataPoint } from '@/types';
+import { ProviderAdapter, ProviderContext, ChartInterval } from './types';
+import { buildUrl, isObject, providerError, sortByDate, toNumber, toProviderApiError } from './common';
+import fixtures from './fixtures/alphaVantage.json';
+
+const ORIGIN = 'https://www.alphavantage.co';
+const INTRADAY: ChartInterval[] = ['1min', '5min', '15min', '30min', '60min'];
+
+const SERIES_FUNCTIONS: Partial<Record<ChartInterval, string>> = {
+  daily: 'TIME_SERIES_DAILY',
+  weekly: 'TIME_SERIES_WEEKLY',
+  monthly: 'TIME_SERIES_MONTHLY',
+};
+
+// Alpha Vantage takes the key as a query parameter; "demo" works for IBM
+const keyParam = (context: ProviderContext) =>
+  context.apiKey ? context.apiKey : context.baseUrl ? undefined : 'demo';
+
+// Errors and quota notices arrive with a 200 status
+function checkPayload(payload: any) {
+  const message = payload?.Note || payload?.Information || payload?.['Error Message'];
+  if (message) {
+    throw toProviderApiError(payload, message);
+  }
+}
+
+const findSeriesKey = (payload: any) =>
+  isObject(payload) ? Object.keys(payload).find(key => /time series/i.test(key) && isObject(payload[key])) : undefined;
+
+export const alphaVantage: ProviderAdapter = {
+  id: 'alphavantage',
+  name: 'Alpha Vantage',
+  hosts: ['alphavantage.co'],
+  requiresKey: true,
+
+  quoteRequest: (symbol, context) => ({
+    url: buildUrl(ORIGIN, '/query', context, { function: 'GLOBAL_QUOTE', symbol, apikey: keyParam(context) }),
+  }),
+
+  parseQuote: (payload, symbol) => {
+    checkPayload(payload);
+    const quote = payload?.['Global Quote'];
+    if (!isObject(quote) || !quote['05. price']) {
+      throw providerError(`Alpha Vantage has no quote for ${symbol}`);
+    }
+    return {
+      symbol: quote['01. symbol'] || symbol,
+      name: quote['01. symbol'] || symbol,
+      price: toNumber(quote['05. price']),
+      change: toNumber(quote['09. change']),
+      changePercent: toNumber(quote['10. change percent']),
+      volume: toNumber(quote['06. volume']),
+      open: toNumber(quote['02. open']),
+      high: toNumber(quote['03. high']),
+      low: toNumber(quote['04. low']),
+      previousClose: toNumber(quote['08. previous close']),
+    };
+  },
+
+  ohlcRequest: (symbol, interval, context) => ({
+    url: buildUrl(ORIGIN, '/query', context, {
+      function: SERIES_FUNCTIONS[interval] || 'TIME_SERIES_INTRADAY',
+      symbol,
+      interval: INTRADAY.includes(interval) ? interval : undefined,
+      apikey: keyParam(context),
+    }),
+  }),
+
+  parseOhlc: (payload) => {
+    checkPayload(payload);
+    const seriesKey = findSeriesKey(payload);
+    if (!seriesKey) {
+      throw providerError('The Alpha Vantage response has no time series');
+    }
+    const points: ChartDataPoint[] = Object.entries(payload[seriesKey]).map(([date, values]: [string, any]) => ({
+      date,
+      open: toNumber(values['1. open']),
+      high: toNumber(values['2. high']),
+      low: toNumber(values['3. low']),
+      close: toNumber(values['4. close']),
+      volume: toNumber(values['5. volume']),
+    }));
+    return sortByDate(points);
+  },
+
+  isOhlcPayload: (payload) => Boolean(findSeriesKey(payload)),
+
+  searchRequest: (query, context) => ({
+    url: buildUrl(ORIGIN, '/query', context, { function: 'SYMBOL_SEARCH', keywords: query, apikey: keyParam(context) }),
+  }),
+
+  parseSearch: (payload) => {
+    checkPayload(payload);
+    return (payload?.bestMatches || []).map((match: any) => ({
+      symbol: match['1. symbol'],
+      name: match['2. name'],
+      type: match['3. type'],
+      region: match['4. region'],
+      currency: match['8. currency'],
+    }));
+  },
+
+  fixtures,
+};
+
+export default alphaVantage;
@@ -0,0 +1,135 @@
+import { ChartDataPoint } from '@/types';
+import { ProviderAdapter, ProviderContext, ChartInterval } from './types';
+import { buildUrl, isObject, providerError, toNumber } from './common';
+import fixtures from './fixtures/coinGecko.json';
+
+// CoinGecko identifies coins by id ("bitcoin"), which is what widgets store
+// as the symbol. Prices are quoted in US dollars.
+const ORIGIN = 'https://api.coingecko.com';
+const CURRENCY = 'usd';
+
+const OHLC_DAYS: Record<ChartInterval, string> = {
+  '1min': '1',
+  '5min': '1',
+  '15min': '1',
+  '30min': '1',
+  '60min': '7',
+  daily: '90',
+  weekly: '365',
+  monthly: '365',
+};
+
+// Pro keys only work against the pro host
+const headers = (context: ProviderContext): Record<string, string> | undefined => {
+  if (!context.apiKey) return undefined;
+  const isPro = context.baseUrl?.includes('pro-api.coingecko.com');
+  return { [isPro ? 'x-cg-pro-api-key' : 'x-cg-demo-api-key']: context.apiKey };
+};
+
+function checkPayload(payload: any) {
+  const message = payload?.status?.error_message || payload?.error;
+  if (typeof message === 'string') {
+    throw providerError(message, /key|plan|unauthori/i.test(message) ? 'auth' : 'unknown');
+  }
+}
+
+const isCandleList = (payload: any) =>
+  Array.isArray(payload) && payload.length > 0 && Array.isArray(payload[0]) && payload[0].length === 5;
+
+const isMarketChart = (payload: any) =>
+  isObject(payload) && Array.isArray(payload.prices) && Array.isArray(payload.prices[0]);
+
+export const coinGecko: ProviderAdapter = {
+  id: 'coingecko',
+  name: 'CoinGecko',
+  hosts: ['api.coingecko.com', 'pro-api.coingecko.com'],
+  requiresKey: false,
+
+  quoteRequest: (symbol, context) => ({
+    url: buildUrl(ORIGIN, '/api/v3/simple/price', context, {
+      ids: symbol.toLowerCase(),
+      vs_currencies: CURRENCY,
+      include_market_cap: 'true',
+      include_24hr_vol: 'true',
+      include_24hr_change: 'true',
+    }),
+    headers: headers(context),
+  }),
+
+  parseQuote: (payload, symbol) => {
+    checkPayload(payload);
+    const id = symbol.toLowerCase();
+    const quote = isObject(payload) ? payload[id] : undefined;
+    if (!isObject(quote) || quote[CURRENCY] === undefined) {
+      throw providerError(`CoinGecko has no price for ${symbol}`);
+    }
+    const price = toNumber(quote[CURRENCY]);
+    const changePercent = toNumber(quote[`${CURRENCY}_24h_change`]);
+    return {
+      symbol: id,
+      name: id,
+      price,
+      // Only the percentage is reported; derive the absolute change from it
+      change: price - price / (1 + changePercent / 100),
+      changePercent,
+      volume: toNumber(quote[`${CURRENCY}_24h_vol`]),
+      marketCap: toNumber(quote[`${CURRENCY}_market_cap`]),
+    };
+  },
+
+  ohlcRequest: (symbol, interval, context) => ({
+    url: buildUrl(ORIGIN, `/api/v3/coins/${encodeURIComponent(symbol.toLowerCase())}/ohlc`, context, {
+      vs_currency: CURRENCY,
+      days: OHLC_DAYS[interval],
+    }),
+    headers: headers(context),
+  }),
+
+  // Accepts both /ohlc candles and /market_chart price series
+  parseOhlc: (payload) => {
+    checkPayload(payload);
+    if (isCandleList(payload)) {
+      return payload.map(([timestamp, open, high, low, close]: number[]): ChartDataPoint => ({
+        date: new Date(timestamp).toISOString(),
+        open,
+        high,
+        low,
+        close,
+        volume: 0,
+      }));
+    }
+    if (isMarketChart(payload)) {
+      const volumes = new Map<number, number>(payload.total_volumes || []);
+      return payload.prices.map(([timestamp, price]: number[]): ChartDataPoint => ({
+        date: new Date(timestamp).toISOString(),
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: volumes.get(timestamp) || 0,
+      }));
+    }
+    throw providerError('The CoinGecko response has no price series');
+  },
+
+  isOhlcPayload: (payload) => isCandleList(payload) || isMarketChart(payload),
+
+  searchRequest: (query, context) => ({
+    url: buildUrl(ORIGIN, '/api/v3/search', context, { query }),
+    headers: headers(context),
+  }),
+
+  parseSearch: (payload) => {
+    checkPayload(payload);
+    return (payload?.coins || []).map((coin: any) => ({
+      symbol: coin.id,
+      name: `${coin.name} (${String(coin.symbol).toUpperCase()})`,
+      type: 'Crypto',
+      currency: CURRENCY.toUpperCase(),
+    }));
+  },
+
+  fixtures,
+};
+
+export default coinGecko;
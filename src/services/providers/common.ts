@@ -0,0 +1,53 @@
+import { ChartDataPoint } from '@/types';
+import { ApiError, ApiErrorHandler } from '../apiErrorHandler';
+import { ProviderContext } from './types';
+
+// Number from a provider field; "1.23%", "1,024" and missing values are handled
+export const toNumber = (value: any, fallback = 0): number => {
+  if (typeof value === 'number') return isFinite(value) ? value : fallback;
+  if (typeof value !== 'string') return fallback;
+  const parsed = parseFloat(value.replace(/[,%$\s]/g, ''));
+  return isFinite(parsed) ? parsed : fallback;
+};
+
+export const isObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Endpoint URL for a request. A widget's own URL contributes its host and
+// query parameters (an API key, for instance); the adapter sets the path.
+export function buildUrl(
+  defaultOrigin: string,
+  path: string,
+  context: ProviderContext,
+  params: Record<string, string | undefined>
+): string {
+  const base = context.baseUrl ? new URL(context.baseUrl) : null;
+  const url = new URL(path, base ? base.origin : defaultOrigin);
+  base?.searchParams.forEach((value, name) => url.searchParams.set(name, value));
+  Object.entries(params).forEach(([name, value]) => {
+    if (value !== undefined) url.searchParams.set(name, value);
+  });
+  // Keep {{vault:NAME}} placeholders readable rather than percent-encoded
+  return url.toString().replace(/%7B%7B(.*?)%7D%7D/gi, (_, inner: string) => `{{${decodeURIComponent(inner)}}}`);
+}
+
+// Oldest first, as the charts expect
+export const sortByDate = (points: ChartDataPoint[]): ChartDataPoint[] =>
+  points.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+// A provider reported a problem in a successful (200) response
+export function providerError(message: string, type: ApiError['type'] = 'unknown', retryAfter?: number): ApiError {
+  return {
+    type,
+    message,
+    canRetry: false,
+    ...(retryAfter !== undefined && { retryAfter }),
+  };
+}
+
+// Run a provider's error payload through the shared handler so rate limits
+// and bad keys are reported the same as HTTP failures
+export function toProviderApiError(payload: any, message: string): ApiError {
+  const parsed = ApiErrorHandler.parseError({ response: { status: 200, data: payload, headers: {} } });
+  return parsed.type === 'unknown' ? providerError(message) : parsed;
+}
@@ -0,0 +1,110 @@
+import { ChartDataPoint } from '@/types';
+import { ProviderAdapter, ProviderContext, ChartInterval } from './types';
+import { buildUrl, providerError, toNumber } from './common';
+import fixtures from './fixtures/finnhub.json';
+
+const ORIGIN = 'https://finnhub.io';
+const DAY = 24 * 60 * 60; // seconds
+
+const RESOLUTIONS: Record<ChartInterval, { resolution: string; span: number }> = {
+  '1min': { resolution: '1', span: DAY },
+  '5min': { resolution: '5', span: 5 * DAY },
+  '15min': { resolution: '15', span: 30 * DAY },
+  '30min': { resolution: '30', span: 30 * DAY },
+  '60min': { resolution: '60', span: 30 * DAY },
+  daily: { resolution: 'D', span: 365 * DAY },
+  weekly: { resolution: 'W', span: 5 * 365 * DAY },
+  monthly: { resolution: 'M', span: 10 * 365 * DAY },
+};
+
+const headers = (context: ProviderContext) =>
+  context.apiKey ? { 'X-Finnhub-Token': context.apiKey } : undefined;
+
+function checkPayload(payload: any) {
+  if (typeof payload?.error === 'string') {
+    throw providerError(payload.error, /key|token|access/i.test(payload.error) ? 'auth' : 'unknown');
+  }
+}
+
+export const finnhub: ProviderAdapter = {
+  id: 'finnhub',
+  name: 'Finnhub',
+  hosts: ['finnhub.io'],
+  requiresKey: true,
+
+  quoteRequest: (symbol, context) => ({
+    url: buildUrl(ORIGIN, '/api/v1/quote', context, { symbol }),
+    headers: headers(context),
+  }),
+
+  parseQuote: (payload, symbol) => {
+    checkPayload(payload);
+    // Unknown symbols come back as all zeroes
+    if (!payload || (!payload.c && !payload.t)) {
+      throw providerError(`Finnhub has no quote for ${symbol}`);
+    }
+    return {
+      symbol,
+      name: symbol,
+      price: toNumber(payload.c),
+      change: toNumber(payload.d),
+      changePercent: toNumber(payload.dp),
+      open: toNumber(payload.o),
+      high: toNumber(payload.h),
+      low: toNumber(payload.l),
+      previousClose: toNumber(payload.pc),
+    };
+  },
+
+  ohlcRequest: (symbol, interval, context) => {
+    const { resolution, span } = RESOLUTIONS[interval];
+    // Whole minutes keep the URL, and so the cache key, stable between refreshes
+    const to = Math.floor(Date.now() / 60000) * 60;
+    return {
+      url: buildUrl(ORIGIN, '/api/v1/stock/candle', context, {
+        symbol,
+        resolution,
+        from: String(to - span),
+        to: String(to),
+      }),
+      headers: headers(context),
+    };
+  },
+
+  parseOhlc: (payload) => {
+    checkPayload(payload);
+    if (payload?.s === 'no_data') return [];
+    if (payload?.s !== 'ok' || !Array.isArray(payload.t)) {
+      throw providerError('The Finnhub response has no candles');
+    }
+    return payload.t.map((timestamp: number, index: number): ChartDataPoint => ({
+      date: new Date(timestamp * 1000).toISOString(),
+      open: toNumber(payload.o?.[index]),
+      high: toNumber(payload.h?.[index]),
+      low: toNumber(payload.l?.[index]),
+      close: toNumber(payload.c?.[index]),
+      volume: toNumber(payload.v?.[index]),
+    }));
+  },
+
+  isOhlcPayload: (payload) =>
+    Boolean(payload) && typeof payload.s === 'string' && Array.isArray(payload.t) && Array.isArray(payload.c),
+
+  searchRequest: (query, context) => ({
+    url: buildUrl(ORIGIN, '/api/v1/search', context, { q: query }),
+    headers: headers(context),
+  }),
+
+  parseSearch: (payload) => {
+    checkPayload(payload);
+    return (payload?.result || []).map((match: any) => ({
+      symbol: match.symbol,
+      name: match.description,
+      type: match.type,
+    }));
+  },
+
+  fixtures,
+};
+
+export default finnhub;
@@ -0,0 +1,186 @@
+import { ChartDataPoint, StockData, WidgetConfig } from '@/types';
+import { cachedFetch, isAbortError, CachedFetchOptions } from '../apiCache';
+import { getValue } from '../dataTransform';
+import { ProviderAdapter, ProviderContext, ProviderId, ProviderRequest, ChartInterval, SymbolMatch } from './types';
+import { providerError, toNumber } from './common';
+import alphaVantage from './alphaVantage';
+import finnhub from './finnhub';
+import coinGecko from './coinGecko';
+import yahoo from './yahoo';
+
+export * from './types';
+
+export const PROVIDERS: ProviderAdapter[] = [alphaVantage, finnhub, coinGecko, yahoo];
+
+// Serve the recorded fixtures instead of calling the APIs, for offline
+// development and demos without keys
+export const USE_FIXTURES = process.env.NEXT_PUBLIC_FINBOARD_FIXTURES === 'true';
+
+export interface ProviderFetchOptions extends Omit<CachedFetchOptions, 'parseResponse'> {
+  signal?: AbortSignal;
+}
+
+export const getProvider = (id?: ProviderId): ProviderAdapter | undefined =>
+  PROVIDERS.find(provider => provider.id === id);
+
+// The adapter whose API a URL points at, if any
+export function detectProvider(url?: string): ProviderAdapter | undefined {
+  if (!url) return undefined;
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+  return PROVIDERS.find(provider =>
+    provider.hosts.some(providerHost => host === providerHost || host.endsWith(`.${providerHost}`))
+  );
+}
+
+// A widget's chosen provider, or the one its API URL belongs to
+export const resolveProvider = (config?: WidgetConfig): ProviderAdapter | undefined =>
+  config?.provider ? getProvider(config.provider) : detectProvider(config?.apiUrl);
+
+export const getProviderContext = (config?: WidgetConfig): ProviderContext => ({
+  baseUrl: config?.apiUrl || undefined,
+  apiKey: config?.apiKey || undefined,
+});
+
+export const getWidgetSymbols = (config?: WidgetConfig): string[] =>
+  (config?.symbols?.length ? config.symbols : config?.symbol ? [config.symbol] : [])
+    .map(symbol => symbol.trim())
+    .filter(Boolean);
+
+async function request<T>(
+  providerRequest: ProviderRequest,
+  parse: (payload: any) => T,
+  fixture: any,
+  options: ProviderFetchOptions
+): Promise<T> {
+  if (USE_FIXTURES) {
+    return parse(fixture);
+  }
+  const { signal, ...cacheOptions } = options;
+  return cachedFetch(
+    providerRequest.url,
+    { method: 'GET', headers: providerRequest.headers || {}, signal },
+    { ...cacheOptions, parseResponse: parse }
+  );
+}
+
+export function fetchQuote(
+  adapter: ProviderAdapter,
+  symbol: string,
+  context: ProviderContext,
+  options: ProviderFetchOptions = {}
+): Promise<StockData> {
+  if (USE_FIXTURES) {
+    // Fixtures hold one recorded symbol; label it as the one asked for
+    const quote = adapter.parseQuote(adapter.fixtures.quote, adapter.fixtures.symbol);
+    return Promise.resolve({ ...quote, symbol, name: symbol });
+  }
+  return request(
+    adapter.quoteRequest(symbol, context),
+    payload => adapter.parseQuote(payload, symbol),
+    adapter.fixtures.quote,
+    options
+  );
+}
+
+export const fetchOhlc = (
+  adapter: ProviderAdapter,
+  symbol: string,
+  interval: ChartInterval,
+  context: ProviderContext,
+  options: ProviderFetchOptions = {}
+): Promise<ChartDataPoint[]> =>
+  request(adapter.ohlcRequest(symbol, interval, context), adapter.parseOhlc, adapter.fixtures.ohlc, options);
+
+export async function searchSymbols(
+  adapter: ProviderAdapter,
+  query: string,
+  context: ProviderContext,
+  options: ProviderFetchOptions = {}
+): Promise<SymbolMatch[]> {
+  const matches = await request(adapter.searchRequest(query, context), adapter.parseSearch, adapter.fixtures.search, options);
+  if (!USE_FIXTURES) return matches;
+  // The recorded search is for one query; narrow it to the one asked for
+  const term = query.toLowerCase();
+  return matches.filter(match => `${match.symbol} ${match.name}`.toLowerCase().includes(term));
+}
+
+// OHLC candles for the first symbol in chart mode, otherwise a quote per
+// symbol. Symbols that fail are left out unless all of them fail.
+export async function fetchWidgetPayload(
+  config: WidgetConfig,
+  options: ProviderFetchOptions = {}
+): Promise<ChartDataPoint[] | StockData[]> {
+  const adapter = resolveProvider(config);
+  if (!adapter) {
+    throw providerError('Choose a data provider for this widget');
+  }
+  const context = getProviderContext(config);
+  const symbols = getWidgetSymbols(config);
+  if (symbols.length === 0) {
+    throw providerError(`Add a symbol to fetch from ${adapter.name}`);
+  }
+
+  if (config.displayMode === 'chart') {
+    return fetchOhlc(adapter, symbols[0], config.interval || 'daily', context, options);
+  }
+
+  // Background refreshes arrive one symbol at a time; report the whole list
+  const { onRevalidate, ...quoteOptions } = options;
+  const quotes: StockData[] = [];
+  const failures = (await Promise.all(symbols.map((symbol, index) =>
+    fetchQuote(adapter, symbol, context, {
+      ...quoteOptions,
+      onRevalidate: fresh => {
+        quotes[index] = fresh;
+        onRevalidate?.(quotes.filter(Boolean));
+      },
+    }).then(
+      quote => {
+        quotes[index] = quote;
+        return null;
+      },
+      error => error
+    )
+  ))).filter(error => error !== null);
+
+  const aborted = failures.find(isAbortError);
+  if (aborted || failures.length === symbols.length) {
+    throw aborted || failures[0];
+  }
+  return quotes.filter(Boolean);
+}
+
+// OHLC candles from a provider response fetched through a plain custom URL
+export function parseOhlcPayload(payload: any): ChartDataPoint[] | null {
+  const adapter = PROVIDERS.find(provider => provider.isOhlcPayload(payload));
+  return adapter ? adapter.parseOhlc(payload) : null;
+}
+
+const firstValue = (row: any, ...paths: string[]) =>
+  paths.map(path => getValue(row, path)).find(value => value !== undefined && value !== null && value !== '');
+
+// Quote fields from a row of an arbitrary API, for widgets that are not
+// backed by an adapter
+export function normalizeQuote(row: any, fallbackSymbol = ''): StockData {
+  const symbol = firstValue(row, 'symbol', 'ticker', 'id', 'name') ?? fallbackSymbol;
+  return {
+    symbol: String(symbol),
+    name: String(firstValue(row, 'name', 'shortName', 'description') ?? symbol),
+    price: toNumber(firstValue(row, 'price', 'current_price', 'regularMarketPrice', 'c', 'close', 'last')),
+    change: toNumber(firstValue(row, 'change', 'price_change_24h', 'regularMarketChange', 'd')),
+    changePercent: toNumber(firstValue(
+      row,
+      'changePercent',
+      'change_percent',
+      'price_change_percentage_24h',
+      'regularMarketChangePercent',
+      'dp'
+    )),
+    volume: toNumber(firstValue(row, 'volume', 'total_volume', 'regularMarketVolume', 'v')),
+  };
+}
@@ -0,0 +1,50 @@
+import { ChartDataPoint, ProviderId, StockData, WidgetConfig } from '@/types';
+
+export type { ProviderId };
+
+export type ChartInterval = NonNullable<WidgetConfig['interval']>;
+
+export interface SymbolMatch {
+  symbol: string;
+  name: string;
+  type?: string; // e.g. Equity, ETF, Crypto
+  exchange?: string;
+  region?: string;
+  currency?: string;
+}
+
+export interface ProviderRequest {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+// Where requests go and which key they carry. The key may be a vault or
+// server secret placeholder; it is resolved when the request is sent.
+export interface ProviderContext {
+  baseUrl?: string; // Overrides the adapter's default endpoint; its query parameters are kept
+  apiKey?: string;
+}
+
+// Responses recorded from the real APIs, replayed when working offline
+export interface ProviderFixtures {
+  symbol: string; // The symbol the responses were recorded for
+  quote: any;
+  ohlc: any;
+  search: any;
+}
+
+export interface ProviderAdapter {
+  id: ProviderId;
+  name: string;
+  hosts: string[]; // URLs on these hosts (or their subdomains) belong to the provider
+  requiresKey: boolean;
+  quoteRequest(symbol: string, context: ProviderContext): ProviderRequest;
+  parseQuote(payload: any, symbol: string): StockData;
+  ohlcRequest(symbol: string, interval: ChartInterval, context: ProviderContext): ProviderRequest;
+  parseOhlc(payload: any): ChartDataPoint[];
+  // Recognises this provider's OHLC responses when they arrive through a plain custom URL
+  isOhlcPayload(payload: any): boolean;
+  searchRequest(query: string, context: ProviderContext): ProviderRequest;
+  parseSearch(payload: any): SymbolMatch[];
+  fixtures: ProviderFixtures;
+}
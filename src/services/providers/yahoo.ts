@@ -0,0 +1,106 @@
+import { ChartDataPoint } from '@/types';
+import { ProviderAdapter, ChartInterval } from './types';
+import { buildUrl, isObject, providerError, toNumber } from './common';
+import fixtures from './fixtures/yahoo.json';
+
+// Yahoo Finance's public JSON endpoints, and the many mirrors and proxies
+// that expose the same quoteResponse / chart payloads
+const ORIGIN = 'https://query1.finance.yahoo.com';
+
+const RANGES: Record<ChartInterval, { interval: string; range: string }> = {
+  '1min': { interval: '1m', range: '1d' },
+  '5min': { interval: '5m', range: '5d' },
+  '15min': { interval: '15m', range: '5d' },
+  '30min': { interval: '30m', range: '1mo' },
+  '60min': { interval: '60m', range: '1mo' },
+  daily: { interval: '1d', range: '6mo' },
+  weekly: { interval: '1wk', range: '2y' },
+  monthly: { interval: '1mo', range: '5y' },
+};
+
+function checkPayload(error: any) {
+  if (error) {
+    throw providerError(error.description || error.code || 'Yahoo Finance returned an error');
+  }
+}
+
+export const yahoo: ProviderAdapter = {
+  id: 'yahoo',
+  name: 'Yahoo Finance',
+  hosts: ['finance.yahoo.com'],
+  requiresKey: false,
+
+  quoteRequest: (symbol, context) => ({
+    url: buildUrl(ORIGIN, '/v7/finance/quote', context, { symbols: symbol }),
+  }),
+
+  parseQuote: (payload, symbol) => {
+    checkPayload(payload?.quoteResponse?.error);
+    const results: any[] = payload?.quoteResponse?.result || [];
+    const quote = results.find(r => r.symbol?.toUpperCase() === symbol.toUpperCase()) || results[0];
+    if (!isObject(quote) || quote.regularMarketPrice === undefined) {
+      throw providerError(`Yahoo Finance has no quote for ${symbol}`);
+    }
+    return {
+      symbol: quote.symbol || symbol,
+      name: quote.longName || quote.shortName || quote.symbol || symbol,
+      price: toNumber(quote.regularMarketPrice),
+      change: toNumber(quote.regularMarketChange),
+      changePercent: toNumber(quote.regularMarketChangePercent),
+      volume: toNumber(quote.regularMarketVolume),
+      marketCap: quote.marketCap !== undefined ? toNumber(quote.marketCap) : undefined,
+      open: toNumber(quote.regularMarketOpen),
+      high: toNumber(quote.regularMarketDayHigh),
+      low: toNumber(quote.regularMarketDayLow),
+      previousClose: toNumber(quote.regularMarketPreviousClose),
+    };
+  },
+
+  ohlcRequest: (symbol, interval, context) => ({
+    url: buildUrl(ORIGIN, `/v8/finance/chart/${encodeURIComponent(symbol)}`, context, RANGES[interval]),
+  }),
+
+  parseOhlc: (payload) => {
+    checkPayload(payload?.chart?.error);
+    const result = payload?.chart?.result?.[0];
+    const quote = result?.indicators?.quote?.[0];
+    if (!result || !Array.isArray(result.timestamp) || !quote) {
+      return [];
+    }
+    return result.timestamp
+      .map((timestamp: number, index: number): ChartDataPoint | null =>
+        // Yahoo pads sessions with null candles
+        quote.close?.[index] === null || quote.close?.[index] === undefined
+          ? null
+          : {
+              date: new Date(timestamp * 1000).toISOString(),
+              open: toNumber(quote.open?.[index]),
+              high: toNumber(quote.high?.[index]),
+              low: toNumber(quote.low?.[index]),
+              close: toNumber(quote.close[index]),
+              volume: toNumber(quote.volume?.[index]),
+            }
+      )
+      .filter((point: ChartDataPoint | null): point is ChartDataPoint => point !== null);
+  },
+
+  isOhlcPayload: (payload) => Array.isArray(payload?.chart?.result),
+
+  searchRequest: (query, context) => ({
+    url: buildUrl(ORIGIN, '/v1/finance/search', context, { q: query, quotesCount: '10', newsCount: '0' }),
+  }),
+
+  parseSearch: (payload) =>
+    (payload?.quotes || [])
+      .filter((quote: any) => quote.symbol)
+      .map((quote: any) => ({
+        symbol: quote.symbol,
+        name: quote.longname || quote.shortname || quote.symbol,
+        type: quote.typeDisp || quote.quoteType,
+        exchange: quote.exchDisp || quote.exchange,
+      })),
+
+  fixtures,
+};
+
+export default yahoo;
@@ -0,0 +1,359 @@
+import { RateBudget } from '@/types';
+
+// Client-side request budgets per API host. Each configured host gets a
+// token bucket per minute and a count of requests per UTC day, kept in
+// localStorage so reloads and other tabs share it; requests that would exceed
+// either wait in a queue, highest priority first. Hosts also learn from X-RateLimit-*
+// and Retry-After response headers, whether or not a budget is configured.
+
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export interface HostStatus {
+  host: string;
+  perMinute?: number;
+  perDay?: number;
+  minuteRemaining?: number;
+  dayRemaining?: number;
+  serverLimit?: number;
+  serverRemaining?: number;
+  resetAt?: number; // epoch milliseconds
+  queued: number;
+}
+
+// A host started holding requests back
+export interface RateLimitEvent {
+  host: string;
+  reason: 'budget' | 'server'; // Our own budget ran out, or the server answered 429
+  resumeAt: number; // epoch milliseconds
+}
+
+export const DEFAULT_RATE_BUDGETS: RateBudget[] = [
+  { host: 'alphavantage.co', perMinute: 5, perDay: 500 },
+  { host: 'finnhub.io', perMinute: 60 },
+  { host: 'api.coingecko.com', perMinute: 30 },
+];
+
+const MINUTE = 60 * 1000;
+const USAGE_STORAGE_KEY = 'finboard-rate-usage';
+const PRIORITY_ORDER: Record<RequestPriority, number> = { high: 2, normal: 1, low: 0 };
+
+interface Bucket {
+  capacity: number;
+  tokens: number;
+  refillPerMs: number;
+  updatedAt: number;
+}
+
+interface ServerLimit {
+  limit?: number;
+  remaining: number;
+  resetAt: number;
+}
+
+interface Waiter {
+  priority: number;
+  sequence: number;
+  resolve: () => void;
+  reject: (error: any) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+interface HostState {
+  host: string;
+  budget?: RateBudget;
+  minute?: Bucket;
+  server?: ServerLimit;
+  queue: Waiter[];
+  timer: ReturnType<typeof setTimeout> | null;
+  limitedUntil?: number; // Reported as limited until then
+}
+
+const createBucket = (capacity: number, window: number): Bucket => ({
+  capacity,
+  tokens: capacity,
+  refillPerMs: capacity / window,
+  updatedAt: Date.now(),
+});
+
+const refill = (bucket: Bucket, now: number) => {
+  bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.updatedAt) * bucket.refillPerMs);
+  bucket.updatedAt = now;
+};
+
+// Requests made per UTC day and host: { '2024-01-31': { 'alphavantage.co': 42 } }
+type DailyUsage = Record<string, Record<string, number>>;
+
+const utcDay = (now: number) => new Date(now).toISOString().slice(0, 10);
+
+const nextUtcDay = (now: number) => {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+};
+
+const readUsage = (): DailyUsage => {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(window.localStorage.getItem(USAGE_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const getDailyUsage = (host: string, now: number): number => readUsage()[utcDay(now)]?.[host] ?? 0;
+
+const recordDailyUsage = (host: string, now: number) => {
+  if (typeof window === 'undefined') return;
+  const day = utcDay(now);
+  const today = readUsage()[day] || {};
+  try {
+    // Earlier days are dropped with each write
+    window.localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify({ [day]: { ...today, [host]: (today[host] ?? 0) + 1 } }));
+  } catch {
+    // Storage full or unavailable: the day's count is lost, the minute budget still applies
+  }
+};
+
+// Milliseconds until the bucket holds a whole token
+const waitFor = (bucket: Bucket | undefined) =>
+  !bucket || bucket.tokens >= 1 ? 0 : Math.ceil((1 - bucket.tokens) / bucket.refillPerMs);
+
+const readHeader = (headers: Headers | Record<string, string>, name: string): string | undefined => {
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const match = Object.keys(headers).find(key => key.toLowerCase() === name);
+  return match ? (headers as Record<string, string>)[match] : undefined;
+};
+
+// Reset headers come as either an epoch timestamp or seconds from now
+const parseReset = (value: string | undefined, now: number): number | undefined => {
+  const seconds = Number(value);
+  if (!value || !isFinite(seconds)) return undefined;
+  return seconds > 1e9 ? seconds * 1000 : now + seconds * 1000;
+};
+
+const createAbortError = () => new DOMException('The request was cancelled', 'AbortError');
+
+class RateLimiter {
+  private budgets: RateBudget[] = DEFAULT_RATE_BUDGETS;
+  private hosts: Map<string, HostState> = new Map();
+  private listeners: Set<() => void> = new Set();
+  private limitListeners: Set<(event: RateLimitEvent) => void> = new Set();
+  private sequence = 0;
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Once per stretch of limiting, however many requests wait it out
+  private reportLimit(state: HostState, reason: RateLimitEvent['reason'], resumeAt: number): void {
+    if (state.limitedUntil && state.limitedUntil > Date.now()) return;
+    state.limitedUntil = resumeAt;
+    const event: RateLimitEvent = { host: state.host, reason, resumeAt };
+    this.limitListeners.forEach(listener => listener(event));
+  }
+
+  private findBudget(hostname: string): RateBudget | undefined {
+    return this.budgets.find(b => hostname === b.host || hostname.endsWith(`.${b.host}`));
+  }
+
+  // Requests are grouped under the configured budget host when one matches
+  private getState(url: string): HostState | null {
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname;
+    } catch {
+      return null;
+    }
+
+    const budget = this.findBudget(hostname);
+    const key = budget?.host || hostname;
+    let state = this.hosts.get(key);
+    if (!state) {
+      state = { host: key, queue: [], timer: null };
+      this.hosts.set(key, state);
+      this.applyBudget(state, budget);
+    }
+    return state;
+  }
+
+  private applyBudget(state: HostState, budget: RateBudget | undefined): void {
+    state.budget = budget;
+    state.minute = budget?.perMinute
+      ? { ...createBucket(budget.perMinute, MINUTE), tokens: Math.min(budget.perMinute, state.minute?.tokens ?? budget.perMinute) }
+      : undefined;
+  }
+
+  private getDelay(state: HostState, now: number): number {
+    if (state.minute) refill(state.minute, now);
+
+    let delay = waitFor(state.minute);
+    const perDay = state.budget?.perDay;
+    if (perDay && getDailyUsage(state.host, now) >= perDay) {
+      delay = Math.max(delay, nextUtcDay(now) - now);
+    }
+    if (state.server) {
+      if (state.server.resetAt <= now) {
+        state.server = undefined;
+      } else if (state.server.remaining <= 0) {
+        delay = Math.max(delay, state.server.resetAt - now);
+      }
+    }
+    return delay;
+  }
+
+  private consume(state: HostState): void {
+    if (state.minute) state.minute.tokens -= 1;
+    if (state.budget?.perDay) recordDailyUsage(state.host, Date.now());
+    if (state.server) state.server.remaining -= 1;
+  }
+
+  private drain(state: HostState): void {
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = null;
+    }
+
+    const now = Date.now();
+    while (state.queue.length > 0) {
+      const delay = this.getDelay(state, now);
+      if (delay > 0) {
+        state.timer = setTimeout(() => this.drain(state), delay);
+        break;
+      }
+
+      const waiter = state.queue.shift()!;
+      if (waiter.signal && waiter.onAbort) {
+        waiter.signal.removeEventListener('abort', waiter.onAbort);
+      }
+      this.consume(state);
+      waiter.resolve();
+    }
+    this.notify();
+  }
+
+  configure(budgets: RateBudget[]): void {
+    this.budgets = budgets;
+    this.hosts.forEach((state, key) => {
+      const budget = this.findBudget(key);
+      // Idle hosts now covered by a broader budget start over under that host
+      if (budget && budget.host !== key && state.queue.length === 0) {
+        this.hosts.delete(key);
+        return;
+      }
+      this.applyBudget(state, budget);
+      this.drain(state);
+    });
+    this.notify();
+  }
+
+  // Wait until the request's host has budget left. Resolves immediately for
+  // hosts with no budget and no server-reported limit.
+  acquire(url: string, options: { priority?: RequestPriority; signal?: AbortSignal } = {}): Promise<void> {
+    const state = this.getState(url);
+    if (!state) return Promise.resolve();
+
+    if (options.signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    const priority = PRIORITY_ORDER[options.priority || 'normal'];
+    const now = Date.now();
+    const delay = this.getDelay(state, now);
+    const canRunNow = delay === 0
+      && !state.queue.some(w => w.priority >= priority);
+    if (canRunNow) {
+      this.consume(state);
+      this.notify();
+      return Promise.resolve();
+    }
+
+    if (delay > 0) this.reportLimit(state, 'budget', now + delay);
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { priority, sequence: this.sequence++, resolve, reject, signal: options.signal };
+
+      if (options.signal) {
+        waiter.onAbort = () => {
+          state.queue = state.queue.filter(w => w !== waiter);
+          reject(createAbortError());
+          this.notify();
+        };
+        options.signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      state.queue.push(waiter);
+      state.queue.sort((a, b) => b.priority - a.priority || a.sequence - b.sequence);
+      this.drain(state);
+    });
+  }
+
+  // Learn the host's real limits from a response
+  observe(url: string, headers: Headers | Record<string, string>, status?: number): void {
+    const state = this.getState(url);
+    if (!state) return;
+
+    const now = Date.now();
+    const remaining = Number(readHeader(headers, 'x-ratelimit-remaining'));
+    const limit = Number(readHeader(headers, 'x-ratelimit-limit'));
+    const resetAt = parseReset(readHeader(headers, 'x-ratelimit-reset'), now);
+    const retryAfter = Number(readHeader(headers, 'retry-after'));
+
+    if (status === 429) {
+      state.server = {
+        limit: isFinite(limit) ? limit : state.server?.limit,
+        remaining: 0,
+        resetAt: now + (isFinite(retryAfter) && retryAfter > 0 ? retryAfter : 60) * 1000,
+      };
+      this.reportLimit(state, 'server', state.server.resetAt);
+    } else if (readHeader(headers, 'x-ratelimit-remaining') !== undefined && isFinite(remaining)) {
+      state.server = {
+        limit: isFinite(limit) ? limit : undefined,
+        remaining,
+        resetAt: resetAt ?? now + MINUTE,
+      };
+    } else {
+      return;
+    }
+
+    this.drain(state);
+  }
+
+  getStatus(): HostStatus[] {
+    const now = Date.now();
+    return Array.from(this.hosts.entries())
+      .map(([host, state]) => {
+        this.getDelay(state, now);
+        return {
+          host,
+          perMinute: state.budget?.perMinute,
+          perDay: state.budget?.perDay,
+          minuteRemaining: state.minute ? Math.floor(state.minute.tokens) : undefined,
+          dayRemaining: state.budget?.perDay ? Math.max(0, state.budget.perDay - getDailyUsage(host, now)) : undefined,
+          serverLimit: state.server?.limit,
+          serverRemaining: state.server?.remaining,
+          resetAt: state.server?.resetAt,
+          queued: state.queue.length,
+        };
+      })
+      .filter(status => status.perMinute || status.perDay || status.serverRemaining !== undefined);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  onLimit(listener: (event: RateLimitEvent) => void): () => void {
+    this.limitListeners.add(listener);
+    return () => {
+      this.limitListeners.delete(listener);
+    };
+  }
+}
+
+export const rateLimiter = new RateLimiter();
+
+export default rateLimiter;
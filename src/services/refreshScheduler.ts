@@ -0,0 +1,155 @@
+// Drives per-widget auto refresh. Each widget runs on its own interval; due
+// widgets are spread out so a page load or returning to the tab doesn't fire
+// every request at once, and nothing runs while the tab is hidden.
+
+export interface RefreshSchedule {
+  id: string;
+  interval: number; // milliseconds
+}
+
+// Returns how long to postpone a due refresh (milliseconds), or 0 to run it now
+export type RefreshGate = (id: string, interval: number) => number;
+
+interface ScheduleEntry {
+  interval: number;
+  nextRun: number;
+}
+
+const STAGGER_DELAY = 400; // milliseconds between consecutive due refreshes
+
+class RefreshScheduler {
+  private entries: Map<string, ScheduleEntry> = new Map();
+  private tasks: Map<string, () => void> = new Map();
+  private listeners: Set<() => void> = new Set();
+  private gate: RefreshGate = () => 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private paused = false;
+
+  constructor() {
+    if (typeof document !== 'undefined') {
+      this.paused = document.visibilityState === 'hidden';
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  private handleVisibilityChange = () => {
+    this.paused = document.visibilityState === 'hidden';
+    // Overdue widgets run (staggered) as soon as the tab is visible again
+    this.arm();
+    this.notify();
+  };
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private arm(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.paused || this.entries.size === 0) return;
+
+    const next = Math.min(...Array.from(this.entries.values()).map(e => e.nextRun));
+    if (!isFinite(next)) return;
+    this.timer = setTimeout(() => this.tick(), Math.max(0, next - Date.now()));
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const due = Array.from(this.entries.entries())
+      .filter(([, entry]) => entry.nextRun <= now)
+      .sort((a, b) => a[1].nextRun - b[1].nextRun);
+
+    let dispatched = 0;
+    due.forEach(([id, entry]) => {
+      const postpone = this.gate(id, entry.interval);
+      if (postpone > 0) {
+        entry.nextRun = now + postpone;
+        return;
+      }
+
+      // Only one request per tick; the rest queue up behind it
+      if (dispatched > 0) {
+        entry.nextRun = now + dispatched * STAGGER_DELAY;
+        dispatched++;
+        return;
+      }
+
+      this.tasks.get(id)?.();
+      entry.nextRun = now + entry.interval;
+      dispatched++;
+    });
+
+    this.arm();
+    this.notify();
+  }
+
+  // Replace the scheduled widgets. Widgets whose interval is unchanged keep
+  // their next-run time; new or changed ones start a fresh interval.
+  sync(schedules: RefreshSchedule[], gate: RefreshGate): void {
+    const now = Date.now();
+    const next: Map<string, ScheduleEntry> = new Map();
+
+    schedules.forEach(({ id, interval }) => {
+      const existing = this.entries.get(id);
+      next.set(id, existing && existing.interval === interval
+        ? existing
+        : { interval, nextRun: now + interval });
+    });
+
+    this.entries = next;
+    this.gate = gate;
+    this.arm();
+    this.notify();
+  }
+
+  stop(): void {
+    this.entries.clear();
+    this.arm();
+    this.notify();
+  }
+
+  // Widgets register the function that reloads their data
+  register(id: string, task: () => void): () => void {
+    this.tasks.set(id, task);
+    return () => {
+      if (this.tasks.get(id) === task) {
+        this.tasks.delete(id);
+      }
+    };
+  }
+
+  // Refresh a widget immediately and restart its interval
+  runNow(id: string): void {
+    this.tasks.get(id)?.();
+
+    const entry = this.entries.get(id);
+    if (entry) {
+      entry.nextRun = Date.now() + entry.interval;
+      this.arm();
+      this.notify();
+    }
+  }
+
+  getNextRun(id: string): number | null {
+    const entry = this.entries.get(id);
+    if (!entry || this.paused || !isFinite(entry.nextRun)) return null;
+    return entry.nextRun;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const refreshScheduler = new RefreshScheduler();
+
+export default refreshScheduler;
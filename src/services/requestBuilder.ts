@@ -0,0 +1,103 @@
+import { WidgetConfig } from '@/types';
+import { ApiError } from './apiErrorHandler';
+
+// Turns a widget's request settings into the method and body to send.
+// Bodies keep their {{vault:NAME}} placeholders; those are resolved by
+// cachedFetch at send time so the cache key never contains a secret.
+
+export type RequestMethod = 'GET' | 'POST';
+
+export interface WidgetRequest {
+  method: RequestMethod;
+  body?: string;
+  // Safe to serve from the cache; false only for GraphQL mutations
+  cacheable: boolean;
+}
+
+type RequestConfig = Pick<WidgetConfig, 'method' | 'bodyTemplate' | 'graphql' | 'symbol' | 'interval'>;
+
+// Variables available inside body templates and GraphQL variables
+const TEMPLATE_VARIABLE = /\{\{\s*(symbol|interval|today)\s*\}\}/g;
+
+const templateValues = (config: RequestConfig): Record<string, string> => ({
+  symbol: config.symbol || '',
+  interval: config.interval || '',
+  today: new Date().toISOString().split('T')[0],
+});
+
+// Whether a position in a JSON text falls inside a string literal
+function isInsideJsonString(text: string, offset: number): boolean {
+  let inString = false;
+  for (let i = 0; i < offset; i++) {
+    if (inString && text[i] === '\\') {
+      i++;
+    } else if (text[i] === '"') {
+      inString = !inString;
+    }
+  }
+  return inString;
+}
+
+// Values placed inside a string of a JSON body are escaped, so a symbol
+// such as `BRK"B` can't break out of it
+export function renderBodyTemplate(template: string, config: RequestConfig = {}): string {
+  const values = templateValues(config);
+  const isJson = /^\s*[{[]/.test(template);
+  return template.replace(TEMPLATE_VARIABLE, (_, name: string, offset: number) =>
+    isJson && isInsideJsonString(template, offset) ? JSON.stringify(values[name]).slice(1, -1) : values[name]
+  );
+}
+
+// The same variables in an API URL, encoded for use in a path or query string
+export function renderUrlTemplate(url: string, config: RequestConfig = {}): string {
+  const values = templateValues(config);
+  return url.replace(TEMPLATE_VARIABLE, (_, name: string) => encodeURIComponent(values[name]));
+}
+
+// Whether the request changes with the widget's interval
+export function usesInterval(config: RequestConfig & Pick<WidgetConfig, 'apiUrl'>): boolean {
+  const templates = [config.apiUrl, config.bodyTemplate, config.graphql && JSON.stringify(config.graphql)];
+  return templates.some(template => template && /\{\{\s*interval\s*\}\}/.test(template));
+}
+
+export const isGraphqlMutation = (query: string) =>
+  /^\s*(#[^\n]*\n\s*)*mutation\b/.test(query);
+
+export function buildWidgetRequest(config: RequestConfig = {}): WidgetRequest {
+  if (config.graphql?.query.trim()) {
+    const body = JSON.stringify({
+      query: config.graphql.query,
+      ...(config.graphql.variables && { variables: config.graphql.variables }),
+    });
+    return {
+      method: 'POST',
+      body: renderBodyTemplate(body, config),
+      cacheable: !isGraphqlMutation(config.graphql.query),
+    };
+  }
+
+  if (config.method === 'POST') {
+    return {
+      method: 'POST',
+      body: config.bodyTemplate ? renderBodyTemplate(config.bodyTemplate, config) : undefined,
+      cacheable: true,
+    };
+  }
+
+  return { method: 'GET', cacheable: true };
+}
+
+// GraphQL servers report query errors with a 200 status. A response that
+// carries errors but no data is raised as an ApiError so it is not cached.
+export function assertGraphqlResponse(data: any): any {
+  if (data && Array.isArray(data.errors) && data.errors.length > 0 && data.data == null) {
+    const error: ApiError = {
+      type: 'unknown',
+      message: `GraphQL error: ${data.errors.map((e: any) => e?.message || 'Unknown error').join('; ')}`,
+      canRetry: false,
+      originalError: data.errors,
+    };
+    throw error;
+  }
+  return data;
+}
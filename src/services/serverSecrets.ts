@@ -0,0 +1,64 @@
+// Server-only helpers for resolving secret references in proxied requests.
+// Widgets store `{{secret:NAME}}` placeholders instead of raw API keys; the
+// proxy route swaps them for `FINBOARD_SECRET_<NAME>` environment variables.
+// Each secret is only sent to the hosts listed in `FINBOARD_SECRET_<NAME>_HOSTS`
+// (comma separated; `*.example.com` also matches subdomains), so a request
+// to any other host can't read it out.
+
+const SECRET_PATTERN = /\{\{\s*secret:([A-Za-z0-9_]+)\s*\}\}/g;
+const ENV_PREFIX = 'FINBOARD_SECRET_';
+const HOSTS_SUFFIX = '_HOSTS';
+
+export class MissingSecretError extends Error {
+  constructor(public secretName: string) {
+    super(`Secret "${secretName}" is not configured on the server`);
+    this.name = 'MissingSecretError';
+  }
+}
+
+export class SecretHostError extends Error {
+  constructor(public secretName: string, public host: string) {
+    super(`Secret "${secretName}" may not be sent to ${host}; add the host to ${ENV_PREFIX}${secretName.toUpperCase()}${HOSTS_SUFFIX}`);
+    this.name = 'SecretHostError';
+  }
+}
+
+export function hasSecretReference(value: string): boolean {
+  SECRET_PATTERN.lastIndex = 0;
+  return SECRET_PATTERN.test(value);
+}
+
+const hostMatches = (pattern: string, host: string) =>
+  pattern.startsWith('*.') ? host === pattern.slice(2) || host.endsWith(pattern.slice(1)) : host === pattern;
+
+export function isSecretAllowedForHost(name: string, host: string): boolean {
+  const hosts = process.env[`${ENV_PREFIX}${name.toUpperCase()}${HOSTS_SUFFIX}`];
+  if (!hosts) return false;
+  const target = host.toLowerCase();
+  return hosts
+    .split(',')
+    .map(pattern => pattern.trim().toLowerCase())
+    .some(pattern => pattern && hostMatches(pattern, target));
+}
+
+// Fills the references in a value bound for `host`
+export function resolveSecretReferences(value: string, host: string): string {
+  return value.replace(SECRET_PATTERN, (_, name: string) => {
+    const secret = process.env[`${ENV_PREFIX}${name.toUpperCase()}`];
+    if (secret === undefined) {
+      throw new MissingSecretError(name);
+    }
+    if (!isSecretAllowedForHost(name, host)) {
+      throw new SecretHostError(name, host);
+    }
+    return secret;
+  });
+}
+
+export function resolveSecretHeaders(headers: Record<string, string> = {}, host: string): Record<string, string> {
+  const resolved: Record<string, string> = {};
+  Object.entries(headers).forEach(([key, value]) => {
+    resolved[key] = resolveSecretReferences(String(value), host);
+  });
+  return resolved;
+}
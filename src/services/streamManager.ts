@@ -0,0 +1,275 @@
+import { StreamConfig } from '@/types';
+import { ApiError } from './apiErrorHandler';
+import { credentialVault, toVaultApiError, VaultError } from './credentialVault';
+import { renderBodyTemplate } from './requestBuilder';
+import { CONNECTION_LOST, Transport, TRANSPORTS } from './streamTransports';
+
+// Shared connections for live widgets over WebSockets, Server-Sent Events or
+// long polling. Widgets with the same stream settings share one connection,
+// and each symbol is subscribed once however many widgets follow it. Dropped
+// connections reconnect with backoff, resuming from the last event id and
+// resubscribing; with a heartbeat configured, a connection that goes quiet
+// for two beats is treated as dropped.
+
+export type StreamStatus = 'connecting' | 'open' | 'reconnecting' | 'error';
+
+export interface StreamState {
+  status: StreamStatus;
+  error?: ApiError; // Why the connection dropped or failed
+  attempt?: number; // Reconnect attempts since the connection was last open
+  nextAttemptAt?: number; // When the next reconnect is due
+}
+
+// A message that parsed as JSON
+export interface StreamMessage {
+  data: any;
+  event?: string; // Server-Sent Events only
+}
+
+type MessageListener = (message: StreamMessage) => void;
+
+interface Subscriber {
+  symbols: string[]; // Subscribed with the stream's subscribe message
+  onMessage: MessageListener;
+}
+
+const MIN_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+const DEFAULT_HEARTBEAT_INTERVAL = 30; // seconds
+// An unused connection stays open this long, so a widget that resubscribes
+// with new symbols doesn't reconnect
+const IDLE_CLOSE_DELAY = 5000;
+
+const streamKey = (stream: StreamConfig) => JSON.stringify(stream);
+
+class StreamConnection {
+  state: StreamState = { status: 'connecting' };
+  private transport: Transport | null = null;
+  private generation = 0; // Bumped when a transport is dropped, so its late callbacks are ignored
+  private open = false;
+  private subscribers: Set<Subscriber> = new Set();
+  private symbolCounts: Map<string, number> = new Map();
+  private attempts = 0;
+  private lastEventId: string | null = null;
+  private lastMessageAt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private stream: StreamConfig, private onStateChange: () => void) {}
+
+  get size(): number {
+    return this.subscribers.size;
+  }
+
+  add(subscriber: Subscriber): void {
+    this.subscribers.add(subscriber);
+    subscriber.symbols.forEach(symbol => {
+      const count = this.symbolCounts.get(symbol) || 0;
+      this.symbolCounts.set(symbol, count + 1);
+      if (count === 0) this.send(this.stream.subscribeMessage, symbol);
+    });
+    if (!this.transport && !this.reconnectTimer && this.state.status !== 'error') this.connect();
+  }
+
+  remove(subscriber: Subscriber): void {
+    if (!this.subscribers.delete(subscriber)) return;
+    subscriber.symbols.forEach(symbol => {
+      const count = (this.symbolCounts.get(symbol) || 1) - 1;
+      if (count > 0) {
+        this.symbolCounts.set(symbol, count);
+        return;
+      }
+      this.symbolCounts.delete(symbol);
+      this.send(this.stream.unsubscribeMessage, symbol);
+    });
+  }
+
+  // Reconnects now rather than waiting for the next attempt, or after a
+  // failure that can't be retried once the user has fixed it
+  retry(): void {
+    if (this.state.status === 'open' || this.state.status === 'connecting') return;
+    this.clearReconnect();
+    this.detach();
+    this.connect();
+  }
+
+  close(): void {
+    this.clearReconnect();
+    this.detach();
+  }
+
+  private setState(state: StreamState): void {
+    this.state = state;
+    this.onStateChange();
+  }
+
+  private connect(): void {
+    this.setState(this.attempts > 0 ? { ...this.state, status: 'reconnecting', nextAttemptAt: undefined } : { status: 'connecting' });
+    const generation = ++this.generation;
+    const current = () => this.generation === generation;
+    const transport = TRANSPORTS[this.stream.type](this.stream, {
+      onOpen: () => {
+        if (!current()) return;
+        this.open = true;
+        this.attempts = 0;
+        this.lastMessageAt = Date.now();
+        this.setState({ status: 'open' });
+        this.symbolCounts.forEach((_, symbol) => this.send(this.stream.subscribeMessage, symbol));
+        this.startHeartbeat();
+      },
+      onMessage: (data, event, id) => {
+        if (!current()) return;
+        this.lastMessageAt = Date.now();
+        if (id !== undefined) this.lastEventId = id;
+        this.dispatch(data, event);
+      },
+      onDrop: (error, retryDelay) => {
+        if (current()) this.drop(error, retryDelay);
+      },
+    }, this.lastEventId);
+    // Unless it failed straight away
+    if (current()) this.transport = transport;
+  }
+
+  private dispatch(data: string, event?: string): void {
+    const { events } = this.stream;
+    if (event && events?.length && !events.includes(event)) return;
+    let parsed: any;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      return;
+    }
+    this.subscribers.forEach(subscriber => subscriber.onMessage({ data: parsed, event }));
+  }
+
+  private send(template: string | undefined, symbol?: string): void {
+    if (!template || !this.transport || !this.open) return;
+    try {
+      this.transport.send(credentialVault.resolve(renderBodyTemplate(template, { symbol })));
+    } catch (error) {
+      if (error instanceof VaultError) this.drop(toVaultApiError(error));
+    }
+  }
+
+  private startHeartbeat(): void {
+    const { heartbeatMessage } = this.stream;
+    if (!heartbeatMessage) return;
+    const interval = (this.stream.heartbeatInterval || DEFAULT_HEARTBEAT_INTERVAL) * 1000;
+    this.heartbeatTimer = setInterval(() => {
+      // The socket may not notice a dead network for minutes
+      if (Date.now() - this.lastMessageAt > interval * 2) {
+        this.drop(CONNECTION_LOST);
+        return;
+      }
+      this.send(heartbeatMessage);
+    }, interval);
+  }
+
+  // Closes the transport without reconnecting
+  private detach(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    const transport = this.transport;
+    this.transport = null;
+    this.generation++;
+    this.open = false;
+    transport?.close();
+  }
+
+  private drop(error: ApiError, retryDelay?: number): void {
+    this.detach();
+    if (!error.canRetry) {
+      this.setState({ status: 'error', error });
+      return;
+    }
+
+    const backoff = Math.min(MAX_RECONNECT_DELAY, MIN_RECONNECT_DELAY * 2 ** this.attempts);
+    // Jittered so widgets on a restarted server don't all reconnect at once
+    const delay = Math.max(retryDelay ?? 0, (error.retryAfter ?? 0) * 1000, backoff * (0.8 + Math.random() * 0.4));
+    this.attempts++;
+    this.setState({ status: 'reconnecting', error, attempt: this.attempts, nextAttemptAt: Date.now() + delay });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private clearReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+}
+
+class StreamManager {
+  private connections: Map<string, StreamConnection> = new Map();
+  private listeners: Set<() => void> = new Set();
+
+  constructor() {
+    // Streams whose URL or messages use the vault wait for it to unlock
+    credentialVault.subscribe(() => {
+      if (credentialVault.isUnlocked()) {
+        this.connections.forEach(connection => {
+          if (connection.state.error?.type === 'auth') connection.retry();
+        });
+      }
+    });
+  }
+
+  // Delivers the stream's messages until the returned function is called.
+  // The symbols are subscribed with the stream's subscribe message.
+  subscribe(stream: StreamConfig, symbols: string[], onMessage: MessageListener): () => void {
+    if (typeof window === 'undefined') return () => {};
+
+    const key = streamKey(stream);
+    let connection = this.connections.get(key);
+    if (!connection) {
+      connection = new StreamConnection(stream, () => this.notify());
+      this.connections.set(key, connection);
+    }
+    const subscriber: Subscriber = { symbols, onMessage };
+    connection.add(subscriber);
+    this.notify();
+
+    const current = connection;
+    return () => {
+      current.remove(subscriber);
+      if (current.size > 0) return;
+      setTimeout(() => {
+        if (current.size === 0 && this.connections.get(key) === current) {
+          current.close();
+          this.connections.delete(key);
+          this.notify();
+        }
+      }, IDLE_CLOSE_DELAY);
+    };
+  }
+
+  // Reconnects a dropped or failed stream straight away
+  reconnect(stream: StreamConfig): void {
+    this.connections.get(streamKey(stream))?.retry();
+  }
+
+  // Null when no widget is using the stream
+  getState(stream: StreamConfig): StreamState | null {
+    return this.connections.get(streamKey(stream))?.state ?? null;
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const streamManager = new StreamManager();
+export default streamManager;
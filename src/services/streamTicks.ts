@@ -0,0 +1,192 @@
+import { ChartDataPoint, StreamConfig, StreamTick } from '@/types';
+import { ChartInterval } from '@/services/providers';
+import { getValue, Row } from './dataTransform';
+
+// Reads stream messages as price ticks or as rows and merges them into what a
+// widget already shows: ticks into quote rows by symbol and into the last bar
+// of a candle series, rows by appending or upserting.
+
+const DEFAULT_FIELDS = {
+  symbol: ['symbol', 's', 'ticker'],
+  price: ['price', 'p', 'last', 'c'],
+  volume: ['volume', 'v', 'size'],
+  time: ['time', 't', 'timestamp'],
+};
+
+// Row columns holding the symbol, the price to update and the previous close
+const SYMBOL_KEYS = ['symbol', 'ticker', 's'];
+const PRICE_KEYS = ['price', 'current_price', 'last', 'close', 'c', 'p'];
+const PREVIOUS_CLOSE_KEYS = ['previousClose', 'previous_close', 'pc'];
+
+const INTRADAY_MINUTES: Partial<Record<ChartInterval, number>> = {
+  '1min': 1,
+  '5min': 5,
+  '15min': 15,
+  '30min': 30,
+  '60min': 60,
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Rows kept from a stream per widget; the oldest go first
+export const MAX_STREAM_ROWS = 500;
+
+const toNumber = (value: any): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+const readField = (item: any, path: string | undefined, fallbacks: string[]) =>
+  path ? getValue(item, path) : fallbacks.map(key => item[key]).find(value => value !== undefined && value !== null);
+
+// Epoch seconds, milliseconds or nanoseconds, or a date string
+function toTime(value: any): number {
+  const number = toNumber(value);
+  if (isFinite(number)) {
+    if (number > 1e15) return Math.floor(number / 1e6);
+    return number < 1e12 ? number * 1000 : number;
+  }
+  const parsed = typeof value === 'string' ? Date.parse(value) : NaN;
+  return isNaN(parsed) ? Date.now() : parsed;
+}
+
+// Rows in a parsed message: the objects at the stream's tickPath
+export function parseStreamRows(data: any, stream: Pick<StreamConfig, 'tickPath'>): Row[] {
+  const found = stream.tickPath ? getValue(data, stream.tickPath) : data;
+  return (Array.isArray(found) ? found : [found]).filter(item => item !== null && typeof item === 'object' && !Array.isArray(item));
+}
+
+// How a widget's rows take in the stream's messages
+export const streamMergeMode = (stream: StreamConfig): 'ticks' | 'rows' =>
+  stream.merge || (stream.type === 'websocket' ? 'ticks' : 'rows');
+
+// Ticks in one parsed message. Items without a symbol and price
+// (acknowledgements, heartbeat replies) are skipped.
+export function parseTicks(data: any, stream: Pick<StreamConfig, 'tickPath' | 'fields'>): StreamTick[] {
+  const fields = stream.fields || {};
+  return parseStreamRows(data, stream).flatMap((item): StreamTick[] => {
+    const symbol = readField(item, fields.symbol, DEFAULT_FIELDS.symbol);
+    const price = toNumber(readField(item, fields.price, DEFAULT_FIELDS.price));
+    if ((typeof symbol !== 'string' && typeof symbol !== 'number') || symbol === '' || !isFinite(price)) return [];
+    const volume = toNumber(readField(item, fields.volume, DEFAULT_FIELDS.volume));
+    return [{
+      symbol: String(symbol).toUpperCase(),
+      price,
+      ...(isFinite(volume) && { volume }),
+      time: toTime(readField(item, fields.time, DEFAULT_FIELDS.time)),
+    }];
+  });
+}
+
+// Latest tick per symbol, added to those already held
+export function latestTicks(current: Record<string, StreamTick>, ticks: StreamTick[]): Record<string, StreamTick> {
+  const next = { ...current };
+  ticks.forEach(tick => {
+    if (!next[tick.symbol] || next[tick.symbol].time <= tick.time) next[tick.symbol] = tick;
+  });
+  return next;
+}
+
+const symbolKeyOf = (row: Row) => SYMBOL_KEYS.find(key => typeof row[key] === 'string');
+
+// Rows with each matching symbol's price replaced by its latest tick, and the
+// change columns recomputed from the previous close. Symbols the rows don't
+// list yet are added when the rows are keyed by symbol (or there are none);
+// rows without a symbol column, such as a time series, are left alone.
+export function applyTicksToRows(rows: Row[], ticks: Record<string, StreamTick>): Row[] {
+  if (Object.keys(ticks).length === 0) return rows;
+
+  const matched = new Set<string>();
+  const merged = rows.map(row => {
+    const symbolKey = symbolKeyOf(row);
+    const tick = symbolKey ? ticks[row[symbolKey].toUpperCase()] : undefined;
+    if (!tick) return row;
+    matched.add(tick.symbol);
+
+    const priceKey = PRICE_KEYS.find(key => key in row) || 'price';
+    const next: Row = { ...row, [priceKey]: tick.price };
+    const previousClose = toNumber(PREVIOUS_CLOSE_KEYS.map(key => row[key]).find(value => value !== undefined));
+    if (isFinite(previousClose) && previousClose !== 0) {
+      if ('change' in row) next.change = tick.price - previousClose;
+      if ('changePercent' in row) next.changePercent = ((tick.price - previousClose) / previousClose) * 100;
+    }
+    return next;
+  });
+
+  if (rows.length > 0 && !rows.some(symbolKeyOf)) return merged;
+  const added = Object.values(ticks)
+    .filter(tick => !matched.has(tick.symbol))
+    .map(tick => ({
+      symbol: tick.symbol,
+      price: tick.price,
+      ...(tick.volume !== undefined && { volume: tick.volume }),
+      time: new Date(tick.time).toISOString(),
+    }));
+  return [...merged, ...added];
+}
+
+// Incoming rows added to existing ones. With a key field, a row replaces the
+// one with the same key (keeping fields the update leaves out) and new keys
+// are appended; without one every row is appended.
+export function mergeStreamRows(rows: Row[], incoming: Row[], keyField?: string): Row[] {
+  if (incoming.length === 0) return rows;
+  if (!keyField) return [...rows, ...incoming];
+
+  const merged = [...rows];
+  const positions = new Map<string, number>();
+  merged.forEach((row, index) => {
+    const key = getValue(row, keyField);
+    if (key !== undefined && key !== null) positions.set(String(key), index);
+  });
+  incoming.forEach(row => {
+    const key = getValue(row, keyField);
+    const index = key === undefined || key === null ? undefined : positions.get(String(key));
+    if (index === undefined) {
+      if (key !== undefined && key !== null) positions.set(String(key), merged.length);
+      merged.push(row);
+    } else {
+      merged[index] = { ...merged[index], ...row };
+    }
+  });
+  return merged;
+}
+
+// Start of the bar a time falls in. Days and longer are UTC calendar periods,
+// weeks starting on Monday.
+function barStart(time: number, interval: ChartInterval): number {
+  const minutes = INTRADAY_MINUTES[interval];
+  if (minutes) return time - (time % (minutes * 60 * 1000));
+  const date = new Date(time);
+  if (interval === 'monthly') return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return interval === 'weekly' ? day - ((date.getUTCDay() + 6) % 7) * DAY : day;
+}
+
+// Folds a tick into the last bar, or opens a new bar once the tick falls past
+// it. Ticks older than the last bar are dropped.
+export function mergeTickIntoCandles(candles: ChartDataPoint[], tick: StreamTick, interval: ChartInterval): ChartDataPoint[] {
+  const last = candles[candles.length - 1];
+  if (!last) return candles;
+  const lastTime = new Date(last.date).getTime();
+  if (isNaN(lastTime) || tick.time < lastTime) return candles;
+
+  const volume = tick.volume || 0;
+  const start = barStart(tick.time, interval);
+  if (start <= barStart(lastTime, interval)) {
+    return [
+      ...candles.slice(0, -1),
+      {
+        ...last,
+        close: tick.price,
+        high: Math.max(last.high, tick.price),
+        low: Math.min(last.low, tick.price),
+        volume: last.volume + volume,
+      },
+    ];
+  }
+  return [
+    ...candles,
+    { date: new Date(start).toISOString(), open: tick.price, high: tick.price, low: tick.price, close: tick.price, volume },
+  ];
+}
@@ -0,0 +1,222 @@
+import { StreamConfig } from '@/types';
+import { ApiError, ApiErrorHandler } from './apiErrorHandler';
+import { credentialVault, toVaultApiError, VaultError } from './credentialVault';
+import { getValue } from './dataTransform';
+
+// The ways a live stream reaches the browser. Each transport reports back
+// through the same handlers, so the connection manager reconnects, resumes
+// and tracks status the same way for all of them.
+
+export interface TransportHandlers {
+  onOpen(): void;
+  onMessage(data: string, event?: string, id?: string): void;
+  // The transport has stopped. Errors that can't be retried end the stream;
+  // otherwise it reconnects, after retryDelay when the server asked for one.
+  onDrop(error: ApiError, retryDelay?: number): void;
+}
+
+export interface Transport {
+  send(message: string): void; // Ignored by transports that only receive
+  close(): void;
+}
+
+export type OpenTransport = (stream: StreamConfig, handlers: TransportHandlers, lastEventId: string | null) => Transport;
+
+const CURSOR_VARIABLE = /\{\{\s*cursor\s*\}\}/g;
+// A long poll that answers faster than this waits before asking again
+const LONG_POLL_MIN_INTERVAL = 1000;
+
+export const CONNECTION_LOST: ApiError = {
+  type: 'network',
+  message: 'Connection to the stream was lost',
+  canRetry: true,
+};
+
+const UNREACHABLE: ApiError = {
+  type: 'network',
+  message: 'Could not reach the stream',
+  canRetry: true,
+};
+
+// Vault placeholders are filled in only when connecting
+function resolveUrl(stream: StreamConfig, handlers: TransportHandlers): string | null {
+  try {
+    return credentialVault.resolve(stream.url);
+  } catch (error) {
+    handlers.onDrop(error instanceof VaultError ? toVaultApiError(error) : UNREACHABLE);
+    return null;
+  }
+}
+
+// Same shape as the errors cachedFetch raises, so failures read the same
+async function toResponseError(response: Response): Promise<ApiError> {
+  const text = await response.text().catch(() => '');
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    data = { message: text || response.statusText };
+  }
+  return ApiErrorHandler.parseError({
+    response: { status: response.status, data, headers: Object.fromEntries(response.headers.entries()) },
+    message: `HTTP error! status: ${response.status}`,
+  });
+}
+
+const closedTransport: Transport = { send: () => {}, close: () => {} };
+
+export const openWebSocket: OpenTransport = (stream, handlers) => {
+  const url = resolveUrl(stream, handlers);
+  if (url === null) return closedTransport;
+
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(url);
+  } catch {
+    handlers.onDrop({ type: 'unknown', message: `Invalid stream URL: ${stream.url}`, canRetry: false });
+    return closedTransport;
+  }
+
+  let dropped = false;
+  const drop = () => {
+    if (dropped) return;
+    dropped = true;
+    handlers.onDrop(CONNECTION_LOST);
+  };
+  socket.onopen = () => handlers.onOpen();
+  socket.onmessage = (event: MessageEvent) => {
+    if (typeof event.data === 'string') handlers.onMessage(event.data);
+  };
+  // Browsers follow an error with close, but not every client does
+  socket.onerror = drop;
+  socket.onclose = drop;
+
+  return {
+    send: message => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(message);
+    },
+    close: () => {
+      dropped = true;
+      socket.close();
+    },
+  };
+};
+
+// Server-Sent Events read over fetch rather than EventSource, so a reconnect
+// can send Last-Event-ID and the server's `retry` hint is honoured
+export const openEventStream: OpenTransport = (stream, handlers, lastEventId) => {
+  const url = resolveUrl(stream, handlers);
+  if (url === null) return closedTransport;
+  const controller = new AbortController();
+
+  const read = async () => {
+    const response = await fetch(url, {
+      headers: { Accept: 'text/event-stream', ...(lastEventId && { 'Last-Event-ID': lastEventId }) },
+      cache: 'no-store',
+      signal: controller.signal,
+    });
+    if (!response.ok || !response.body) {
+      handlers.onDrop(await toResponseError(response));
+      return;
+    }
+    handlers.onOpen();
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let event = '';
+    let data: string[] = [];
+    let retryDelay: number | undefined;
+
+    // One line of the event stream format; a blank line ends an event
+    const processLine = (line: string) => {
+      if (line === '') {
+        if (data.length > 0) handlers.onMessage(data.join('\n'), event || 'message', lastEventId ?? undefined);
+        event = '';
+        data = [];
+        return;
+      }
+      if (line.startsWith(':')) return;
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (field === 'event') event = value;
+      else if (field === 'data') data.push(value);
+      else if (field === 'id' && !value.includes('\0')) lastEventId = value;
+      else if (field === 'retry' && /^\d+$/.test(value)) retryDelay = Number(value);
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = lines.pop() || '';
+      lines.forEach(processLine);
+    }
+    handlers.onDrop(CONNECTION_LOST, retryDelay);
+  };
+
+  read().catch(() => {
+    if (!controller.signal.aborted) handlers.onDrop(UNREACHABLE);
+  });
+  return { send: () => {}, close: () => controller.abort() };
+};
+
+// Repeated requests that the server holds open until it has something new.
+// The cursor from each response (cursorPath) is sent as Last-Event-ID and
+// fills {{cursor}} in the URL of the next request.
+export const openLongPoll: OpenTransport = (stream, handlers, lastEventId) => {
+  const url = resolveUrl(stream, handlers);
+  if (url === null) return closedTransport;
+  const controller = new AbortController();
+  let cursor = lastEventId;
+
+  const poll = async () => {
+    let opened = false;
+    while (!controller.signal.aborted) {
+      const started = Date.now();
+      const response = await fetch(url.replace(CURSOR_VARIABLE, encodeURIComponent(cursor || '')), {
+        headers: { Accept: 'application/json', ...(cursor && { 'Last-Event-ID': cursor }) },
+        cache: 'no-store',
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        handlers.onDrop(await toResponseError(response));
+        return;
+      }
+      if (!opened) {
+        opened = true;
+        handlers.onOpen();
+      }
+
+      // 204 means the poll timed out with nothing new
+      if (response.status !== 204) {
+        const text = await response.text();
+        if (stream.cursorPath) {
+          try {
+            const next = getValue(JSON.parse(text), stream.cursorPath);
+            if (next !== undefined && next !== null) cursor = String(next);
+          } catch {
+            // Not JSON; the subscribers skip it too
+          }
+        }
+        handlers.onMessage(text, undefined, cursor ?? undefined);
+      }
+
+      const wait = LONG_POLL_MIN_INTERVAL - (Date.now() - started);
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  };
+
+  poll().catch(() => {
+    if (!controller.signal.aborted) handlers.onDrop(UNREACHABLE);
+  });
+  return { send: () => {}, close: () => controller.abort() };
+};
+
+export const TRANSPORTS: Record<StreamConfig['type'], OpenTransport> = {
+  websocket: openWebSocket,
+  sse: openEventStream,
+  longpoll: openLongPoll,
+};
@@ -0,0 +1,189 @@
+import { lookup as dnsLookup, LookupAddress } from 'dns';
+import { isIP } from 'net';
+import { AxiosRequestConfig } from 'axios';
+import { hasSecretReference, resolveSecretHeaders, resolveSecretReferences } from './serverSecrets';
+
+// Server-only guard for the routes that make requests on a client's behalf
+// (/api/proxy and /api/test-endpoint). Secrets are filled in only for the
+// hosts they belong to, and nothing is sent to loopback, private, link-local
+// or metadata addresses: names are checked as they resolve, so redirects and
+// DNS answers that change between lookups are caught too.
+
+export class BlockedTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockedTargetError';
+  }
+}
+
+// The guard's error behind a failed request, however deeply the HTTP
+// client and its redirect handling wrapped it
+export function findBlockedTarget(error: unknown): BlockedTargetError | undefined {
+  for (let current = error, depth = 0; current && depth < 5; depth++) {
+    if (current instanceof BlockedTargetError) return current;
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
+
+export interface UpstreamPayload {
+  url: string;
+  method: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface UpstreamRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  secretHeaders: string[]; // Names of headers that carried a secret, dropped on redirects to other hosts
+  secretBody: boolean; // The body carried a secret, so it is never resent to another host
+}
+
+const MAX_REDIRECTS = 5;
+
+// Names that resolve to the machine itself or to cloud metadata services
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata', 'metadata.google.internal', 'instance-data'];
+
+const ipv4Parts = (address: string) => address.split('.').map(Number);
+
+function isPrivateIpv4(address: string): boolean {
+  const [a, b] = ipv4Parts(address);
+  return a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local, including 169.254.169.254 metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && ipv4Parts(address)[2] === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // Benchmarking
+    a >= 224; // Multicast and reserved
+}
+
+// The eight 16-bit groups of an IPv6 address
+function ipv6Groups(address: string): number[] | null {
+  let text = address.toLowerCase().split('%')[0];
+  // A trailing dotted quad holds the last two groups
+  const quad = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (quad) {
+    const [a, b, c, d] = ipv4Parts(quad[1]);
+    text = `${text.slice(0, -quad[1].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const left = head ? head.split(':') : [];
+  const right = tail !== undefined && tail ? tail.split(':') : [];
+  const missing = 8 - left.length - right.length;
+  if (missing < 0 || (tail === undefined && missing !== 0)) return null;
+  return [...left, ...Array(missing).fill('0'), ...right].map(group => parseInt(group, 16));
+}
+
+function isPrivateIpv6(address: string): boolean {
+  const groups = ipv6Groups(address);
+  if (!groups) return true;
+  const embeddedIpv4 = () => `${groups[6] >> 8}.${groups[6] & 255}.${groups[7] >> 8}.${groups[7] & 255}`;
+  const leadingZeros = groups.slice(0, 5).every(group => group === 0);
+  if (leadingZeros && groups[5] === 0xffff) return isPrivateIpv4(embeddedIpv4()); // IPv4-mapped
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) return isPrivateIpv4(embeddedIpv4()); // NAT64
+  if (leadingZeros && groups[5] === 0) return true; // Unspecified, loopback and IPv4-compatible
+  return (groups[0] & 0xfe00) === 0xfc00 || // Unique local, including AWS's fd00:ec2::254 metadata
+    (groups[0] & 0xffc0) === 0xfe80 || // Link-local
+    (groups[0] & 0xff00) === 0xff00; // Multicast
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isPrivateIpv4(address);
+  if (version === 6) return isPrivateIpv6(address);
+  return true;
+}
+
+// Checks a hostname before any lookup. IP literals never reach the resolver,
+// so they are judged here.
+export function assertAllowedHostname(hostname: string) {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (BLOCKED_HOSTNAMES.includes(host) || host.endsWith('.localhost')) {
+    throw new BlockedTargetError(`Requests to ${hostname} are not allowed`);
+  }
+  if (isIP(host) && isPrivateAddress(host)) {
+    throw new BlockedTargetError(`Requests to private address ${hostname} are not allowed`);
+  }
+}
+
+type LookupCallback = (err: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void;
+
+// Drop-in for dns.lookup that refuses names resolving to a private address
+export function guardedLookup(hostname: string, options: { all?: boolean; family?: number }, callback: LookupCallback) {
+  dnsLookup(hostname, { family: options.family, all: true }, (err, addresses) => {
+    if (err) {
+      callback(err, []);
+      return;
+    }
+    const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      callback(new BlockedTargetError(`${hostname} resolves to a private address`), []);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+// Resolves the payload's secret references for the host it targets
+export function prepareUpstreamRequest(payload: UpstreamPayload): UpstreamRequest {
+  // Parsed before resolving so a secret can't decide where the request goes
+  const target = new URL(payload.url);
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw new BlockedTargetError('Only http and https targets are allowed');
+  }
+  assertAllowedHostname(target.hostname);
+
+  const host = target.hostname;
+  const url = new URL(resolveSecretReferences(payload.url, host));
+  if (url.host !== target.host) {
+    throw new BlockedTargetError('Secrets cannot change the target host');
+  }
+
+  const headers = payload.headers || {};
+  const body = payload.body;
+  return {
+    url: url.toString(),
+    method: payload.method,
+    headers: resolveSecretHeaders(headers, host),
+    body: typeof body === 'string' ? resolveSecretReferences(body, host) : body,
+    secretHeaders: Object.keys(headers).filter(name => hasSecretReference(String(headers[name]))),
+    secretBody: typeof body === 'string' && hasSecretReference(body),
+  };
+}
+
+// Axios options that apply the guard to every hop of a request
+export function guardedAxiosConfig(request: UpstreamRequest): AxiosRequestConfig {
+  const originalHost = new URL(request.url).hostname;
+  const secretHeaders = request.secretHeaders.map(name => name.toLowerCase());
+  return {
+    adapter: 'http',
+    proxy: false, // An environment proxy would resolve the name instead of us
+    lookup: guardedLookup as AxiosRequestConfig['lookup'],
+    maxRedirects: MAX_REDIRECTS,
+    beforeRedirect: (options: Record<string, any>) => {
+      assertAllowedHostname(String(options.hostname));
+      // Secrets stay with the host they were resolved for. The method is
+      // already switched to GET when the redirect drops the body; otherwise
+      // (307, 308, and 301 or 302 for anything but POST) the body is resent.
+      const resendsBody = String(options.method).toUpperCase() === request.method.toUpperCase();
+      if (options.hostname !== originalHost && request.secretBody && resendsBody) {
+        throw new BlockedTargetError(`Refusing to resend a request body holding secrets to ${options.hostname}`);
+      }
+      if (options.hostname !== originalHost && options.headers) {
+        Object.keys(options.headers)
+          .filter(name => secretHeaders.includes(name.toLowerCase()))
+          .forEach(name => delete options.headers[name]);
+      }
+    },
+  };
+}
@@ -0,0 +1,111 @@
+import { FieldMapping, StockData, Watchlist, WatchlistConfig } from '@/types';
+
+// Named symbol lists kept in a watchlist widget's config, and the columns
+// it reads from each StockData quote
+
+export type WatchlistColumn = 'symbol' | 'price' | 'change' | 'volume' | 'range' | 'marketCap';
+
+export const WATCHLIST_COLUMNS: { id: WatchlistColumn; label: string }[] = [
+  { id: 'symbol', label: 'Symbol' },
+  { id: 'price', label: 'Price' },
+  { id: 'change', label: 'Change' },
+  { id: 'volume', label: 'Volume' },
+  { id: 'range', label: 'Day Range' },
+  { id: 'marketCap', label: 'Market Cap' },
+];
+
+// Quote fields alert rules can watch on a watchlist
+export const WATCHLIST_FIELDS: FieldMapping[] = [
+  { apiField: 'price', displayName: 'Price', type: 'currency' },
+  { apiField: 'change', displayName: 'Change', type: 'currency' },
+  { apiField: 'changePercent', displayName: 'Change %', type: 'percentage' },
+  { apiField: 'volume', displayName: 'Volume', type: 'number' },
+  { apiField: 'marketCap', displayName: 'Market Cap', type: 'number' },
+];
+
+export interface WatchlistSort {
+  column: WatchlistColumn;
+  direction: 'asc' | 'desc';
+}
+
+export const generateWatchlistId = () => `list_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+
+export const createWatchlist = (name: string, symbols: string[] = []): Watchlist => ({
+  id: generateWatchlistId(),
+  name,
+  symbols,
+});
+
+export const getActiveWatchlist = (config?: WatchlistConfig): Watchlist | undefined =>
+  config?.lists.find(list => list.id === config.activeList) || config?.lists[0];
+
+// Symbols are kept as typed, since some providers use lowercase ids, but
+// compared case-insensitively so "aapl" doesn't add AAPL twice
+export function addSymbol(list: Watchlist, symbol: string): Watchlist {
+  const trimmed = symbol.trim();
+  if (!trimmed || list.symbols.some(s => s.toUpperCase() === trimmed.toUpperCase())) return list;
+  return { ...list, symbols: [...list.symbols, trimmed] };
+}
+
+export const removeSymbol = (list: Watchlist, symbol: string): Watchlist => ({
+  ...list,
+  symbols: list.symbols.filter(s => s !== symbol),
+});
+
+export function moveSymbol(list: Watchlist, from: number, to: number): Watchlist {
+  if (from === to || from < 0 || to < 0 || from >= list.symbols.length || to >= list.symbols.length) return list;
+  const symbols = [...list.symbols];
+  const [moved] = symbols.splice(from, 1);
+  symbols.splice(to, 0, moved);
+  return { ...list, symbols };
+}
+
+// The value a column sorts by; day ranges sort by how far the price sits
+// between the low and the high
+export function columnValue(quote: StockData | undefined, column: WatchlistColumn): number | string | undefined {
+  if (!quote) return undefined;
+  switch (column) {
+    case 'symbol':
+      return quote.symbol;
+    case 'price':
+      return quote.price;
+    case 'change':
+      return quote.changePercent;
+    case 'volume':
+      return quote.volume;
+    case 'marketCap':
+      return quote.marketCap;
+    case 'range':
+      return quote.high !== undefined && quote.low !== undefined && quote.high > quote.low
+        ? (quote.price - quote.low) / (quote.high - quote.low)
+        : undefined;
+  }
+}
+
+// Symbols in the sorted order; ones without a value go last either way
+export function sortSymbols(
+  symbols: string[],
+  quotes: Record<string, StockData>,
+  sort: WatchlistSort | null
+): string[] {
+  if (!sort) return symbols;
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return [...symbols].sort((a, b) => {
+    const left = sort.column === 'symbol' ? a : columnValue(quotes[a], sort.column);
+    const right = sort.column === 'symbol' ? b : columnValue(quotes[b], sort.column);
+    if (left === undefined || right === undefined) {
+      return left === undefined ? (right === undefined ? 0 : 1) : -1;
+    }
+    if (typeof left === 'string' || typeof right === 'string') {
+      return String(left).localeCompare(String(right)) * sign;
+    }
+    return (left - right) * sign;
+  });
+}
+
+// Columns hidden when no quote has a value for them, e.g. market caps from a
+// provider that doesn't report them
+export const hasColumnData = (quotes: StockData[], column: WatchlistColumn) =>
+  quotes.some(quote => column === 'range'
+    ? quote.high !== undefined && quote.low !== undefined
+    : columnValue(quote, column) !== undefined);
@@ -1,20 +1,38 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { Widget, DashboardLayout, StockData, MarketData } from '@/types';
+import { Widget, DashboardLayout, StockData, MarketData, GridBreakpoint, GridRect, RateBudget } from '@/types';
+import { GRID_COLUMNS, findFreeSlot, getWidgetRect, toGridWidgets } from '@/services/gridLayout';
+import { DashboardImportResult, createDashboardExport, parseDashboardExport } from '@/services/dashboardSchema';
+import { credentialVault, sealHeaders, sealValue, toSecretName } from '@/services/credentialVault';
+import { DEFAULT_RATE_BUDGETS, rateLimiter } from '@/services/rateLimiter';
+import { alertEngine } from '@/services/alertEngine';
+
+type DashboardSettings = Pick<DashboardLayout, 'widgets' | 'autoRefresh' | 'refreshInterval'>;
 
 interface DashboardState {
-  // Layout and widgets
+  // Dashboards
+  dashboards: DashboardLayout[];
+  activeDashboardId: string;
+  
+  // Layout and widgets of the active dashboard
   widgets: Widget[];
   theme: 'light' | 'dark';
   autoRefresh: boolean;
   refreshInterval: number;
   
+  // Request budgets per API host, shared by all dashboards
+  rateBudgets: RateBudget[];
+  
   // Data cache
   stockData: Record<string, StockData>;
   marketData: MarketData | null;
   chartData: Record<string, any>;
   apiCache: Record<string, { data: any; timestamp: number; ttl: number }>;
   
+  // Undo/redo history for the active dashboard
+  past: DashboardSettings[];
+  future: DashboardSettings[];
+  
   // UI state
   isLoading: boolean;
   selectedWidget: string | null;
@@ -28,6 +46,7 @@ interface DashboardState {
   moveWidget: (id: string, position: { x: number; y: number }) => void;
   resizeWidget: (id: string, size: { width: number; height: number }) => void;
   reorderWidgets: (startIndex: number, endIndex: number) => void;
+  setWidgetLayouts: (breakpoint: GridBreakpoint, layout: Record<string, GridRect>) => void;
   
   // Data management
   setStockData: (symbol: string, data: StockData) => void;
@@ -40,33 +59,127 @@ interface DashboardState {
   setTheme: (theme: 'light' | 'dark') => void;
   setAutoRefresh: (enabled: boolean) => void;
   setRefreshInterval: (interval: number) => void;
+  setRateBudgets: (budgets: RateBudget[]) => void;
   setSelectedWidget: (id: string | null) => void;
   setShowAddWidget: (show: boolean) => void;
   setDraggedWidget: (id: string | null) => void;
   setLoading: (loading: boolean) => void;
   
+  // Dashboard collection
+  createDashboard: (name: string) => string;
+  renameDashboard: (id: string, name: string) => void;
+  cloneDashboard: (id: string, name?: string) => string | null;
+  deleteDashboard: (id: string) => void;
+  switchDashboard: (id: string) => void;
+  
   // Dashboard management
-  exportDashboard: () => string;
-  importDashboard: (config: string) => void;
+  exportDashboard: (options?: { includeVault?: boolean }) => string;
+  importDashboard: (config: string, mode?: 'replace' | 'merge') => DashboardImportResult;
   resetDashboard: () => void;
+  
+  // History
+  undo: () => void;
+  redo: () => void;
 }
 
 const generateId = () => `widget_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+const generateDashboardId = () => `dashboard_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+
+const createLayout = (name: string, settings: Partial<DashboardSettings> = {}): DashboardLayout => ({
+  id: generateDashboardId(),
+  name,
+  widgets: settings.widgets || [],
+  autoRefresh: settings.autoRefresh ?? true,
+  refreshInterval: settings.refreshInterval || 30,
+  createdAt: new Date().toISOString(),
+});
+
+const defaultDashboard = createLayout('My Dashboard');
+
+// The active dashboard's settings are mirrored at the top level of the store
+// so components can keep reading `widgets`, `autoRefresh` and `refreshInterval`
+// directly. Every mutation goes through this helper to keep both in sync.
+const withActiveDashboard = (state: DashboardState, updates: Partial<DashboardSettings>) => ({
+  ...updates,
+  dashboards: state.dashboards.map((d) =>
+    d.id === state.activeDashboardId ? { ...d, ...updates } : d
+  ),
+});
+
+const HISTORY_LIMIT = 50;
+
+// Fields refreshed by data fetches; changes to these alone are not undoable
+const RUNTIME_FIELDS: (keyof Widget)[] = ['data', 'lastUpdated', 'staleSince', 'lastError'];
+
+const isRuntimeUpdate = (updates: Partial<Widget>) =>
+  Object.keys(updates).every((key) => RUNTIME_FIELDS.includes(key as keyof Widget));
+
+const snapshot = (state: DashboardState): DashboardSettings => ({
+  widgets: state.widgets,
+  autoRefresh: state.autoRefresh,
+  refreshInterval: state.refreshInterval,
+});
+
+// Same as withActiveDashboard, but records the previous state for undo
+const withHistory = (state: DashboardState, updates: Partial<DashboardSettings>) => ({
+  ...withActiveDashboard(state, updates),
+  past: [...state.past, snapshot(state)].slice(-HISTORY_LIMIT),
+  future: [],
+});
+
+// Restoring a snapshot brings back layout and config, but keeps the latest
+// fetched data for widgets that still exist
+const restoreSnapshot = (state: DashboardState, target: DashboardSettings): DashboardSettings => ({
+  ...target,
+  widgets: target.widgets.map((w) => {
+    const current = state.widgets.find((c) => c.id === w.id);
+    if (!current) return w;
+    return { ...w, data: current.data, lastUpdated: current.lastUpdated, staleSince: current.staleSince, lastError: current.lastError };
+  }),
+});
+
+// Persisted widgets hold vault placeholders instead of literal header and
+// provider credentials once the credential vault has stored the values
+const sealWidgets = (widgets: Widget[]): Widget[] =>
+  widgets.map((w) => w.config.apiHeaders || w.config.apiKey
+    ? {
+        ...w,
+        config: {
+          ...w.config,
+          ...(w.config.apiHeaders && { apiHeaders: sealHeaders(w.config.apiHeaders, w.id) }),
+          ...(w.config.apiKey && { apiKey: sealValue(w.config.apiKey, toSecretName(`${w.config.provider || 'provider'}_api_key_${w.id}`)) }),
+        },
+      }
+    : w);
+
+const activeSettings = (dashboard: DashboardLayout): DashboardSettings => ({
+  widgets: dashboard.widgets,
+  autoRefresh: dashboard.autoRefresh,
+  refreshInterval: dashboard.refreshInterval,
+});
 
 export const useDashboardStore = create<DashboardState>()(
   persist(
     (set, get) => ({
       // Initial state
+      dashboards: [defaultDashboard],
+      activeDashboardId: defaultDashboard.id,
+      
       widgets: [],
       theme: 'light',
       autoRefresh: true,
       refreshInterval: 30,
       
+      rateBudgets: DEFAULT_RATE_BUDGETS,
+      
       stockData: {},
       marketData: null,
       chartData: {},
       apiCache: {},
       
+      past: [],
+      future: [],
+      
       isLoading: false,
       selectedWidget: null,
       showAddWidget: false,
@@ -74,32 +187,40 @@ export const useDashboardStore = create<DashboardState>()(
       
       // Widget actions
       addWidget: (widget) => {
+        // Drop new widgets into the first free cell of the widest layout
+        const rects = get().widgets.map((w) => getWidgetRect(w, 'lg'));
         const newWidget: Widget = {
           ...widget,
+          position: findFreeSlot(rects, widget.size.width, widget.size.height, GRID_COLUMNS.lg),
           id: generateId(),
         };
-        set((state) => ({
+        set((state) => withHistory(state, {
           widgets: [...state.widgets, newWidget],
         }));
       },
       
       removeWidget: (id) => {
         set((state) => ({
-          widgets: state.widgets.filter((w) => w.id !== id),
+          ...withHistory(state, {
+            widgets: state.widgets.filter((w) => w.id !== id),
+          }),
           selectedWidget: state.selectedWidget === id ? null : state.selectedWidget,
         }));
       },
       
       updateWidget: (id, updates) => {
-        set((state) => ({
-          widgets: state.widgets.map((w) =>
+        set((state) => {
+          const widgets = state.widgets.map((w) =>
             w.id === id ? { ...w, ...updates } : w
-          ),
-        }));
+          );
+          return isRuntimeUpdate(updates)
+            ? withActiveDashboard(state, { widgets })
+            : withHistory(state, { widgets });
+        });
       },
       
       moveWidget: (id, position) => {
-        set((state) => ({
+        set((state) => withHistory(state, {
           widgets: state.widgets.map((w) =>
             w.id === id ? { ...w, position } : w
           ),
@@ -107,7 +228,7 @@ export const useDashboardStore = create<DashboardState>()(
       },
       
       resizeWidget: (id, size) => {
-        set((state) => ({
+        set((state) => withHistory(state, {
           widgets: state.widgets.map((w) =>
             w.id === id ? { ...w, size } : w
           ),
@@ -119,10 +240,34 @@ export const useDashboardStore = create<DashboardState>()(
           const widgets = [...state.widgets];
           const [removed] = widgets.splice(startIndex, 1);
           widgets.splice(endIndex, 0, removed);
-          return { widgets };
+          return withHistory(state, { widgets });
         });
       },
       
+      setWidgetLayouts: (breakpoint, layout) => {
+        const unchanged = get().widgets.every((w) => {
+          const rect = layout[w.id];
+          const current = getWidgetRect(w, breakpoint);
+          return !rect || (rect.x === current.x && rect.y === current.y && rect.w === current.w && rect.h === current.h);
+        });
+        if (unchanged) return;
+        
+        set((state) => withHistory(state, {
+          widgets: state.widgets.map((w) => {
+            const rect = layout[w.id];
+            if (!rect) return w;
+            if (breakpoint === 'lg') {
+              return {
+                ...w,
+                position: { x: rect.x, y: rect.y },
+                size: { width: rect.w, height: rect.h },
+              };
+            }
+            return { ...w, layouts: { ...w.layouts, [breakpoint]: rect } };
+          }),
+        }));
+      },
+      
       // Data management
       setStockData: (symbol, data) => {
         set((state) => ({
@@ -141,11 +286,14 @@ export const useDashboardStore = create<DashboardState>()(
       },
       
       updateWidgetData: (widgetId, data) => {
-        set((state) => ({
+        const widget = get().widgets.find((w) => w.id === widgetId);
+        set((state) => withActiveDashboard(state, {
           widgets: state.widgets.map((w) =>
             w.id === widgetId ? { ...w, data, lastUpdated: new Date().toISOString() } : w
           ),
         }));
+        // Alert rules compare the new data with what the widget held before
+        if (widget) alertEngine.evaluate(widget, widget.data, data);
       },
       
       clearCache: () => {
@@ -165,56 +313,270 @@ export const useDashboardStore = create<DashboardState>()(
         }
       },
       
-      setAutoRefresh: (autoRefresh) => set({ autoRefresh }),
-      setRefreshInterval: (refreshInterval) => set({ refreshInterval }),
+      // Refresh settings are part of every snapshot, so changing them is undoable too
+      setAutoRefresh: (autoRefresh) => set((state) =>
+        state.autoRefresh === autoRefresh ? state : withHistory(state, { autoRefresh })
+      ),
+      setRefreshInterval: (refreshInterval) => set((state) =>
+        state.refreshInterval === refreshInterval ? state : withHistory(state, { refreshInterval })
+      ),
+      setRateBudgets: (rateBudgets) => {
+        rateLimiter.configure(rateBudgets);
+        set({ rateBudgets });
+      },
       setSelectedWidget: (selectedWidget) => set({ selectedWidget }),
       setShowAddWidget: (showAddWidget) => set({ showAddWidget }),
       setDraggedWidget: (draggedWidget) => set({ draggedWidget }),
       setLoading: (isLoading) => set({ isLoading }),
       
+      // Dashboard collection
+      createDashboard: (name) => {
+        const dashboard = createLayout(name.trim() || 'Untitled Dashboard');
+        set((state) => ({
+          dashboards: [...state.dashboards, dashboard],
+          activeDashboardId: dashboard.id,
+          ...activeSettings(dashboard),
+          selectedWidget: null,
+          past: [],
+          future: [],
+        }));
+        return dashboard.id;
+      },
+      
+      renameDashboard: (id, name) => {
+        if (!name.trim()) return;
+        set((state) => ({
+          dashboards: state.dashboards.map((d) =>
+            d.id === id ? { ...d, name: name.trim() } : d
+          ),
+        }));
+      },
+      
+      cloneDashboard: (id, name) => {
+        const source = get().dashboards.find((d) => d.id === id);
+        if (!source) return null;
+        
+        const dashboard = createLayout(name?.trim() || `${source.name} (Copy)`, {
+          widgets: source.widgets.map((w) => ({
+            ...JSON.parse(JSON.stringify(w)),
+            id: generateId(),
+          })),
+          autoRefresh: source.autoRefresh,
+          refreshInterval: source.refreshInterval,
+        });
+        set((state) => ({
+          dashboards: [...state.dashboards, dashboard],
+          activeDashboardId: dashboard.id,
+          ...activeSettings(dashboard),
+          selectedWidget: null,
+          past: [],
+          future: [],
+        }));
+        return dashboard.id;
+      },
+      
+      deleteDashboard: (id) => {
+        set((state) => {
+          // Always keep at least one dashboard around
+          if (state.dashboards.length <= 1) return state;
+          
+          const dashboards = state.dashboards.filter((d) => d.id !== id);
+          if (state.activeDashboardId !== id) {
+            return { dashboards };
+          }
+          
+          const next = dashboards[0];
+          return {
+            dashboards,
+            activeDashboardId: next.id,
+            ...activeSettings(next),
+            selectedWidget: null,
+            past: [],
+            future: [],
+          };
+        });
+      },
+      
+      switchDashboard: (id) => {
+        const dashboard = get().dashboards.find((d) => d.id === id);
+        if (!dashboard) return;
+        set({
+          activeDashboardId: id,
+          ...activeSettings(dashboard),
+          selectedWidget: null,
+          past: [],
+          future: [],
+        });
+      },
+      
       // Dashboard management
-      exportDashboard: () => {
+      exportDashboard: (options = {}) => {
         const state = get();
-        const config: DashboardLayout = {
-          widgets: state.widgets,
-          theme: state.theme,
-          autoRefresh: state.autoRefresh,
-          refreshInterval: state.refreshInterval,
-        };
-        return JSON.stringify(config, null, 2);
+        const active = state.dashboards.find((d) => d.id === state.activeDashboardId);
+        return createDashboardExport(
+          {
+            id: state.activeDashboardId,
+            name: active?.name || 'My Dashboard',
+            widgets: state.widgets,
+            theme: state.theme,
+            autoRefresh: state.autoRefresh,
+            refreshInterval: state.refreshInterval,
+          },
+          options.includeVault ? credentialVault.exportEncrypted() : undefined
+        );
       },
       
-      importDashboard: (config) => {
-        try {
-          const parsed: DashboardLayout = JSON.parse(config);
-          set({
-            widgets: parsed.widgets || [],
-            theme: parsed.theme || 'light',
-            autoRefresh: parsed.autoRefresh ?? true,
-            refreshInterval: parsed.refreshInterval || 30,
+      importDashboard: (config, mode = 'replace') => {
+        const result = parseDashboardExport(config);
+        if (!result.success) {
+          return result;
+        }
+        
+        const imported = result.dashboard;
+        if (mode === 'merge') {
+          // Append the imported widgets below the current ones with fresh ids
+          set((state) => {
+            const rects = state.widgets.map((w) => getWidgetRect(w, 'lg'));
+            const merged = imported.widgets.map((w) => {
+              const position = findFreeSlot(rects, w.size.width, w.size.height, GRID_COLUMNS.lg);
+              rects.push({ ...position, w: w.size.width, h: w.size.height });
+              const { layouts, ...rest } = w;
+              return { ...rest, id: generateId(), position };
+            });
+            return withHistory(state, { widgets: [...state.widgets, ...merged] });
           });
-        } catch (error) {
-          // Silently handle import errors
+        } else {
+          set((state) => ({
+            ...withHistory(state, {
+              widgets: imported.widgets,
+              autoRefresh: imported.autoRefresh,
+              refreshInterval: imported.refreshInterval,
+            }),
+            theme: imported.theme || state.theme,
+            selectedWidget: null,
+          }));
         }
+        return result;
       },
       
       resetDashboard: () => {
-        set({
-          widgets: [],
+        set((state) => ({
+          ...withHistory(state, { widgets: [] }),
           selectedWidget: null,
           showAddWidget: false,
           draggedWidget: null,
+        }));
+      },
+      
+      // History
+      undo: () => {
+        set((state) => {
+          if (state.past.length === 0) return state;
+          const previous = state.past[state.past.length - 1];
+          return {
+            ...withActiveDashboard(state, restoreSnapshot(state, previous)),
+            past: state.past.slice(0, -1),
+            future: [snapshot(state), ...state.future],
+          };
+        });
+      },
+      
+      redo: () => {
+        set((state) => {
+          if (state.future.length === 0) return state;
+          const [next, ...future] = state.future;
+          return {
+            ...withActiveDashboard(state, restoreSnapshot(state, next)),
+            past: [...state.past, snapshot(state)].slice(-HISTORY_LIMIT),
+            future,
+          };
         });
       },
     }),
     {
       name: 'finboard-dashboard',
+      version: 3,
       partialize: (state) => ({
-        widgets: state.widgets,
+        dashboards: state.dashboards.map((d) => ({ ...d, widgets: sealWidgets(d.widgets) })),
+        activeDashboardId: state.activeDashboardId,
         theme: state.theme,
-        autoRefresh: state.autoRefresh,
-        refreshInterval: state.refreshInterval,
+        rateBudgets: state.rateBudgets,
       }),
+      migrate: (persistedState: any, version) => {
+        let migrated = persistedState;
+
+        // Version 0 stored a single board at the top level
+        if (version === 0 && migrated && !migrated.dashboards) {
+          const dashboard = createLayout('My Dashboard', {
+            widgets: migrated.widgets,
+            autoRefresh: migrated.autoRefresh,
+            refreshInterval: migrated.refreshInterval,
+          });
+          migrated = {
+            dashboards: [dashboard],
+            activeDashboardId: dashboard.id,
+            theme: migrated.theme || 'light',
+          };
+        }
+
+        // Version 1 stored widget sizes in pixels rather than grid cells
+        if (version < 2 && migrated?.dashboards) {
+          migrated = {
+            ...migrated,
+            dashboards: migrated.dashboards.map((d: DashboardLayout) => ({
+              ...d,
+              widgets: toGridWidgets(d.widgets || []),
+            })),
+          };
+        }
+
+        // Version 2 stored literal credentials in widget headers; they are
+        // handed to the vault now and replaced once it has saved them
+        if (version < 3 && migrated?.dashboards) {
+          migrated = {
+            ...migrated,
+            dashboards: migrated.dashboards.map((d: DashboardLayout) => ({
+              ...d,
+              widgets: sealWidgets(d.widgets || []),
+            })),
+          };
+        }
+
+        return migrated;
+      },
+      // The limiter follows the saved budgets from the first request on
+      onRehydrateStorage: () => (state) => {
+        if (state?.rateBudgets) {
+          rateLimiter.configure(state.rateBudgets);
+        }
+      },
+      merge: (persistedState: any, currentState) => {
+        const merged = { ...currentState, ...persistedState } as DashboardState;
+        if (!merged.dashboards || merged.dashboards.length === 0) {
+          return currentState;
+        }
+        const active = merged.dashboards.find((d) => d.id === merged.activeDashboardId) || merged.dashboards[0];
+        return {
+          ...merged,
+          activeDashboardId: active.id,
+          ...activeSettings(active),
+        };
+      },
     }
   )
 );
+
+// Alert state is only kept for widgets and rules that still exist
+useDashboardStore.subscribe((state, previous) => {
+  if (state.dashboards !== previous.dashboards) {
+    alertEngine.prune(state.dashboards.flatMap((d) => d.widgets));
+  }
+});
+
+// Rewrite the persisted widgets when the vault has saved their credentials
+credentialVault.subscribe(() => useDashboardStore.setState({}));
+
+// A widget's latest state, for callbacks that shouldn't be rebuilt each time
+// the widget changes
+export const getWidget = (id: string): Widget | undefined =>
+  useDashboardStore.getState().widgets.find((w) => w.id === id);
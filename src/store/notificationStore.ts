@@ -0,0 +1,99 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { AppNotification, Widget } from '@/types';
+import { ApiError } from '@/services/apiErrorHandler';
+
+// History of fired alerts, widget errors, rate limits and imports/exports,
+// shared by all dashboards. Kept apart from the dashboard store so a busy
+// night of errors doesn't rewrite the dashboards in storage.
+
+type NewNotification = Omit<AppNotification, 'id' | 'time' | 'read' | 'count'>;
+
+interface NotificationState {
+  notifications: AppNotification[]; // Newest first
+
+  addNotification: (notification: NewNotification) => void;
+  markRead: (ids: string[]) => void;
+  removeNotification: (id: string) => void;
+  clearNotifications: (ids?: string[]) => void;
+}
+
+const MAX_NOTIFICATIONS = 200;
+const MAX_AGE = 7 * 24 * 60 * 60 * 1000; // milliseconds
+
+const generateId = () => `notification_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+
+const prune = (notifications: AppNotification[], now: number) =>
+  notifications.filter((n) => now - n.time < MAX_AGE).slice(0, MAX_NOTIFICATIONS);
+
+// The same unread message from the same source is counted rather than listed
+// again, so a widget failing every refresh takes one entry
+const isRepeat = (existing: AppNotification, next: NewNotification) =>
+  !existing.read &&
+  existing.kind === next.kind &&
+  existing.widgetId === next.widgetId &&
+  existing.title === next.title &&
+  existing.message === next.message;
+
+export const useNotificationStore = create<NotificationState>()(
+  persist(
+    (set) => ({
+      notifications: [],
+
+      addNotification: (notification) => {
+        set((state) => {
+          const now = Date.now();
+          const latest = state.notifications.find((n) => n.kind === notification.kind && n.widgetId === notification.widgetId);
+          if (latest && isRepeat(latest, notification)) {
+            const repeated = { ...latest, time: now, count: (latest.count || 1) + 1 };
+            return {
+              notifications: prune([repeated, ...state.notifications.filter((n) => n.id !== latest.id)], now),
+            };
+          }
+          return {
+            notifications: prune([{ ...notification, id: generateId(), time: now, read: false }, ...state.notifications], now),
+          };
+        });
+      },
+
+      markRead: (ids) => {
+        set((state) => ({
+          notifications: state.notifications.map((n) => (ids.includes(n.id) ? { ...n, read: true } : n)),
+        }));
+      },
+
+      removeNotification: (id) => {
+        set((state) => ({ notifications: state.notifications.filter((n) => n.id !== id) }));
+      },
+
+      clearNotifications: (ids) => {
+        set((state) => ({
+          notifications: ids ? state.notifications.filter((n) => !ids.includes(n.id)) : [],
+        }));
+      },
+    }),
+    {
+      name: 'finboard-notifications',
+      version: 1,
+      partialize: (state) => ({ notifications: state.notifications }),
+      merge: (persistedState: any, currentState) => ({
+        ...currentState,
+        notifications: prune(persistedState?.notifications || [], Date.now()),
+      }),
+    }
+  )
+);
+
+export const recordNotification = (notification: NewNotification) =>
+  useNotificationStore.getState().addNotification(notification);
+
+// A widget's failed fetch, classified by the error's type
+export const recordWidgetError = (widget: Pick<Widget, 'id' | 'title'>, error: Pick<ApiError, 'type' | 'message'>) =>
+  recordNotification({
+    kind: 'error',
+    title: widget.title,
+    message: error.message,
+    widgetId: widget.id,
+    widgetTitle: widget.title,
+    errorType: error.type,
+  });
@@ -21,15 +21,51 @@ export interface ChartDataPoint {
   volume: number;
 }
 
+export type GridBreakpoint = 'sm' | 'md' | 'lg';
+
+// Position and size in grid cells (columns and rows)
+export interface GridRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Client-side request budget for one API host (and its subdomains)
+export interface RateBudget {
+  host: string;
+  perMinute?: number;
+  perDay?: number;
+}
+
+export type NotificationKind = 'alert' | 'error' | 'rate_limit' | 'import' | 'export';
+
+// An entry in the notification center
+export interface AppNotification {
+  id: string;
+  kind: NotificationKind;
+  title: string;
+  message: string;
+  time: number; // epoch milliseconds of the latest occurrence
+  read: boolean;
+  widgetId?: string;
+  widgetTitle?: string;
+  errorType?: 'rate_limit' | 'network' | 'auth' | 'server' | 'timeout' | 'unknown'; // errors only
+  success?: boolean; // imports and exports only
+  count?: number; // Repeats folded into this entry while it was unread
+}
+
 export interface Widget {
   id: string;
   type: 'table' | 'card' | 'chart' | 'watchlist' | 'gainers' | 'performance' | 'custom';
   title: string;
-  position: { x: number; y: number };
-  size: { width: number; height: number };
+  position: { x: number; y: number }; // Grid cell on the widest ('lg') layout
+  size: { width: number; height: number }; // Columns and rows on the widest ('lg') layout
+  layouts?: Partial<Record<Exclude<GridBreakpoint, 'lg'>, GridRect>>;
   config: WidgetConfig;
   data?: any;
   lastUpdated?: string;
+  staleSince?: string; // Set while showing a cached payload that is being revalidated
   lastError?: {
     type: 'rate_limit' | 'network' | 'auth' | 'server' | 'timeout' | 'unknown';
     message: string;
@@ -50,7 +86,20 @@ export interface WidgetConfig {
   pageSize?: number;
   filters?: Record<string, any>;
   apiUrl?: string;
+  provider?: ProviderId; // Fetch through a bundled adapter; apiUrl then only overrides its host
+  apiKey?: string; // Sent the way the provider expects; may be a vault placeholder
   apiHeaders?: Record<string, string>;
+  useProxy?: boolean; // Route requests through the server-side /api/proxy route
+  method?: 'GET' | 'POST';
+  bodyTemplate?: string; // POST body; supports {{symbol}}, {{interval}}, {{today}} and vault placeholders
+  graphql?: GraphqlQuery; // Sent as a POST body, takes precedence over method and bodyTemplate
+  transform?: TransformConfig; // Turns the response into rows for every display mode
+  stream?: StreamConfig; // Live ticks merged into the polled data
+  indicators?: IndicatorConfig[]; // Technical indicators drawn on price charts
+  compareScale?: 'price' | 'percent'; // How charts of several symbols plot them
+  annotations?: Record<string, ChartAnnotation[]>; // Drawings on price charts, by symbol
+  alerts?: AlertRule[]; // Checked each time the widget stores new data
+  watchlist?: WatchlistConfig; // Watchlist widgets only; their symbols, rather than symbol(s)
   displayMode?: 'card' | 'table' | 'chart';
   selectedFields?: FieldMapping[];
   availableFields?: ApiField[];
@@ -61,6 +110,109 @@ export interface WidgetConfig {
   minHeight?: number;
 }
 
+export type ProviderId = 'alphavantage' | 'finnhub' | 'coingecko' | 'yahoo';
+
+export type IndicatorType = 'sma' | 'ema' | 'bollinger' | 'vwap' | 'rsi' | 'macd' | 'stochastic';
+
+export interface IndicatorConfig {
+  id: string;
+  type: IndicatorType;
+  params: Record<string, number>; // e.g. { period: 20 }; missing values use the indicator's defaults
+  color?: string;
+}
+
+export type AnnotationType = 'horizontal' | 'trendline' | 'fibonacci' | 'rectangle' | 'text';
+
+export interface AnnotationPoint {
+  date: string; // Date of the bar the point is anchored to
+  price: number;
+}
+
+export interface ChartAnnotation {
+  id: string;
+  type: AnnotationType;
+  points: AnnotationPoint[]; // One for horizontal lines and notes, two for the others
+  text?: string; // Notes only
+  color?: string;
+}
+
+export type AlertCondition = 'above' | 'below' | 'crosses_above' | 'crosses_below' | 'change_percent' | 'stale';
+
+export interface AlertRule {
+  id: string;
+  field: string; // apiField of one of the widget's field mappings
+  condition: AlertCondition;
+  threshold?: number; // Level to compare with; for change_percent, the size of the move in percent
+  staleMinutes?: number; // stale only: how long the value may go unchanged
+  cooldown?: number; // Minutes before the rule fires again for the same row; 15 by default
+  enabled?: boolean; // false pauses the rule
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  symbols: string[]; // In the order the user arranged them
+}
+
+export interface WatchlistConfig {
+  lists: Watchlist[];
+  activeList?: string; // id of the list shown; the first when unset
+  density?: 'compact' | 'expanded';
+}
+
+export interface StreamConfig {
+  type: 'websocket' | 'sse' | 'longpoll';
+  url: string; // May contain vault placeholders; long polls may use {{cursor}}
+  subscribeMessage?: string; // WebSocket only. Sent once per symbol; supports {{symbol}} and vault placeholders
+  unsubscribeMessage?: string;
+  heartbeatMessage?: string; // Sent every heartbeatInterval seconds while connected
+  heartbeatInterval?: number; // in seconds
+  events?: string[]; // Server-Sent Event names to accept; all when unset
+  cursorPath?: string; // Long poll only: selector for the cursor to resume from in each response
+  tickPath?: string; // Selector for the tick or row, or the list of them, in a message, e.g. "data"
+  merge?: 'ticks' | 'rows'; // Update prices by symbol, or add messages as rows; ticks for WebSockets by default
+  keyField?: string; // Rows only: a row replaces the one with the same value here instead of being appended
+  fields?: StreamFields;
+}
+
+// Where each value sits in a tick; unset fields fall back to common names
+export interface StreamFields {
+  symbol?: string;
+  price?: string;
+  volume?: string;
+  time?: string;
+}
+
+export interface StreamTick {
+  symbol: string;
+  price: number;
+  volume?: number; // Traded since the previous tick
+  time: number; // milliseconds since the epoch
+}
+
+export interface GraphqlQuery {
+  query: string;
+  variables?: Record<string, any>;
+}
+
+export interface TransformConfig {
+  root?: string; // Selector for the part of the response holding the rows, e.g. "$['Time Series (Daily)']"
+  explode?: { keyAs: string }; // Turn a keyed map into rows, storing each key under this column
+  columns?: ComputedColumn[];
+  filters?: RowFilter[];
+}
+
+export interface ComputedColumn {
+  name: string;
+  expression: string; // Arithmetic over {field} references, e.g. "{close} - {open}"
+}
+
+export interface RowFilter {
+  field: string;
+  operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'exists';
+  value?: string;
+}
+
 export interface ApiField {
   key: string;
   label: string;
@@ -77,10 +229,13 @@ export interface FieldMapping {
 }
 
 export interface DashboardLayout {
+  id: string;
+  name: string;
   widgets: Widget[];
-  theme: 'light' | 'dark';
+  theme?: 'light' | 'dark'; // Only written to exports; the active theme is global
   autoRefresh: boolean;
   refreshInterval: number;
+  createdAt?: string;
 }
 
 export interface ApiResponse {